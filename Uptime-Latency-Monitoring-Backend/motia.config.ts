@@ -4,7 +4,17 @@ import logsPlugin from '@motiadev/plugin-logs/plugin'
 import observabilityPlugin from '@motiadev/plugin-observability/plugin'
 import statesPlugin from '@motiadev/plugin-states/plugin'
 import bullmqPlugin from '@motiadev/plugin-bullmq/plugin'
+import { authPlugin, mountCors, streamAuth } from './src/plugins/auth'
+import { configFilePlugin } from './src/plugins/config-file'
+import { legacyMetricsPlugin } from './src/plugins/legacy-metrics'
+import { mountStatusStream, statusStreamPlugin } from './src/plugins/status-stream'
 
 export default defineConfig({
-  plugins: [observabilityPlugin, statesPlugin, endpointPlugin, logsPlugin, bullmqPlugin],
+  app: app => {
+    mountCors(app)
+    // GET /status/stream holds its response open, so it lives on the app rather than in a step
+    mountStatusStream(app)
+  },
+  streamAuth,
+  plugins: [observabilityPlugin, statesPlugin, endpointPlugin, logsPlugin, bullmqPlugin, authPlugin, statusStreamPlugin, legacyMetricsPlugin, configFilePlugin],
 })
@@ -0,0 +1,59 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema } from '../services/monitors';
+import { acknowledgeIncident, acknowledgeSchema, getIncident, incidentSchema } from '../services/incidents';
+import { authOf, requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'AcknowledgeIncidentAPI',
+  type: 'api',
+  path: '/incidents/:id/ack',
+  method: 'POST',
+  description: 'Acknowledge an open incident; further alerts for it are suppressed until recovery',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  bodySchema: acknowledgeSchema,
+  responseSchema: {
+    200: incidentSchema,
+    400: errorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    409: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['AcknowledgeIncidentAPI'] = async (request, { logger, state }) => {
+  const incidentId = request.pathParams.id;
+
+  const parsed = acknowledgeSchema.safeParse(request.body ?? {});
+  if (!parsed.success) {
+    logger.warn('Invalid acknowledge request', { incidentId, errors: parsed.error.format() });
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+
+  try {
+    const incident = await getIncident(state, incidentId);
+    if (!incident) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+    if (incident.status !== 'open') {
+      return { status: 409, body: { error: 'incident_resolved' } };
+    }
+
+    const { keyId } = authOf(request);
+    const updated = await acknowledgeIncident(state, incident, parsed.data.by, parsed.data.note, keyId);
+    logger.info('Incident acknowledged', {
+      incidentId,
+      monitorId: incident.monitorId,
+      by: updated.acknowledgedBy,
+      keyId: updated.acknowledgedByKeyId
+    });
+
+    return { status: 200, body: updated };
+  } catch (err) {
+    logger.error('Failed to acknowledge incident', { incidentId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
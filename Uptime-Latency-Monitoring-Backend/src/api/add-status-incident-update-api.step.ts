@@ -0,0 +1,55 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema } from '../services/monitors';
+import {
+  addStatusIncidentUpdate,
+  getStatusIncident,
+  statusIncidentSchema,
+  statusIncidentUpdateInputSchema
+} from '../services/status-pages';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'AddStatusIncidentUpdateAPI',
+  type: 'api',
+  path: '/status-pages/:id/incidents/:incidentId/updates',
+  method: 'POST',
+  description: 'Add an update (investigating, identified, monitoring or resolved) to a status page incident and notify subscribers',
+  emits: ['STATUS_PAGE_POSTED'],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  bodySchema: statusIncidentUpdateInputSchema,
+  responseSchema: {
+    200: statusIncidentSchema,
+    400: errorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['AddStatusIncidentUpdateAPI'] = async (request, { logger, state, emit }) => {
+  const { id: pageId, incidentId } = request.pathParams;
+  const parsed = statusIncidentUpdateInputSchema.safeParse(request.body as unknown);
+  if (!parsed.success) {
+    logger.warn('Invalid status incident update', { pageId, incidentId, errors: parsed.error.format() });
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+
+  try {
+    const incident = await getStatusIncident(state, incidentId);
+    if (!incident || incident.pageId !== pageId) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    const updated = await addStatusIncidentUpdate(state, incident, parsed.data);
+    const update = updated.updates[updated.updates.length - 1];
+    await emit({ topic: 'STATUS_PAGE_POSTED', data: { pageId, incidentId, updateId: update.id } });
+    logger.info('Status incident updated', { pageId, incidentId, status: update.status });
+
+    return { status: 200, body: updated };
+  } catch (err) {
+    logger.error('Failed to update status incident', { pageId, incidentId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
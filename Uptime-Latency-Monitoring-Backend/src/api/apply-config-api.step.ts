@@ -0,0 +1,68 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { applyConfigPlan, configChangeSchema, configDocumentSchema, parseConfigText, planConfig, validateConfig } from '../services/config-sync';
+import { queryParam } from '../utils/query';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ApplyConfigAPI',
+  type: 'api',
+  path: '/config/apply',
+  method: 'POST',
+  description:
+    'Sync channels and monitors to a config document (JSON body, or YAML sent as text/plain); ?dryRun=true only returns the diff',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  queryParams: [
+    { name: 'dryRun', description: 'true to return the planned changes without applying them' },
+    { name: 'prune', description: 'true to also delete channels and monitors the document does not list, including ones created through the API' }
+  ],
+  bodySchema: configDocumentSchema,
+  responseSchema: {
+    200: z.object({ dryRun: z.boolean(), changes: z.array(configChangeSchema), unchanged: z.number() }),
+    400: errorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ApplyConfigAPI'] = async (request, { logger, state }) => {
+  const dryRun = queryParam(request.queryParams, 'dryRun') === 'true';
+  const prune = queryParam(request.queryParams, 'prune') === 'true';
+
+  let raw: unknown = request.body;
+  if (typeof raw === 'string') {
+    try {
+      raw = parseConfigText(raw);
+    } catch (err) {
+      return { status: 400, body: { error: 'invalid_yaml', details: { message: err instanceof Error ? err.message : String(err) } } };
+    }
+  }
+
+  const { document, errors } = validateConfig(raw);
+  if (!document) {
+    logger.warn('Invalid config document', { errors });
+    return { status: 400, body: { error: 'invalid_config', details: { errors } } };
+  }
+
+  try {
+    const plan = await planConfig(state, document, { prune });
+    if (plan.errors.length > 0) {
+      logger.warn('Config document does not apply', { errors: plan.errors });
+      return { status: 400, body: { error: 'invalid_config', details: { errors: plan.errors } } };
+    }
+
+    if (!dryRun) {
+      await applyConfigPlan(state, plan);
+      logger.info('Config applied', { changes: plan.changes.length, unchanged: plan.unchanged, prune });
+    }
+
+    return { status: 200, body: { dryRun, changes: plan.changes, unchanged: plan.unchanged } };
+  } catch (err) {
+    logger.error('Failed to apply config', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,72 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { deleteMonitorData, errorSchema, selectMonitors, setMonitorPaused, tagSelectorSchema } from '../services/monitors';
+import { requireScope } from '../middleware/auth';
+
+// An empty selector would match every monitor, so at least one term is required; so would one
+// made only of negations, so deletes also need a term that picks monitors by what they carry
+const bulkInputSchema = z
+  .object({
+    action: z.enum(['pause', 'resume', 'delete']),
+    tags: tagSelectorSchema.min(1),
+    // list the monitors that would be affected without changing anything
+    dryRun: z.boolean().optional()
+  })
+  .refine(d => d.action !== 'delete' || d.tags.some(term => !term.startsWith('!')), {
+    message: 'delete needs at least one tag term that is not a negation',
+    path: ['tags']
+  });
+
+export const config: ApiRouteConfig = {
+  name: 'BulkMonitorsAPI',
+  type: 'api',
+  path: '/monitors/bulk',
+  method: 'POST',
+  description: 'Pause, resume or delete every monitor matching a tag selector (env:prod, team:*, !env:staging; all terms must match)',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  bodySchema: bulkInputSchema,
+  responseSchema: {
+    200: z.object({ action: z.string(), dryRun: z.boolean(), count: z.number(), monitorIds: z.array(z.string()) }),
+    400: errorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['BulkMonitorsAPI'] = async (request, { logger, state }) => {
+  const parsed = bulkInputSchema.safeParse(request.body as unknown);
+  if (!parsed.success) {
+    logger.warn('Invalid bulk monitor request', { errors: parsed.error.format() });
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+
+  const { action, tags, dryRun } = parsed.data;
+
+  try {
+    const monitors = await selectMonitors(state, tags);
+    // Monitors already in the requested pause state are left alone
+    const targets = monitors.filter(m => action === 'delete' || m.paused !== (action === 'pause'));
+
+    if (!dryRun) {
+      for (const monitor of targets) {
+        if (action === 'delete') {
+          await deleteMonitorData(state, monitor.id);
+        } else {
+          await setMonitorPaused(state, monitor, action === 'pause', `${action}d via bulk API (${tags.join(',')})`);
+        }
+      }
+      logger.info('Bulk monitor action applied', { action, tags, count: targets.length });
+    }
+
+    return {
+      status: 200,
+      body: { action, dryRun: dryRun === true, count: targets.length, monitorIds: targets.map(m => m.id) }
+    };
+  } catch (err) {
+    logger.error('Failed to apply bulk monitor action', { action, tags, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
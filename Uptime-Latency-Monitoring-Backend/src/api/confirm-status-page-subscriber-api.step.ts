@@ -0,0 +1,38 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { confirmSubscriber, getStatusPageBySlug } from '../services/status-pages';
+import { publicStatusPage } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ConfirmStatusPageSubscriberAPI',
+  type: 'api',
+  path: '/public/status/:slug/subscribers/confirm/:token',
+  method: 'GET',
+  description: 'Activate a pending status page subscription with the confirm token sent to the address or webhook',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [publicStatusPage],
+  responseSchema: {
+    200: z.object({ confirmed: z.boolean() }),
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ConfirmStatusPageSubscriberAPI'] = async (request, { logger, state }) => {
+  const { slug, token } = request.pathParams;
+
+  try {
+    const page = await getStatusPageBySlug(state, slug);
+    const subscriber = page ? await confirmSubscriber(state, page.id, token) : null;
+    if (!page || !subscriber) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+    logger.info('Status page subscriber confirmed', { pageId: page.id, subscriberId: subscriber.id });
+    return { status: 200, headers: { 'Access-Control-Allow-Origin': '*' }, body: { confirmed: true } };
+  } catch (err) {
+    logger.error('Failed to confirm status page subscriber', { slug, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,54 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { apiKeyInputSchema, apiKeySchema, createApiKey } from '../services/auth';
+import { getWorkspace } from '../services/workspaces';
+import { authOf, requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'CreateApiKeyAPI',
+  type: 'api',
+  path: '/api-keys',
+  method: 'POST',
+  description: 'Create an API key in the caller\'s workspace; the key itself is only returned this once',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('admin')],
+  bodySchema: apiKeyInputSchema,
+  responseSchema: {
+    201: apiKeySchema.extend({ key: z.string() }),
+    400: errorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['CreateApiKeyAPI'] = async (request, { logger, state }) => {
+  const parsed = apiKeyInputSchema.safeParse(request.body as unknown);
+  if (!parsed.success) {
+    logger.warn('Invalid API key creation request', { errors: parsed.error.format() });
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+
+  const auth = authOf(request);
+  if (parsed.data.workspaceId && !auth.root && parsed.data.workspaceId !== auth.workspaceId) {
+    return { status: 403, body: { error: 'root_key_required' } };
+  }
+  const workspaceId = parsed.data.workspaceId ?? auth.workspaceId;
+
+  try {
+    if (!(await getWorkspace(state, workspaceId))) {
+      return { status: 404, body: { error: 'unknown_workspace', details: { workspaceId } } };
+    }
+
+    const { apiKey, key } = await createApiKey(state, workspaceId, parsed.data);
+    logger.info('API key created', { keyId: apiKey.id, workspaceId, scope: apiKey.scope });
+
+    return { status: 201, body: { ...apiKey, key } };
+  } catch (err) {
+    logger.error('Failed to store API key', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,49 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { randomUUID } from 'crypto';
+import { errorSchema } from '../services/monitors';
+import { buildChannel, channelCreateSchema, channelSchema, getChannel, redactChannel, saveChannel } from '../services/channels';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'CreateChannelAPI',
+  type: 'api',
+  path: '/channels',
+  method: 'POST',
+  description: 'Create a notification channel (smtp, email_api, webhook, slack, discord, teams or events_api) that monitors can reference',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  bodySchema: channelCreateSchema,
+  responseSchema: {
+    201: channelSchema,
+    400: errorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    409: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['CreateChannelAPI'] = async (request, { logger, state }) => {
+  const parsed = channelCreateSchema.safeParse(request.body as unknown);
+  if (!parsed.success) {
+    logger.warn('Invalid channel creation request', { errors: parsed.error.format() });
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+
+  const channel = buildChannel(parsed.data.id ?? randomUUID(), parsed.data);
+
+  try {
+    if (parsed.data.id && (await getChannel(state, parsed.data.id))) {
+      return { status: 409, body: { error: 'id_taken', details: { id: parsed.data.id } } };
+    }
+
+    await saveChannel(state, channel);
+    logger.info('Channel created', { channelId: channel.id, type: channel.type });
+
+    return { status: 201, body: redactChannel(channel) };
+  } catch (err) {
+    logger.error('Failed to store channel', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
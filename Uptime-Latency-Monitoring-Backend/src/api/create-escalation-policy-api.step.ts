@@ -0,0 +1,54 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { randomUUID } from 'crypto';
+import { errorSchema } from '../services/monitors';
+import {
+  buildEscalationPolicy,
+  escalationPolicyInputSchema,
+  escalationPolicySchema,
+  missingPolicyTargets,
+  saveEscalationPolicy
+} from '../services/escalations';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'CreateEscalationPolicyAPI',
+  type: 'api',
+  path: '/escalation-policies',
+  method: 'POST',
+  description: 'Create an escalation policy: ordered levels of rotations/channels paged until the incident is acknowledged',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  bodySchema: escalationPolicyInputSchema,
+  responseSchema: {
+    201: escalationPolicySchema,
+    400: errorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['CreateEscalationPolicyAPI'] = async (request, { logger, state }) => {
+  const parsed = escalationPolicyInputSchema.safeParse(request.body as unknown);
+  if (!parsed.success) {
+    logger.warn('Invalid escalation policy request', { errors: parsed.error.format() });
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+
+  try {
+    const missing = await missingPolicyTargets(state, parsed.data);
+    if (missing.rotations.length > 0 || missing.channels.length > 0) {
+      return { status: 400, body: { error: 'unknown_target', details: missing } };
+    }
+
+    const policy = buildEscalationPolicy(randomUUID(), parsed.data);
+    await saveEscalationPolicy(state, policy);
+    logger.info('Escalation policy created', { policyId: policy.id, levels: policy.levels.length });
+
+    return { status: 201, body: policy };
+  } catch (err) {
+    logger.error('Failed to store escalation policy', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
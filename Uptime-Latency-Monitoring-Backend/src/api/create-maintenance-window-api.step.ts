@@ -0,0 +1,54 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { randomUUID } from 'crypto';
+import { errorSchema, missingMonitors } from '../services/monitors';
+import {
+  buildMaintenanceWindow,
+  maintenanceWindowInputSchema,
+  maintenanceWindowStatus,
+  maintenanceWindowStatusSchema,
+  saveMaintenanceWindow
+} from '../services/maintenance';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'CreateMaintenanceWindowAPI',
+  type: 'api',
+  path: '/maintenance-windows',
+  method: 'POST',
+  description: 'Schedule a one-off or recurring (cron, UTC) maintenance window for monitors selected by id or tag',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  bodySchema: maintenanceWindowInputSchema,
+  responseSchema: {
+    201: maintenanceWindowStatusSchema,
+    400: errorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['CreateMaintenanceWindowAPI'] = async (request, { logger, state }) => {
+  const parsed = maintenanceWindowInputSchema.safeParse(request.body as unknown);
+  if (!parsed.success) {
+    logger.warn('Invalid maintenance window request', { errors: parsed.error.format() });
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+
+  try {
+    const missing = await missingMonitors(state, parsed.data.monitorIds);
+    if (missing.length > 0) {
+      return { status: 400, body: { error: 'unknown_monitor', details: { monitors: missing } } };
+    }
+
+    const window = buildMaintenanceWindow(randomUUID(), parsed.data);
+    await saveMaintenanceWindow(state, window);
+    logger.info('Maintenance window created', { windowId: window.id, recurring: window.cron !== null });
+
+    return { status: 201, body: maintenanceWindowStatus(window, Date.now()) };
+  } catch (err) {
+    logger.error('Failed to store maintenance window', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,49 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { randomUUID } from 'crypto';
+import { errorSchema } from '../services/monitors';
+import { missingChannels } from '../services/channels';
+import { buildRotation, rotationInputSchema, rotationSchema, saveRotation } from '../services/oncall';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'CreateRotationAPI',
+  type: 'api',
+  path: '/rotations',
+  method: 'POST',
+  description: 'Create a daily or weekly on-call rotation; each participant is reached through a notification channel',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  bodySchema: rotationInputSchema,
+  responseSchema: {
+    201: rotationSchema,
+    400: errorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['CreateRotationAPI'] = async (request, { logger, state }) => {
+  const parsed = rotationInputSchema.safeParse(request.body as unknown);
+  if (!parsed.success) {
+    logger.warn('Invalid rotation creation request', { errors: parsed.error.format() });
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+
+  try {
+    const missing = await missingChannels(state, parsed.data.participants.map(p => p.channelId));
+    if (missing.length > 0) {
+      return { status: 400, body: { error: 'unknown_channel', details: { channels: missing } } };
+    }
+
+    const rotation = buildRotation(randomUUID(), parsed.data);
+    await saveRotation(state, rotation);
+    logger.info('Rotation created', { rotationId: rotation.id, type: rotation.type, participants: rotation.participants.length });
+
+    return { status: 201, body: rotation };
+  } catch (err) {
+    logger.error('Failed to store rotation', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
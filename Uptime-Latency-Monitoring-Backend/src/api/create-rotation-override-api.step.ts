@@ -0,0 +1,55 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema } from '../services/monitors';
+import { missingChannels } from '../services/channels';
+import { addOverride, getRotation, overrideInputSchema, rotationSchema } from '../services/oncall';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'CreateRotationOverrideAPI',
+  type: 'api',
+  path: '/rotations/:id/overrides',
+  method: 'POST',
+  description: 'Put someone else on call for a time range (holiday swaps, sick days); the newest override wins',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  bodySchema: overrideInputSchema,
+  responseSchema: {
+    201: rotationSchema,
+    400: errorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['CreateRotationOverrideAPI'] = async (request, { logger, state }) => {
+  const rotationId = request.pathParams.id;
+
+  const parsed = overrideInputSchema.safeParse(request.body as unknown);
+  if (!parsed.success) {
+    logger.warn('Invalid rotation override request', { rotationId, errors: parsed.error.format() });
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+
+  try {
+    const rotation = await getRotation(state, rotationId);
+    if (!rotation) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    const missing = await missingChannels(state, [parsed.data.participant.channelId]);
+    if (missing.length > 0) {
+      return { status: 400, body: { error: 'unknown_channel', details: { channels: missing } } };
+    }
+
+    const updated = await addOverride(state, rotation, parsed.data);
+    logger.info('Rotation override added', { rotationId, participant: parsed.data.participant.name, from: parsed.data.from, to: parsed.data.to });
+
+    return { status: 201, body: updated };
+  } catch (err) {
+    logger.error('Failed to add rotation override', { rotationId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,53 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { randomUUID } from 'crypto';
+import { errorSchema, missingMonitors } from '../services/monitors';
+import { buildSilence, saveSilence, silenceActiveAt, silenceInputSchema, silenceStatusSchema } from '../services/maintenance';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'CreateSilenceAPI',
+  type: 'api',
+  path: '/silences',
+  method: 'POST',
+  description: 'Mute notifications for monitors selected by id or tag, from now (or startsAt) for a duration or until endsAt',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  bodySchema: silenceInputSchema,
+  responseSchema: {
+    201: silenceStatusSchema,
+    400: errorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['CreateSilenceAPI'] = async (request, { logger, state }) => {
+  const parsed = silenceInputSchema.safeParse(request.body as unknown);
+  if (!parsed.success) {
+    logger.warn('Invalid silence request', { errors: parsed.error.format() });
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+
+  try {
+    const missing = await missingMonitors(state, parsed.data.monitorIds);
+    if (missing.length > 0) {
+      return { status: 400, body: { error: 'unknown_monitor', details: { monitors: missing } } };
+    }
+
+    const now = Date.now();
+    const silence = buildSilence(randomUUID(), parsed.data, now);
+    if (Date.parse(silence.endsAt) <= Math.max(now, Date.parse(silence.startsAt))) {
+      return { status: 400, body: { error: 'invalid_input', details: { endsAt: 'must be in the future and after startsAt' } } };
+    }
+
+    await saveSilence(state, silence, now);
+    logger.info('Silence created', { silenceId: silence.id, endsAt: silence.endsAt });
+
+    return { status: 201, body: { ...silence, active: silenceActiveAt(silence, now) } };
+  } catch (err) {
+    logger.error('Failed to store silence', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,47 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { randomUUID } from 'crypto';
+import { errorSchema, getMonitor } from '../services/monitors';
+import { buildSlo, saveSlo, sloInputSchema, sloSchema } from '../services/slos';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'CreateSloAPI',
+  type: 'api',
+  path: '/slos',
+  method: 'POST',
+  description: 'Attach an availability or latency SLO to a monitor, with multi-window burn-rate alert rules',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  bodySchema: sloInputSchema,
+  responseSchema: {
+    201: sloSchema,
+    400: errorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['CreateSloAPI'] = async (request, { logger, state }) => {
+  const parsed = sloInputSchema.safeParse(request.body as unknown);
+  if (!parsed.success) {
+    logger.warn('Invalid SLO creation request', { errors: parsed.error.format() });
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+
+  try {
+    if (!(await getMonitor(state, parsed.data.monitorId))) {
+      return { status: 400, body: { error: 'unknown_monitor', details: { monitors: [parsed.data.monitorId] } } };
+    }
+
+    const slo = buildSlo(randomUUID(), parsed.data);
+    await saveSlo(state, slo);
+    logger.info('SLO created', { sloId: slo.id, monitorId: slo.monitorId, indicator: slo.indicator, target: slo.target });
+
+    return { status: 201, body: slo };
+  } catch (err) {
+    logger.error('Failed to store SLO', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,59 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema } from '../services/monitors';
+import {
+  createStatusIncident,
+  getStatusPage,
+  statusIncidentInputSchema,
+  statusIncidentSchema,
+  unknownComponents
+} from '../services/status-pages';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'CreateStatusIncidentAPI',
+  type: 'api',
+  path: '/status-pages/:id/incidents',
+  method: 'POST',
+  description: 'Post a customer-facing incident on a status page and notify its subscribers',
+  emits: ['STATUS_PAGE_POSTED'],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  bodySchema: statusIncidentInputSchema,
+  responseSchema: {
+    201: statusIncidentSchema,
+    400: errorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['CreateStatusIncidentAPI'] = async (request, { logger, state, emit }) => {
+  const pageId = request.pathParams.id;
+  const parsed = statusIncidentInputSchema.safeParse(request.body as unknown);
+  if (!parsed.success) {
+    logger.warn('Invalid status incident request', { pageId, errors: parsed.error.format() });
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+
+  try {
+    const page = await getStatusPage(state, pageId);
+    if (!page) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+    const unknown = unknownComponents(page, parsed.data.componentIds);
+    if (unknown.length > 0) {
+      return { status: 400, body: { error: 'unknown_component', details: { components: unknown } } };
+    }
+
+    const incident = await createStatusIncident(state, page, parsed.data);
+    await emit({ topic: 'STATUS_PAGE_POSTED', data: { pageId, incidentId: incident.id, updateId: incident.updates[0].id } });
+    logger.info('Status incident posted', { pageId, incidentId: incident.id, impact: incident.impact });
+
+    return { status: 201, body: incident };
+  } catch (err) {
+    logger.error('Failed to post status incident', { pageId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,59 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema } from '../services/monitors';
+import {
+  createMaintenanceNotice,
+  getStatusPage,
+  maintenanceNoticeInputSchema,
+  maintenanceNoticeSchema,
+  unknownComponents
+} from '../services/status-pages';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'CreateStatusMaintenanceAPI',
+  type: 'api',
+  path: '/status-pages/:id/maintenance',
+  method: 'POST',
+  description: 'Announce scheduled maintenance on a status page and notify its subscribers',
+  emits: ['STATUS_PAGE_POSTED'],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  bodySchema: maintenanceNoticeInputSchema,
+  responseSchema: {
+    201: maintenanceNoticeSchema,
+    400: errorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['CreateStatusMaintenanceAPI'] = async (request, { logger, state, emit }) => {
+  const pageId = request.pathParams.id;
+  const parsed = maintenanceNoticeInputSchema.safeParse(request.body as unknown);
+  if (!parsed.success) {
+    logger.warn('Invalid maintenance notice', { pageId, errors: parsed.error.format() });
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+
+  try {
+    const page = await getStatusPage(state, pageId);
+    if (!page) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+    const unknown = unknownComponents(page, parsed.data.componentIds);
+    if (unknown.length > 0) {
+      return { status: 400, body: { error: 'unknown_component', details: { components: unknown } } };
+    }
+
+    const notice = await createMaintenanceNotice(state, page, parsed.data);
+    await emit({ topic: 'STATUS_PAGE_POSTED', data: { pageId, noticeId: notice.id } });
+    logger.info('Maintenance notice posted', { pageId, noticeId: notice.id, scheduledFor: notice.scheduledFor });
+
+    return { status: 201, body: notice };
+  } catch (err) {
+    logger.error('Failed to post maintenance notice', { pageId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
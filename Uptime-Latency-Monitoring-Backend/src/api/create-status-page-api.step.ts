@@ -0,0 +1,51 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { randomUUID } from 'crypto';
+import { errorSchema, missingMonitors } from '../services/monitors';
+import { buildStatusPage, saveStatusPage, statusPageInputSchema, statusPageSchema } from '../services/status-pages';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'CreateStatusPageAPI',
+  type: 'api',
+  path: '/status-pages',
+  method: 'POST',
+  description: 'Create a public status page whose components group monitors by id or tag selector',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  bodySchema: statusPageInputSchema,
+  responseSchema: {
+    201: statusPageSchema,
+    400: errorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    409: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['CreateStatusPageAPI'] = async (request, { logger, state }) => {
+  const parsed = statusPageInputSchema.safeParse(request.body as unknown);
+  if (!parsed.success) {
+    logger.warn('Invalid status page request', { errors: parsed.error.format() });
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+
+  try {
+    const missing = await missingMonitors(state, parsed.data.components.flatMap(c => c.monitorIds ?? []));
+    if (missing.length > 0) {
+      return { status: 400, body: { error: 'unknown_monitor', details: { monitors: missing } } };
+    }
+
+    const page = buildStatusPage(randomUUID(), parsed.data);
+    if (!(await saveStatusPage(state, page))) {
+      return { status: 409, body: { error: 'slug_taken', details: { slug: page.slug } } };
+    }
+    logger.info('Status page created', { pageId: page.id, slug: page.slug });
+
+    return { status: 201, body: page };
+  } catch (err) {
+    logger.error('Failed to store status page', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,51 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema } from '../services/monitors';
+import { getWorkspace, saveWorkspace, workspaceInputSchema, workspaceSchema } from '../services/workspaces';
+import { authOf, requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'CreateWorkspaceAPI',
+  type: 'api',
+  path: '/workspaces',
+  method: 'POST',
+  description: 'Create a workspace (tenant); only the root ADMIN_API_KEY can',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('admin')],
+  bodySchema: workspaceInputSchema,
+  responseSchema: {
+    201: workspaceSchema,
+    400: errorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    409: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['CreateWorkspaceAPI'] = async (request, { logger, state }) => {
+  if (!authOf(request).root) {
+    return { status: 403, body: { error: 'root_key_required' } };
+  }
+
+  const parsed = workspaceInputSchema.safeParse(request.body as unknown);
+  if (!parsed.success) {
+    logger.warn('Invalid workspace creation request', { errors: parsed.error.format() });
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+
+  try {
+    if (await getWorkspace(state, parsed.data.id)) {
+      return { status: 409, body: { error: 'id_taken', details: { id: parsed.data.id } } };
+    }
+
+    const workspace = { ...parsed.data, createdAt: new Date().toISOString() };
+    await saveWorkspace(state, workspace);
+    logger.info('Workspace created', { workspaceId: workspace.id });
+
+    return { status: 201, body: workspace };
+  } catch (err) {
+    logger.error('Failed to store workspace', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
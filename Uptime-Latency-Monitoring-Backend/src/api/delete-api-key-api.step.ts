@@ -0,0 +1,44 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { deleteApiKey, getApiKey } from '../services/auth';
+import { authOf, requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'DeleteApiKeyAPI',
+  type: 'api',
+  path: '/api-keys/:id',
+  method: 'DELETE',
+  description: 'Revoke an API key of the caller\'s workspace',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('admin')],
+  responseSchema: {
+    200: z.object({ keyId: z.string(), deleted: z.boolean() }),
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['DeleteApiKeyAPI'] = async (request, { logger, state }) => {
+  const keyId = request.pathParams.id;
+  const auth = authOf(request);
+
+  try {
+    const apiKey = await getApiKey(state, keyId);
+    // keys of other workspaces are indistinguishable from missing ones, except for the root key
+    if (!apiKey || (!auth.root && apiKey.workspaceId !== auth.workspaceId)) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    await deleteApiKey(state, keyId);
+    logger.info('API key deleted', { keyId, workspaceId: apiKey.workspaceId });
+
+    return { status: 200, body: { keyId, deleted: true } };
+  } catch (err) {
+    logger.error('Failed to delete API key', { keyId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
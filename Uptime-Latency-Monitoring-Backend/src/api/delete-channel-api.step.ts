@@ -0,0 +1,50 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema, listMonitors } from '../services/monitors';
+import { deleteChannel, getChannel } from '../services/channels';
+import { deleteRateLimitState } from '../services/channel-rate-limits';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'DeleteChannelAPI',
+  type: 'api',
+  path: '/channels/:id',
+  method: 'DELETE',
+  description: 'Delete a notification channel that no monitor references',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  responseSchema: {
+    200: z.object({ channelId: z.string(), deleted: z.boolean() }),
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    409: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['DeleteChannelAPI'] = async (request, { logger, state }) => {
+  const channelId = request.pathParams.id;
+
+  try {
+    const channel = await getChannel(state, channelId);
+    if (!channel) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    const users = (await listMonitors(state)).filter(m => m.channels.includes(channelId)).map(m => m.id);
+    if (users.length > 0) {
+      return { status: 409, body: { error: 'channel_in_use', details: { monitors: users } } };
+    }
+
+    await deleteChannel(state, channelId);
+    await deleteRateLimitState(state, channelId);
+    logger.info('Channel deleted', { channelId });
+
+    return { status: 200, body: { channelId, deleted: true } };
+  } catch (err) {
+    logger.error('Failed to delete channel', { channelId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
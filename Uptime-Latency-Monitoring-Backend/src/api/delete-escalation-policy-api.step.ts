@@ -0,0 +1,48 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema, listMonitors } from '../services/monitors';
+import { deleteEscalationPolicy, getEscalationPolicy } from '../services/escalations';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'DeleteEscalationPolicyAPI',
+  type: 'api',
+  path: '/escalation-policies/:id',
+  method: 'DELETE',
+  description: 'Delete an escalation policy that no monitor references',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  responseSchema: {
+    200: z.object({ policyId: z.string(), deleted: z.boolean() }),
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    409: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['DeleteEscalationPolicyAPI'] = async (request, { logger, state }) => {
+  const policyId = request.pathParams.id;
+
+  try {
+    const policy = await getEscalationPolicy(state, policyId);
+    if (!policy) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    const users = (await listMonitors(state)).filter(m => m.escalationPolicyId === policyId).map(m => m.id);
+    if (users.length > 0) {
+      return { status: 409, body: { error: 'policy_in_use', details: { monitors: users } } };
+    }
+
+    await deleteEscalationPolicy(state, policyId);
+    logger.info('Escalation policy deleted', { policyId });
+
+    return { status: 200, body: { policyId, deleted: true } };
+  } catch (err) {
+    logger.error('Failed to delete escalation policy', { policyId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
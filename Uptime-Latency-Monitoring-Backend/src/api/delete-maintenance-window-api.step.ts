@@ -0,0 +1,42 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { deleteMaintenanceWindow, getMaintenanceWindow } from '../services/maintenance';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'DeleteMaintenanceWindowAPI',
+  type: 'api',
+  path: '/maintenance-windows/:id',
+  method: 'DELETE',
+  description: 'Delete a maintenance window; an occurrence in progress ends immediately',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  responseSchema: {
+    200: z.object({ maintenanceWindowId: z.string(), deleted: z.boolean() }),
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['DeleteMaintenanceWindowAPI'] = async (request, { logger, state }) => {
+  const windowId = request.pathParams.id;
+
+  try {
+    const window = await getMaintenanceWindow(state, windowId);
+    if (!window) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    await deleteMaintenanceWindow(state, windowId);
+    logger.info('Maintenance window deleted', { windowId });
+
+    return { status: 200, body: { maintenanceWindowId: windowId, deleted: true } };
+  } catch (err) {
+    logger.error('Failed to delete maintenance window', { windowId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,41 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { deleteMonitorData, errorSchema, getMonitor } from '../services/monitors';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'DeleteMonitorAPI',
+  type: 'api',
+  path: '/monitors/:id',
+  method: 'DELETE',
+  description: 'Delete a monitor along with its metrics, failure counter and state',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  responseSchema: {
+    200: z.object({ monitorId: z.string(), deleted: z.boolean() }),
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['DeleteMonitorAPI'] = async (request, { logger, state }) => {
+  const monitorId = request.pathParams.id;
+
+  try {
+    const monitor = await getMonitor(state, monitorId);
+    if (!monitor) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    await deleteMonitorData(state, monitorId);
+    logger.info('Monitor deleted', { monitorId, url: monitor.url });
+
+    return { status: 200, body: { monitorId, deleted: true } };
+  } catch (err) {
+    logger.error('Failed to delete monitor', { monitorId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,49 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { escalationUsers } from '../services/escalations';
+import { deleteRotation, getRotation } from '../services/oncall';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'DeleteRotationAPI',
+  type: 'api',
+  path: '/rotations/:id',
+  method: 'DELETE',
+  description: 'Delete an on-call rotation that no escalation policy references',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  responseSchema: {
+    200: z.object({ rotationId: z.string(), deleted: z.boolean() }),
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    409: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['DeleteRotationAPI'] = async (request, { logger, state }) => {
+  const rotationId = request.pathParams.id;
+
+  try {
+    const rotation = await getRotation(state, rotationId);
+    if (!rotation) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    const policies = await escalationUsers(state, rotationId);
+    if (policies.length > 0) {
+      return { status: 409, body: { error: 'rotation_in_use', details: { escalationPolicies: policies } } };
+    }
+
+    await deleteRotation(state, rotationId);
+    logger.info('Rotation deleted', { rotationId });
+
+    return { status: 200, body: { rotationId, deleted: true } };
+  } catch (err) {
+    logger.error('Failed to delete rotation', { rotationId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
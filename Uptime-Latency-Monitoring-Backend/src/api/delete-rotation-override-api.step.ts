@@ -0,0 +1,44 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema } from '../services/monitors';
+import { getRotation, removeOverride, rotationSchema } from '../services/oncall';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'DeleteRotationOverrideAPI',
+  type: 'api',
+  path: '/rotations/:id/overrides/:overrideId',
+  method: 'DELETE',
+  description: 'Remove an on-call override',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  responseSchema: {
+    200: rotationSchema,
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['DeleteRotationOverrideAPI'] = async (request, { logger, state }) => {
+  const { id: rotationId, overrideId } = request.pathParams;
+
+  try {
+    const rotation = await getRotation(state, rotationId);
+    if (!rotation) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    const updated = await removeOverride(state, rotation, overrideId);
+    if (!updated) {
+      return { status: 404, body: { error: 'override_not_found' } };
+    }
+    logger.info('Rotation override removed', { rotationId, overrideId });
+
+    return { status: 200, body: updated };
+  } catch (err) {
+    logger.error('Failed to remove rotation override', { rotationId, overrideId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
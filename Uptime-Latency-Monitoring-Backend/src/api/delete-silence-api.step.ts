@@ -0,0 +1,42 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { deleteSilence, getSilence } from '../services/maintenance';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'DeleteSilenceAPI',
+  type: 'api',
+  path: '/silences/:id',
+  method: 'DELETE',
+  description: 'Remove a silence; notifications resume immediately',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  responseSchema: {
+    200: z.object({ silenceId: z.string(), deleted: z.boolean() }),
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['DeleteSilenceAPI'] = async (request, { logger, state }) => {
+  const silenceId = request.pathParams.id;
+
+  try {
+    const silence = await getSilence(state, silenceId);
+    if (!silence) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    await deleteSilence(state, silenceId);
+    logger.info('Silence deleted', { silenceId });
+
+    return { status: 200, body: { silenceId, deleted: true } };
+  } catch (err) {
+    logger.error('Failed to delete silence', { silenceId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,42 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { deleteSlo, getSlo } from '../services/slos';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'DeleteSloAPI',
+  type: 'api',
+  path: '/slos/:id',
+  method: 'DELETE',
+  description: 'Delete an SLO and its burn-rate alert state',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  responseSchema: {
+    200: z.object({ sloId: z.string(), deleted: z.boolean() }),
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['DeleteSloAPI'] = async (request, { logger, state }) => {
+  const sloId = request.pathParams.id;
+
+  try {
+    const slo = await getSlo(state, sloId);
+    if (!slo) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    await deleteSlo(state, sloId);
+    logger.info('SLO deleted', { sloId });
+
+    return { status: 200, body: { sloId, deleted: true } };
+  } catch (err) {
+    logger.error('Failed to delete SLO', { sloId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
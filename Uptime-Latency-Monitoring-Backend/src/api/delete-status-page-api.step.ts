@@ -0,0 +1,42 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { deleteStatusPage, getStatusPage } from '../services/status-pages';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'DeleteStatusPageAPI',
+  type: 'api',
+  path: '/status-pages/:id',
+  method: 'DELETE',
+  description: 'Delete a status page with its incidents, maintenance notices and subscribers',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  responseSchema: {
+    200: z.object({ pageId: z.string(), deleted: z.boolean() }),
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['DeleteStatusPageAPI'] = async (request, { logger, state }) => {
+  const pageId = request.pathParams.id;
+
+  try {
+    const page = await getStatusPage(state, pageId);
+    if (!page) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    await deleteStatusPage(state, page);
+    logger.info('Status page deleted', { pageId, slug: page.slug });
+
+    return { status: 200, body: { pageId, deleted: true } };
+  } catch (err) {
+    logger.error('Failed to delete status page', { pageId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,29 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema } from '../services/monitors';
+import { configDocumentSchema, exportConfig } from '../services/config-sync';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ExportConfigAPI',
+  type: 'api',
+  path: '/config/export',
+  method: 'GET',
+  description: 'Current channels and monitors as a config document that POST /config/apply accepts (secrets redacted)',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  responseSchema: {
+    200: configDocumentSchema,
+    401: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ExportConfigAPI'] = async (_request, { logger, state }) => {
+  try {
+    return { status: 200, body: await exportConfig(state) };
+  } catch (err) {
+    logger.error('Failed to export config', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,34 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema } from '../services/monitors';
+import { exportConfig, renderConfigYaml } from '../services/config-sync';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ExportConfigYamlAPI',
+  type: 'api',
+  path: '/config/export/yaml',
+  method: 'GET',
+  description: 'Current channels and monitors as a YAML config file, ready to commit and apply again (secrets redacted)',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  responseSchema: {
+    // YAML document; JSON schema because step schemas only take zod objects and arrays
+    200: { type: 'string' },
+    401: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ExportConfigYamlAPI'] = async (_request, { logger, state }) => {
+  try {
+    return {
+      status: 200,
+      headers: { 'Content-Type': 'application/yaml; charset=utf-8' },
+      body: renderConfigYaml(await exportConfig(state))
+    };
+  } catch (err) {
+    logger.error('Failed to export config', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,36 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema } from '../services/monitors';
+import { channelSchema, getChannel, redactChannel } from '../services/channels';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'GetChannelAPI',
+  type: 'api',
+  path: '/channels/:id',
+  method: 'GET',
+  description: 'Fetch a single notification channel (secrets redacted)',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  responseSchema: {
+    200: channelSchema,
+    401: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['GetChannelAPI'] = async (request, { logger, state }) => {
+  const channelId = request.pathParams.id;
+
+  try {
+    const channel = await getChannel(state, channelId);
+    if (!channel) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+    return { status: 200, body: redactChannel(channel) };
+  } catch (err) {
+    logger.error('Failed to read channel', { channelId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
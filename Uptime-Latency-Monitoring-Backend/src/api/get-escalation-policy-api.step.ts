@@ -0,0 +1,36 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema } from '../services/monitors';
+import { escalationPolicySchema, getEscalationPolicy } from '../services/escalations';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'GetEscalationPolicyAPI',
+  type: 'api',
+  path: '/escalation-policies/:id',
+  method: 'GET',
+  description: 'Fetch a single escalation policy',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  responseSchema: {
+    200: escalationPolicySchema,
+    401: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['GetEscalationPolicyAPI'] = async (request, { logger, state }) => {
+  const policyId = request.pathParams.id;
+
+  try {
+    const policy = await getEscalationPolicy(state, policyId);
+    if (!policy) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+    return { status: 200, body: policy };
+  } catch (err) {
+    logger.error('Failed to read escalation policy', { policyId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,36 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema } from '../services/monitors';
+import { getIncident, incidentSchema } from '../services/incidents';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'GetIncidentAPI',
+  type: 'api',
+  path: '/incidents/:id',
+  method: 'GET',
+  description: 'Fetch a single incident with its timeline',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  responseSchema: {
+    200: incidentSchema,
+    401: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['GetIncidentAPI'] = async (request, { logger, state }) => {
+  const incidentId = request.pathParams.id;
+
+  try {
+    const incident = await getIncident(state, incidentId);
+    if (!incident) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+    return { status: 200, body: incident };
+  } catch (err) {
+    logger.error('Failed to read incident', { incidentId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,36 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema } from '../services/monitors';
+import { getMaintenanceWindow, maintenanceWindowStatus, maintenanceWindowStatusSchema } from '../services/maintenance';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'GetMaintenanceWindowAPI',
+  type: 'api',
+  path: '/maintenance-windows/:id',
+  method: 'GET',
+  description: 'Fetch a maintenance window and its occurrence in progress, if any',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  responseSchema: {
+    200: maintenanceWindowStatusSchema,
+    401: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['GetMaintenanceWindowAPI'] = async (request, { logger, state }) => {
+  const windowId = request.pathParams.id;
+
+  try {
+    const window = await getMaintenanceWindow(state, windowId);
+    if (!window) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+    return { status: 200, body: maintenanceWindowStatus(window, Date.now()) };
+  } catch (err) {
+    logger.error('Failed to read maintenance window', { windowId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,35 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema, getMonitor, monitorSchema } from '../services/monitors';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'GetMonitorAPI',
+  type: 'api',
+  path: '/monitors/:id',
+  method: 'GET',
+  description: 'Fetch a single monitor configuration by id',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  responseSchema: {
+    200: monitorSchema,
+    401: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['GetMonitorAPI'] = async (request, { logger, state }) => {
+  const monitorId = request.pathParams.id;
+
+  try {
+    const monitor = await getMonitor(state, monitorId);
+    if (!monitor) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+    return { status: 200, body: monitor };
+  } catch (err) {
+    logger.error('Failed to load monitor config', { monitorId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
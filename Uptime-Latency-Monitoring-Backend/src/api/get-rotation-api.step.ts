@@ -0,0 +1,44 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema } from '../services/monitors';
+import { getRotation, onCallAt, onCallSchema, rotationSchema } from '../services/oncall';
+import { parseTimestamp, queryParam } from '../utils/query';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'GetRotationAPI',
+  type: 'api',
+  path: '/rotations/:id',
+  method: 'GET',
+  description: 'Fetch an on-call rotation and who is on call now (or at ?at=)',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  queryParams: [{ name: 'at', description: 'ISO timestamp or epoch ms to resolve the on-call participant for (default now)' }],
+  responseSchema: {
+    200: rotationSchema.extend({ onCall: onCallSchema }),
+    400: errorSchema,
+    401: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['GetRotationAPI'] = async (request, { logger, state }) => {
+  const rotationId = request.pathParams.id;
+  const atParam = queryParam(request.queryParams, 'at');
+  const at = atParam === undefined ? Date.now() : parseTimestamp(atParam);
+  if (at === null) {
+    return { status: 400, body: { error: 'invalid_timestamp', details: { at: atParam } } };
+  }
+
+  try {
+    const rotation = await getRotation(state, rotationId);
+    if (!rotation) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+    return { status: 200, body: { ...rotation, onCall: onCallAt(rotation, at) } };
+  } catch (err) {
+    logger.error('Failed to read rotation', { rotationId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
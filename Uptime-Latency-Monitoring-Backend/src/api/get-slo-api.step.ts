@@ -0,0 +1,36 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema } from '../services/monitors';
+import { buildSloStatus, getSlo, sloSchema, sloStatusSchema } from '../services/slos';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'GetSloAPI',
+  type: 'api',
+  path: '/slos/:id',
+  method: 'GET',
+  description: 'Fetch an SLO with its current attainment, remaining error budget and burn rates',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  responseSchema: {
+    200: sloSchema.extend({ status: sloStatusSchema }),
+    401: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['GetSloAPI'] = async (request, { logger, state }) => {
+  const sloId = request.pathParams.id;
+
+  try {
+    const slo = await getSlo(state, sloId);
+    if (!slo) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+    return { status: 200, body: { ...slo, status: await buildSloStatus(state, slo) } };
+  } catch (err) {
+    logger.error('Failed to compute SLO status', { sloId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
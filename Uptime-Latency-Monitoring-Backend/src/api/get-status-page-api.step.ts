@@ -0,0 +1,49 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { getStatusPage, isSubscriberConfirmed, listSubscribers, statusPageSchema } from '../services/status-pages';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'GetStatusPageAPI',
+  type: 'api',
+  path: '/status-pages/:id',
+  method: 'GET',
+  description: 'Fetch a status page configuration and how many subscribers it has',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  responseSchema: {
+    200: statusPageSchema.extend({ subscribers: z.object({ email: z.number(), webhook: z.number(), pending: z.number() }) }),
+    401: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['GetStatusPageAPI'] = async (request, { logger, state }) => {
+  const pageId = request.pathParams.id;
+
+  try {
+    const page = await getStatusPage(state, pageId);
+    if (!page) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+    const all = await listSubscribers(state, pageId);
+    const subscribers = all.filter(isSubscriberConfirmed);
+    return {
+      status: 200,
+      body: {
+        ...page,
+        subscribers: {
+          email: subscribers.filter(s => s.type === 'email').length,
+          webhook: subscribers.filter(s => s.type === 'webhook').length,
+          pending: all.length - subscribers.length
+        }
+      }
+    };
+  } catch (err) {
+    logger.error('Failed to load status page', { pageId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
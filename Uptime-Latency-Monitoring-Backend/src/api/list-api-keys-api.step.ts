@@ -0,0 +1,32 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { apiKeySchema, listApiKeys } from '../services/auth';
+import { authOf, requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ListApiKeysAPI',
+  type: 'api',
+  path: '/api-keys',
+  method: 'GET',
+  description: 'List the API keys of the caller\'s workspace (keys themselves are never shown again)',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('admin')],
+  responseSchema: {
+    200: z.object({ apiKeys: z.array(apiKeySchema) }),
+    401: errorSchema,
+    403: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ListApiKeysAPI'] = async (request, { logger, state }) => {
+  try {
+    const apiKeys = await listApiKeys(state, authOf(request).workspaceId);
+    return { status: 200, body: { apiKeys } };
+  } catch (err) {
+    logger.error('Failed to list API keys', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,31 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { channelSchema, listChannels, redactChannel } from '../services/channels';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ListChannelsAPI',
+  type: 'api',
+  path: '/channels',
+  method: 'GET',
+  description: 'List notification channels (secrets redacted)',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  responseSchema: {
+    200: z.object({ channels: z.array(channelSchema) }),
+    401: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ListChannelsAPI'] = async (_request, { logger, state }) => {
+  try {
+    const channels = await listChannels(state);
+    return { status: 200, body: { channels: channels.map(redactChannel) } };
+  } catch (err) {
+    logger.error('Failed to list channels', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,31 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { escalationPolicySchema, listEscalationPolicies } from '../services/escalations';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ListEscalationPoliciesAPI',
+  type: 'api',
+  path: '/escalation-policies',
+  method: 'GET',
+  description: 'List escalation policies',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  responseSchema: {
+    200: z.object({ policies: z.array(escalationPolicySchema) }),
+    401: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ListEscalationPoliciesAPI'] = async (_request, { logger, state }) => {
+  try {
+    const policies = await listEscalationPolicies(state);
+    return { status: 200, body: { policies } };
+  } catch (err) {
+    logger.error('Failed to list escalation policies', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
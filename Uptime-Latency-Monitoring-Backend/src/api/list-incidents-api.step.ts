@@ -0,0 +1,52 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema, selectMonitors, tagSelectorSchema } from '../services/monitors';
+import { incidentSchema, incidentStatusSchema, listIncidents } from '../services/incidents';
+import { queryList, queryParam } from '../utils/query';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ListIncidentsAPI',
+  type: 'api',
+  path: '/incidents',
+  method: 'GET',
+  description: 'List incidents, newest first, optionally filtered by monitor, monitor tags and status',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  queryParams: [
+    { name: 'monitorId', description: 'Only incidents of this monitor' },
+    { name: 'status', description: 'open or resolved' },
+    { name: 'tag', description: 'Only incidents of monitors matching this tag selector (repeat or comma-separate terms)' }
+  ],
+  responseSchema: {
+    200: z.object({ incidents: z.array(incidentSchema) }),
+    400: errorSchema,
+    401: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ListIncidentsAPI'] = async (request, { logger, state }) => {
+  const monitorId = queryParam(request.queryParams, 'monitorId');
+  const status = incidentStatusSchema.optional().safeParse(queryParam(request.queryParams, 'status'));
+  if (!status.success) {
+    return { status: 400, body: { error: 'invalid_status', details: { allowed: incidentStatusSchema.options } } };
+  }
+  const selector = tagSelectorSchema.safeParse(queryList(request.queryParams, 'tag'));
+  if (!selector.success) {
+    return { status: 400, body: { error: 'invalid_tag_selector', details: selector.error.format() } };
+  }
+
+  try {
+    let incidents = await listIncidents(state, { monitorId, status: status.data });
+    if (selector.data.length > 0) {
+      const selected = new Set((await selectMonitors(state, selector.data)).map(m => m.id));
+      incidents = incidents.filter(i => selected.has(i.monitorId));
+    }
+    return { status: 200, body: { incidents } };
+  } catch (err) {
+    logger.error('Failed to list incidents', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
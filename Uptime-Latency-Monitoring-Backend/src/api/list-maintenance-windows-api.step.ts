@@ -0,0 +1,32 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { listMaintenanceWindows, maintenanceWindowStatus, maintenanceWindowStatusSchema } from '../services/maintenance';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ListMaintenanceWindowsAPI',
+  type: 'api',
+  path: '/maintenance-windows',
+  method: 'GET',
+  description: 'List maintenance windows and whether each one is in progress',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  responseSchema: {
+    200: z.object({ maintenanceWindows: z.array(maintenanceWindowStatusSchema) }),
+    401: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ListMaintenanceWindowsAPI'] = async (_request, { logger, state }) => {
+  try {
+    const now = Date.now();
+    const windows = await listMaintenanceWindows(state);
+    return { status: 200, body: { maintenanceWindows: windows.map(w => maintenanceWindowStatus(w, now)) } };
+  } catch (err) {
+    logger.error('Failed to list maintenance windows', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,53 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema, monitorSchema, selectMonitors, tagSelectorSchema } from '../services/monitors';
+import { getMonitorStatus, monitorStatusSchema } from '../services/monitor-state';
+import { queryList, queryParam } from '../utils/query';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ListMonitorsAPI',
+  type: 'api',
+  path: '/monitors',
+  method: 'GET',
+  description: 'List monitor configurations, optionally filtered by tag selector and current status',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  queryParams: [
+    { name: 'tag', description: 'Tag selector terms (env:prod, team:*, !env:staging); repeat or comma-separate, all must match' },
+    { name: 'status', description: 'Only monitors currently in this state, e.g. DOWN' }
+  ],
+  responseSchema: {
+    200: z.object({ monitors: z.array(monitorSchema) }),
+    400: errorSchema,
+    401: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ListMonitorsAPI'] = async (request, { logger, state }) => {
+  const selector = tagSelectorSchema.safeParse(queryList(request.queryParams, 'tag'));
+  if (!selector.success) {
+    return { status: 400, body: { error: 'invalid_tag_selector', details: selector.error.format() } };
+  }
+  const status = monitorStatusSchema.optional().safeParse(queryParam(request.queryParams, 'status'));
+  if (!status.success) {
+    return { status: 400, body: { error: 'invalid_status', details: { allowed: monitorStatusSchema.options } } };
+  }
+
+  try {
+    let monitors = await selectMonitors(state, selector.data);
+    if (status.data) {
+      const matching = [];
+      for (const monitor of monitors) {
+        if ((await getMonitorStatus(state, monitor.id)) === status.data) matching.push(monitor);
+      }
+      monitors = matching;
+    }
+    return { status: 200, body: { monitors } };
+  } catch (err) {
+    logger.error('Failed to list monitors', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,32 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { listProbes, probeActiveAt, probeSchema } from '../services/probes';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ListProbesAPI',
+  type: 'api',
+  path: '/probes',
+  method: 'GET',
+  description: 'List probe workers by region with when they were last heard from; only active probes are sent checks',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  responseSchema: {
+    200: z.object({ probes: z.array(probeSchema) }),
+    401: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ListProbesAPI'] = async (_request, { logger, state }) => {
+  try {
+    const now = Date.now();
+    const probes = (await listProbes(state)).map(p => ({ ...p, active: probeActiveAt(p, now) }));
+    return { status: 200, body: { probes } };
+  } catch (err) {
+    logger.error('Failed to list probes', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
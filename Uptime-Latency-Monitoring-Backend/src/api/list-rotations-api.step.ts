@@ -0,0 +1,32 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { listRotations, onCallAt, onCallSchema, rotationSchema } from '../services/oncall';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ListRotationsAPI',
+  type: 'api',
+  path: '/rotations',
+  method: 'GET',
+  description: 'List on-call rotations with who is currently on call',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  responseSchema: {
+    200: z.object({ rotations: z.array(rotationSchema.extend({ onCall: onCallSchema })) }),
+    401: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ListRotationsAPI'] = async (_request, { logger, state }) => {
+  try {
+    const now = Date.now();
+    const rotations = await listRotations(state);
+    return { status: 200, body: { rotations: rotations.map(r => ({ ...r, onCall: onCallAt(r, now) })) } };
+  } catch (err) {
+    logger.error('Failed to list rotations', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
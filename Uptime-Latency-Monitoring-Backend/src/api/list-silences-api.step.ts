@@ -0,0 +1,38 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { listSilences, silenceActiveAt, silenceStatusSchema } from '../services/maintenance';
+import { queryParam } from '../utils/query';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ListSilencesAPI',
+  type: 'api',
+  path: '/silences',
+  method: 'GET',
+  description: 'List silences, newest first; ?active=true returns only the ones in effect now',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  queryParams: [{ name: 'active', description: 'true to list only silences in effect now' }],
+  responseSchema: {
+    200: z.object({ silences: z.array(silenceStatusSchema) }),
+    401: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ListSilencesAPI'] = async (request, { logger, state }) => {
+  const activeOnly = queryParam(request.queryParams, 'active') === 'true';
+
+  try {
+    const now = Date.now();
+    const silences = (await listSilences(state))
+      .map(s => ({ ...s, active: silenceActiveAt(s, now) }))
+      .filter(s => !activeOnly || s.active);
+    return { status: 200, body: { silences } };
+  } catch (err) {
+    logger.error('Failed to list silences', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,33 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { listSlos, sloSchema } from '../services/slos';
+import { queryParam } from '../utils/query';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ListSlosAPI',
+  type: 'api',
+  path: '/slos',
+  method: 'GET',
+  description: 'List SLO definitions, optionally for one monitor',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  queryParams: [{ name: 'monitorId', description: 'Only SLOs of this monitor' }],
+  responseSchema: {
+    200: z.object({ slos: z.array(sloSchema) }),
+    401: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ListSlosAPI'] = async (request, { logger, state }) => {
+  try {
+    const slos = await listSlos(state, queryParam(request.queryParams, 'monitorId'));
+    return { status: 200, body: { slos } };
+  } catch (err) {
+    logger.error('Failed to list SLOs', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,30 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { listStatusPages, statusPageSchema } from '../services/status-pages';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ListStatusPagesAPI',
+  type: 'api',
+  path: '/status-pages',
+  method: 'GET',
+  description: 'List status pages with their components',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  responseSchema: {
+    200: z.object({ statusPages: z.array(statusPageSchema) }),
+    401: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ListStatusPagesAPI'] = async (_request, { logger, state }) => {
+  try {
+    return { status: 200, body: { statusPages: await listStatusPages(state) } };
+  } catch (err) {
+    logger.error('Failed to list status pages', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,36 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { getWorkspace, listWorkspaces, workspaceSchema } from '../services/workspaces';
+import { authOf, requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ListWorkspacesAPI',
+  type: 'api',
+  path: '/workspaces',
+  method: 'GET',
+  description: 'List workspaces: all of them for the root key, otherwise the key\'s own',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  responseSchema: {
+    200: z.object({ workspaces: z.array(workspaceSchema) }),
+    401: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ListWorkspacesAPI'] = async (request, { logger, state }) => {
+  const auth = authOf(request);
+
+  try {
+    if (auth.root) {
+      return { status: 200, body: { workspaces: await listWorkspaces(state) } };
+    }
+    const own = await getWorkspace(state, auth.workspaceId);
+    return { status: 200, body: { workspaces: own ? [own] : [] } };
+  } catch (err) {
+    logger.error('Failed to list workspaces', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,33 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema, listMonitors } from '../services/monitors';
+import { collectMonitorMetrics } from '../services/metrics-exporter';
+import { OPENMETRICS_CONTENT_TYPE, renderOpenMetrics } from '../utils/openmetrics';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'MetricsAPI',
+  type: 'api',
+  path: '/metrics',
+  method: 'GET',
+  description:
+    'Prometheus scrape endpoint: per-monitor up, latency (last and histogram), status code, consecutive failures, state and check / alert counters in the OpenMetrics text format',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  responseSchema: {
+    // OpenMetrics text; JSON schema because step schemas only take zod objects and arrays
+    200: { type: 'string' },
+    401: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['MetricsAPI'] = async (_request, { logger, state }) => {
+  try {
+    const families = await collectMonitorMetrics(state, await listMonitors(state));
+    return { status: 200, headers: { 'Content-Type': OPENMETRICS_CONTENT_TYPE }, body: renderOpenMetrics(families) };
+  } catch (err) {
+    logger.error('Failed to collect metrics', { error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,58 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema, getMonitor } from '../services/monitors';
+import { deliverySchema, deliveryStatusSchema, listDeliveries, publicDelivery } from '../services/deliveries';
+import { queryParam } from '../utils/query';
+import { requireScope } from '../middleware/auth';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+export const config: ApiRouteConfig = {
+  name: 'MonitorAlertsAPI',
+  type: 'api',
+  path: '/monitors/:id/alerts',
+  method: 'GET',
+  description: 'Alert delivery log for a monitor: one entry per channel with every attempt, newest first',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  queryParams: [
+    { name: 'status', description: 'pending, in_flight, retrying, delivered or dead_lettered' },
+    { name: 'limit', description: `Maximum entries to return (default ${DEFAULT_LIMIT}, max ${MAX_LIMIT})` }
+  ],
+  responseSchema: {
+    200: z.object({ monitorId: z.string(), deliveries: z.array(deliverySchema) }),
+    400: errorSchema,
+    401: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['MonitorAlertsAPI'] = async (request, { logger, state }) => {
+  const monitorId = request.pathParams.id;
+
+  const status = deliveryStatusSchema.optional().safeParse(queryParam(request.queryParams, 'status'));
+  if (!status.success) {
+    return { status: 400, body: { error: 'invalid_status', details: { allowed: deliveryStatusSchema.options } } };
+  }
+  const limitParam = queryParam(request.queryParams, 'limit');
+  const limit = limitParam === undefined ? DEFAULT_LIMIT : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return { status: 400, body: { error: 'invalid_limit' } };
+  }
+
+  try {
+    const monitor = await getMonitor(state, monitorId);
+    if (!monitor) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    const deliveries = await listDeliveries(state, { monitorId, status: status.data });
+    return { status: 200, body: { monitorId, deliveries: deliveries.slice(0, limit).map(publicDelivery) } };
+  } catch (err) {
+    logger.error('Failed to list alert deliveries', { monitorId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
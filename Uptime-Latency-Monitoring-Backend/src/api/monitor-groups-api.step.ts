@@ -0,0 +1,73 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema, selectMonitors, tagSelectorSchema } from '../services/monitors';
+import { getMonitorStatus, monitorStatusSchema, type MonitorStatus } from '../services/monitor-state';
+import { queryList, queryParam } from '../utils/query';
+import { tagKey, tagValue } from '../utils/tags';
+import { requireScope } from '../middleware/auth';
+
+const groupSchema = z.object({
+  group: z.string(),
+  name: z.string(),
+  total: z.number(),
+  down: z.number(),
+  statuses: z.record(z.string(), z.number()),
+  summary: z.string(),
+  monitors: z.array(z.object({ id: z.string(), name: z.string().nullable(), status: monitorStatusSchema }))
+});
+
+export const config: ApiRouteConfig = {
+  name: 'MonitorGroupsAPI',
+  type: 'api',
+  path: '/monitor-groups',
+  method: 'GET',
+  description: 'Aggregate status per group ("payments: 2 of 14 down"): one group per value of the `by` tag key, or per tag',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  queryParams: [
+    { name: 'by', description: 'Tag key to group by, e.g. team; without it every tag is a group' },
+    { name: 'tag', description: 'Only monitors matching this tag selector (repeat or comma-separate terms)' }
+  ],
+  responseSchema: {
+    200: z.object({ groups: z.array(groupSchema) }),
+    400: errorSchema,
+    401: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['MonitorGroupsAPI'] = async (request, { logger, state }) => {
+  const by = queryParam(request.queryParams, 'by');
+  const selector = tagSelectorSchema.safeParse(queryList(request.queryParams, 'tag'));
+  if (!selector.success) {
+    return { status: 400, body: { error: 'invalid_tag_selector', details: selector.error.format() } };
+  }
+
+  try {
+    const groups = new Map<string, { id: string; name: string | null; status: MonitorStatus }[]>();
+    for (const monitor of await selectMonitors(state, selector.data)) {
+      const tags = by ? monitor.tags.filter(t => tagKey(t) === by) : monitor.tags;
+      if (tags.length === 0) continue;
+      const status = await getMonitorStatus(state, monitor.id);
+      for (const tag of tags) {
+        groups.set(tag, [...(groups.get(tag) ?? []), { id: monitor.id, name: monitor.name, status }]);
+      }
+    }
+
+    const body = [...groups.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([group, monitors]) => {
+        const statuses: Record<string, number> = {};
+        for (const m of monitors) statuses[m.status] = (statuses[m.status] ?? 0) + 1;
+        const down = statuses.DOWN ?? 0;
+        const name = by ? tagValue(group) : group;
+        return { group, name, total: monitors.length, down, statuses, summary: `${name}: ${down} of ${monitors.length} down`, monitors };
+      });
+
+    return { status: 200, body: { groups: body } };
+  } catch (err) {
+    logger.error('Failed to build monitor group status', { by, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,78 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema, getMonitor } from '../services/monitors';
+import { autoResolution, loadSeries, type SeriesResolution } from '../services/reports';
+import { parseTimestamp, queryParam } from '../utils/query';
+import { requireScope } from '../middleware/auth';
+
+const resolutionSchema = z.enum(['auto', 'raw', '1m', '1h', '1d']);
+
+export const config: ApiRouteConfig = {
+  name: 'MonitorMetricsAPI',
+  type: 'api',
+  path: '/monitors/:id/metrics',
+  method: 'GET',
+  description: 'Historical metrics for a monitor as raw samples or 1m/1h/1d rollups',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  queryParams: [
+    { name: 'from', description: 'Range start, ISO timestamp or epoch ms (default: 24h before `to`)' },
+    { name: 'to', description: 'Range end, ISO timestamp or epoch ms (default: now)' },
+    { name: 'resolution', description: 'auto (default), raw, 1m, 1h or 1d' }
+  ],
+  responseSchema: {
+    200: z.object({
+      monitorId: z.string(),
+      from: z.string(),
+      to: z.string(),
+      resolution: z.string(),
+      points: z.array(z.record(z.string(), z.any()))
+    }),
+    400: errorSchema,
+    401: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['MonitorMetricsAPI'] = async (request, { logger, state }) => {
+  const monitorId = request.pathParams.id;
+  const fromParam = queryParam(request.queryParams, 'from');
+  const toParam = queryParam(request.queryParams, 'to');
+
+  const to = toParam === undefined ? Date.now() : parseTimestamp(toParam);
+  const from = fromParam === undefined && to !== null ? to - 24 * 60 * 60 * 1000 : parseTimestamp(fromParam);
+  if (from === null || to === null || from > to) {
+    return { status: 400, body: { error: 'invalid_range', details: { from: fromParam, to: toParam } } };
+  }
+
+  const parsedResolution = resolutionSchema.safeParse(queryParam(request.queryParams, 'resolution') ?? 'auto');
+  if (!parsedResolution.success) {
+    return { status: 400, body: { error: 'invalid_resolution', details: parsedResolution.error.format() } };
+  }
+  const resolution: SeriesResolution =
+    parsedResolution.data === 'auto' ? autoResolution(from, to) : parsedResolution.data;
+
+  try {
+    const monitor = await getMonitor(state, monitorId);
+    if (!monitor) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    const points = await loadSeries(state, monitorId, resolution, from, to);
+    return {
+      status: 200,
+      body: {
+        monitorId,
+        from: new Date(from).toISOString(),
+        to: new Date(to).toISOString(),
+        resolution,
+        points
+      }
+    };
+  } catch (err) {
+    logger.error('Failed to load metrics', { monitorId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
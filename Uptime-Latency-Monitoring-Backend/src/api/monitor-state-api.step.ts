@@ -0,0 +1,40 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema, getMonitor } from '../services/monitors';
+import { getMonitorState, getTransitionHistory, monitorStateSchema, transitionSchema } from '../services/monitor-state';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'MonitorStateAPI',
+  type: 'api',
+  path: '/monitors/:id/state',
+  method: 'GET',
+  description: 'Current state machine status of a monitor and its recent transitions (oldest first)',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  responseSchema: {
+    200: monitorStateSchema.extend({ monitorId: z.string(), transitions: z.array(transitionSchema) }),
+    401: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['MonitorStateAPI'] = async (request, { logger, state }) => {
+  const monitorId = request.pathParams.id;
+
+  try {
+    const monitor = await getMonitor(state, monitorId);
+    if (!monitor) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    const current = await getMonitorState(state, monitorId);
+    const transitions = await getTransitionHistory(state, monitorId);
+    return { status: 200, body: { monitorId, ...current, transitions } };
+  } catch (err) {
+    logger.error('Failed to read monitor state', { monitorId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,82 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema, getMonitor } from '../services/monitors';
+import { buildUptimeReport, REPORT_WINDOWS, type ReportWindow } from '../services/reports';
+import { queryParam } from '../utils/query';
+import { requireScope } from '../middleware/auth';
+
+const latencySchema = z.object({
+  min: z.number(),
+  avg: z.number(),
+  max: z.number(),
+  p50: z.number(),
+  p95: z.number(),
+  p99: z.number(),
+  approximate: z.boolean()
+});
+
+const regionSchema = z.object({
+  region: z.string(),
+  probes: z.array(z.string()),
+  checks: z.number(),
+  successfulChecks: z.number(),
+  uptimePercent: z.number().nullable(),
+  latency: latencySchema.omit({ approximate: true }).nullable(),
+  latest: z.object({ timestamp: z.string(), latency: z.number().nullable(), success: z.boolean() }).nullable()
+});
+
+export const config: ApiRouteConfig = {
+  name: 'MonitorUptimeAPI',
+  type: 'api',
+  path: '/monitors/:id/uptime',
+  method: 'GET',
+  description: 'Uptime report for a monitor: uptime %, incidents, downtime, MTTR/MTBF and latency percentiles, overall and per probe region',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  queryParams: [{ name: 'window', description: '24h (default), 7d or 30d' }],
+  responseSchema: {
+    200: z.object({
+      monitorId: z.string(),
+      window: z.string(),
+      from: z.string(),
+      to: z.string(),
+      checks: z.number(),
+      successfulChecks: z.number(),
+      uptimePercent: z.number().nullable(),
+      incidents: z.number(),
+      downtimeSeconds: z.number(),
+      mttrSeconds: z.number().nullable(),
+      mtbfSeconds: z.number().nullable(),
+      latency: latencySchema.nullable(),
+      regions: z.array(regionSchema),
+      regionsFrom: z.string().nullable()
+    }),
+    400: errorSchema,
+    401: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['MonitorUptimeAPI'] = async (request, { logger, state }) => {
+  const monitorId = request.pathParams.id;
+  const window = queryParam(request.queryParams, 'window') ?? '24h';
+
+  if (!(window in REPORT_WINDOWS)) {
+    return { status: 400, body: { error: 'invalid_window', details: { allowed: Object.keys(REPORT_WINDOWS) } } };
+  }
+
+  try {
+    const monitor = await getMonitor(state, monitorId);
+    if (!monitor) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    const report = await buildUptimeReport(state, monitorId, window as ReportWindow);
+    return { status: 200, body: report };
+  } catch (err) {
+    logger.error('Failed to build uptime report', { monitorId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
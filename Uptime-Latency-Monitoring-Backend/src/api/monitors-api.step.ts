@@ -1,16 +1,10 @@
 import type { ApiRouteConfig, Handlers } from 'motia';
 import { z } from 'zod';
 import { randomUUID } from 'crypto';
-
-const inputSchema = z.object({
-  url: z.string().url(),
-  name: z.string().optional(),
-  failureThreshold: z.number().int().positive().optional(),
-  timeoutMs: z.number().int().positive().optional(),
-  alertWebhookUrl: z.string().url().optional(),
-  alertTo: z.string().optional(),
-  emailFrom: z.string().optional()
-});
+import { buildMonitorConfig, errorSchema, getMonitor, monitorCreateSchema } from '../services/monitors';
+import { missingChannels } from '../services/channels';
+import { getEscalationPolicy } from '../services/escalations';
+import { requireScope } from '../middleware/auth';
 
 export const config: ApiRouteConfig = {
   name: 'CreateMonitorAPI',
@@ -20,8 +14,15 @@ export const config: ApiRouteConfig = {
   description: 'Create a new monitor and store configuration in state',
   emits: [],
   flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  bodySchema: monitorCreateSchema,
   responseSchema: {
-    201: z.object({ monitorId: z.string() })
+    201: z.object({ monitorId: z.string() }),
+    400: errorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    409: errorSchema,
+    500: errorSchema
   }
 };
 
@@ -29,7 +30,7 @@ export const handler: Handlers['CreateMonitorAPI'] = async (request, { logger, s
   const body = request.body as unknown;
 
   // Validate input
-  const parsed = inputSchema.safeParse(body);
+  const parsed = monitorCreateSchema.safeParse(body);
   if (!parsed.success) {
     logger.warn('Invalid monitor creation request', { errors: parsed.error.format() });
     return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
@@ -37,23 +38,27 @@ export const handler: Handlers['CreateMonitorAPI'] = async (request, { logger, s
 
   const data = parsed.data;
 
-  // Generate monitor ID
-  const monitorId = randomUUID();
+  // Use the caller's stable id if given, otherwise generate one
+  const monitorId = data.id ?? randomUUID();
 
   // Build monitor configuration object to store in state
-  const monitorConfig = {
-    id: monitorId,
-    url: data.url,
-    name: data.name ?? null,
-    failureThreshold: data.failureThreshold ?? 3,
-    timeoutMs: data.timeoutMs ?? 5000,
-    alertWebhookUrl: data.alertWebhookUrl ?? null,
-    alertTo: data.alertTo ?? null,
-    emailFrom: data.emailFrom ?? null,
-    createdAt: new Date().toISOString()
-  } as const;
+  const monitorConfig = buildMonitorConfig(monitorId, data);
 
   try {
+    if (data.id && (await getMonitor(state, data.id))) {
+      return { status: 409, body: { error: 'id_taken', details: { id: data.id } } };
+    }
+
+    const missing = await missingChannels(state, data.channels);
+    if (missing.length > 0) {
+      return { status: 400, body: { error: 'unknown_channel', details: { channels: missing } } };
+    }
+
+    const policyId = data.escalationPolicyId;
+    if (policyId && !(await getEscalationPolicy(state, policyId))) {
+      return { status: 400, body: { error: 'unknown_escalation_policy', details: { escalationPolicyId: policyId } } };
+    }
+
     await state.set('monitors', monitorId, monitorConfig);
     logger.info('Monitor created', { monitorId, url: data.url });
 
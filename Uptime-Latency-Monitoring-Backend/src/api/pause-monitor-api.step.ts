@@ -0,0 +1,40 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema, getMonitor, monitorSchema, setMonitorPaused } from '../services/monitors';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'PauseMonitorAPI',
+  type: 'api',
+  path: '/monitors/:id/pause',
+  method: 'POST',
+  description: 'Pause a monitor so PingMonitorsCron stops scheduling checks for it',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  responseSchema: {
+    200: monitorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['PauseMonitorAPI'] = async (request, { logger, state }) => {
+  const monitorId = request.pathParams.id;
+
+  try {
+    const monitor = await getMonitor(state, monitorId);
+    if (!monitor) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    const updated = await setMonitorPaused(state, monitor, true, 'paused via API');
+    logger.info('Monitor paused', { monitorId });
+
+    return { status: 200, body: updated };
+  } catch (err) {
+    logger.error('Failed to pause monitor', { monitorId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
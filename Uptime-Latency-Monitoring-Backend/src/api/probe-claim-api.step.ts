@@ -0,0 +1,61 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema, getMonitor, monitorSchema } from '../services/monitors';
+import { claimJobs, probeClaimSchema, touchProbe } from '../services/probes';
+import { listWorkspaces, workspaceState } from '../services/workspaces';
+import { requireProbe } from '../middleware/auth';
+
+const DEFAULT_CLAIM_MAX = 10;
+
+export const config: ApiRouteConfig = {
+  name: 'ProbeClaimAPI',
+  type: 'api',
+  path: '/probes/claim',
+  method: 'POST',
+  description: 'Probe heartbeat: registers the probe and its region and hands it the check jobs waiting for it in any workspace',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireProbe],
+  bodySchema: probeClaimSchema,
+  responseSchema: {
+    200: z.object({ jobs: z.array(z.object({ jobId: z.string(), roundId: z.string(), monitor: monitorSchema })) }),
+    400: errorSchema,
+    401: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ProbeClaimAPI'] = async (request, { logger, state }) => {
+  const parsed = probeClaimSchema.safeParse(request.body as unknown);
+  if (!parsed.success) {
+    logger.warn('Invalid probe claim', { errors: parsed.error.format() });
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+
+  const { probeId, region, max } = parsed.data;
+
+  try {
+    await touchProbe(state, probeId, region);
+
+    // probes serve every workspace; job ids carry theirs so results find their way back
+    const jobs = [];
+    let remaining = max ?? DEFAULT_CLAIM_MAX;
+    for (const { id: workspaceId } of await listWorkspaces(state)) {
+      if (remaining <= 0) break;
+      const scoped = workspaceState(state, workspaceId);
+      const claimed = await claimJobs(scoped, probeId, remaining);
+      remaining -= claimed.length;
+      for (const job of claimed) {
+        // a monitor deleted since dispatch has nothing left to check; its round is dropped with it
+        const monitor = await getMonitor(scoped, job.monitorId);
+        if (monitor) jobs.push({ jobId: `${workspaceId}/${job.id}`, roundId: job.roundId, monitor });
+      }
+    }
+
+    if (jobs.length > 0) logger.info('Probe claimed check jobs', { probeId, region, jobs: jobs.length });
+    return { status: 200, body: { jobs } };
+  } catch (err) {
+    logger.error('Failed to hand out probe jobs', { probeId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,66 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { probeResultsSchema, recordJobResult, touchProbe } from '../services/probes';
+import { workspaceState } from '../services/workspaces';
+import { requireProbe } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ProbeResultsAPI',
+  type: 'api',
+  path: '/probes/results',
+  method: 'POST',
+  description: 'Probes report check results; a round is evaluated by PingMonitor as soon as every probe in it has answered',
+  emits: ['CHECK_ROUND_COMPLETE'],
+  flows: ['monitoring'],
+  middleware: [requireProbe],
+  bodySchema: probeResultsSchema,
+  responseSchema: {
+    // `unknown` lists jobs that were not accepted, e.g. because their round already closed
+    200: z.object({ accepted: z.number(), unknown: z.array(z.string()) }),
+    400: errorSchema,
+    401: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ProbeResultsAPI'] = async (request, { logger, state, emit }) => {
+  const parsed = probeResultsSchema.safeParse(request.body as unknown);
+  if (!parsed.success) {
+    logger.warn('Invalid probe results', { errors: parsed.error.format() });
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+
+  const { probeId, region, results } = parsed.data;
+
+  try {
+    const probe = await touchProbe(state, probeId, region);
+
+    let accepted = 0;
+    const unknown: string[] = [];
+    for (const { jobId, result } of results) {
+      // job ids are handed out as <workspace>/<job>
+      const separator = jobId.indexOf('/');
+      const workspaceId = jobId.slice(0, Math.max(separator, 0));
+      const recorded =
+        separator > 0 ? await recordJobResult(workspaceState(state, workspaceId), probe, jobId.slice(separator + 1), result) : 'unknown';
+      if (recorded === 'unknown') {
+        unknown.push(jobId);
+        continue;
+      }
+      accepted++;
+      if (recorded.complete) {
+        await emit({
+          topic: 'CHECK_ROUND_COMPLETE',
+          data: { monitorId: recorded.round.monitorId, roundId: recorded.round.id, workspaceId }
+        });
+      }
+    }
+
+    logger.info('Probe results received', { probeId, region, accepted, unknown: unknown.length });
+    return { status: 200, body: { accepted, unknown } };
+  } catch (err) {
+    logger.error('Failed to store probe results', { probeId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,61 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import {
+  componentStatusSchema,
+  getStatusPageBySlug,
+  maintenanceNoticeSchema,
+  publicStatus,
+  statusIncidentSchema
+} from '../services/status-pages';
+import { publicStatusPage } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'PublicStatusPageAPI',
+  type: 'api',
+  path: '/public/status/:slug',
+  method: 'GET',
+  description: 'Customer-facing status page: overall and per-component status, 90 daily uptime bars, incidents and scheduled maintenance',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [publicStatusPage],
+  responseSchema: {
+    200: z.object({
+      page: z.object({ name: z.string(), slug: z.string(), description: z.string().nullable(), url: z.string().nullable() }),
+      status: componentStatusSchema,
+      components: z.array(
+        z.object({
+          id: z.string(),
+          name: z.string(),
+          description: z.string().nullable(),
+          status: componentStatusSchema,
+          uptimePercent: z.number().nullable(),
+          uptime: z.array(z.object({ date: z.string(), uptimePercent: z.number().nullable() }))
+        })
+      ),
+      incidents: z.array(statusIncidentSchema),
+      maintenance: z.array(maintenanceNoticeSchema.extend({ state: z.enum(['scheduled', 'in_progress', 'completed']) })),
+      generatedAt: z.string()
+    }),
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+// Embeddable from any site
+const headers = { 'Access-Control-Allow-Origin': '*', 'Cache-Control': 'public, max-age=30' };
+
+export const handler: Handlers['PublicStatusPageAPI'] = async (request, { logger, state }) => {
+  const slug = request.pathParams.slug;
+
+  try {
+    const page = await getStatusPageBySlug(state, slug);
+    if (!page) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+    return { status: 200, headers, body: await publicStatus(state, page) };
+  } catch (err) {
+    logger.error('Failed to render public status page', { slug, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
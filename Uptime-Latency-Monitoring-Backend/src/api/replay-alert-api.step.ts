@@ -0,0 +1,46 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema } from '../services/monitors';
+import { deliverySchema, getDelivery, publicDelivery, replayDelivery } from '../services/deliveries';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ReplayAlertAPI',
+  type: 'api',
+  path: '/alerts/:id/replay',
+  method: 'POST',
+  description: 'Re-queue a dead-lettered alert delivery with a fresh retry budget',
+  emits: ['DELIVER_NOTIFICATION'],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  responseSchema: {
+    202: deliverySchema,
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    409: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ReplayAlertAPI'] = async (request, { logger, state, emit }) => {
+  const deliveryId = request.pathParams.id;
+
+  try {
+    const delivery = await getDelivery(state, deliveryId);
+    if (!delivery) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+    if (delivery.status !== 'dead_lettered') {
+      return { status: 409, body: { error: 'not_dead_lettered', details: { status: delivery.status } } };
+    }
+
+    const replayed = await replayDelivery(state, delivery);
+    await emit({ topic: 'DELIVER_NOTIFICATION', data: { deliveryId } });
+    logger.info('Dead-lettered delivery replayed', { deliveryId, monitorId: delivery.monitorId });
+
+    return { status: 202, body: publicDelivery(replayed) };
+  } catch (err) {
+    logger.error('Failed to replay delivery', { deliveryId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
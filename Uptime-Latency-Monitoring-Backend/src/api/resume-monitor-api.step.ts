@@ -0,0 +1,41 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema, getMonitor, monitorSchema, setMonitorPaused } from '../services/monitors';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'ResumeMonitorAPI',
+  type: 'api',
+  path: '/monitors/:id/resume',
+  method: 'POST',
+  description: 'Resume a paused monitor so PingMonitorsCron schedules checks again',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  responseSchema: {
+    200: monitorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['ResumeMonitorAPI'] = async (request, { logger, state }) => {
+  const monitorId = request.pathParams.id;
+
+  try {
+    const monitor = await getMonitor(state, monitorId);
+    if (!monitor) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    // Status is unknown until the next check
+    const updated = await setMonitorPaused(state, monitor, false, 'resumed via API');
+    logger.info('Monitor resumed', { monitorId });
+
+    return { status: 200, body: updated };
+  } catch (err) {
+    logger.error('Failed to resume monitor', { monitorId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
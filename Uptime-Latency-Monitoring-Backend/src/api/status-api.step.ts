@@ -1,4 +1,7 @@
 import type { ApiRouteConfig, Handlers } from 'motia';
+import { queryMetrics } from '../services/metrics-store';
+import { regionBreakdown, samplesUptimePercent } from '../services/reports';
+import { requireScope } from '../middleware/auth';
 
 export const config: ApiRouteConfig = {
   name: 'MonitorStatusSSE',
@@ -7,7 +10,8 @@ export const config: ApiRouteConfig = {
   path: '/status/:id',
   description: 'SSE endpoint streaming latest uptime status and latency for a monitor in real time',
   emits: [],
-  flows: ['monitoring']
+  flows: ['monitoring'],
+  middleware: [requireScope('read', { queryToken: true })]
 };
 
 type MonitorMetric = {
@@ -16,6 +20,10 @@ type MonitorMetric = {
   latency?: number;
   statusCode?: number;
   success?: boolean;
+  timings?: { dns: number; tcp: number; tls: number; ttfb: number; download: number };
+  responseSize?: number;
+  maintenance?: boolean;
+  probes?: { probeId: string; region: string; latency: number; statusCode: number; success: boolean }[];
 };
 
 
@@ -38,7 +46,6 @@ export const handler: Handlers['MonitorStatusSSE'] = async (request, { logger, s
   rawRes.setHeader('Cache-Control', 'no-cache');
   rawRes.setHeader('Connection', 'keep-alive');
   rawRes.setHeader('X-Accel-Buffering', 'no');
-  rawRes.setHeader('Access-Control-Allow-Origin', '*');
 
   // Flush headers immediately so client sees the response as a stream
   if (typeof rawRes.flushHeaders === 'function') rawRes.flushHeaders();
@@ -100,19 +107,16 @@ export const handler: Handlers['MonitorStatusSSE'] = async (request, { logger, s
   // Polling loop: fetch latest metrics for monitor and stream updates
   let lastSentKey: string | null = null;
 
+  // Metrics for this monitor within the last 60 minutes, oldest first
+  const loadWindow = async (): Promise<MonitorMetric[]> => {
+    const now = Date.now();
+    const cutoff = now - 60 * 60 * 1000;
+    return (await queryMetrics(state, monitorId, { from: cutoff, to: now })) as MonitorMetric[];
+  };
+
   pollInterval = setInterval(async () => {
     try {
-      const allMetrics = ((await state.getGroup('monitor-metrics')) as MonitorMetric[]) || [];
-      // find metrics for this monitor within last 60 minutes
-      const now = Date.now();
-      const cutoff = now - 60 * 60 * 1000;
-      const relevant = allMetrics
-        .filter((m: any) => m?.monitorId === monitorId)
-        .filter((m: any) => {
-          const t = Date.parse(m?.timestamp ?? '');
-          return !Number.isNaN(t) && t >= cutoff;
-        })
-        .sort((a: any, b: any) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+      const relevant = await loadWindow();
 
       if (relevant.length === 0) {
         // send a heartbeat with no data occasionally
@@ -126,8 +130,7 @@ export const handler: Handlers['MonitorStatusSSE'] = async (request, { logger, s
       // lastSentKey = uniqueKey;
 
       // compute uptime % in window
-      const successes = relevant.filter((r: any) => r.success === true).length;
-      const uptime = relevant.length ? (successes / relevant.length) * 100 : null;
+      const uptime = samplesUptimePercent(relevant);
 
       const payload = {
   monitorId,
@@ -135,6 +138,11 @@ export const handler: Handlers['MonitorStatusSSE'] = async (request, { logger, s
   latency: latest.latency,
   statusCode: latest.statusCode,
   success: latest.success,
+  timings: latest.timings,
+  responseSize: latest.responseSize,
+  maintenance: latest.maintenance === true,
+  probes: latest.probes,
+  regions: regionBreakdown(relevant),
   uptimePercent: uptime
 };
 
@@ -148,21 +156,11 @@ sendEvent(payload);
   // Immediately trigger one poll
   (async () => {
     try {
-      const allMetrics = (await state.getGroup('monitor-metrics')) || [];
-      const now = Date.now();
-      const cutoff = now - 60 * 60 * 1000;
-      const relevant = allMetrics
-        .filter((m: any) => m?.monitorId === monitorId)
-        .filter((m: any) => {
-          const t = Date.parse(m?.timestamp ?? '');
-          return !Number.isNaN(t) && t >= cutoff;
-        })
-        .sort((a: any, b: any) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+      const relevant = await loadWindow();
 
       if (relevant.length > 0) {
         const latest = relevant[relevant.length - 1] as MonitorMetric;
-        const successes = relevant.filter((r: any) => r.success === true).length;
-        const uptime = relevant.length ? (successes / relevant.length) * 100 : null;
+        const uptime = samplesUptimePercent(relevant);
 
         sendEvent({
           monitorId,
@@ -170,6 +168,11 @@ sendEvent(payload);
           latency: latest.latency,
           statusCode: latest.statusCode,
           success: latest.success,
+          timings: latest.timings,
+          responseSize: latest.responseSize,
+          maintenance: latest.maintenance === true,
+          probes: latest.probes,
+          regions: regionBreakdown(relevant),
           uptimePercent: uptime
         });
       }
@@ -0,0 +1,44 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { feedEntries, getStatusPageBySlug, publicPageUrl } from '../services/status-pages';
+import { publicStatusPage } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'StatusPageFeedAPI',
+  type: 'api',
+  path: '/public/status/:slug/feed',
+  method: 'GET',
+  description: 'Incident updates and maintenance notices of a status page, newest first (also as /feed/rss and /feed/atom)',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [publicStatusPage],
+  responseSchema: {
+    200: z.object({
+      title: z.string(),
+      url: z.string().nullable(),
+      items: z.array(z.object({ id: z.string(), title: z.string(), content: z.string(), updatedAt: z.string(), url: z.string().nullable() }))
+    }),
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['StatusPageFeedAPI'] = async (request, { logger, state }) => {
+  const slug = request.pathParams.slug;
+
+  try {
+    const page = await getStatusPageBySlug(state, slug);
+    if (!page) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+    return {
+      status: 200,
+      headers: { 'Access-Control-Allow-Origin': '*', 'Cache-Control': 'public, max-age=60' },
+      body: { title: page.name, url: publicPageUrl(page.slug), items: await feedEntries(state, page) }
+    };
+  } catch (err) {
+    logger.error('Failed to build status page feed', { slug, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,58 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { errorSchema } from '../services/monitors';
+import { feedEntries, getStatusPageBySlug, publicPageUrl } from '../services/status-pages';
+import { renderAtom, renderRss } from '../utils/feeds';
+import { publicStatusPage } from '../middleware/auth';
+
+const CONTENT_TYPES: Record<string, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8'
+};
+
+export const config: ApiRouteConfig = {
+  name: 'StatusPageXmlFeedAPI',
+  type: 'api',
+  path: '/public/status/:slug/feed/:format',
+  method: 'GET',
+  description: 'The status page feed as RSS 2.0 (format=rss) or Atom (format=atom)',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [publicStatusPage],
+  responseSchema: {
+    // XML document; JSON schema because step schemas only take zod objects and arrays
+    200: { type: 'string' },
+    400: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['StatusPageXmlFeedAPI'] = async (request, { logger, state }) => {
+  const { slug, format } = request.pathParams;
+  if (!CONTENT_TYPES[format]) {
+    return { status: 400, body: { error: 'invalid_format', details: { allowed: Object.keys(CONTENT_TYPES) } } };
+  }
+
+  try {
+    const page = await getStatusPageBySlug(state, slug);
+    if (!page) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    const items = await feedEntries(state, page);
+    const meta = {
+      title: page.name,
+      description: page.description,
+      url: publicPageUrl(page.slug),
+      updatedAt: items[0]?.updatedAt ?? page.createdAt
+    };
+    return {
+      status: 200,
+      headers: { 'Content-Type': CONTENT_TYPES[format], 'Access-Control-Allow-Origin': '*', 'Cache-Control': 'public, max-age=60' },
+      body: format === 'rss' ? renderRss(meta, items) : renderAtom(meta, items)
+    };
+  } catch (err) {
+    logger.error('Failed to render status page feed', { slug, format, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
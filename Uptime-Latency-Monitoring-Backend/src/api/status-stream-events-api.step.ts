@@ -0,0 +1,69 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema, listMonitors } from '../services/monitors';
+import { latestStatusEventId, parseStatusFilter, statusEventsSince, statusSnapshot } from '../services/status-feed';
+import { queryParam } from '../utils/query';
+import { requireScope } from '../middleware/auth';
+
+const statusPayloadSchema = z.object({
+  monitorId: z.string(),
+  name: z.string().nullable(),
+  status: z.string(),
+  timestamp: z.string(),
+  latency: z.number().optional(),
+  statusCode: z.number().optional(),
+  success: z.boolean().optional(),
+  maintenance: z.boolean(),
+  uptimePercent: z.number().nullable()
+});
+
+export const config: ApiRouteConfig = {
+  name: 'StatusStreamEventsAPI',
+  type: 'api',
+  path: '/status/stream/events',
+  method: 'GET',
+  description:
+    'Catch-up for the live status feed (e.g. for WebSocket subscribers of the monitorStatus stream `feed` group): events after ?since, or a snapshot when it is missing or past the retention',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('read')],
+  queryParams: [
+    { name: 'since', description: 'Id of the last event received' },
+    { name: 'ids', description: 'Monitor ids, comma separated or repeated' },
+    { name: 'tag', description: 'Tag selector terms, all must match' }
+  ],
+  responseSchema: {
+    200: z.object({
+      events: z.array(z.object({ id: z.string(), monitorId: z.string(), tags: z.array(z.string()), data: statusPayloadSchema })),
+      // set when `since` could not be resumed from: the current status to start over with
+      snapshot: z.array(statusPayloadSchema).nullable(),
+      lastEventId: z.string().nullable()
+    }),
+    400: errorSchema,
+    401: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['StatusStreamEventsAPI'] = async (request, { logger, state }) => {
+  const filter = parseStatusFilter(request.queryParams);
+  if (!filter) {
+    return { status: 400, body: { error: 'invalid_tag' } };
+  }
+  const since = queryParam(request.queryParams, 'since');
+
+  try {
+    const replay = since ? await statusEventsSince(state, since, filter) : null;
+    if (replay?.complete) {
+      const lastEventId = replay.events.length > 0 ? replay.events[replay.events.length - 1].id : since ?? null;
+      return { status: 200, body: { events: replay.events, snapshot: null, lastEventId } };
+    }
+
+    const lastEventId = await latestStatusEventId(state);
+    const snapshot = await statusSnapshot(state, await listMonitors(state), filter);
+    return { status: 200, body: { events: [], snapshot, lastEventId } };
+  } catch (err) {
+    logger.error('Failed to read status feed events', { since, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
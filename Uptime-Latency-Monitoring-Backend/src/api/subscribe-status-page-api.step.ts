@@ -0,0 +1,94 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { createDelivery } from '../services/deliveries';
+import { errorSchema } from '../services/monitors';
+import { buildSubscriptionConfirmation } from '../services/notifications/message';
+import {
+  addSubscriber,
+  confirmSubscriptionUrl,
+  emailSubscriptionsAvailable,
+  getStatusPageBySlug,
+  isPublicWebhookTarget,
+  isSubscriberConfirmed,
+  publicPageUrl,
+  subscribeInputSchema,
+  subscriberChannel
+} from '../services/status-pages';
+import { publicStatusPage } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'SubscribeStatusPageAPI',
+  type: 'api',
+  path: '/public/status/:slug/subscribers',
+  method: 'POST',
+  description:
+    'Subscribe an email address or public webhook to a status page; the subscription stays pending until confirmed with the token sent to it',
+  emits: ['DELIVER_NOTIFICATION'],
+  flows: ['monitoring'],
+  middleware: [publicStatusPage],
+  bodySchema: subscribeInputSchema,
+  responseSchema: {
+    202: z.object({ id: z.string(), type: z.enum(['email', 'webhook']), status: z.enum(['pending', 'confirmed']), createdAt: z.string() }),
+    400: errorSchema,
+    404: errorSchema,
+    409: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['SubscribeStatusPageAPI'] = async (request, { logger, state, emit }) => {
+  const slug = request.pathParams.slug;
+  const parsed = subscribeInputSchema.safeParse(request.body as unknown);
+  if (!parsed.success) {
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+  if (parsed.data.email !== undefined && !emailSubscriptionsAvailable()) {
+    return { status: 400, body: { error: 'email_unavailable', details: { message: 'SMTP_HOST and EMAIL_FROM are not configured' } } };
+  }
+
+  try {
+    const page = await getStatusPageBySlug(state, slug);
+    if (!page) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+    if (parsed.data.webhookUrl !== undefined && !(await isPublicWebhookTarget(parsed.data.webhookUrl))) {
+      return { status: 400, body: { error: 'webhook_not_allowed', details: { message: 'webhooks must be public http(s) addresses' } } };
+    }
+
+    const added = await addSubscriber(state, page, parsed.data);
+    if (!added) {
+      return { status: 409, body: { error: 'subscriber_limit' } };
+    }
+    const { subscriber, created } = added;
+
+    if (created && subscriber.confirmToken) {
+      const channel = subscriberChannel(subscriber);
+      if (channel) {
+        const notification = buildSubscriptionConfirmation(page, {
+          id: subscriber.id,
+          token: subscriber.token,
+          confirmToken: subscriber.confirmToken,
+          confirmUrl: confirmSubscriptionUrl(page.slug, subscriber.confirmToken),
+          pageUrl: publicPageUrl(page.slug)
+        });
+        const delivery = await createDelivery(state, channel, notification);
+        await emit({ topic: 'DELIVER_NOTIFICATION', data: { deliveryId: delivery.id } });
+      }
+      logger.info('Status page subscriber pending confirmation', { pageId: page.id, subscriberId: subscriber.id, type: subscriber.type });
+    }
+
+    return {
+      status: 202,
+      headers: { 'Access-Control-Allow-Origin': '*' },
+      body: {
+        id: subscriber.id,
+        type: subscriber.type,
+        status: isSubscriberConfirmed(subscriber) ? 'confirmed' : 'pending',
+        createdAt: subscriber.createdAt
+      }
+    };
+  } catch (err) {
+    logger.error('Failed to add status page subscriber', { slug, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,52 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { getChannel } from '../services/channels';
+import { buildNotification } from '../services/notifications/message';
+import { deliver } from '../services/notifications/deliver';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'TestChannelAPI',
+  type: 'api',
+  path: '/channels/:id/test',
+  method: 'POST',
+  description: 'Send a test notification through a channel and report whether delivery succeeded',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  responseSchema: {
+    200: z.object({ channelId: z.string(), delivered: z.boolean() }),
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    502: errorSchema
+  }
+};
+
+export const handler: Handlers['TestChannelAPI'] = async (request, { logger, state }) => {
+  const channelId = request.pathParams.id;
+
+  const channel = await getChannel(state, channelId);
+  if (!channel) {
+    return { status: 404, body: { error: 'not_found' } };
+  }
+
+  const notification = buildNotification({
+    monitor: { id: 'test', name: channel.name, url: null },
+    severity: 'WARNING',
+    diagnostic: { reason: 'test' },
+    incidentId: null,
+    failureDurationSeconds: null,
+    avgLatency: null
+  });
+
+  try {
+    await deliver(channel, notification);
+    logger.info('Test notification sent', { channelId, type: channel.type });
+    return { status: 200, body: { channelId, delivered: true } };
+  } catch (err: any) {
+    logger.warn('Test notification failed', { channelId, type: channel.type, error: err?.message ?? err });
+    return { status: 502, body: { error: 'delivery_failed', details: { message: err?.message ?? String(err) } } };
+  }
+};
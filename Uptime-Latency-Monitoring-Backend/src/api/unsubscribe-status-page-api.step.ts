@@ -0,0 +1,37 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { errorSchema } from '../services/monitors';
+import { getStatusPageBySlug, removeSubscriber } from '../services/status-pages';
+import { publicStatusPage } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'UnsubscribeStatusPageAPI',
+  type: 'api',
+  path: '/public/status/:slug/subscribers/:token',
+  method: 'DELETE',
+  description: 'Remove a status page subscription using the token returned when subscribing (also included in every notification)',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [publicStatusPage],
+  responseSchema: {
+    200: z.object({ unsubscribed: z.boolean() }),
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['UnsubscribeStatusPageAPI'] = async (request, { logger, state }) => {
+  const { slug, token } = request.pathParams;
+
+  try {
+    const page = await getStatusPageBySlug(state, slug);
+    if (!page || !(await removeSubscriber(state, page.id, token))) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+    logger.info('Status page subscriber removed', { pageId: page.id });
+    return { status: 200, headers: { 'Access-Control-Allow-Origin': '*' }, body: { unsubscribed: true } };
+  } catch (err) {
+    logger.error('Failed to remove status page subscriber', { slug, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
@@ -0,0 +1,68 @@
+import type { ApiRouteConfig, Handlers } from 'motia';
+import { applyMonitorUpdate, errorSchema, getMonitor, monitorSchema, monitorTargetSchema, monitorUpdateSchema } from '../services/monitors';
+import { missingChannels } from '../services/channels';
+import { getEscalationPolicy } from '../services/escalations';
+import { requireScope } from '../middleware/auth';
+
+export const config: ApiRouteConfig = {
+  name: 'UpdateMonitorAPI',
+  type: 'api',
+  path: '/monitors/:id',
+  method: 'PATCH',
+  description: 'Partially update a monitor configuration (url, thresholds, alert targets)',
+  emits: [],
+  flows: ['monitoring'],
+  middleware: [requireScope('write')],
+  bodySchema: monitorUpdateSchema,
+  responseSchema: {
+    200: monitorSchema,
+    400: errorSchema,
+    401: errorSchema,
+    403: errorSchema,
+    404: errorSchema,
+    500: errorSchema
+  }
+};
+
+export const handler: Handlers['UpdateMonitorAPI'] = async (request, { logger, state }) => {
+  const monitorId = request.pathParams.id;
+
+  // Validate input with the same rules as creation, every field optional
+  const parsed = monitorUpdateSchema.safeParse(request.body as unknown);
+  if (!parsed.success) {
+    logger.warn('Invalid monitor update request', { monitorId, errors: parsed.error.format() });
+    return { status: 400, body: { error: 'invalid_input', details: parsed.error.format() } };
+  }
+
+  try {
+    const monitor = await getMonitor(state, monitorId);
+    if (!monitor) {
+      return { status: 404, body: { error: 'not_found' } };
+    }
+
+    const updated = applyMonitorUpdate(monitor, parsed.data);
+    const target = monitorTargetSchema.safeParse(updated);
+    if (!target.success) {
+      logger.warn('Invalid monitor update request', { monitorId, errors: target.error.format() });
+      return { status: 400, body: { error: 'invalid_input', details: target.error.format() } };
+    }
+
+    const missing = await missingChannels(state, parsed.data.channels);
+    if (missing.length > 0) {
+      return { status: 400, body: { error: 'unknown_channel', details: { channels: missing } } };
+    }
+
+    const policyId = parsed.data.escalationPolicyId;
+    if (policyId && !(await getEscalationPolicy(state, policyId))) {
+      return { status: 400, body: { error: 'unknown_escalation_policy', details: { escalationPolicyId: policyId } } };
+    }
+
+    await state.set('monitors', monitorId, updated);
+    logger.info('Monitor updated', { monitorId, fields: Object.keys(parsed.data) });
+
+    return { status: 200, body: updated };
+  } catch (err) {
+    logger.error('Failed to update monitor config', { monitorId, error: err });
+    return { status: 500, body: { error: 'internal_error' } };
+  }
+};
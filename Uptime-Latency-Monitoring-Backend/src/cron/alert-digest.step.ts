@@ -0,0 +1,30 @@
+import type { CronConfig, Handlers } from 'motia';
+import { getChannel } from '../services/channels';
+import { takeDueDigests } from '../services/channel-rate-limits';
+import { createDelivery } from '../services/deliveries';
+import { buildDigestNotification } from '../services/notifications/message';
+import { forEachWorkspace } from '../services/workspaces';
+
+export const config: CronConfig = {
+  name: 'AlertDigestCron',
+  type: 'cron',
+  description: 'Sends one digest per rate-limited channel for the alerts it held back, once its window has room again',
+  cron: '0 * * * * *', // every minute
+  emits: ['DELIVER_NOTIFICATION'],
+  flows: ['monitoring']
+};
+
+export const handler: Handlers['AlertDigestCron'] = async context =>
+  forEachWorkspace(context, async ({ logger, state, emit }) => {
+    try {
+      for (const { channel: snapshot, held, heldCount } of await takeDueDigests(state)) {
+        const channel = (await getChannel(state, snapshot.id)) ?? snapshot;
+        const notification = buildDigestNotification(channel.id, held, heldCount);
+        const delivery = await createDelivery(state, channel, notification);
+        await emit({ topic: 'DELIVER_NOTIFICATION', data: { deliveryId: delivery.id } });
+        logger.info('Alert digest queued', { channelId: channel.id, deliveryId: delivery.id, heldCount });
+      }
+    } catch (error) {
+      logger.error('Error running AlertDigestCron', { error });
+    }
+  });
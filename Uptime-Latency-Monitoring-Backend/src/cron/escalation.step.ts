@@ -0,0 +1,39 @@
+import type { CronConfig, Handlers } from 'motia';
+import { listEscalations, saveEscalation, stopEscalation } from '../services/escalations';
+import { getIncident } from '../services/incidents';
+import { forEachWorkspace } from '../services/workspaces';
+
+export const config: CronConfig = {
+  name: 'EscalationCron',
+  type: 'cron',
+  description: 'Moves unacknowledged incidents to the next escalation level once its wait time has passed',
+  cron: '*/15 * * * * *', // every 15 seconds; escalation delays are whole minutes
+  emits: ['ESCALATE_INCIDENT'],
+  flows: ['monitoring']
+};
+
+export const handler: Handlers['EscalationCron'] = async context =>
+  forEachWorkspace(context, async ({ logger, state, emit }) => {
+    try {
+      const now = Date.now();
+
+      for (const escalation of await listEscalations(state)) {
+        const { incidentId } = escalation;
+        const incident = await getIncident(state, incidentId);
+        if (!incident || incident.status !== 'open' || incident.acknowledgedAt) {
+          await stopEscalation(state, incidentId);
+          logger.info('Escalation finished', { incidentId, acknowledged: !!incident?.acknowledgedAt, resolved: incident?.status === 'resolved' });
+          continue;
+        }
+
+        if (!escalation.nextLevelAt || Date.parse(escalation.nextLevelAt) > now) continue;
+
+        // Claim the step before emitting so the next tick doesn't page the same level again
+        await saveEscalation(state, { ...escalation, nextLevelAt: null });
+        await emit({ topic: 'ESCALATE_INCIDENT', data: { incidentId, level: escalation.level + 1 } });
+        logger.info('Incident not acknowledged in time; escalating', { incidentId, level: escalation.level + 2 });
+      }
+    } catch (error) {
+      logger.error('Error running EscalationCron', { error });
+    }
+  });
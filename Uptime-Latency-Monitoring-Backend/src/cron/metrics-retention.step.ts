@@ -0,0 +1,42 @@
+import type { CronConfig, Handlers } from 'motia';
+import { listMonitors } from '../services/monitors';
+import { retentionConfig, runRetention } from '../services/retention';
+import { pruneStatusEvents } from '../services/status-feed';
+import { forEachWorkspace } from '../services/workspaces';
+
+export const config: CronConfig = {
+  name: 'MetricsRetentionCron',
+  type: 'cron',
+  description: 'Rolls raw metrics up into 1m/1h/1d aggregates and trims raw samples, rollups and live status feed events past their retention',
+  cron: '*/1 * * * *', // every minute so 1m rollups stay close to real time
+  emits: [],
+  flows: ['monitoring']
+};
+
+export const handler: Handlers['MetricsRetentionCron'] = async context =>
+  forEachWorkspace(context, async ({ logger, state }) => {
+    const retention = retentionConfig();
+
+    try {
+      const monitors = await listMonitors(state);
+
+      for (const m of monitors) {
+        try {
+          const result = await runRetention(state, m.id, retention);
+          const rolledUp = result.rolledUp['1m'] + result.rolledUp['1h'] + result.rolledUp['1d'];
+          const trimmed =
+            result.trimmedRaw + result.trimmedRollups['1m'] + result.trimmedRollups['1h'] + result.trimmedRollups['1d'];
+          if (rolledUp > 0 || trimmed > 0) {
+            logger.info('Metrics retention applied', result);
+          }
+        } catch (err) {
+          logger.warn('Metrics retention failed for monitor', { monitorId: m.id, error: err });
+        }
+      }
+
+      const pruned = await pruneStatusEvents(state);
+      if (pruned > 0) logger.info('Status feed events pruned', { pruned });
+    } catch (error) {
+      logger.error('Error running MetricsRetentionCron', { error });
+    }
+  });
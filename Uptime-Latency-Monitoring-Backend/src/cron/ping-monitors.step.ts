@@ -1,40 +1,66 @@
 import type { CronConfig, Handlers } from 'motia';
+import { normalizeMonitor } from '../services/monitors';
+import { claimIfDue } from '../services/scheduler';
+import { pendingStartupTasks } from '../services/startup';
+import { forEachWorkspace } from '../services/workspaces';
 
 export const config: CronConfig = {
   name: 'PingMonitorsCron',
   type: 'cron',
-  description: 'Fetches all monitors from state and emits PING_MONITOR for each monitor id',
-  cron: '*/1 * * * *', // every minute (approx. every 60 seconds)
+  description: 'Scheduler tick: emits PING_MONITOR for each active (non-paused) monitor, in every workspace, whose intervalSeconds is due',
+  cron: '*/5 * * * * *', // every 5 seconds (scheduler TICK_SECONDS); each monitor is only pinged when its own interval is due
   emits: ['PING_MONITOR'],
   flows: ['monitoring']
 };
 
-export const handler: Handlers['PingMonitorsCron'] = async ({ logger, state, emit }) => {
-  logger.info('PingMonitorsCron started');
+export const handler: Handlers['PingMonitorsCron'] = async context => {
+  // Nothing is pinged until the startup tasks (metrics migration, config file) are done
+  const pending = await pendingStartupTasks(context.state);
+  if (pending.length > 0) {
+    context.logger.info('Waiting for startup tasks', { pending });
+    return;
+  }
 
-  try {
-    const monitors = await state.getGroup<any>('monitors');
+  await forEachWorkspace(context, async ({ logger, state, emit }) => {
+    try {
+      const monitors = await state.getGroup<any>('monitors');
 
-    if (!monitors || monitors.length === 0) {
-      logger.info('No monitors found in state');
-      return;
-    }
+      if (!monitors || monitors.length === 0) {
+        return;
+      }
+
+      const now = Date.now();
+      let emitted = 0;
 
-    logger.info('Fetched monitors from state', { count: monitors.length });
+      for (const m of monitors) {
+        // Support both `id` and `monitorId` shapes; skip if no id found
+        const monitorId = m?.id ?? m?.monitorId;
 
-    for (const m of monitors) {
-      // Support both `id` and `monitorId` shapes; skip if no id found
-      const monitorId = m?.id ?? m?.monitorId;
+        if (!monitorId) {
+          logger.warn('Skipping monitor without id', { monitor: m });
+          continue;
+        }
 
-      if (!monitorId) {
-        logger.warn('Skipping monitor without id', { monitor: m });
-        continue;
+        if (m?.paused === true) {
+          continue;
+        }
+
+        const { intervalSeconds } = normalizeMonitor(m);
+        const dueAt = await claimIfDue(state, monitorId, intervalSeconds, now);
+        if (dueAt === null) {
+          continue;
+        }
+
+        await emit({ topic: 'PING_MONITOR', data: { monitorId, dueAt } });
+        emitted++;
+        logger.info('Emitted PING_MONITOR', { monitorId, intervalSeconds });
       }
 
-      await emit({ topic: 'PING_MONITOR', data: { monitorId } });
-      logger.info('Emitted PING_MONITOR', { monitorId });
+      if (emitted > 0) {
+        logger.info('PingMonitorsCron tick finished', { monitors: monitors.length, emitted });
+      }
+    } catch (error) {
+      logger.error('Error running PingMonitorsCron', { error });
     }
-  } catch (error) {
-    logger.error('Error running PingMonitorsCron', { error });
-  }
+  });
 };
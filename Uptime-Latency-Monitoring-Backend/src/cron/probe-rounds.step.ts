@@ -0,0 +1,34 @@
+import type { CronConfig, Handlers } from 'motia';
+import { forgetStaleProbes, overdueRounds } from '../services/probes';
+import { forEachWorkspace } from '../services/workspaces';
+
+export const config: CronConfig = {
+  name: 'ProbeRoundsCron',
+  type: 'cron',
+  description: 'Hands probe rounds whose deadline passed to PingMonitor with whatever answers came in, and forgets long-gone probes',
+  cron: '*/5 * * * * *', // every 5 seconds
+  emits: ['CHECK_ROUND_COMPLETE'],
+  flows: ['monitoring']
+};
+
+export const handler: Handlers['ProbeRoundsCron'] = async context => {
+  const { logger, state } = context;
+  await forEachWorkspace(context, async ({ logger, state, emit }) => {
+    try {
+      for (const round of await overdueRounds(state)) {
+        await emit({ topic: 'CHECK_ROUND_COMPLETE', data: { monitorId: round.monitorId, roundId: round.id } });
+        logger.info('Check round timed out', { monitorId: round.monitorId, roundId: round.id });
+      }
+    } catch (error) {
+      logger.error('Error running ProbeRoundsCron', { error });
+    }
+  });
+
+  // the probe fleet is shared by all workspaces
+  try {
+    const forgotten = await forgetStaleProbes(state);
+    if (forgotten > 0) logger.info('Forgot stale probes', { forgotten });
+  } catch (error) {
+    logger.error('Error running ProbeRoundsCron', { error });
+  }
+};
@@ -0,0 +1,32 @@
+import type { CronConfig, Handlers } from 'motia';
+import { claimDueDeliveries, purgeDeliveries } from '../services/deliveries';
+import { forEachWorkspace } from '../services/workspaces';
+
+export const config: CronConfig = {
+  name: 'RetryDeliveriesCron',
+  type: 'cron',
+  description: 'Re-queues notification deliveries whose retry backoff has elapsed and purges old delivery logs',
+  cron: '*/10 * * * * *', // every 10 seconds; backoff starts at NOTIFY_RETRY_BASE_SECONDS
+  emits: ['DELIVER_NOTIFICATION'],
+  flows: ['monitoring']
+};
+
+export const handler: Handlers['RetryDeliveriesCron'] = async context =>
+  forEachWorkspace(context, async ({ logger, state, emit }) => {
+    try {
+      const due = await claimDueDeliveries(state);
+      for (const delivery of due) {
+        await emit({ topic: 'DELIVER_NOTIFICATION', data: { deliveryId: delivery.id } });
+      }
+      if (due.length > 0) {
+        logger.info('Re-queued notification deliveries', { count: due.length });
+      }
+
+      const purged = await purgeDeliveries(state);
+      if (purged > 0) {
+        logger.info('Purged delivered notification logs', { purged });
+      }
+    } catch (error) {
+      logger.error('Error running RetryDeliveriesCron', { error });
+    }
+  });
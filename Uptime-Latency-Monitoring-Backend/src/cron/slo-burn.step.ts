@@ -0,0 +1,51 @@
+import type { CronConfig, Handlers } from 'motia';
+import { buildSloStatus, evaluateBurnRates, listSlos, updateSloAlert } from '../services/slos';
+import { forEachWorkspace } from '../services/workspaces';
+
+export const config: CronConfig = {
+  name: 'SloBurnCron',
+  type: 'cron',
+  description: 'Evaluates multi-window error-budget burn rates for every SLO and emits SEND_ALERT when a rule starts firing',
+  cron: '*/1 * * * *', // every minute; the shortest default window is 5 minutes
+  emits: ['SEND_ALERT'],
+  flows: ['monitoring']
+};
+
+export const handler: Handlers['SloBurnCron'] = async context =>
+  forEachWorkspace(context, async ({ logger, state, emit }) => {
+    try {
+      for (const slo of await listSlos(state)) {
+        try {
+          const now = Date.now();
+          for (const { rule, long, short, firing } of await evaluateBurnRates(state, slo, now)) {
+            const change = await updateSloAlert(state, slo, rule, firing, now);
+            if (change === 'stopped') {
+              logger.info('SLO burn rate back under threshold', { sloId: slo.id, rule: rule.name });
+            }
+            if (change !== 'started') continue;
+
+            const status = await buildSloStatus(state, slo, now);
+            await emit({
+              topic: 'SEND_ALERT',
+              data: {
+                monitorId: slo.monitorId,
+                severity: rule.severity,
+                diagnostic: {
+                  reason: 'slo_burn',
+                  slo: { id: slo.id, name: slo.name, indicator: slo.indicator, target: slo.target },
+                  rule,
+                  burnRate: { long, short },
+                  errorBudgetRemainingPercent: status.errorBudgetRemainingPercent
+                }
+              }
+            });
+            logger.info('SLO burn rate alert', { sloId: slo.id, rule: rule.name, long, short });
+          }
+        } catch (err) {
+          logger.warn('SLO evaluation failed', { sloId: slo.id, error: err });
+        }
+      }
+    } catch (error) {
+      logger.error('Error running SloBurnCron', { error });
+    }
+  });
@@ -1,25 +1,33 @@
 import type { EventConfig, Handlers } from 'motia';
 import { z } from 'zod';
-
-const inputSchema = z.object({ monitorId: z.string() });
+import { PHASES } from '../services/checks/timing';
+import { queryMetrics, type MetricSample } from '../services/metrics-store';
+import { getMonitor } from '../services/monitors';
+import {
+  detectorSettings,
+  seasonalBaseline,
+  seasonalScore,
+  severityForScore,
+  updateAnomalyStreak,
+  windowScore
+} from '../services/anomaly';
+import { mean, pstdev } from '../utils/stats';
+import { workspaceContext } from '../services/workspaces';
+
+const inputSchema = z.object({ monitorId: z.string(), workspaceId: z.string().optional() });
 
 export const config: EventConfig = {
   name: 'CheckAnomaly',
   type: 'event',
-  description: 'Analyzes last 60 minutes of metrics for a monitor and emits SEND_ALERT if anomaly detected',
+  description:
+    "Scores the latest check (total latency, per-phase timings, error rate) with the monitor's anomaly detector and emits SEND_ALERT after enough anomalous checks in a row",
   subscribes: ['CHECK_ANOMALY'],
   emits: ['SEND_ALERT'],
   input: inputSchema as any,
   flows: ['monitoring']
 };
 
-type Metric = {
-  monitorId: string;
-  timestamp: string; // ISO string
-  latency?: number;
-  statusCode?: number;
-  success?: boolean;
-};
+type Metric = MetricSample;
 
 function parseISO(ts?: string): Date | null {
   if (!ts) return null;
@@ -28,46 +36,31 @@ function parseISO(ts?: string): Date | null {
   return d;
 }
 
-function mean(nums: number[]): number {
-  if (nums.length === 0) return 0;
-  return nums.reduce((s, v) => s + v, 0) / nums.length;
-}
-
-function pstdev(nums: number[]): number {
-  if (nums.length === 0) return 0;
-  const mu = mean(nums);
-  const sumSq = nums.reduce((s, v) => s + (v - mu) * (v - mu), 0);
-  return Math.sqrt(sumSq / nums.length);
-}
-
-function severityFromZ(z: number): 'NORMAL' | 'WARNING' | 'CRITICAL' {
-  const az = Math.abs(z);
-  if (az > 3) return 'CRITICAL';
-  if (az > 2) return 'WARNING';
-  return 'NORMAL';
-}
-
 export const handler: Handlers['CheckAnomaly'] = async (input: z.infer<typeof inputSchema>, context) => {
-  const { logger, state, emit } = context;
+  const { logger, state, emit } = workspaceContext(context, input.workspaceId);
   const { monitorId } = input;
   logger.info('CheckAnomaly handler started', { monitorId });
 
+  const monitor = await getMonitor(state, monitorId);
+  const settings = detectorSettings(monitor?.anomalyDetection);
+
   const now = new Date();
-  const windowStart = new Date(now.getTime() - 60 * 60 * 1000); // last 60 minutes
+  const windowStart = new Date(now.getTime() - settings.windowMinutes * 60 * 1000);
 
-  const all = ((await state.getGroup('monitor-metrics')) as Metric[]) || [];
+  const all = await queryMetrics(state, monitorId, { from: windowStart.getTime(), to: now.getTime() });
 
   const metrics: (Metric & { _ts: Date })[] = [];
 
   for (const m of all) {
     try {
-      if (m.monitorId !== monitorId) continue;
       const d = parseISO(m.timestamp);
       if (!d) {
         logger.warn('Skipping metric with invalid timestamp', { metric: m });
         continue;
       }
       if (d < windowStart) continue;
+      // maintenance samples (deploys, restarts) would skew the baseline
+      if (m.maintenance) continue;
       metrics.push({ ...(m as Metric), _ts: d });
     } catch (err) {
       logger.warn('Error parsing metric', { metric: m, error: err });
@@ -75,8 +68,13 @@ export const handler: Handlers['CheckAnomaly'] = async (input: z.infer<typeof in
   }
 
   if (metrics.length === 0) {
-    logger.info('No metrics found in last 60 minutes', { monitorId });
-    return { monitorId, severity: 'NORMAL', reason: 'no_metrics' } as const;
+    logger.info('No metrics found in detector window', { monitorId, windowMinutes: settings.windowMinutes });
+    return;
+  }
+
+  if (metrics.length < settings.minSamples) {
+    logger.info('Not enough samples to score yet', { monitorId, samples: metrics.length, minSamples: settings.minSamples });
+    return;
   }
 
   // sort oldest -> newest
@@ -86,13 +84,19 @@ export const handler: Handlers['CheckAnomaly'] = async (input: z.infer<typeof in
   const latencies = metrics.map(m => (typeof m.latency === 'number' ? m.latency : NaN)).filter(n => !Number.isNaN(n));
   if (latencies.length === 0) {
     logger.info('No latency values available; treating as NORMAL', { monitorId });
-    return { monitorId, severity: 'NORMAL', reason: 'no_latency' } as const;
+    return;
   }
 
-  const meanLat = mean(latencies);
-  const stdevLat = pstdev(latencies);
-  const latestLatency = latencies[latencies.length - 1];
-  const zLatency = stdevLat > 0 ? (latestLatency - meanLat) / stdevLat : 0;
+  // Seasonal monitors compare against the same hour on previous days/weeks once that history exists
+  let latencyScore = windowScore(settings, latencies);
+  let baselineSource = 'window';
+  if (settings.detector === 'seasonal') {
+    const seasonal = await seasonalBaseline(state, monitorId, settings, now.getTime());
+    if (seasonal.count >= settings.minSamples) {
+      latencyScore = seasonalScore(seasonal, latencies[latencies.length - 1]);
+      baselineSource = 'seasonal';
+    }
+  }
 
   // Error rate: bucket per-minute
   const buckets: Map<number, (Metric & { _ts: Date })[]> = new Map();
@@ -111,32 +115,56 @@ export const handler: Handlers['CheckAnomaly'] = async (input: z.infer<typeof in
     errorRates.push(arr.length > 0 ? failures / arr.length : 0);
   }
 
+  // Error rates are mostly zero, which leaves median/MAD with no spread; they keep the classic z-score
   const latestErrorRate = errorRates.length > 0 ? errorRates[errorRates.length - 1] : 0;
   const meanEr = mean(errorRates);
   const stdevEr = pstdev(errorRates);
   const zError = stdevEr > 0 ? (latestErrorRate - meanEr) / stdevEr : 0;
 
-  const sevLatency = severityFromZ(zLatency);
-  const sevError = severityFromZ(zError);
+  // Per-phase z-scores (dns/tcp/tls/ttfb/download) explain *where* latency regressed.
+  // They annotate the result but don't raise severity on their own: small phases are noisy.
+  const phases: Record<string, { value: number; baseline: number; spread: number; z: number; severity: string }> = {};
+  const latest = metrics[metrics.length - 1];
+  for (const phase of PHASES) {
+    const value = latest.timings?.[phase];
+    if (typeof value !== 'number') continue;
+    const values = metrics
+      .map(m => m.timings?.[phase])
+      .filter((n): n is number => typeof n === 'number' && !Number.isNaN(n));
+    const phaseScore = windowScore(settings, values);
+    phases[phase] = { ...phaseScore, severity: severityForScore(phaseScore.z, settings) };
+  }
+  const regressedPhases = Object.entries(phases)
+    .filter(([, p]) => p.z > settings.warningThreshold)
+    .sort((a, b) => b[1].z - a[1].z)
+    .map(([name]) => name);
+
+  const sevLatency = severityForScore(latencyScore.z, settings);
+  const sevError = severityForScore(zError, settings);
 
   let severity: 'NORMAL' | 'WARNING' | 'CRITICAL' = 'NORMAL';
   if (sevLatency === 'CRITICAL' || sevError === 'CRITICAL') severity = 'CRITICAL';
   else if (sevLatency === 'WARNING' || sevError === 'WARNING') severity = 'WARNING';
 
+  // Only alert once the required number of checks in a row were anomalous
+  const streak = await updateAnomalyStreak(state, monitorId, severity !== 'NORMAL');
+
   const result = {
     monitorId,
     severity,
     samples: metrics.length,
-    latency: { value: latestLatency, mean: meanLat, stdev: stdevLat, z: zLatency },
-    error_rate: { value: latestErrorRate, mean: meanEr, stdev: stdevEr, z: zError }
+    latency: { ...latencyScore, source: baselineSource },
+    error_rate: { value: latestErrorRate, mean: meanEr, stdev: stdevEr, z: zError },
+    phases,
+    regressedPhases,
+    detector: settings,
+    consecutive: { required: settings.consecutive, count: streak }
   } as const;
 
   logger.info('Anomaly detection result', { monitorId, result });
 
-  if (severity !== 'NORMAL') {
+  if (severity !== 'NORMAL' && streak >= settings.consecutive) {
     await emit({ topic: 'SEND_ALERT', data: { monitorId, severity, diagnostic: result } });
     logger.info('Emitted SEND_ALERT', { monitorId, severity });
   }
-
-  return result;
 };
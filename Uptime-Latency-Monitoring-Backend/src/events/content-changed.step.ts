@@ -0,0 +1,66 @@
+import type { EventConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { unifiedDiffExcerpt, type ContentRecord } from '../services/content';
+import { getMonitor } from '../services/monitors';
+import { workspaceContext } from '../services/workspaces';
+
+const inputSchema = z.object({
+  monitorId: z.string(),
+  previousHash: z.string().optional(),
+  currentHash: z.string(),
+  workspaceId: z.string().optional()
+});
+
+export const config: EventConfig = {
+  name: 'ContentChanged',
+  type: 'event',
+  description: 'Handles CONTENT_CHANGED: diffs the previous and current body snapshots and routes to SEND_ALERT',
+  subscribes: ['CONTENT_CHANGED'],
+  emits: ['SEND_ALERT'],
+  input: inputSchema as any,
+  flows: ['monitoring']
+};
+
+export const handler: Handlers['ContentChanged'] = async (input: z.infer<typeof inputSchema>, context) => {
+  const { logger, state, emit } = workspaceContext(context, input.workspaceId);
+  const { monitorId, previousHash, currentHash } = input;
+  logger.info('ContentChanged handler started', { monitorId });
+
+  try {
+    const monitor = await getMonitor(state, monitorId);
+    const record = await state.get<ContentRecord>('monitor-content', monitorId);
+    if (!monitor || !record) {
+      logger.warn('Content snapshot or monitor missing; skipping alert', { monitorId });
+      return;
+    }
+
+    // A newer check may already have replaced the snapshot this event refers to
+    if (record.current.hash !== currentHash) {
+      logger.info('Content snapshot superseded; skipping stale CONTENT_CHANGED', { monitorId });
+      return;
+    }
+
+    const diff = unifiedDiffExcerpt(record.previous?.content ?? '', record.current.content);
+    const severity = monitor.contentTracking?.severity ?? 'WARNING';
+
+    await emit({
+      topic: 'SEND_ALERT',
+      data: {
+        monitorId,
+        severity,
+        diagnostic: {
+          reason: 'content_changed',
+          previousHash: previousHash ?? null,
+          currentHash,
+          previousCapturedAt: record.previous?.capturedAt ?? null,
+          currentCapturedAt: record.current.capturedAt,
+          truncated: record.current.truncated || (record.previous?.truncated ?? false),
+          diff
+        }
+      }
+    });
+    logger.info('Emitted SEND_ALERT for content change', { monitorId, severity });
+  } catch (err: any) {
+    logger.error('Error processing CONTENT_CHANGED', { monitorId, error: err?.message ?? err });
+  }
+};
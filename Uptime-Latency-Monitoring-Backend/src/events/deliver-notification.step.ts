@@ -0,0 +1,67 @@
+import type { EventConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { attemptDelivery, claimDelivery, getDelivery } from '../services/deliveries';
+import { addTimelineEntry, getOpenIncident } from '../services/incidents';
+import { workspaceContext } from '../services/workspaces';
+
+const inputSchema = z.object({ deliveryId: z.string(), workspaceId: z.string().optional() });
+
+export const config: EventConfig = {
+  name: 'DeliverNotification',
+  type: 'event',
+  description: 'Makes one delivery attempt for a queued notification; failures are retried by RetryDeliveriesCron or dead-lettered',
+  subscribes: ['DELIVER_NOTIFICATION'],
+  emits: [],
+  input: inputSchema as any,
+  flows: ['monitoring']
+};
+
+export const handler: Handlers['DeliverNotification'] = async (input: z.infer<typeof inputSchema>, context) => {
+  const { logger, state } = workspaceContext(context, input.workspaceId);
+  const { deliveryId } = input;
+
+  try {
+    const delivery = await getDelivery(state, deliveryId);
+    if (!delivery) {
+      logger.warn('Delivery not found', { deliveryId });
+      return;
+    }
+    // Duplicate events (e.g. a replay racing a retry) must not send twice
+    const claimed = await claimDelivery(state, deliveryId);
+    if (!claimed) {
+      logger.info('Skipping delivery that is not pending or was claimed elsewhere', { deliveryId, status: delivery.status });
+      return;
+    }
+
+    const updated = await attemptDelivery(state, claimed);
+    const last = updated.attempts[updated.attempts.length - 1];
+    const logContext = {
+      deliveryId,
+      monitorId: updated.monitorId,
+      channelId: updated.channel.id,
+      type: updated.channel.type,
+      attempt: last.attempt,
+      statusCode: last.statusCode
+    };
+
+    if (updated.status === 'delivered') {
+      logger.info('Notification delivered', logContext);
+
+      const incident = await getOpenIncident(state, updated.monitorId);
+      if (incident && incident.id === updated.incidentId && updated.notification.kind === 'alert') {
+        await addTimelineEntry(state, incident.id, 'alert_sent', `${updated.notification.severity} alert sent via ${updated.channel.name}`, {
+          severity: updated.notification.severity,
+          channel: updated.channel.name,
+          reason: updated.notification.reason,
+          deliveryId
+        });
+      }
+    } else if (updated.status === 'retrying') {
+      logger.warn('Notification delivery failed; retry scheduled', { ...logContext, error: last.error, nextAttemptAt: updated.nextAttemptAt });
+    } else {
+      logger.error('Notification delivery dead-lettered', { ...logContext, error: last.error });
+    }
+  } catch (err: any) {
+    logger.error('Error delivering notification', { deliveryId, error: err?.message ?? err });
+  }
+};
@@ -0,0 +1,86 @@
+import type { EventConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { createDelivery } from '../services/deliveries';
+import { getEscalation, getEscalationPolicy, resolveLevelTargets, saveEscalation, stopEscalation } from '../services/escalations';
+import { addTimelineEntry, getIncident } from '../services/incidents';
+import { workspaceContext } from '../services/workspaces';
+
+const inputSchema = z.object({
+  incidentId: z.string(),
+  // zero-based index into the policy's levels
+  level: z.number(),
+  workspaceId: z.string().optional()
+});
+
+export const config: EventConfig = {
+  name: 'EscalateIncident',
+  type: 'event',
+  description: "Pages one level of the monitor's escalation policy (on-call participants or channels) and schedules the next level",
+  subscribes: ['ESCALATE_INCIDENT'],
+  emits: ['DELIVER_NOTIFICATION'],
+  input: inputSchema,
+  flows: ['monitoring']
+};
+
+export const handler: Handlers['EscalateIncident'] = async (input: z.infer<typeof inputSchema>, context) => {
+  const { logger, state, emit } = workspaceContext(context, input.workspaceId);
+  const { incidentId, level } = input;
+  logger.info('EscalateIncident handler started', { incidentId, level });
+
+  try {
+    const escalation = await getEscalation(state, incidentId);
+    if (!escalation) {
+      logger.info('No active escalation for incident', { incidentId });
+      return;
+    }
+    // Each level is paged once, even if the event is delivered twice
+    if (level <= escalation.level) {
+      logger.info('Escalation level already paged', { incidentId, level, current: escalation.level });
+      return;
+    }
+
+    const incident = await getIncident(state, incidentId);
+    if (!incident || incident.status !== 'open' || incident.acknowledgedAt) {
+      await stopEscalation(state, incidentId);
+      logger.info('Escalation stopped; incident resolved or acknowledged', { incidentId });
+      return;
+    }
+
+    const policy = await getEscalationPolicy(state, escalation.policyId);
+    if (!policy || !policy.levels[level]) {
+      await stopEscalation(state, incidentId);
+      logger.warn('Escalation policy or level missing; stopping escalation', { incidentId, policyId: escalation.policyId, level });
+      return;
+    }
+
+    const { channels, recipients } = await resolveLevelTargets(state, policy, level);
+    const notification = {
+      ...escalation.notification,
+      title: level === 0 ? escalation.notification.title : `${escalation.notification.title} (escalation level ${level + 1})`
+    };
+
+    for (const channel of channels) {
+      const delivery = await createDelivery(state, channel, notification);
+      await emit({ topic: 'DELIVER_NOTIFICATION', data: { deliveryId: delivery.id } });
+    }
+
+    const hasNextLevel = level + 1 < policy.levels.length;
+    const waitMs = policy.levels[level].escalateAfterMinutes * 60 * 1000;
+    await saveEscalation(state, {
+      ...escalation,
+      level,
+      nextLevelAt: hasNextLevel ? new Date(Date.now() + waitMs).toISOString() : null
+    });
+
+    await addTimelineEntry(
+      state,
+      incidentId,
+      'escalated',
+      `Escalation level ${level + 1} of ${policy.name}: ${recipients.length > 0 ? recipients.join(', ') : 'no reachable targets'}`,
+      { policyId: policy.id, level: level + 1, recipients, channels: channels.map(c => c.id) }
+    );
+    logger.info('Escalation level paged', { incidentId, policyId: policy.id, level: level + 1, recipients, hasNextLevel });
+  } catch (err) {
+    logger.error('Error escalating incident', { incidentId, level, error: err instanceof Error ? err.message : err });
+  }
+};
@@ -0,0 +1,48 @@
+import type { EventConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { getMonitorStatus } from '../services/monitor-state';
+import { workspaceContext } from '../services/workspaces';
+
+const inputSchema = z.object({
+  monitorId: z.string(),
+  incidentId: z.string().optional(),
+  durationSeconds: z.number().optional(),
+  workspaceId: z.string().optional()
+});
+
+export const config: EventConfig = {
+  name: 'MonitorRecovered',
+  type: 'event',
+  description: 'Handles MONITOR_RECOVERED (emitted once per transition out of DOWN): routes the recovery notification to SEND_ALERT',
+  subscribes: ['MONITOR_RECOVERED'],
+  emits: ['SEND_ALERT'],
+  input: inputSchema as any,
+  flows: ['monitoring']
+};
+
+export const handler: Handlers['MonitorRecovered'] = async (input: z.infer<typeof inputSchema>, context) => {
+  const { logger, state, emit } = workspaceContext(context, input.workspaceId);
+  const { monitorId, incidentId, durationSeconds } = input;
+  logger.info('MonitorRecovered handler started', { monitorId, incidentId });
+
+  try {
+    // A new outage that started before this event was handled gets its own DOWN alert instead
+    const status = await getMonitorStatus(state, monitorId);
+    if (status === 'DOWN') {
+      logger.info('Skipping recovery notification; monitor is DOWN again', { monitorId });
+      return;
+    }
+
+    await emit({
+      topic: 'SEND_ALERT',
+      data: {
+        monitorId,
+        severity: 'NORMAL',
+        diagnostic: { recovered: true, incidentId: incidentId ?? null, durationSeconds: durationSeconds ?? null }
+      }
+    });
+    logger.info('MONITOR_RECOVERED processed', { monitorId, incidentId });
+  } catch (err: any) {
+    logger.error('Error processing MONITOR_RECOVERED', { monitorId, error: err?.message ?? err });
+  }
+};
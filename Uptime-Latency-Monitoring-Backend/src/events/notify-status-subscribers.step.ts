@@ -0,0 +1,79 @@
+import type { EventConfig, Handlers } from 'motia';
+import { z } from 'zod';
+import { createDelivery } from '../services/deliveries';
+import { buildStatusPageNotification, type StatusPagePost } from '../services/notifications/message';
+import {
+  getMaintenanceNotice,
+  getStatusIncident,
+  getStatusPage,
+  isSubscriberConfirmed,
+  listSubscribers,
+  publicPageUrl,
+  subscriberChannel
+} from '../services/status-pages';
+import { workspaceContext } from '../services/workspaces';
+
+// Either an incident update or a maintenance notice
+const inputSchema = z.object({
+  pageId: z.string(),
+  incidentId: z.string().optional(),
+  updateId: z.string().optional(),
+  noticeId: z.string().optional(),
+  workspaceId: z.string().optional()
+});
+
+export const config: EventConfig = {
+  name: 'NotifyStatusSubscribers',
+  type: 'event',
+  description: 'Queues a delivery of a status page incident update or maintenance notice to every confirmed subscriber of the page',
+  subscribes: ['STATUS_PAGE_POSTED'],
+  emits: ['DELIVER_NOTIFICATION'],
+  input: inputSchema,
+  flows: ['monitoring']
+};
+
+export const handler: Handlers['NotifyStatusSubscribers'] = async (input: z.infer<typeof inputSchema>, context) => {
+  const { logger, state, emit } = workspaceContext(context, input.workspaceId);
+  const { pageId, incidentId, updateId, noticeId } = input;
+
+  try {
+    const page = await getStatusPage(state, pageId);
+    if (!page) {
+      logger.warn('Status page not found for subscriber notification', { pageId });
+      return;
+    }
+
+    let post: StatusPagePost | null = null;
+    if (incidentId) {
+      const incident = await getStatusIncident(state, incidentId);
+      const update = incident?.updates.find(u => u.id === updateId);
+      if (incident && update) post = { kind: 'incident', incident, update };
+    } else if (noticeId) {
+      const notice = await getMaintenanceNotice(state, noticeId);
+      if (notice) post = { kind: 'maintenance', notice };
+    }
+    if (!post) {
+      logger.warn('Status page post not found', { pageId, incidentId, updateId, noticeId });
+      return;
+    }
+
+    const pageUrl = publicPageUrl(page.slug);
+    let queued = 0;
+    for (const subscriber of await listSubscribers(state, pageId)) {
+      if (!isSubscriberConfirmed(subscriber)) continue;
+      const channel = subscriberChannel(subscriber);
+      if (!channel) {
+        logger.warn('Skipping status subscriber without a usable channel', { pageId, subscriberId: subscriber.id, type: subscriber.type });
+        continue;
+      }
+      const notification = buildStatusPageNotification(page, post, { token: subscriber.token, pageUrl });
+      const delivery = await createDelivery(state, channel, notification);
+      await emit({ topic: 'DELIVER_NOTIFICATION', data: { deliveryId: delivery.id } });
+      queued++;
+    }
+
+    logger.info('Status page subscribers notified', { pageId, kind: post.kind, queued });
+  } catch (err) {
+    logger.error('Error notifying status page subscribers', { pageId, error: err instanceof Error ? err.message : err });
+  }
+};
@@ -1,28 +1,72 @@
 import type { EventConfig, Handlers } from 'motia';
+import { randomUUID } from 'crypto';
 import { z } from 'zod';
-import axios from 'axios';
+import { getMonitor } from '../services/monitors';
+import { runCheck } from '../services/checks/run-check';
+import type { CheckResult } from '../services/checks/types';
+import { certificateSeverity } from '../services/checks/tls';
+import { buildSnapshot, recordSnapshot } from '../services/content';
+import { appendMetric, type MetricSample } from '../services/metrics-store';
+import { recordCheckCounters } from '../services/monitor-counters';
+import { clearFailureStreak, getOpenIncident, openIncident, recordFailureStreakStart, resolveIncident } from '../services/incidents';
+import { endFlappingIfStable, recordTransition, suppressionConfig } from '../services/alert-suppression';
+import { activeMaintenance, activeSilence } from '../services/maintenance';
+import { publishStatusEvent } from '../services/status-feed';
+import { canTransition, getMonitorStatus, transitionMonitor, type MonitorStatus } from '../services/monitor-state';
+import {
+  closeRound,
+  dispatchRound,
+  LOCAL_PROBE_ID,
+  localRegion,
+  probesForMonitor,
+  summarizeRound,
+  type ProbeResult
+} from '../services/probes';
+import { recordPingSlot } from '../services/scheduler';
+import { workspaceContext } from '../services/workspaces';
 
 const inputSchema = z.object({
-  monitorId: z.string()
+  monitorId: z.string(),
+  // set on CHECK_ROUND_COMPLETE: the probe round to evaluate instead of running a check
+  roundId: z.string().optional(),
+  // set by the scheduler: the due slot this ping is for
+  dueAt: z.number().optional(),
+  workspaceId: z.string().optional()
 });
 
 export const config: EventConfig = {
   name: 'PingMonitor',
   type: 'event',
-  description: 'Performs HTTP GET to monitor URL, records metrics and emits CHECK_ANOMALY if failures exceed threshold',
-  subscribes: ['PING_MONITOR'],
-  emits: ['CHECK_ANOMALY', 'MONITOR_DOWN', 'MONITOR_RECOVERED'],
+  description:
+    'Runs the configured http/tcp/dns/tls check (or hands it to the live probes and evaluates their round against the quorum), records metrics, drives the monitor state machine (MONITOR_DOWN / MONITOR_RECOVERED), alerts on TLS expiry and flapping and emits CHECK_ANOMALY',
+  subscribes: ['PING_MONITOR', 'CHECK_ROUND_COMPLETE'],
+  emits: ['CHECK_ANOMALY', 'MONITOR_DOWN', 'MONITOR_RECOVERED', 'SEND_ALERT', 'CONTENT_CHANGED'],
   input: inputSchema as any,
   flows: ['monitoring']
 };
 
+// A runner that throws counts as a failed check, the same as on a remote probe
+async function runCheckSafely(monitor: Parameters<typeof runCheck>[0]): Promise<CheckResult> {
+  try {
+    return await runCheck(monitor);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { latency: 0, statusCode: 0, success: false, failedAssertion: { type: 'request', message } };
+  }
+}
+
 export const handler: Handlers['PingMonitor'] = async (input: z.infer<typeof inputSchema>, context) => {
-  const { monitorId } = input;
-  const { logger, state, emit, streams } = context;
-  logger.info('PingMonitor handler started', { monitorId });
+  const { monitorId, roundId, dueAt } = input;
+  const { logger, state, emit, streams } = workspaceContext(context, input.workspaceId);
+  logger.info('PingMonitor handler started', { monitorId, roundId, dueAt });
+
+  if (dueAt !== undefined && !(await recordPingSlot(state, monitorId, dueAt))) {
+    logger.info('Due slot already pinged', { monitorId, dueAt });
+    return;
+  }
 
   // Retrieve monitor configuration from state
-  const monitor = (await state.get('monitors', monitorId)) as any;
+  const monitor = await getMonitor(state, monitorId);
 
   if (!monitor) {
     logger.warn('Monitor not found in state', { monitorId });
@@ -35,81 +79,228 @@ export const handler: Handlers['PingMonitor'] = async (input: z.infer<typeof inp
     return;
   }
 
-  const timeoutMs = monitor.timeoutMs ?? 5000;
   const failureThreshold = typeof monitor.failureThreshold === 'number' ? monitor.failureThreshold : 3;
 
-  const start = Date.now();
-  let statusCode = 0;
-  let success = false;
+  // With live probes the check runs remotely and comes back here as CHECK_ROUND_COMPLETE
+  let results: ProbeResult[];
+  if (roundId) {
+    const closed = await closeRound(state, roundId);
+    if (!closed) {
+      logger.info('Check round already evaluated', { monitorId, roundId });
+      return;
+    }
+    if (closed.results.length === 0) {
+      logger.warn('No probe answered the check round', { monitorId, roundId, probes: closed.round.probeIds });
+      return;
+    }
+    results = closed.results;
+  } else {
+    const probes = await probesForMonitor(state, monitor);
+    if (probes.length > 0) {
+      const round = await dispatchRound(state, monitor, probes, randomUUID());
+      logger.info('Check dispatched to probes', { monitorId, roundId: round.id, probes: round.probeIds });
+      return;
+    }
+    results = [{ ...(await runCheckSafely(monitor)), probeId: LOCAL_PROBE_ID, region: localRegion() }];
+  }
 
-  try {
-    const res = await axios.get(url, { timeout: timeoutMs, validateStatus: () => true });
-    statusCode = res.status;
-    success = res.status < 400;
-  } catch (error: any) {
-    // Network or other error
-    statusCode = error?.response?.status ?? 0;
-    success = false;
-    logger.warn('HTTP request failed', { monitorId, url, error: error?.message ?? error });
+  // The check only counts as failed when a quorum of probes agree
+  const { success, result, failing, quorum, probes } = summarizeRound(monitor, results);
+
+  for (const failed of failing) {
+    logger.warn('Check failed', {
+      monitorId,
+      type: monitor.type,
+      url,
+      probeId: failed.probeId,
+      region: failed.region,
+      failedAssertion: failed.failedAssertion
+    });
   }
 
-  const metric = {
+  const checkedAt = Date.now();
+  const maintenance = await activeMaintenance(state, monitor, checkedAt);
+  const metric: MetricSample = {
     monitorId,
-    timestamp: new Date().toISOString(),
-    latency: Date.now() - start,
-    statusCode,
-    success
-  } as const;
+    timestamp: new Date(checkedAt).toISOString(),
+    latency: result.latency,
+    statusCode: result.statusCode,
+    success,
+    ...(result.timings ? { timings: result.timings } : {}),
+    ...(typeof result.responseSize === 'number' ? { responseSize: result.responseSize } : {}),
+    ...(result.failedAssertion ? { failedAssertion: result.failedAssertion } : {}),
+    ...(maintenance ? { maintenance: true } : {}),
+    ...(roundId ? { probes } : {})
+  };
 
   try {
-    // Persist metric in state. Use a timestamped key to keep history.
-    await state.set('monitor-metrics', `${monitorId}:${Date.now()}`, metric);
+    // Persist metric in the monitor's time-series segments
+    await appendMetric(state, metric);
+    await recordCheckCounters(state, monitorId, { success, latencyMs: result.latency }, checkedAt);
+
+    const flapConfig = suppressionConfig();
+
+    // Counts an UP<->DOWN transition; the one that crosses the threshold sends the single FLAPPING alert.
+    // Deploys bounce monitors on purpose, so transitions inside a maintenance window don't count.
+    const noteTransition = async () => {
+      if (maintenance) return;
+      const flap = await recordTransition(state, monitorId, flapConfig, checkedAt);
+      if (!flap) return;
+      await emit({
+        topic: 'SEND_ALERT',
+        data: {
+          monitorId,
+          severity: 'WARNING',
+          diagnostic: { reason: 'flapping', transitions: flap.transitions.length, windowMinutes: flapConfig.flapWindowMs / 60000 }
+        }
+      });
+      logger.info('Monitor is flapping', { monitorId, transitions: flap.transitions.length });
+    };
 
     // Update failure counter (consecutive failures)
     const prevFailures = ((await state.get('monitor-failures', monitorId)) as number) ?? 0;
 
+    let newFailures = 0;
     if (success) {
       // Reset failure counter
       if (prevFailures !== 0) {
         await state.set('monitor-failures', monitorId, 0);
+        await clearFailureStreak(state, monitorId);
       }
 
-      // If previously DOWN or ALERTED, emit recovery
-      const prevState = (await state.get('monitor-state', monitorId)) as string | undefined;
-      if (prevState === 'DOWN' || prevState === 'ALERTED') {
-        // Reset state to UP and emit recovery notification
-        await state.set('monitor-state', monitorId, 'UP');
-        await emit({ topic: 'MONITOR_RECOVERED', data: { monitorId } });
-      }
-
-      // Run anomaly detection only for successful requests (performance metrics)
-      await emit({ topic: 'CHECK_ANOMALY', data: { monitorId } });
+      // Run anomaly detection only for successful requests (performance metrics) outside maintenance
+      if (!maintenance) await emit({ topic: 'CHECK_ANOMALY', data: { monitorId } });
     } else {
-      const newFailures = prevFailures + 1;
+      newFailures = prevFailures + 1;
       await state.set('monitor-failures', monitorId, newFailures);
+      await recordFailureStreakStart(state, monitorId, metric.timestamp);
+    }
 
-      // If failure threshold met or exceeded => rule-based outage
-      if (newFailures >= failureThreshold) {
-        logger.info('Failure threshold met, emitting MONITOR_DOWN', { monitorId, failureCount: newFailures, threshold: failureThreshold });
-
-        // Only emit MONITOR_DOWN if monitor wasn't already marked DOWN
-        const prevState = (await state.get('monitor-state', monitorId)) as string | undefined;
-        if (prevState !== 'DOWN' && prevState !== 'ALERTED') {
-          await state.set('monitor-state', monitorId, 'DOWN');
-          await emit({ topic: 'MONITOR_DOWN', data: { monitorId } });
-        } else {
-          logger.info('Monitor already DOWN or ALERTED; skipping MONITOR_DOWN emit', { monitorId, prevState });
-        }
+    // Drive the monitor state machine; a check that lands after a pause doesn't change anything
+    const previous = await getMonitorStatus(state, monitorId);
+    let next: MonitorStatus;
+    let reason: string;
+    if (maintenance) {
+      next = 'MAINTENANCE';
+      reason = `maintenance window ${maintenance.name}`;
+    } else if (success && failing.length > 0 && previous !== 'DOWN') {
+      // some probes fail but not enough of them to call it an outage
+      next = 'DEGRADED';
+      reason = `${failing.length} of ${results.length} probes failing (quorum ${quorum})`;
+    } else if (success) {
+      next = 'UP';
+      reason = 'check succeeded';
+    } else if (newFailures >= failureThreshold) {
+      next = 'DOWN';
+      reason = `${newFailures} consecutive failures (threshold ${failureThreshold})`;
+    } else {
+      next = 'DEGRADED';
+      reason = `${newFailures} consecutive failure${newFailures === 1 ? '' : 's'} (threshold ${failureThreshold})`;
+    }
+
+    const transition = canTransition(previous, next) ? await transitionMonitor(state, monitorId, next, reason, checkedAt) : null;
+    if (transition) {
+      logger.info('Monitor state changed', { monitorId, ...transition });
+    } else if (previous !== next) {
+      logger.info('Skipping state change for check result', { monitorId, status: previous, result: next });
+    }
+
+    if (transition?.to === 'DOWN') {
+      logger.info('Failure threshold met, emitting MONITOR_DOWN', { monitorId, failureCount: newFailures, threshold: failureThreshold });
+      const incident = await openIncident(state, monitorId, {
+        failureCount: newFailures,
+        ...(result.failedAssertion ? { failedAssertion: result.failedAssertion } : {})
+      });
+      logger.info('Incident opened', { monitorId, incidentId: incident.id });
+      await noteTransition();
+      await emit({ topic: 'MONITOR_DOWN', data: { monitorId } });
+    } else if (transition?.to === 'UP') {
+      // Recovery: from an outage, or from a pause or maintenance window that began while it was down
+      const incident = await resolveIncident(state, monitorId);
+      if (incident) logger.info('Incident resolved', { monitorId, incidentId: incident.id, durationSeconds: incident.durationSeconds });
+      if (transition.from === 'DOWN' || incident) {
+        await noteTransition();
+        await emit({
+          topic: 'MONITOR_RECOVERED',
+          data: { monitorId, incidentId: incident?.id, durationSeconds: incident?.durationSeconds ?? undefined }
+        });
+      }
+    }
+
+    // Outage alerts muted by a silence go out once it ends if the monitor is still down
+    // (maintenance windows re-alert through the MAINTENANCE -> DOWN transition instead)
+    const muted = (await activeSilence(state, monitor, checkedAt)) !== null;
+    const wasMuted = (await state.get<boolean>('monitor-muted', monitorId)) === true;
+    if (muted && !wasMuted) {
+      await state.set('monitor-muted', monitorId, true);
+    } else if (!muted && wasMuted) {
+      await state.delete('monitor-muted', monitorId);
+      if ((await getMonitorStatus(state, monitorId)) === 'DOWN') {
+        const incident = await getOpenIncident(state, monitorId);
+        await emit({
+          topic: 'SEND_ALERT',
+          data: { monitorId, severity: 'CRITICAL', diagnostic: { reason: 'monitor_down', muteEnded: true, incidentId: incident?.id ?? null } }
+        });
+        logger.info('Mute ended while monitor down; alerting', { monitorId, incidentId: incident?.id });
+      }
+    }
+
+    // Once a flapping monitor settles, tell the channels where it ended up
+    const settled = await endFlappingIfStable(state, monitorId, flapConfig, checkedAt);
+    if (settled) {
+      const currentState = await getMonitorStatus(state, monitorId);
+      const down = currentState === 'DOWN';
+      const incident = down ? await getOpenIncident(state, monitorId) : null;
+      await emit({
+        topic: 'SEND_ALERT',
+        data: down
+          ? { monitorId, severity: 'CRITICAL', diagnostic: { reason: 'monitor_down', flapEnded: true, incidentId: incident?.id ?? null } }
+          : { monitorId, severity: 'NORMAL', diagnostic: { recovered: true, flapEnded: true } }
+      });
+      logger.info('Monitor stopped flapping', { monitorId, state: currentState });
+    }
+
+    // Certificate expiry: alert once per severity step (WARNING, then CRITICAL) for a given certificate
+    if (result.certificate) {
+      const certSeverity = certificateSeverity(monitor, result.certificate);
+      const prevCertAlert = await state.get<{ severity: string; validTo: string }>('monitor-cert-alerts', monitorId);
+      const alreadyAlerted =
+        prevCertAlert?.validTo === result.certificate.validTo &&
+        (prevCertAlert.severity === certSeverity || prevCertAlert.severity === 'CRITICAL');
+
+      if (certSeverity === 'NORMAL') {
+        if (prevCertAlert) await state.delete('monitor-cert-alerts', monitorId);
+      } else if (!alreadyAlerted) {
+        await emit({
+          topic: 'SEND_ALERT',
+          data: { monitorId, severity: certSeverity, diagnostic: { reason: 'tls_expiry', certificate: result.certificate } }
+        });
+        await state.set('monitor-cert-alerts', monitorId, { severity: certSeverity, validTo: result.certificate.validTo });
+        logger.info('Emitted SEND_ALERT for TLS certificate expiry', { monitorId, severity: certSeverity, certificate: result.certificate });
+      }
+    }
+
+    // Content tracking: only successful responses are compared, failures are handled as outages above
+    if (success && typeof result.content === 'string') {
+      const snapshot = buildSnapshot(result.content, monitor.contentTracking?.ignorePatterns ?? []);
+      const changed = await recordSnapshot(state, monitorId, snapshot);
+      if (changed) {
+        await emit({
+          topic: 'CONTENT_CHANGED',
+          data: { monitorId, previousHash: changed.previous?.hash, currentHash: changed.current.hash }
+        });
+        logger.info('Emitted CONTENT_CHANGED', { monitorId, currentHash: changed.current.hash });
       }
     }
 
     logger.info('PingMonitor finished', { monitorId, metric });
 
-    // Send ephemeral status to stream subscribers (non-persistent event)
+    // Send ephemeral status to stream subscribers (non-persistent event), and to the multiplexed feed when it changed
     try {
       if (streams && streams.monitorStatus && typeof streams.monitorStatus.send === 'function') {
-        await streams.monitorStatus.send({ groupId: monitorId, event: { type: 'status', data: metric } });
+        await streams.monitorStatus.send({ groupId: monitorId }, { type: 'status', data: metric });
       }
+      await publishStatusEvent(state, streams?.monitorStatus, monitor, metric, checkedAt);
     } catch (streamErr) {
       logger.warn('Failed to send monitor status to stream', { monitorId, error: streamErr });
     }
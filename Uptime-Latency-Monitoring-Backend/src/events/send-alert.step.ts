@@ -1,30 +1,41 @@
 import type { EventConfig, Handlers } from 'motia';
 import { z } from 'zod';
-import axios from 'axios';
+import { queryMetrics, type MetricSample } from '../services/metrics-store';
+import { addTimelineEntry, getOpenIncident } from '../services/incidents';
+import { resolveMonitorChannels } from '../services/channels';
+import { alertReason, buildNotification } from '../services/notifications/message';
+import { channelAccepts } from '../services/notifications/deliver';
+import { createDelivery } from '../services/deliveries';
+import { startEscalation } from '../services/escalations';
+import { alertDedupKey, isCooledDownReason, isFlapping, passCooldown } from '../services/alert-suppression';
+import { takeRateSlot } from '../services/channel-rate-limits';
+import { activeMaintenance, activeSilence } from '../services/maintenance';
+import { getMonitor } from '../services/monitors';
+import { workspaceContext } from '../services/workspaces';
 
 const inputSchema = z.object({
   monitorId: z.string(),
   severity: z.enum(['NORMAL', 'WARNING', 'CRITICAL']),
-  diagnostic: z.any().optional()
+  diagnostic: z.any().optional(),
+  workspaceId: z.string().optional()
 });
 
+// Only the fields this step reads from a producer's diagnostic
+const taggedDiagnosticSchema = z.object({ reason: z.string() });
+const recoveryDiagnosticSchema = z.object({ incidentId: z.string().nullish(), durationSeconds: z.number().nullish() });
+
 export const config: EventConfig = {
   name: 'SendAlert',
   type: 'event',
-  description: 'Routes alerts: CRITICAL -> email, WARNING -> webhook. Includes monitor context and metrics summary.',
+  description:
+    'Builds the alert (monitor context, metrics summary) and queues one delivery per notification channel; applies acknowledgement, maintenance/silence, flapping and cooldown suppression and per-channel rate limits',
   subscribes: ['SEND_ALERT'],
-  emits: [],
+  emits: ['DELIVER_NOTIFICATION', 'ESCALATE_INCIDENT'],
   input: inputSchema as any,
   flows: ['monitoring']
 };
 
-type Metric = {
-  monitorId: string;
-  timestamp: string;
-  latency?: number;
-  statusCode?: number;
-  success?: boolean;
-};
+type Metric = MetricSample;
 
 function parseISO(ts?: string): Date | null {
   if (!ts) return null;
@@ -39,12 +50,12 @@ function mean(nums: number[]): number {
 }
 
 export const handler: Handlers['SendAlert'] = async (input: z.infer<typeof inputSchema>, context) => {
-  const { logger, state } = context;
+  const { logger, state, emit } = workspaceContext(context, input.workspaceId);
   const { monitorId, severity, diagnostic } = input;
   logger.info('SendAlert handler started', { monitorId, severity });
 
   // Load monitor config
-  const monitor = (await state.get('monitors', monitorId)) as any;
+  const monitor = await getMonitor(state, monitorId);
   if (!monitor) {
     logger.warn('Monitor config not found for alert', { monitorId });
     return;
@@ -52,14 +63,58 @@ export const handler: Handlers['SendAlert'] = async (input: z.infer<typeof input
 
   const monitorUrl: string | undefined = monitor.url;
 
+  // Someone is already on an acknowledged incident: only the recovery notification goes out
+  const incident = await getOpenIncident(state, monitorId);
+  if (incident?.acknowledgedAt && severity !== 'NORMAL') {
+    await addTimelineEntry(state, incident.id, 'alert_suppressed', `${severity} alert suppressed (incident acknowledged)`, {
+      severity,
+      reason: taggedDiagnosticSchema.safeParse(diagnostic).data?.reason ?? null
+    });
+    logger.info('Alert suppressed; incident acknowledged', { monitorId, incidentId: incident.id, severity });
+    return;
+  }
+
+  // Maintenance windows and silences mute every notification for the monitor, recoveries included
+  const window = await activeMaintenance(state, monitor);
+  const silence = window ? null : await activeSilence(state, monitor);
+  if (window || silence) {
+    const details = window ? { maintenanceWindowId: window.id } : { silenceId: silence?.id };
+    if (incident) {
+      const why = window ? `maintenance: ${window.name}` : 'silenced';
+      await addTimelineEntry(state, incident.id, 'alert_suppressed', `${severity} alert suppressed (${why})`, { severity, ...details });
+    }
+    logger.info('Alert suppressed; monitor muted', { monitorId, severity, ...details });
+    return;
+  }
+
+  // While a monitor flaps only the single FLAPPING notification goes out, not every up/down
+  const reason = alertReason(severity, diagnostic);
+  if ((reason === 'monitor_down' || reason === 'recovered') && (await isFlapping(state, monitorId))) {
+    if (incident) {
+      await addTimelineEntry(state, incident.id, 'alert_suppressed', `${severity} alert suppressed (monitor flapping)`, { severity, reason });
+    }
+    logger.info('Alert suppressed; monitor flapping', { monitorId, severity, reason });
+    return;
+  }
+
+  // Repeats of the same monitor+severity+reason within the cooldown are counted, not sent
+  let suppressedCount = 0;
+  if (isCooledDownReason(reason)) {
+    const passed = await passCooldown(state, alertDedupKey(monitorId, severity, reason));
+    if (!passed) {
+      logger.info('Alert suppressed; cooldown active', { monitorId, severity, reason });
+      return;
+    }
+    suppressedCount = passed.suppressedCount;
+  }
+
   // Gather last 60 minutes of metrics for this monitor
   const now = new Date();
   const windowStart = new Date(now.getTime() - 60 * 60 * 1000);
 
-  const allMetrics = ((await state.getGroup('monitor-metrics')) as Metric[]) || [];
+  const windowMetrics = await queryMetrics(state, monitorId, { from: windowStart.getTime(), to: now.getTime() });
   const metrics: (Metric & { _ts: Date })[] = [];
-  for (const m of allMetrics) {
-    if (m.monitorId !== monitorId) continue;
+  for (const m of windowMetrics) {
     const d = parseISO(m.timestamp);
     if (!d) continue;
     if (d < windowStart) continue;
@@ -86,98 +141,47 @@ export const handler: Handlers['SendAlert'] = async (input: z.infer<typeof input
     failureDurationSeconds = null;
   }
 
-  const contextPayload = {
-    monitorId,
-    monitorUrl,
-    failureDurationSeconds,
-    avgLatency,
+  // Recoveries carry the incident they resolved and how long it lasted
+  const resolved = reason === 'recovered' ? (recoveryDiagnosticSchema.safeParse(diagnostic).data ?? null) : null;
+
+  const notification = buildNotification({
+    monitor: { id: monitorId, name: monitor.name ?? null, url: monitorUrl ?? null },
     severity,
-    timestamp: now.toISOString(),
-    diagnostic: diagnostic ?? null
-  };
+    diagnostic,
+    incidentId: incident?.id ?? resolved?.incidentId ?? null,
+    failureDurationSeconds: resolved?.durationSeconds ?? failureDurationSeconds,
+    avgLatency,
+    suppressedCount,
+    now
+  });
 
-  // Dispatch based on severity
   try {
-    if (severity === 'CRITICAL') {
-      // SEND EMAIL
-      // Use env vars or monitor-specific configuration; do not hardcode credentials
-      const emailApiUrl = process.env.EMAIL_API_URL || monitor?.emailApiUrl;
-      const emailApiKey = process.env.EMAIL_API_KEY || monitor?.emailApiKey;
-      const emailTo = monitor?.alertTo || process.env.EMAIL_TO;
-      const emailFrom = process.env.EMAIL_FROM || monitor?.emailFrom;
-
-      if (!emailApiUrl || !emailApiKey || !emailTo || !emailFrom) {
-        logger.warn('Email not sent: missing email configuration (no hardcoded credentials).', { monitorId });
-      } else {
-        const subject = `[CRITICAL] Monitor ${monitorId} is down`;
-        const bodyText = `Monitor ${monitorId} (${monitorUrl ?? 'unknown URL'}) reported CRITICAL at ${now.toISOString()}\n\n` +
-          `Failure duration (s): ${failureDurationSeconds ?? 'unknown'}\n` +
-          `Avg latency (ms): ${avgLatency ?? 'unknown'}\n\n` +
-          `Diagnostic: ${JSON.stringify(diagnostic ?? {})}`;
-
-        // Generic POST to an email-sending API (user must supply compatible API)
-        await axios.post(emailApiUrl, {
-          to: emailTo,
-          from: emailFrom,
-          subject,
-          text: bodyText
-        }, {
-          headers: { Authorization: `Bearer ${emailApiKey}` }
-        });
-
-        logger.info('Email alert sent (via EMAIL_API_URL)', { monitorId, emailTo });
+    // Outages on monitors with an escalation policy also page the on-call levels, once per incident
+    if (incident && notification.reason === 'monitor_down' && monitor.escalationPolicyId) {
+      const escalation = await startEscalation(state, incident, monitor.escalationPolicyId, notification);
+      if (escalation) {
+        await emit({ topic: 'ESCALATE_INCIDENT', data: { incidentId: incident.id, level: 0 } });
+        logger.info('Escalation started', { monitorId, incidentId: incident.id, policyId: monitor.escalationPolicyId });
       }
     }
 
-    if (severity === 'WARNING' || severity === 'CRITICAL') {
-      // send webhook: prefer monitor-specific webhook then env var
-      const webhookUrl = monitor?.alertWebhookUrl || process.env.MONITOR_WEBHOOK_URL;
-      if (!webhookUrl) {
-        logger.warn('Webhook not sent: no webhook URL configured', { monitorId });
-      } else {
-        await axios.post(webhookUrl, contextPayload, { headers: { 'Content-Type': 'application/json' } });
-        logger.info('Webhook alert sent', { monitorId, webhookUrl });
-      }
+    const channels = (await resolveMonitorChannels(state, monitor)).filter(c => channelAccepts(c, notification));
+    if (channels.length === 0) {
+      logger.info('No notification channel accepts this alert', { monitorId, severity, reason: notification.reason });
+      return;
     }
-      // Handle recovery notifications (emit NORMAL with diagnostic.recovered === true)
-      if (severity === 'NORMAL') {
-        const recovered = !!(diagnostic && (diagnostic as any).recovered);
-        if (recovered) {
-          // Send email if configured
-          const emailApiUrl = process.env.EMAIL_API_URL || monitor?.emailApiUrl;
-          const emailApiKey = process.env.EMAIL_API_KEY || monitor?.emailApiKey;
-          const emailTo = monitor?.alertTo || process.env.EMAIL_TO;
-          const emailFrom = process.env.EMAIL_FROM || monitor?.emailFrom;
-
-          if (emailApiUrl && emailApiKey && emailTo && emailFrom) {
-            const subject = `[RECOVERED] Monitor ${monitorId} recovered`;
-            const bodyText = `Monitor ${monitorId} (${monitorUrl ?? 'unknown URL'}) recovered at ${now.toISOString()}`;
-            try {
-              await axios.post(emailApiUrl, { to: emailTo, from: emailFrom, subject, text: bodyText }, { headers: { Authorization: `Bearer ${emailApiKey}` } });
-              logger.info('Recovery email sent', { monitorId, emailTo });
-            } catch (e) {
-              logger.warn('Failed to send recovery email', { monitorId, error: e });
-            }
-          } else {
-            logger.info('Recovery email not sent: missing configuration', { monitorId });
-          }
-
-          // Send webhook if configured
-          const webhookUrl = monitor?.alertWebhookUrl || process.env.MONITOR_WEBHOOK_URL;
-          if (!webhookUrl) {
-            logger.info('Recovery webhook not sent: no webhook URL configured', { monitorId });
-          } else {
-            try {
-              await axios.post(webhookUrl, contextPayload, { headers: { 'Content-Type': 'application/json' } });
-              logger.info('Recovery webhook sent', { monitorId, webhookUrl });
-            } catch (e) {
-              logger.warn('Failed to send recovery webhook', { monitorId, error: e });
-            }
-          }
-        } else {
-          logger.info('Severity NORMAL: no alert routed', { monitorId });
-        }
+
+    // One delivery per channel so a failing transport is retried on its own without blocking the others;
+    // channels over their rate limit hold the alert for the next digest instead
+    for (const channel of channels) {
+      if (!(await takeRateSlot(state, channel, notification))) {
+        logger.info('Channel rate limit reached; alert held for digest', { monitorId, channelId: channel.id });
+        continue;
       }
+      const delivery = await createDelivery(state, channel, notification);
+      await emit({ topic: 'DELIVER_NOTIFICATION', data: { deliveryId: delivery.id } });
+      logger.info('Notification queued', { monitorId, deliveryId: delivery.id, channelId: channel.id, type: channel.type });
+    }
   } catch (err: any) {
     logger.error('Error routing alert', { monitorId, error: err?.message ?? err });
   }
@@ -0,0 +1,55 @@
+import type { ApiMiddleware } from 'motia';
+import { authenticate, hasScope, type ApiKeyScope, type AuthContext } from '../services/auth';
+import { probeAuthorized } from '../services/probes';
+import { statusPageWorkspace } from '../services/status-pages';
+import { getWorkspace, workspaceContext } from '../services/workspaces';
+
+// Filled by requireScope; handlers that need to know the caller read it with authOf
+const requestAuth = new WeakMap<object, AuthContext>();
+
+const ANONYMOUS: AuthContext = { workspaceId: 'default', scope: 'read', keyId: null, root: false };
+
+export function authOf(request: object): AuthContext {
+  return requestAuth.get(request) ?? ANONYMOUS;
+}
+
+/**
+ * Rejects requests without a key of at least `scope`, then scopes the step context to the
+ * key's workspace: the handler's state, streams and emitted events only reach that tenant.
+ */
+export function requireScope(scope: ApiKeyScope, options: { queryToken?: boolean } = {}): ApiMiddleware<any, any, any> {
+  return async (request, ctx, next) => {
+    const auth = await authenticate(ctx.state, request, options);
+    if (!auth) {
+      return { status: 401, headers: { 'WWW-Authenticate': 'Bearer' }, body: { error: 'unauthorized' } };
+    }
+    if (!hasScope(auth.scope, scope)) {
+      return { status: 403, body: { error: 'forbidden', details: { required: scope, granted: auth.scope } } };
+    }
+    if (!(await getWorkspace(ctx.state, auth.workspaceId))) {
+      return { status: 404, body: { error: 'unknown_workspace', details: { workspaceId: auth.workspaceId } } };
+    }
+
+    requestAuth.set(request, auth);
+    Object.assign(ctx, workspaceContext(ctx, auth.workspaceId));
+    return next();
+  };
+}
+
+/**
+ * Probes work for every workspace, so the probe routes take PROBE_TOKEN (x-probe-token) or the
+ * root key, never a workspace's key. They run unscoped: the handlers pick each job's workspace.
+ */
+export const requireProbe: ApiMiddleware<any, any, any> = async (request, ctx, next) => {
+  if (probeAuthorized(request.headers)) return next();
+  const auth = await authenticate(ctx.state, request);
+  if (auth?.root) return next();
+  return { status: 401, headers: { 'WWW-Authenticate': 'Bearer' }, body: { error: 'unauthorized' } };
+};
+
+// Public status page routes need no key; they run in the workspace owning the :slug
+export const publicStatusPage: ApiMiddleware<any, any, any> = async (request, ctx, next) => {
+  const workspaceId = await statusPageWorkspace(ctx.state, request.pathParams.slug);
+  if (workspaceId) Object.assign(ctx, workspaceContext(ctx, workspaceId));
+  return next();
+};
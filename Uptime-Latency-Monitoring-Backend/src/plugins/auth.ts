@@ -0,0 +1,77 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Config, InternalStateManager, MotiaPluginBuilder, StreamAuthConfig } from 'motia';
+import { authenticate } from '../services/auth';
+
+type ExpressApp = Parameters<NonNullable<Config['app']>>[0];
+
+type Registry = { state: InternalStateManager | null };
+
+// motia.config.ts is loaded more than once, so the plugin and the hooks meet on a process-wide registry
+function registry(): Registry {
+  const key = Symbol.for('uptime-monitor.auth');
+  const holder = globalThis as unknown as Record<symbol, Registry | undefined>;
+  return (holder[key] ??= { state: null });
+}
+
+// Hands the state manager to the hooks below, which run outside any step
+export const authPlugin: MotiaPluginBuilder = motia => {
+  registry().state = motia.state;
+  return { workbench: [] };
+};
+
+function header(headers: IncomingMessage['headers'], name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value || undefined;
+}
+
+/**
+ * CORS_ALLOWED_ORIGINS is a comma-separated list of origins browsers may call the API from
+ * (`*` for any). The dashboard's own origin is always allowed; nothing else is by default.
+ */
+function allowedOrigin(headers: IncomingMessage['headers']): boolean {
+  const origin = header(headers, 'origin');
+  if (!origin) return true;
+  const host = header(headers, 'host');
+  try {
+    if (host && new URL(origin).host === host) return true;
+  } catch {
+    return false;
+  }
+  const allowed = (process.env.CORS_ALLOWED_ORIGINS ?? '').split(',').map(o => o.trim().replace(/\/$/, '')).filter(Boolean);
+  return allowed.includes('*') || allowed.includes(origin);
+}
+
+/**
+ * Motia answers every route, preflights included, with `Access-Control-Allow-Origin: *`, so
+ * requests from origins off the allow-list are refused here, before they reach it. Public
+ * status pages stay open to every origin.
+ */
+export function mountCors(app: ExpressApp): void {
+  app.use((req: IncomingMessage & { path?: string }, res: ServerResponse, next: () => void) => {
+    if (req.path?.startsWith('/public/') || allowedOrigin(req.headers)) return next();
+    res.statusCode = 403;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ error: 'origin_not_allowed' }));
+  });
+}
+
+// WebSocket stream clients authenticate like EventSource ones: bearer header or ?token
+export const streamAuth: StreamAuthConfig = {
+  contextSchema: {
+    type: 'object',
+    properties: {
+      workspaceId: { type: 'string' },
+      scope: { type: 'string' },
+      root: { type: 'boolean' }
+    },
+    required: ['workspaceId', 'scope', 'root']
+  },
+  authenticate: async request => {
+    const { state } = registry();
+    if (!state || !allowedOrigin(request.headers)) throw new Error('unauthorized');
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const auth = await authenticate(state, { headers: request.headers, queryParams: Object.fromEntries(url.searchParams) }, { queryToken: true });
+    if (!auth) throw new Error('unauthorized');
+    return { workspaceId: auth.workspaceId, scope: auth.scope, root: auth.root };
+  }
+};
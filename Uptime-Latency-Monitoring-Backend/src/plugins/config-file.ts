@@ -0,0 +1,39 @@
+import { Logger, type InternalStateManager, type MotiaPluginBuilder } from 'motia';
+import { applyConfigPlan, loadConfigFile, planConfig, validateConfig } from '../services/config-sync';
+import { runStartupTask } from '../services/startup';
+import { DEFAULT_WORKSPACE_ID, workspaceState } from '../services/workspaces';
+
+async function syncConfigFile(state: InternalStateManager, path: string, prune: boolean, logger: Logger): Promise<void> {
+  const { document, errors } = validateConfig(await loadConfigFile(path));
+  const plan = document ? await planConfig(state, document, { prune }) : null;
+  const problems = plan?.errors ?? errors;
+  if (!plan || problems.length > 0) {
+    logger.error(`${path} not applied: ${problems.map(e => `${e.path}: ${e.message}`).join('; ')}`, { path, errors: problems });
+    return;
+  }
+  await applyConfigPlan(state, plan);
+  const summary = plan.changes.map(c => `${c.action} ${c.kind} ${c.id}`).join(', ');
+  logger.info(`${path} applied: ${summary || 'no changes'} (${plan.unchanged} unchanged)`, { path, changes: plan.changes.length });
+}
+
+/**
+ * Applies the monitors-as-code file named by MONITORS_CONFIG_FILE when the server starts,
+ * the same way POST /config/apply does (MONITORS_CONFIG_PRUNE=true prunes), before the
+ * scheduler's first ping. A file that doesn't validate is reported and nothing is changed.
+ * MONITORS_CONFIG_WORKSPACE picks the workspace it is applied to (default: the default workspace).
+ */
+export const configFilePlugin: MotiaPluginBuilder = motia => {
+  const path = process.env.MONITORS_CONFIG_FILE;
+  // motia.config.ts is loaded more than once; sync the file only the first time
+  const key = Symbol.for('uptime-monitor.config-file');
+  const holder = globalThis as unknown as Record<symbol, boolean | undefined>;
+  if (path && !holder[key]) {
+    holder[key] = true;
+    const logger = new Logger(false, { step: 'ConfigFile', traceId: 'startup' });
+    const state = workspaceState(motia.state, process.env.MONITORS_CONFIG_WORKSPACE || DEFAULT_WORKSPACE_ID);
+    runStartupTask(state, 'config-file', () => syncConfigFile(state, path, process.env.MONITORS_CONFIG_PRUNE === 'true', logger)).catch(err =>
+      logger.error(`${path} not applied: ${err instanceof Error ? err.message : err}`, { path, error: err })
+    );
+  }
+  return { workbench: [] };
+};
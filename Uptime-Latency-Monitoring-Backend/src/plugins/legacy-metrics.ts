@@ -0,0 +1,26 @@
+import { Logger, type MotiaPluginBuilder } from 'motia';
+import { migrateLegacyMetrics } from '../services/metrics-store';
+import { listMonitors } from '../services/monitors';
+import { runStartupTask } from '../services/startup';
+
+/**
+ * Samples stored before metrics moved to per-monitor segments live in the old
+ * `monitor-metrics` group, which nothing reads any more. They are moved over at startup,
+ * before the scheduler's first ping; only the default workspace predates segments.
+ */
+export const legacyMetricsPlugin: MotiaPluginBuilder = motia => {
+  // motia.config.ts is loaded more than once; migrate only the first time
+  const key = Symbol.for('uptime-monitor.legacy-metrics');
+  const holder = globalThis as unknown as Record<symbol, boolean | undefined>;
+  if (!holder[key]) {
+    holder[key] = true;
+    const logger = new Logger(false, { step: 'LegacyMetrics', traceId: 'startup' });
+    const state = motia.state;
+    runStartupTask(state, 'legacy-metrics', async () => {
+      const monitors = await listMonitors(state);
+      const moved = await migrateLegacyMetrics(state, new Set(monitors.map(m => m.id)));
+      if (moved > 0) logger.info(`Moved ${moved} samples from monitor-metrics into segments`, { moved });
+    }).catch(err => logger.error(`Legacy samples not migrated: ${err instanceof Error ? err.message : err}`, { error: err }));
+  }
+  return { workbench: [] };
+};
@@ -0,0 +1,186 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import {
+  Logger,
+  type Config,
+  type InternalStateManager,
+  type MotiaPluginBuilder,
+  type MotiaStream,
+  type StateStreamEvent,
+  type StateStreamEventChannel
+} from 'motia';
+import { authenticate } from '../services/auth';
+import { listMonitors } from '../services/monitors';
+import {
+  latestStatusEventId,
+  matchesStatusFilter,
+  parseStatusFilter,
+  STATUS_FEED_GROUP,
+  statusEventsSince,
+  statusSnapshot,
+  type StatusEvent,
+  type StatusFilter
+} from '../services/status-feed';
+import { getWorkspace, unscopedName, workspaceState } from '../services/workspaces';
+
+/**
+ * GET /status/stream: the multiplexed status feed as server-sent events, for the monitors in
+ * ?ids and/or matching the ?tag selector. Step handlers run in their own processes and can't
+ * hold a response open, so this route is mounted on the express app in motia.config.ts and
+ * fed in-process by wrapping the monitorStatus stream's `send`: whatever PingMonitor
+ * publishes to the `feed` group is pushed straight to the matching connections.
+ *
+ * Clients resuming with Last-Event-ID (or ?lastEventId) get the missed events replayed;
+ * new clients, and ones that were gone longer than the feed retention, get one `snapshot`
+ * event with every monitor's current status first.
+ *
+ * Like the API routes it needs a key (bearer header or ?token) and only carries the events of
+ * the key's workspace.
+ */
+type Client = {
+  workspaceId: string;
+  filter: StatusFilter;
+  // events published while the replay is being written, flushed after it
+  pending: StatusEvent[] | null;
+  write: (event: StatusEvent) => void;
+};
+
+type Registry = { state: InternalStateManager | null; clients: Set<Client>; warned: boolean };
+
+type StreamWrapper = (name: string, factory: () => MotiaStream<any>) => () => MotiaStream<any>;
+
+type ExpressApp = Parameters<NonNullable<Config['app']>>[0];
+type StreamRequest = IncomingMessage & { query?: Record<string, string | string[]> };
+
+const KEEP_ALIVE_MS = 15 * 1000;
+
+// motia.config.ts is loaded more than once, so the plugin and the route meet on a process-wide registry
+function registry(): Registry {
+  const key = Symbol.for('uptime-monitor.status-stream');
+  const holder = globalThis as unknown as Record<symbol, Registry | undefined>;
+  return (holder[key] ??= { state: null, clients: new Set(), warned: false });
+}
+
+function fanOut(workspaceId: string, event: StatusEvent): void {
+  for (const client of registry().clients) {
+    if (client.workspaceId !== workspaceId || !matchesStatusFilter(event, client.filter)) continue;
+    if (client.pending) client.pending.push(event);
+    else client.write(event);
+  }
+}
+
+export const statusStreamPlugin: MotiaPluginBuilder = motia => {
+  registry().state = motia.state;
+
+  // applyStreamWrapper replaces Motia's own wrapper (the one emitting stream events), which
+  // lockedData keeps private. It is read back to chain onto; if it can't be found, live pushes
+  // are left off rather than dropping Motia's wrapper.
+  const { lockedData } = motia;
+  const inner: unknown = Reflect.get(lockedData, 'streamWrapper');
+  if (typeof lockedData.applyStreamWrapper !== 'function' || typeof inner !== 'function') {
+    if (!registry().warned) {
+      registry().warned = true;
+      new Logger(false, { step: 'StatusStream', traceId: 'startup' }).warn(
+        'This Motia version has no stream wrapper to chain onto; GET /status/stream only replays and snapshots, without live pushes'
+      );
+    }
+    return { workbench: [] };
+  }
+
+  const wrapInner = inner as StreamWrapper;
+  lockedData.applyStreamWrapper((name, factory) => {
+    const wrapped = wrapInner(name, factory);
+    if (name !== 'monitorStatus') return wrapped;
+    return () => {
+      const stream = wrapped();
+      const send = stream.send.bind(stream);
+      stream.send = async <T>(channel: StateStreamEventChannel, event: StateStreamEvent<T>) => {
+        await send(channel, event);
+        const { workspaceId, name } = unscopedName(channel.groupId);
+        if (name === STATUS_FEED_GROUP) fanOut(workspaceId, event.data as StatusEvent);
+      };
+      return stream;
+    };
+  });
+
+  return { workbench: [] };
+};
+
+function writeEvent(res: ServerResponse, name: string, id: string | null, data: unknown): void {
+  res.write(`event: ${name}\n${id ? `id: ${id}\n` : ''}data: ${JSON.stringify(data)}\n\n`);
+}
+
+function header(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value || undefined;
+}
+
+function fail(res: ServerResponse, status: number, error: string, headers: Record<string, string> = {}): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  for (const [name, value] of Object.entries(headers)) res.setHeader(name, value);
+  res.end(JSON.stringify({ error }));
+}
+
+async function handleStatusStream(req: StreamRequest, res: ServerResponse): Promise<void> {
+  const { state: rootState, clients } = registry();
+  const filter = parseStatusFilter(req.query);
+  if (!rootState) return fail(res, 503, 'not_ready');
+  if (!filter) return fail(res, 400, 'invalid_tag');
+
+  const auth = await authenticate(rootState, { headers: req.headers, queryParams: req.query }, { queryToken: true });
+  if (!auth) return fail(res, 401, 'unauthorized', { 'WWW-Authenticate': 'Bearer' });
+  if (!(await getWorkspace(rootState, auth.workspaceId))) return fail(res, 404, 'unknown_workspace');
+  const state = workspaceState(rootState, auth.workspaceId);
+  const queryLastId = req.query?.lastEventId;
+  const lastEventId = header(req, 'last-event-id') ?? (Array.isArray(queryLastId) ? queryLastId[0] : queryLastId) ?? null;
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  let lastSent = lastEventId ?? '';
+  const client: Client = {
+    workspaceId: auth.workspaceId,
+    filter,
+    pending: [],
+    write: event => {
+      if (event.id <= lastSent) return;
+      lastSent = event.id;
+      writeEvent(res, 'status', event.id, event.data);
+    }
+  };
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+  req.once('close', () => {
+    clearInterval(keepAlive);
+    clients.delete(client);
+  });
+  clients.add(client);
+
+  try {
+    const replay = lastEventId ? await statusEventsSince(state, lastEventId, filter) : null;
+    if (replay?.complete) {
+      for (const event of replay.events) client.write(event);
+    } else {
+      const latest = await latestStatusEventId(state);
+      const monitors = await statusSnapshot(state, await listMonitors(state), filter);
+      writeEvent(res, 'snapshot', latest, { monitors });
+      if (latest && latest > lastSent) lastSent = latest;
+    }
+  } catch (err) {
+    writeEvent(res, 'error', null, { error: 'replay_failed', message: err instanceof Error ? err.message : String(err) });
+  }
+
+  const pending = client.pending ?? [];
+  client.pending = null;
+  for (const event of pending) client.write(event);
+}
+
+export function mountStatusStream(app: ExpressApp): void {
+  app.get('/status/stream', (req: StreamRequest, res: ServerResponse) => {
+    handleStatusStream(req, res).catch(() => {
+      if (!res.headersSent) fail(res, 500, 'internal_error');
+    });
+  });
+}
@@ -0,0 +1,75 @@
+import { hostname } from 'os';
+import { runCheck } from '../services/checks/run-check';
+import type { CheckResult } from '../services/checks/types';
+import type { MonitorConfig } from '../services/monitors';
+
+/**
+ * Standalone probe worker. Polls the backend for check jobs, runs them with the same
+ * check runners PingMonitor uses and reports the results. Start one per region/host:
+ *
+ *   BACKEND_URL=http://localhost:3000 PROBE_ID=eu-1 PROBE_REGION=eu npm run probe
+ *
+ * PROBE_TOKEN must match the backend's (the backend refuses probes while it has none set); PROBE_POLL_MS (default 2000)
+ * is the delay between polls while idle.
+ */
+const backendUrl = (process.env.BACKEND_URL || 'http://localhost:3000').replace(/\/+$/, '');
+const probeId = process.env.PROBE_ID || `${hostname()}-${process.pid}`;
+const region = process.env.PROBE_REGION || 'default';
+const pollMs = Number(process.env.PROBE_POLL_MS) > 0 ? Number(process.env.PROBE_POLL_MS) : 2000;
+const token = process.env.PROBE_TOKEN;
+
+type Job = { jobId: string; roundId: string; monitor: MonitorConfig };
+
+let stopping = false;
+
+async function post<T>(path: string, body: unknown): Promise<T> {
+  const response = await fetch(`${backendUrl}${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...(token ? { 'x-probe-token': token } : {}) },
+    body: JSON.stringify(body)
+  });
+  if (!response.ok) throw new Error(`${path} responded ${response.status}`);
+  return (await response.json()) as T;
+}
+
+// A runner that throws still produces an answer, so the round isn't left waiting for its deadline
+async function runJob(job: Job): Promise<{ jobId: string; result: CheckResult }> {
+  try {
+    return { jobId: job.jobId, result: await runCheck(job.monitor) };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { jobId: job.jobId, result: { latency: 0, statusCode: 0, success: false, failedAssertion: { type: 'request', message } } };
+  }
+}
+
+async function poll(): Promise<number> {
+  const { jobs } = await post<{ jobs: Job[] }>('/probes/claim', { probeId, region });
+  if (jobs.length === 0) return 0;
+
+  const results = await Promise.all(jobs.map(runJob));
+  const { accepted, unknown } = await post<{ accepted: number; unknown: string[] }>('/probes/results', { probeId, region, results });
+  console.log(`[probe ${probeId}/${region}] ran ${jobs.length} checks, ${accepted} accepted, ${unknown.length} too late`);
+  return jobs.length;
+}
+
+async function main(): Promise<void> {
+  console.log(`[probe ${probeId}/${region}] polling ${backendUrl} every ${pollMs}ms`);
+  while (!stopping) {
+    let ran = 0;
+    try {
+      ran = await poll();
+    } catch (err) {
+      console.error(`[probe ${probeId}/${region}] poll failed:`, err instanceof Error ? err.message : err);
+    }
+    // go straight back for more while there is work queued
+    if (ran === 0 && !stopping) await new Promise(resolve => setTimeout(resolve, pollMs));
+  }
+}
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    stopping = true;
+  });
+}
+
+main().then(() => process.exit(0));
@@ -0,0 +1,115 @@
+import type { InternalStateManager } from 'motia';
+
+export type SuppressionConfig = {
+  cooldownMs: number;
+  flapThreshold: number;
+  flapWindowMs: number;
+};
+
+// Last time an alert with a given dedup key went out, and how many repeats were held back since
+type CooldownRecord = { key: string; lastSentAt: string; suppressed: number };
+
+// UP/DOWN transitions inside the flap window; `flapping` is set once they reach the threshold
+export type FlapRecord = { transitions: string[]; flapping: boolean; since: string | null };
+
+const COOLDOWN_GROUP = 'alert-cooldowns';
+const FLAP_GROUP = 'monitor-flap';
+
+const DEFAULT_COOLDOWN_MINUTES = 30;
+const DEFAULT_FLAP_THRESHOLD = 4;
+const DEFAULT_FLAP_WINDOW_MINUTES = 10;
+
+function positiveEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function suppressionConfig(): SuppressionConfig {
+  return {
+    cooldownMs: positiveEnv('ALERT_COOLDOWN_MINUTES', DEFAULT_COOLDOWN_MINUTES) * 60 * 1000,
+    flapThreshold: Math.max(2, Math.floor(positiveEnv('FLAP_THRESHOLD', DEFAULT_FLAP_THRESHOLD))),
+    flapWindowMs: positiveEnv('FLAP_WINDOW_MINUTES', DEFAULT_FLAP_WINDOW_MINUTES) * 60 * 1000
+  };
+}
+
+// Outages and recoveries are already deduplicated by the incident lifecycle, and SLO burn alerts
+// fire once per episode, so only the rest cool down
+export function isCooledDownReason(reason: string): boolean {
+  return reason !== 'monitor_down' && reason !== 'recovered' && reason !== 'slo_burn';
+}
+
+export function alertDedupKey(monitorId: string, severity: string, reason: string): string {
+  return `${monitorId}:${severity}:${reason}`;
+}
+
+/**
+ * Returns null when an alert with this key went out within the cooldown (and counts the
+ * repeat), otherwise records the send and returns how many repeats were held back before it.
+ */
+export async function passCooldown(
+  state: InternalStateManager,
+  key: string,
+  config: SuppressionConfig = suppressionConfig(),
+  now = Date.now()
+): Promise<{ suppressedCount: number } | null> {
+  const record = await state.get<CooldownRecord>(COOLDOWN_GROUP, key);
+  if (record && now - Date.parse(record.lastSentAt) < config.cooldownMs) {
+    await state.set(COOLDOWN_GROUP, key, { ...record, suppressed: record.suppressed + 1 });
+    return null;
+  }
+  await state.set(COOLDOWN_GROUP, key, { key, lastSentAt: new Date(now).toISOString(), suppressed: 0 });
+  return { suppressedCount: record?.suppressed ?? 0 };
+}
+
+export async function getFlapRecord(state: InternalStateManager, monitorId: string): Promise<FlapRecord | null> {
+  return (await state.get<FlapRecord>(FLAP_GROUP, monitorId)) ?? null;
+}
+
+export async function isFlapping(state: InternalStateManager, monitorId: string): Promise<boolean> {
+  return (await getFlapRecord(state, monitorId))?.flapping === true;
+}
+
+/**
+ * Records an UP<->DOWN transition. Returns the record when this transition made the
+ * monitor start flapping (N transitions within M minutes), null otherwise.
+ */
+export async function recordTransition(
+  state: InternalStateManager,
+  monitorId: string,
+  config: SuppressionConfig = suppressionConfig(),
+  now = Date.now()
+): Promise<FlapRecord | null> {
+  const record = (await getFlapRecord(state, monitorId)) ?? { transitions: [], flapping: false, since: null };
+  const transitions = [...record.transitions.filter(t => now - Date.parse(t) < config.flapWindowMs), new Date(now).toISOString()];
+  const startsFlapping = !record.flapping && transitions.length >= config.flapThreshold;
+  const updated: FlapRecord = {
+    transitions,
+    flapping: record.flapping || startsFlapping,
+    since: startsFlapping ? new Date(now).toISOString() : record.since
+  };
+  await state.set(FLAP_GROUP, monitorId, updated);
+  return startsFlapping ? updated : null;
+}
+
+// A flapping monitor settles once a whole flap window passes without a transition
+export async function endFlappingIfStable(
+  state: InternalStateManager,
+  monitorId: string,
+  config: SuppressionConfig = suppressionConfig(),
+  now = Date.now()
+): Promise<FlapRecord | null> {
+  const record = await getFlapRecord(state, monitorId);
+  if (!record?.flapping) return null;
+  const last = record.transitions[record.transitions.length - 1];
+  if (last && now - Date.parse(last) < config.flapWindowMs) return null;
+  await state.set(FLAP_GROUP, monitorId, { transitions: [], flapping: false, since: null });
+  return record;
+}
+
+export async function deleteSuppressionState(state: InternalStateManager, monitorId: string): Promise<void> {
+  await state.delete(FLAP_GROUP, monitorId);
+  const cooldowns = (await state.getGroup<CooldownRecord>(COOLDOWN_GROUP)) || [];
+  for (const record of cooldowns) {
+    if (record?.key?.startsWith(`${monitorId}:`)) await state.delete(COOLDOWN_GROUP, record.key);
+  }
+}
@@ -0,0 +1,226 @@
+import type { InternalStateManager } from 'motia';
+import { z } from 'zod';
+import { loadSeries } from './reports';
+import type { MetricSample } from './metrics-store';
+import type { Rollup } from './rollups';
+import { mean, median, medianAbsoluteDeviation, pstdev } from '../utils/stats';
+
+export const detectorNameSchema = z.enum(['zscore', 'robust', 'ewma', 'seasonal']);
+
+// Per-monitor anomaly detector settings; everything is optional and falls back to DEFAULT_DETECTOR
+export const anomalyDetectionSchema = z
+  .object({
+    // zscore: mean/stdev of the window; robust: median/MAD; ewma: exponentially weighted mean/variance;
+    // seasonal: the same hour of day (or week) over previous periods
+    detector: detectorNameSchema.optional(),
+    windowMinutes: z.number().int().min(5).max(24 * 60).optional(),
+    // no alert until the window holds at least this many samples
+    minSamples: z.number().int().min(2).max(10_000).optional(),
+    warningThreshold: z.number().positive().optional(),
+    criticalThreshold: z.number().positive().optional(),
+    // anomalous checks in a row required before alerting
+    consecutive: z.number().int().min(1).max(60).optional(),
+    ewmaAlpha: z.number().gt(0).max(1).optional(),
+    seasonality: z.enum(['hour_of_day', 'hour_of_week']).optional(),
+    // how many previous days (hour_of_day) or weeks (hour_of_week) form the seasonal baseline
+    seasonalPeriods: z.number().int().min(1).max(12).optional()
+  })
+  .refine(d => d.warningThreshold === undefined || d.criticalThreshold === undefined || d.criticalThreshold >= d.warningThreshold, {
+    message: 'criticalThreshold must not be below warningThreshold',
+    path: ['criticalThreshold']
+  });
+
+export const detectorSettingsSchema = z.object({
+  detector: detectorNameSchema,
+  windowMinutes: z.number(),
+  minSamples: z.number(),
+  warningThreshold: z.number(),
+  criticalThreshold: z.number(),
+  consecutive: z.number(),
+  ewmaAlpha: z.number(),
+  seasonality: z.enum(['hour_of_day', 'hour_of_week']),
+  seasonalPeriods: z.number()
+});
+
+export type AnomalyDetection = z.infer<typeof anomalyDetectionSchema>;
+export type DetectorSettings = z.infer<typeof detectorSettingsSchema>;
+export type Severity = 'NORMAL' | 'WARNING' | 'CRITICAL';
+
+// The original fixed behaviour: |z| > 2 warns, |z| > 3 is critical, over the last hour
+export const DEFAULT_DETECTOR: DetectorSettings = {
+  detector: 'zscore',
+  windowMinutes: 60,
+  minSamples: 5,
+  warningThreshold: 2,
+  criticalThreshold: 3,
+  consecutive: 1,
+  ewmaAlpha: 0.3,
+  seasonality: 'hour_of_day',
+  seasonalPeriods: 7
+};
+
+export function detectorSettings(config: AnomalyDetection | null | undefined): DetectorSettings {
+  const defined = Object.fromEntries(Object.entries(config ?? {}).filter(([, v]) => v !== undefined));
+  return { ...DEFAULT_DETECTOR, ...defined };
+}
+
+// Where the value sits relative to its baseline: center, spread and the resulting score
+export type Score = { value: number; baseline: number; spread: number; z: number };
+
+function score(value: number, baseline: number, spread: number): Score {
+  return { value, baseline, spread, z: spread > 0 ? (value - baseline) / spread : 0 };
+}
+
+// MAD scaled to be comparable with a standard deviation for normally distributed data
+const MAD_SCALE = 1.4826;
+
+export function robustScore(history: number[], value: number): Score {
+  const center = median(history);
+  let spread = MAD_SCALE * medianAbsoluteDeviation(history);
+  // more than half the values identical: fall back to the mean absolute deviation
+  if (spread === 0) spread = 1.2533 * mean(history.map(v => Math.abs(v - center)));
+  return score(value, center, spread);
+}
+
+export function ewmaScore(history: number[], value: number, alpha: number): Score {
+  if (history.length === 0) return score(value, value, 0);
+  let avg = history[0];
+  let variance = 0;
+  for (const v of history.slice(1)) {
+    const diff = v - avg;
+    avg += alpha * diff;
+    variance = (1 - alpha) * (variance + alpha * diff * diff);
+  }
+  return score(value, avg, Math.sqrt(variance));
+}
+
+/**
+ * Scores the last value of a series against the rest of the window. The classic z-score
+ * keeps the latest value in its own baseline, as the original detector did; the others
+ * compare it against the history before it. Seasonal monitors score phases with the
+ * robust detector, since the seasonal baseline only covers total latency.
+ */
+export function windowScore(settings: DetectorSettings, series: number[]): Score {
+  const value = series[series.length - 1];
+  const history = series.slice(0, -1);
+  switch (settings.detector) {
+    case 'zscore':
+      return score(value, mean(series), pstdev(series));
+    case 'ewma':
+      return ewmaScore(history, value, settings.ewmaAlpha);
+    default:
+      return robustScore(history, value);
+  }
+}
+
+export function severityForScore(z: number, settings: Pick<DetectorSettings, 'warningThreshold' | 'criticalThreshold'>): Severity {
+  const az = Math.abs(z);
+  if (az > settings.criticalThreshold) return 'CRITICAL';
+  if (az > settings.warningThreshold) return 'WARNING';
+  return 'NORMAL';
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Robust center/spread of past latencies for one seasonal slot, cached in `anomaly-baselines` per monitor
+type SeasonalBaseline = { slotStart: number; seasonality: string; periods: number; center: number; spread: number; count: number };
+
+// Checks summarized by one point of history: a raw sample is its own center with no spread
+type SlotPoint = { center: number; spread: number; count: number };
+
+// p95 sits 1.645 standard deviations above the median of a normal distribution
+const P95_Z = 1.645;
+
+function slotPoints(points: (MetricSample | Rollup)[]): SlotPoint[] {
+  const result: SlotPoint[] = [];
+  for (const p of points) {
+    if ('resolution' in p) {
+      // a bucket's own percentiles describe single checks; the spread of bucket averages would not
+      if (p.latency) result.push({ center: p.latency.p50, spread: Math.max(0, (p.latency.p95 - p.latency.p50) / P95_Z), count: p.count });
+    } else if (typeof p.latency === 'number' && !Number.isNaN(p.latency)) {
+      result.push({ center: p.latency, spread: 0, count: 1 });
+    }
+  }
+  return result;
+}
+
+/**
+ * Baseline for the hour containing `at`, built from the same hour on previous days
+ * (hour_of_day) or weeks (hour_of_week), in UTC. Uses raw samples where they are still
+ * retained, then 1m and hourly rollups. The spread combines how far the points sit apart
+ * with each rollup's own spread, so a single check is scored against single checks.
+ * Recomputed once per hour.
+ */
+export async function seasonalBaseline(
+  state: InternalStateManager,
+  monitorId: string,
+  settings: DetectorSettings,
+  at: number
+): Promise<SeasonalBaseline> {
+  const slotStart = Math.floor(at / HOUR_MS) * HOUR_MS;
+  const cached = await state.get<SeasonalBaseline>('anomaly-baselines', monitorId);
+  if (
+    cached &&
+    cached.slotStart === slotStart &&
+    cached.seasonality === settings.seasonality &&
+    cached.periods === settings.seasonalPeriods
+  ) {
+    return cached;
+  }
+
+  const period = settings.seasonality === 'hour_of_week' ? 7 * DAY_MS : DAY_MS;
+  const points: SlotPoint[] = [];
+  for (let i = 1; i <= settings.seasonalPeriods; i++) {
+    const from = slotStart - i * period;
+    const to = from + HOUR_MS - 1;
+    let slot = slotPoints(await loadSeries(state, monitorId, 'raw', from, to));
+    if (slot.length === 0) slot = slotPoints(await loadSeries(state, monitorId, '1m', from, to));
+    if (slot.length === 0) slot = slotPoints(await loadSeries(state, monitorId, '1h', from, to));
+    points.push(...slot);
+  }
+
+  const count = points.reduce((sum, p) => sum + p.count, 0);
+  let center = 0;
+  let spread = 0;
+  if (points.length > 0) {
+    const between = robustScore(points.map(p => p.center), 0);
+    const within = Math.sqrt(points.reduce((sum, p) => sum + p.count * p.spread * p.spread, 0) / count);
+    center = between.baseline;
+    spread = Math.sqrt(between.spread * between.spread + within * within);
+  }
+
+  const baseline: SeasonalBaseline = {
+    slotStart,
+    seasonality: settings.seasonality,
+    periods: settings.seasonalPeriods,
+    center,
+    spread,
+    count
+  };
+  await state.set('anomaly-baselines', monitorId, baseline);
+  return baseline;
+}
+
+export function seasonalScore(baseline: SeasonalBaseline, value: number): Score {
+  return score(value, baseline.center, baseline.spread);
+}
+
+/**
+ * Counts anomalous checks in a row (stored in `monitor-anomaly-streak`); a normal check
+ * resets the count. Returns the count including this check.
+ */
+export async function updateAnomalyStreak(state: InternalStateManager, monitorId: string, anomalous: boolean): Promise<number> {
+  if (!anomalous) {
+    await state.delete('monitor-anomaly-streak', monitorId);
+    return 0;
+  }
+  const count = ((await state.get<number>('monitor-anomaly-streak', monitorId)) ?? 0) + 1;
+  await state.set('monitor-anomaly-streak', monitorId, count);
+  return count;
+}
+
+export async function deleteAnomalyState(state: InternalStateManager, monitorId: string): Promise<void> {
+  await state.delete('anomaly-baselines', monitorId);
+  await state.delete('monitor-anomaly-streak', monitorId);
+}
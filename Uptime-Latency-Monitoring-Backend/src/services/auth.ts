@@ -0,0 +1,144 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { InternalStateManager } from 'motia';
+import { z } from 'zod';
+import { queryParam } from '../utils/query';
+import { DEFAULT_WORKSPACE_ID } from './workspaces';
+
+/**
+ * API keys belong to one workspace and carry a scope: `read` for GET routes, `write` to also
+ * change things, `admin` to also manage the workspace's keys. ADMIN_API_KEY is the root key:
+ * admin in every workspace (picked with the X-Workspace-Id header or ?workspace), and the only
+ * one that can create workspaces. AUTH_DISABLED=true treats every request as root.
+ */
+export const apiKeyScopeSchema = z.enum(['read', 'write', 'admin']);
+
+export const apiKeyInputSchema = z.object({
+  name: z.string().min(1),
+  scope: apiKeyScopeSchema,
+  // root key only; workspace keys always create keys in their own workspace
+  workspaceId: z.string().min(1).optional()
+});
+
+export const apiKeySchema = z.object({
+  id: z.string(),
+  workspaceId: z.string(),
+  name: z.string(),
+  scope: apiKeyScopeSchema,
+  createdAt: z.string(),
+  lastUsedAt: z.string().nullable()
+});
+
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+export type ApiKeyInput = z.infer<typeof apiKeyInputSchema>;
+export type ApiKey = z.infer<typeof apiKeySchema>;
+
+// Only a hash of the key is stored; the key itself is shown once, on creation
+type StoredApiKey = ApiKey & { keyHash: string };
+
+export type AuthContext = { workspaceId: string; scope: ApiKeyScope; keyId: string | null; root: boolean };
+
+const API_KEYS_GROUP = 'api-keys';
+const SCOPE_RANK: Record<ApiKeyScope, number> = { read: 0, write: 1, admin: 2 };
+// Keys look like uk_<id>_<secret>, so a lookup is one state read
+const KEY_PATTERN = /^uk_([0-9a-f]{12})_[A-Za-z0-9_-]+$/;
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function authDisabled(): boolean {
+  return process.env.AUTH_DISABLED === 'true';
+}
+
+export function hasScope(granted: ApiKeyScope, required: ApiKeyScope): boolean {
+  return SCOPE_RANK[granted] >= SCOPE_RANK[required];
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function sameSecret(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function publicKey({ keyHash: _keyHash, ...key }: StoredApiKey): ApiKey {
+  return key;
+}
+
+export async function createApiKey(
+  state: InternalStateManager,
+  workspaceId: string,
+  data: Pick<ApiKeyInput, 'name' | 'scope'>
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const id = randomBytes(6).toString('hex');
+  const key = `uk_${id}_${randomBytes(24).toString('base64url')}`;
+  const stored: StoredApiKey = {
+    id,
+    workspaceId,
+    name: data.name,
+    scope: data.scope,
+    createdAt: new Date().toISOString(),
+    lastUsedAt: null,
+    keyHash: hashKey(key)
+  };
+  await state.set(API_KEYS_GROUP, id, stored);
+  return { apiKey: publicKey(stored), key };
+}
+
+export async function getApiKey(state: InternalStateManager, keyId: string): Promise<ApiKey | null> {
+  const stored = await state.get<StoredApiKey>(API_KEYS_GROUP, keyId);
+  return stored ? publicKey(stored) : null;
+}
+
+export async function listApiKeys(state: InternalStateManager, workspaceId: string): Promise<ApiKey[]> {
+  const keys = (await state.getGroup<StoredApiKey>(API_KEYS_GROUP)) || [];
+  return keys
+    .filter(k => !!k?.id && k.workspaceId === workspaceId)
+    .map(publicKey)
+    .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+}
+
+export async function deleteApiKey(state: InternalStateManager, keyId: string): Promise<void> {
+  await state.delete(API_KEYS_GROUP, keyId);
+}
+
+function bearerToken(headers: Record<string, string | string[] | undefined> | undefined): string | undefined {
+  const value = headers?.authorization;
+  const header = Array.isArray(value) ? value[0] : value;
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
+
+function headerValue(headers: Record<string, string | string[] | undefined> | undefined, name: string): string | undefined {
+  const value = headers?.[name];
+  return (Array.isArray(value) ? value[0] : value) || undefined;
+}
+
+/**
+ * Resolves the caller from `Authorization: Bearer <key>`, or from ?token=<key> where
+ * `queryToken` allows it (EventSource can't send headers). Returns null for a missing or
+ * unknown key; the workspace of a root request is not checked here.
+ */
+export async function authenticate(
+  state: InternalStateManager,
+  request: { headers?: Record<string, string | string[] | undefined>; queryParams?: Record<string, string | string[]> },
+  options: { queryToken?: boolean } = {}
+): Promise<AuthContext | null> {
+  const token = bearerToken(request.headers) ?? (options.queryToken ? queryParam(request.queryParams, 'token') : undefined);
+  const rootKey = process.env.ADMIN_API_KEY;
+  if (authDisabled() || (rootKey && token && sameSecret(token, rootKey))) {
+    const workspaceId = headerValue(request.headers, 'x-workspace-id') ?? queryParam(request.queryParams, 'workspace') ?? DEFAULT_WORKSPACE_ID;
+    return { workspaceId, scope: 'admin', keyId: null, root: true };
+  }
+
+  const id = token?.match(KEY_PATTERN)?.[1];
+  if (!token || !id) return null;
+  const stored = await state.get<StoredApiKey>(API_KEYS_GROUP, id);
+  if (!stored || !sameSecret(stored.keyHash, hashKey(token))) return null;
+
+  const now = Date.now();
+  if (!stored.lastUsedAt || now - Date.parse(stored.lastUsedAt) > LAST_USED_RESOLUTION_MS) {
+    await state.set<StoredApiKey>(API_KEYS_GROUP, id, { ...stored, lastUsedAt: new Date(now).toISOString() });
+  }
+  return { workspaceId: stored.workspaceId, scope: stored.scope, keyId: stored.id, root: false };
+}
@@ -0,0 +1,95 @@
+import type { InternalStateManager } from 'motia';
+import { DEFAULT_RATE_LIMIT, type Channel } from './channels';
+import type { Notification } from './notifications/deliver';
+
+export type HeldAlert = Pick<Notification, 'monitorId' | 'monitorName' | 'severity' | 'reason' | 'title' | 'timestamp'>;
+
+// Per channel: send times inside the current window, and alerts held back for the next digest
+type RateRecord = { channelId: string; channel: Channel; sent: string[]; held: HeldAlert[]; heldCount: number };
+
+const RATE_GROUP = 'channel-rate-limits';
+// a digest lists at most this many alerts; heldCount still covers everything that was held
+const MAX_HELD_ALERTS = 50;
+
+// Channels stored before rate limits existed get the default; null means unlimited
+function rateLimit(channel: Channel): { max: number; windowMs: number } | null {
+  const limit = channel.rateLimit === undefined ? DEFAULT_RATE_LIMIT : channel.rateLimit;
+  return limit ? { max: limit.max, windowMs: limit.windowMinutes * 60 * 1000 } : null;
+}
+
+function recentSends(record: RateRecord, windowMs: number, now: number): string[] {
+  return record.sent.filter(t => now - Date.parse(t) < windowMs);
+}
+
+/**
+ * Takes a slot in the channel's sliding window. When the window is full (or a digest is
+ * already pending, to keep ordering) the alert is held for the next digest and false is returned.
+ */
+export async function takeRateSlot(
+  state: InternalStateManager,
+  channel: Channel,
+  notification: Notification,
+  now = Date.now()
+): Promise<boolean> {
+  const limit = rateLimit(channel);
+  if (!limit) return true;
+
+  const record = (await state.get<RateRecord>(RATE_GROUP, channel.id)) ?? {
+    channelId: channel.id,
+    channel,
+    sent: [],
+    held: [],
+    heldCount: 0
+  };
+  const sent = recentSends(record, limit.windowMs, now);
+
+  if (sent.length < limit.max && record.heldCount === 0) {
+    await state.set(RATE_GROUP, channel.id, { ...record, channel, sent: [...sent, new Date(now).toISOString()] });
+    return true;
+  }
+
+  const held: HeldAlert = {
+    monitorId: notification.monitorId,
+    monitorName: notification.monitorName,
+    severity: notification.severity,
+    reason: notification.reason,
+    title: notification.title,
+    timestamp: notification.timestamp
+  };
+  await state.set(RATE_GROUP, channel.id, {
+    ...record,
+    channel,
+    sent,
+    held: [...record.held, held].slice(-MAX_HELD_ALERTS),
+    heldCount: record.heldCount + 1
+  });
+  return false;
+}
+
+/**
+ * Channels with held alerts whose window has room again. Each gets one digest, which
+ * takes a slot itself; the held alerts are cleared as they are handed out.
+ */
+export async function takeDueDigests(
+  state: InternalStateManager,
+  now = Date.now()
+): Promise<{ channel: Channel; held: HeldAlert[]; heldCount: number }[]> {
+  const records = (await state.getGroup<RateRecord>(RATE_GROUP)) || [];
+  const due: { channel: Channel; held: HeldAlert[]; heldCount: number }[] = [];
+
+  for (const record of records) {
+    if (!record?.channelId || record.heldCount === 0) continue;
+    // rate limiting was switched off since: flush right away
+    const limit = rateLimit(record.channel) ?? { max: Infinity, windowMs: 0 };
+    const sent = recentSends(record, limit.windowMs, now);
+    if (sent.length >= limit.max) continue;
+
+    await state.set(RATE_GROUP, record.channelId, { ...record, sent: [...sent, new Date(now).toISOString()], held: [], heldCount: 0 });
+    due.push({ channel: record.channel, held: record.held, heldCount: record.heldCount });
+  }
+  return due;
+}
+
+export async function deleteRateLimitState(state: InternalStateManager, channelId: string): Promise<void> {
+  await state.delete(RATE_GROUP, channelId);
+}
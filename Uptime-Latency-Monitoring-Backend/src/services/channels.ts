@@ -0,0 +1,280 @@
+import type { InternalStateManager } from 'motia';
+import { z } from 'zod';
+import { resourceIdSchema } from '../utils/ids';
+import { isValidSelectorTerm, matchesTagSelector } from '../utils/tags';
+import { isMailbox } from './notifications/smtp-client';
+
+export const channelTypeSchema = z.enum(['smtp', 'email_api', 'webhook', 'slack', 'discord', 'teams', 'events_api']);
+
+export const smtpSettingsSchema = z.object({
+  host: z.string().min(1),
+  // defaults to 465 when secure, 587 otherwise
+  port: z.number().int().min(1).max(65535).optional(),
+  secure: z.boolean().optional(),
+  startTls: z.boolean().optional(),
+  username: z.string().optional(),
+  password: z.string().optional(),
+  from: z.string().refine(isMailbox, 'from must be an email address'),
+  to: z.array(z.string().refine(isMailbox, 'recipients must be email addresses')).min(1)
+});
+
+// HTTP email-sending API: POST { to, from, subject, text } with the key as a bearer token
+export const emailApiSettingsSchema = z.object({
+  url: z.string().url(),
+  apiKey: z.string().min(1),
+  from: z.string().min(1),
+  to: z.array(z.string().min(1)).min(1)
+});
+
+// Plain JSON webhooks and the Slack / Discord / Teams incoming webhooks
+export const webhookSettingsSchema = z.object({
+  url: z.string().url(),
+  headers: z.record(z.string(), z.string()).optional(),
+  // refuse private and loopback targets, checked on every send (status page subscribers)
+  publicOnly: z.boolean().optional()
+});
+
+// PagerDuty Events API v2 style: trigger on alert, resolve on recovery, grouped by dedup key
+export const eventsApiSettingsSchema = z.object({
+  url: z.string().url().optional(),
+  routingKey: z.string().min(1)
+});
+
+export const channelSeveritySchema = z.enum(['WARNING', 'CRITICAL']);
+
+// At most `max` notifications per sliding window; the rest are held and sent as one digest
+export const rateLimitSchema = z.object({
+  max: z.number().int().min(1),
+  windowMinutes: z.number().int().min(1).max(24 * 60)
+});
+
+export const DEFAULT_RATE_LIMIT = { max: 20, windowMinutes: 60 };
+
+const channelFieldsSchema = z.object({
+  name: z.string().min(1),
+  type: channelTypeSchema,
+  // lowest alert severity delivered to this channel
+  minSeverity: channelSeveritySchema.optional(),
+  sendRecovery: z.boolean().optional(),
+  // null disables rate limiting for the channel
+  rateLimit: rateLimitSchema.nullable().optional(),
+  // tag selector (e.g. team:payments, env:prod): also receives alerts of every monitor matching all terms
+  monitorTags: z.array(z.string().refine(isValidSelectorTerm, 'invalid selector term')).optional(),
+  smtp: smtpSettingsSchema.optional(),
+  emailApi: emailApiSettingsSchema.optional(),
+  webhook: webhookSettingsSchema.optional(),
+  eventsApi: eventsApiSettingsSchema.optional()
+});
+
+function settingsKey(type: ChannelType): 'smtp' | 'emailApi' | 'webhook' | 'eventsApi' {
+  if (type === 'smtp') return 'smtp';
+  if (type === 'email_api') return 'emailApi';
+  if (type === 'events_api') return 'eventsApi';
+  return 'webhook';
+}
+
+function refineSettings(data: { type: ChannelType; smtp?: unknown; emailApi?: unknown; webhook?: unknown; eventsApi?: unknown }, ctx: z.RefinementCtx): void {
+  const key = settingsKey(data.type);
+  if (!data[key]) {
+    ctx.addIssue({ code: 'custom', path: [key], message: `${key} settings are required for ${data.type} channels` });
+  }
+}
+
+export const channelInputSchema = channelFieldsSchema.superRefine(refineSettings);
+
+// Like monitors, channels can be created under a stable id and always are in config files
+export const channelCreateSchema = channelFieldsSchema.extend({ id: resourceIdSchema.optional() }).superRefine(refineSettings);
+
+export const channelDefinitionSchema = channelFieldsSchema.extend({ id: resourceIdSchema }).superRefine(refineSettings);
+
+export const channelSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: channelTypeSchema,
+  minSeverity: channelSeveritySchema,
+  sendRecovery: z.boolean(),
+  rateLimit: rateLimitSchema.nullable(),
+  monitorTags: z.array(z.string()),
+  smtp: smtpSettingsSchema.nullable(),
+  emailApi: emailApiSettingsSchema.nullable(),
+  webhook: webhookSettingsSchema.nullable(),
+  eventsApi: eventsApiSettingsSchema.nullable(),
+  createdAt: z.string()
+});
+
+export type ChannelType = z.infer<typeof channelTypeSchema>;
+export type ChannelInput = z.infer<typeof channelInputSchema>;
+export type ChannelDefinition = z.infer<typeof channelDefinitionSchema>;
+export type Channel = z.infer<typeof channelSchema>;
+
+const CHANNELS_GROUP = 'channels';
+const REDACTED = '********';
+
+export function buildChannel(id: string, data: ChannelInput): Channel {
+  const key = settingsKey(data.type);
+  return {
+    id,
+    name: data.name,
+    type: data.type,
+    minSeverity: data.minSeverity ?? 'WARNING',
+    sendRecovery: data.sendRecovery ?? true,
+    rateLimit: data.rateLimit === undefined ? DEFAULT_RATE_LIMIT : data.rateLimit,
+    monitorTags: data.monitorTags ?? [],
+    smtp: key === 'smtp' ? data.smtp ?? null : null,
+    emailApi: key === 'emailApi' ? data.emailApi ?? null : null,
+    webhook: key === 'webhook' ? data.webhook ?? null : null,
+    eventsApi: key === 'eventsApi' ? data.eventsApi ?? null : null,
+    createdAt: new Date().toISOString()
+  };
+}
+
+// Channel responses never echo secrets back
+export function redactChannel(channel: Channel): Channel {
+  return {
+    ...channel,
+    smtp: channel.smtp ? { ...channel.smtp, ...(channel.smtp.password ? { password: REDACTED } : {}) } : null,
+    emailApi: channel.emailApi ? { ...channel.emailApi, apiKey: REDACTED } : null,
+    eventsApi: channel.eventsApi ? { ...channel.eventsApi, routingKey: REDACTED } : null
+  };
+}
+
+// Applying an exported (redacted) definition again keeps the secrets already stored
+export function keepRedactedSecrets(channel: Channel, stored: Channel | null): Channel {
+  return {
+    ...channel,
+    smtp:
+      channel.smtp?.password === REDACTED ? { ...channel.smtp, password: stored?.smtp?.password } : channel.smtp,
+    emailApi:
+      channel.emailApi?.apiKey === REDACTED && stored?.emailApi
+        ? { ...channel.emailApi, apiKey: stored.emailApi.apiKey }
+        : channel.emailApi,
+    eventsApi:
+      channel.eventsApi?.routingKey === REDACTED && stored?.eventsApi
+        ? { ...channel.eventsApi, routingKey: stored.eventsApi.routingKey }
+        : channel.eventsApi
+  };
+}
+
+export async function getChannel(state: InternalStateManager, channelId: string): Promise<Channel | null> {
+  return (await state.get<Channel>(CHANNELS_GROUP, channelId)) ?? null;
+}
+
+export async function listChannels(state: InternalStateManager): Promise<Channel[]> {
+  const channels = (await state.getGroup<Channel>(CHANNELS_GROUP)) || [];
+  return channels.filter(c => !!c?.id).sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+}
+
+export async function saveChannel(state: InternalStateManager, channel: Channel): Promise<void> {
+  await state.set(CHANNELS_GROUP, channel.id, channel);
+}
+
+export async function deleteChannel(state: InternalStateManager, channelId: string): Promise<void> {
+  await state.delete(CHANNELS_GROUP, channelId);
+}
+
+// Ids from a monitor create/update body that don't name a stored channel
+export async function missingChannels(state: InternalStateManager, channelIds: string[] | undefined): Promise<string[]> {
+  const missing: string[] = [];
+  for (const id of channelIds ?? []) {
+    if (!(await getChannel(state, id))) missing.push(id);
+  }
+  return missing;
+}
+
+// Alert targets embedded in monitors created before channels existed
+type LegacyAlertTargets = {
+  alertWebhookUrl?: string | null;
+  alertTo?: string | null;
+  emailFrom?: string | null;
+  emailApiUrl?: string | null;
+  emailApiKey?: string | null;
+};
+
+/**
+ * Channels for monitors that don't reference any: the monitor's old inline
+ * alertWebhookUrl / alertTo / emailApiUrl, or the MONITOR_WEBHOOK_URL / EMAIL_API_* / SMTP_*
+ * environment defaults. Routing matches the previous behaviour: webhook from WARNING, email
+ * on CRITICAL only.
+ */
+export function legacyChannels(monitor: LegacyAlertTargets & { id: string }): Channel[] {
+  const channels: Channel[] = [];
+  const createdAt = new Date(0).toISOString();
+
+  const webhookUrl = monitor.alertWebhookUrl || process.env.MONITOR_WEBHOOK_URL;
+  if (webhookUrl) {
+    channels.push({
+      ...buildChannel(`legacy-webhook:${monitor.id}`, { name: 'webhook', type: 'webhook', webhook: { url: webhookUrl } }),
+      createdAt
+    });
+  }
+
+  const to = monitor.alertTo || process.env.EMAIL_TO;
+  const from = monitor.emailFrom || process.env.EMAIL_FROM;
+  const recipients = (to ?? '').split(',').map(s => s.trim()).filter(Boolean);
+
+  // One legacy email channel: the email API when it is configured, as it always was, else SMTP.
+  // Env settings win over the monitor's, as they always did.
+  const emailApiUrl = process.env.EMAIL_API_URL || monitor.emailApiUrl;
+  const emailApiKey = process.env.EMAIL_API_KEY || monitor.emailApiKey;
+  const emailApiFrom = process.env.EMAIL_FROM || monitor.emailFrom;
+  if (emailApiUrl && emailApiKey && emailApiFrom && recipients.length > 0) {
+    channels.push({
+      ...buildChannel(`legacy-email-api:${monitor.id}`, {
+        name: 'email',
+        type: 'email_api',
+        minSeverity: 'CRITICAL',
+        emailApi: { url: emailApiUrl, apiKey: emailApiKey, from: emailApiFrom, to: recipients }
+      }),
+      createdAt
+    });
+  }
+
+  const host = process.env.SMTP_HOST;
+  const hasEmailApi = channels.some(c => c.type === 'email_api');
+  if (!hasEmailApi && to && from && host) {
+    const secure = process.env.SMTP_SECURE === 'true';
+    channels.push({
+      ...buildChannel(`legacy-email:${monitor.id}`, {
+        name: 'email',
+        type: 'smtp',
+        minSeverity: 'CRITICAL',
+        smtp: {
+          host,
+          port: process.env.SMTP_PORT ? Number(process.env.SMTP_PORT) : undefined,
+          secure,
+          username: process.env.SMTP_USER || undefined,
+          password: process.env.SMTP_PASS || undefined,
+          from,
+          to: recipients
+        }
+      }),
+      createdAt
+    });
+  }
+
+  return channels;
+}
+
+// Channels routed to a monitor by tag; channels without a selector are only used when referenced
+export async function tagRoutedChannels(state: InternalStateManager, tags: string[]): Promise<Channel[]> {
+  return (await listChannels(state)).filter(c => (c.monitorTags ?? []).length > 0 && matchesTagSelector(tags, c.monitorTags));
+}
+
+/**
+ * The monitor's own channels plus the ones routed to it by tag; monitors with neither fall
+ * back to their legacy alert targets.
+ */
+export async function resolveMonitorChannels(
+  state: InternalStateManager,
+  monitor: LegacyAlertTargets & { id: string; channels?: string[]; tags?: string[] }
+): Promise<Channel[]> {
+  const channels = new Map<string, Channel>();
+  for (const id of monitor.channels ?? []) {
+    const channel = await getChannel(state, id);
+    if (channel) channels.set(channel.id, channel);
+  }
+  for (const channel of await tagRoutedChannels(state, monitor.tags ?? [])) channels.set(channel.id, channel);
+
+  if (channels.size === 0 && (monitor.channels ?? []).length === 0) return legacyChannels(monitor);
+  return [...channels.values()];
+}
@@ -0,0 +1,83 @@
+import { promises as dns } from 'dns';
+import type { MonitorConfig } from '../monitors';
+import type { CheckResult, CheckRunner } from './types';
+
+type RecordType = 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS';
+
+async function resolveAsStrings(resolver: dns.Resolver, hostname: string, recordType: RecordType): Promise<string[]> {
+  switch (recordType) {
+    case 'MX':
+      return (await resolver.resolveMx(hostname)).map(r => r.exchange);
+    case 'TXT':
+      return (await resolver.resolveTxt(hostname)).map(chunks => chunks.join(''));
+    case 'A':
+      return resolver.resolve4(hostname);
+    case 'AAAA':
+      return resolver.resolve6(hostname);
+    case 'CNAME':
+      return resolver.resolveCname(hostname);
+    case 'NS':
+      return resolver.resolveNs(hostname);
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => {
+    if (timer !== null) clearTimeout(timer);
+  });
+}
+
+// Success means the name resolved and, when `expected` is set, every expected value was in the answer
+export async function runDnsCheck(monitor: MonitorConfig): Promise<CheckResult> {
+  const start = Date.now();
+  const hostname = monitor.dns?.hostname ?? '';
+  const recordType = monitor.dns?.recordType ?? 'A';
+  const expected = monitor.dns?.expected ?? [];
+
+  const resolver = new dns.Resolver({ timeout: monitor.timeoutMs, tries: 1 });
+
+  try {
+    // throws on a malformed address, e.g. one stored before resolvers were validated
+    if (monitor.dns?.resolver) resolver.setServers([monitor.dns.resolver]);
+    const answers = await withTimeout(
+      resolveAsStrings(resolver, hostname, recordType),
+      monitor.timeoutMs,
+      `dns lookup for ${hostname} timed out`
+    );
+    const latency = Date.now() - start;
+    const timings = { dns: latency, tcp: 0, tls: 0, ttfb: 0, download: 0 };
+    const normalized = answers.map(a => a.toLowerCase().replace(/\.$/, ''));
+    const missing = expected.filter(e => !normalized.includes(e.toLowerCase().replace(/\.$/, '')));
+
+    if (answers.length === 0 || missing.length > 0) {
+      return {
+        latency,
+        statusCode: 0,
+        success: false,
+        timings,
+        failedAssertion: {
+          type: 'dns',
+          message: answers.length === 0 ? `no ${recordType} records` : `missing expected ${recordType} records`,
+          expected,
+          actual: answers
+        }
+      };
+    }
+
+    return { latency, statusCode: 0, success: true, timings };
+  } catch (error: any) {
+    resolver.cancel();
+    return {
+      latency: Date.now() - start,
+      statusCode: 0,
+      success: false,
+      failedAssertion: { type: 'dns', message: error?.code ?? error?.message ?? String(error) }
+    };
+  }
+}
+
+export const dnsCheck: CheckRunner = { run: runDnsCheck };
@@ -0,0 +1,187 @@
+import axios from 'axios';
+import vm from 'vm';
+import type { MonitorConfig } from '../monitors';
+import { createTimedAgents } from './timing';
+import type { CheckResult, CheckRunner, FailedAssertion } from './types';
+
+type JsonPathAssertion = NonNullable<NonNullable<MonitorConfig['assertions']>['jsonPath']>[number];
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+// bodyRegex is user-supplied and runs against untrusted bodies, so a backtracking pattern is cut off
+const REGEX_TIMEOUT_MS = 100;
+const regexScript = new vm.Script('new RegExp(pattern).test(body)');
+const regexContext = vm.createContext({ pattern: '', body: '' });
+
+// null when the match didn't finish in time
+export function bodyMatches(pattern: string, body: string): boolean | null {
+  regexContext.pattern = pattern;
+  regexContext.body = body;
+  try {
+    return regexScript.runInContext(regexContext, { timeout: REGEX_TIMEOUT_MS }) === true;
+  } catch {
+    return null;
+  } finally {
+    regexContext.body = '';
+  }
+}
+
+// Accepts 204, "2xx" and "200-299"
+export function statusMatches(status: number, expected: (number | string)[]): boolean {
+  return expected.some(e => {
+    if (typeof e === 'number') return status === e;
+    const cls = /^([1-5])xx$/i.exec(e);
+    if (cls) return Math.floor(status / 100) === Number(cls[1]);
+    const range = /^(\d{3})-(\d{3})$/.exec(e);
+    if (range) return status >= Number(range[1]) && status <= Number(range[2]);
+    return false;
+  });
+}
+
+// Minimal JSONPath subset: `$.a.b[0].c`, `a.b.0.c` and `$['a-b']`
+export function readJsonPath(root: unknown, path: string): { found: boolean; value?: unknown } {
+  const tokens: string[] = [];
+  const re = /\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\]|([^.[\]]+)/g;
+  const body = path.replace(/^\$\.?/, '');
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(body)) !== null) {
+    tokens.push(match[1] ?? match[2] ?? match[3] ?? match[4]);
+  }
+
+  let current: unknown = root;
+  for (const t of tokens) {
+    if (current === null || typeof current !== 'object' || !(t in current)) {
+      return { found: false };
+    }
+    current = (current as Record<string, unknown>)[t];
+  }
+  return { found: true, value: current };
+}
+
+function checkJsonPath(json: unknown, assertion: JsonPathAssertion): FailedAssertion | null {
+  const { found, value } = readJsonPath(json, assertion.path);
+  const op = assertion.op ?? (assertion.value === undefined ? 'exists' : 'equals');
+  const fail = (message: string): FailedAssertion => ({
+    type: 'json_path',
+    message: `${assertion.path}: ${message}`,
+    expected: assertion.value,
+    actual: value
+  });
+
+  switch (op) {
+    case 'exists':
+      return found ? null : fail('path not found');
+    case 'notExists':
+      return found ? fail('path should not exist') : null;
+    case 'equals':
+      return found && JSON.stringify(value) === JSON.stringify(assertion.value) ? null : fail('value mismatch');
+    case 'notEquals':
+      return found && JSON.stringify(value) !== JSON.stringify(assertion.value) ? null : fail('value should differ');
+    case 'contains':
+      if (typeof value === 'string' && value.includes(String(assertion.value))) return null;
+      if (Array.isArray(value) && value.some(v => JSON.stringify(v) === JSON.stringify(assertion.value))) return null;
+      return fail('value does not contain expected');
+    case 'gt':
+      return typeof value === 'number' && value > Number(assertion.value) ? null : fail('value not greater than expected');
+    case 'lt':
+      return typeof value === 'number' && value < Number(assertion.value) ? null : fail('value not less than expected');
+    default:
+      return fail(`unknown operator ${op}`);
+  }
+}
+
+/**
+ * Evaluates the monitor's assertions in a fixed order and returns the first one that failed.
+ */
+export function evaluateAssertions(
+  monitor: MonitorConfig,
+  res: { status: number; body: string; latency: number }
+): FailedAssertion | null {
+  const a = monitor.assertions ?? {};
+
+  if (a.expectedStatus && a.expectedStatus.length > 0) {
+    if (!statusMatches(res.status, a.expectedStatus)) {
+      return { type: 'status', message: `unexpected status ${res.status}`, expected: a.expectedStatus, actual: res.status };
+    }
+  } else if (res.status >= 400) {
+    return { type: 'status', message: `unexpected status ${res.status}`, expected: '<400', actual: res.status };
+  }
+
+  if (a.bodyContains !== undefined && !res.body.includes(a.bodyContains)) {
+    return { type: 'body_contains', message: 'response body does not contain expected text', expected: a.bodyContains };
+  }
+
+  if (a.bodyRegex !== undefined) {
+    const matched = bodyMatches(a.bodyRegex, res.body);
+    if (matched === null) {
+      return { type: 'body_regex', message: `pattern did not finish within ${REGEX_TIMEOUT_MS}ms`, expected: a.bodyRegex };
+    }
+    if (!matched) return { type: 'body_regex', message: 'response body does not match pattern', expected: a.bodyRegex };
+  }
+
+  if (a.jsonPath && a.jsonPath.length > 0) {
+    let json: unknown;
+    try {
+      json = JSON.parse(res.body);
+    } catch {
+      return { type: 'json_path', message: 'response body is not valid JSON' };
+    }
+    for (const assertion of a.jsonPath) {
+      const failed = checkJsonPath(json, assertion);
+      if (failed) return failed;
+    }
+  }
+
+  if (a.maxLatencyMs !== undefined && res.latency > a.maxLatencyMs) {
+    return { type: 'latency', message: `latency ${res.latency}ms above ${a.maxLatencyMs}ms`, expected: a.maxLatencyMs, actual: res.latency };
+  }
+
+  return null;
+}
+
+export async function runHttpCheck(monitor: MonitorConfig): Promise<CheckResult> {
+  const start = Date.now();
+  const { httpAgent, httpsAgent, finish } = createTimedAgents();
+
+  try {
+    const res = await axios.request({
+      url: monitor.url,
+      method: monitor.method ?? 'GET',
+      headers: monitor.headers ?? undefined,
+      data: monitor.body ?? undefined,
+      timeout: monitor.timeoutMs,
+      maxContentLength: MAX_BODY_BYTES,
+      responseType: 'text',
+      // keep the raw body; JSON assertions parse it themselves
+      transformResponse: [(data: unknown) => data],
+      validateStatus: () => true,
+      httpAgent,
+      httpsAgent
+    });
+    const end = Date.now();
+    const latency = end - start;
+    const body = typeof res.data === 'string' ? res.data : '';
+    const failedAssertion = evaluateAssertions(monitor, { status: res.status, body, latency });
+
+    return {
+      latency,
+      statusCode: res.status,
+      success: failedAssertion === null,
+      timings: finish(end),
+      responseSize: Buffer.byteLength(body),
+      ...(failedAssertion ? { failedAssertion } : {}),
+      ...(monitor.contentTracking?.enabled ? { content: body } : {})
+    };
+  } catch (error: any) {
+    // Network or other error
+    return {
+      latency: Date.now() - start,
+      statusCode: error?.response?.status ?? 0,
+      success: false,
+      timings: finish(),
+      failedAssertion: { type: 'request', message: error?.message ?? String(error) }
+    };
+  }
+}
+
+export const httpCheck: CheckRunner = { run: runHttpCheck };
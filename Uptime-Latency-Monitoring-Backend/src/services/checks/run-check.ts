@@ -0,0 +1,20 @@
+import type { MonitorConfig } from '../monitors';
+import { dnsCheck } from './dns';
+import { httpCheck } from './http';
+import { tcpCheck } from './tcp';
+import { tlsCheck } from './tls';
+import type { CheckResult, CheckRunner } from './types';
+
+export type { CertificateInfo, CheckResult, CheckRunner, FailedAssertion } from './types';
+
+const runners: Record<MonitorConfig['type'], CheckRunner> = {
+  http: httpCheck,
+  tcp: tcpCheck,
+  dns: dnsCheck,
+  tls: tlsCheck
+};
+
+export async function runCheck(monitor: MonitorConfig): Promise<CheckResult> {
+  const runner = runners[monitor.type] ?? httpCheck;
+  return runner.run(monitor);
+}
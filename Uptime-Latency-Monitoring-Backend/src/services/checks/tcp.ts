@@ -0,0 +1,37 @@
+import net from 'net';
+import type { MonitorConfig } from '../monitors';
+import { createSocketTimer } from './timing';
+import type { CheckResult, CheckRunner } from './types';
+
+// Success means the TCP handshake completed within timeoutMs; nothing is sent on the socket
+export async function runTcpCheck(monitor: MonitorConfig): Promise<CheckResult> {
+  const start = Date.now();
+  const host = monitor.tcp?.host ?? '';
+  const port = monitor.tcp?.port ?? 0;
+
+  const timer = createSocketTimer();
+
+  return new Promise<CheckResult>(resolve => {
+    const socket = net.connect({ host, port });
+    timer.watch(socket);
+    let settled = false;
+
+    const finish = (result: Omit<CheckResult, 'latency' | 'statusCode'>) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      const end = Date.now();
+      resolve({ latency: end - start, statusCode: 0, timings: timer.finish(end), ...result });
+    };
+
+    socket.setTimeout(monitor.timeoutMs, () => {
+      finish({ success: false, failedAssertion: { type: 'connect', message: `connect to ${host}:${port} timed out` } });
+    });
+    socket.once('connect', () => finish({ success: true }));
+    socket.once('error', (err: Error) => {
+      finish({ success: false, failedAssertion: { type: 'connect', message: err.message } });
+    });
+  });
+}
+
+export const tcpCheck: CheckRunner = { run: runTcpCheck };
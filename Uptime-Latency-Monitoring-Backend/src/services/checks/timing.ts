@@ -0,0 +1,85 @@
+import http from 'http';
+import https from 'https';
+import type { Socket } from 'net';
+
+// Durations in ms, same breakdown curl's --write-out timings use
+export type PhaseTimings = {
+  dns: number;
+  tcp: number;
+  tls: number;
+  ttfb: number; // request sent -> first response byte (server think time)
+  download: number;
+};
+
+export const PHASES = ['dns', 'tcp', 'tls', 'ttfb', 'download'] as const;
+
+type Marks = {
+  start: number;
+  lookup?: number;
+  connect?: number;
+  secureConnect?: number;
+  response?: number;
+};
+
+function toTimings(marks: Marks, end: number): PhaseTimings {
+  const connected = marks.connect ?? marks.lookup ?? marks.start;
+  const handshaken = marks.secureConnect ?? connected;
+  const response = marks.response ?? end;
+  return {
+    dns: marks.lookup !== undefined ? marks.lookup - marks.start : 0,
+    tcp: marks.connect !== undefined ? marks.connect - (marks.lookup ?? marks.start) : 0,
+    tls: marks.secureConnect !== undefined ? marks.secureConnect - connected : 0,
+    ttfb: Math.max(0, response - handshaken),
+    download: Math.max(0, end - response)
+  };
+}
+
+export function watchSocket(socket: Socket, marks: Marks): void {
+  socket.once('lookup', () => {
+    marks.lookup = Date.now();
+  });
+  socket.once('connect', () => {
+    marks.connect = Date.now();
+  });
+  socket.once('secureConnect', () => {
+    marks.secureConnect = Date.now();
+  });
+}
+
+/**
+ * Per-check HTTP(S) agents that record connection phases. Keep-alive is off so every
+ * check pays (and measures) its own DNS/TCP/TLS cost. When redirects are followed the
+ * marks are reset per hop, so the breakdown describes the final request.
+ */
+export function createTimedAgents() {
+  let marks: Marks = { start: Date.now() };
+
+  const instrument = <T extends http.Agent>(agent: T): T => {
+    const addRequest = (agent as any).addRequest;
+    (agent as any).addRequest = function (req: http.ClientRequest, options: unknown) {
+      const current: Marks = { start: Date.now() };
+      marks = current;
+      req.once('socket', (socket: Socket) => watchSocket(socket, current));
+      req.once('response', () => {
+        current.response = Date.now();
+      });
+      return addRequest.call(this, req, options);
+    };
+    return agent;
+  };
+
+  return {
+    httpAgent: instrument(new http.Agent({ keepAlive: false })),
+    httpsAgent: instrument(new https.Agent({ keepAlive: false })),
+    finish: (end: number = Date.now()): PhaseTimings => toTimings(marks, end)
+  };
+}
+
+// For non-HTTP checks that manage their own socket
+export function createSocketTimer() {
+  const marks: Marks = { start: Date.now() };
+  return {
+    watch: (socket: Socket) => watchSocket(socket, marks),
+    finish: (end: number = Date.now()): PhaseTimings => toTimings({ ...marks, response: marks.response ?? end }, end)
+  };
+}
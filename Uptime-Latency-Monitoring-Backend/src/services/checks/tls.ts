@@ -0,0 +1,97 @@
+import tls from 'tls';
+import type { MonitorConfig } from '../monitors';
+import { createSocketTimer } from './timing';
+import type { CertificateInfo, CheckResult, CheckRunner } from './types';
+
+export const DEFAULT_TLS_WARN_DAYS = 14;
+export const DEFAULT_TLS_CRITICAL_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function describeName(name: unknown): string | null {
+  if (!name || typeof name !== 'object') return null;
+  const n = name as Record<string, unknown>;
+  return (n.CN as string) ?? (n.O as string) ?? null;
+}
+
+/**
+ * Performs a TLS handshake and reads the peer certificate. The check fails when the
+ * handshake fails, the chain isn't trusted, or the certificate has already expired;
+ * approaching expiry is reported through `certificate.daysRemaining` instead.
+ */
+export async function runTlsCheck(monitor: MonitorConfig): Promise<CheckResult> {
+  const start = Date.now();
+  const host = monitor.tls?.host ?? '';
+  const port = monitor.tls?.port ?? 443;
+
+  const timer = createSocketTimer();
+
+  return new Promise<CheckResult>(resolve => {
+    let settled = false;
+    // Don't reject during the handshake so we can still read an untrusted/expired certificate
+    const socket = tls.connect({ host, port, servername: host, rejectUnauthorized: false });
+    timer.watch(socket);
+
+    const finish = (result: Omit<CheckResult, 'latency' | 'statusCode'>) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      const end = Date.now();
+      resolve({ latency: end - start, statusCode: 0, timings: timer.finish(end), ...result });
+    };
+
+    socket.setTimeout(monitor.timeoutMs, () => {
+      finish({ success: false, failedAssertion: { type: 'connect', message: `tls handshake with ${host}:${port} timed out` } });
+    });
+
+    socket.once('error', (err: Error) => {
+      finish({ success: false, failedAssertion: { type: 'connect', message: err.message } });
+    });
+
+    socket.once('secureConnect', () => {
+      const peer = socket.getPeerCertificate();
+      if (!peer || !peer.valid_to) {
+        finish({ success: false, failedAssertion: { type: 'certificate', message: 'no peer certificate presented' } });
+        return;
+      }
+
+      const validTo = new Date(peer.valid_to);
+      const certificate: CertificateInfo = {
+        subject: describeName(peer.subject),
+        issuer: describeName(peer.issuer),
+        validTo: validTo.toISOString(),
+        daysRemaining: Math.floor((validTo.getTime() - Date.now()) / DAY_MS)
+      };
+
+      if (validTo.getTime() <= Date.now()) {
+        finish({
+          success: false,
+          certificate,
+          failedAssertion: { type: 'certificate', message: 'certificate has expired', actual: certificate.validTo }
+        });
+        return;
+      }
+
+      if (!socket.authorized) {
+        finish({
+          success: false,
+          certificate,
+          failedAssertion: { type: 'certificate', message: String(socket.authorizationError ?? 'certificate not trusted') }
+        });
+        return;
+      }
+
+      finish({ success: true, certificate });
+    });
+  });
+}
+
+export const tlsCheck: CheckRunner = { run: runTlsCheck };
+
+export function certificateSeverity(monitor: MonitorConfig, cert: CertificateInfo): 'NORMAL' | 'WARNING' | 'CRITICAL' {
+  const warnDays = monitor.tls?.warnDays ?? DEFAULT_TLS_WARN_DAYS;
+  const criticalDays = monitor.tls?.criticalDays ?? DEFAULT_TLS_CRITICAL_DAYS;
+  if (cert.daysRemaining <= criticalDays) return 'CRITICAL';
+  if (cert.daysRemaining <= warnDays) return 'WARNING';
+  return 'NORMAL';
+}
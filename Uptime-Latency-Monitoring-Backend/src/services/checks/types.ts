@@ -0,0 +1,33 @@
+import type { MonitorConfig } from '../monitors';
+import type { PhaseTimings } from './timing';
+
+export type FailedAssertion = {
+  type: 'request' | 'status' | 'body_contains' | 'body_regex' | 'json_path' | 'latency' | 'connect' | 'dns' | 'certificate';
+  message: string;
+  expected?: unknown;
+  actual?: unknown;
+};
+
+export type CertificateInfo = {
+  subject: string | null;
+  issuer: string | null;
+  validTo: string;
+  daysRemaining: number;
+};
+
+// Every check type reports the same shape so PingMonitor can store it as one metric
+export type CheckResult = {
+  latency: number;
+  statusCode: number; // HTTP status for http checks, 0 for the other types
+  success: boolean;
+  timings?: PhaseTimings;
+  responseSize?: number; // bytes of response body, http only
+  failedAssertion?: FailedAssertion;
+  certificate?: CertificateInfo;
+  // raw response body, only returned for http monitors with content tracking enabled
+  content?: string;
+};
+
+export interface CheckRunner {
+  run(monitor: MonitorConfig): Promise<CheckResult>;
+}
@@ -0,0 +1,269 @@
+import type { InternalStateManager } from 'motia';
+import { readFile } from 'fs/promises';
+import { z } from 'zod';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { deleteRateLimitState } from './channel-rate-limits';
+import {
+  buildChannel,
+  channelDefinitionSchema,
+  channelSchema,
+  deleteChannel,
+  keepRedactedSecrets,
+  listChannels,
+  redactChannel,
+  saveChannel,
+  type Channel
+} from './channels';
+import { getEscalationPolicy } from './escalations';
+import { buildMonitorConfig, deleteMonitorData, listMonitors, monitorDefinitionSchema, monitorSchema, type MonitorConfig } from './monitors';
+
+/**
+ * Monitors-as-code: a YAML or JSON document listing channels and monitors (thresholds
+ * included) under stable ids. Applying it creates what is missing, updates what differs and
+ * deletes what an earlier apply created but the document no longer lists. Channels and
+ * monitors made through the API are left alone unless the apply prunes.
+ */
+export const configDocumentSchema = z.object({
+  version: z.literal(1).optional(),
+  channels: z.array(channelDefinitionSchema).optional(),
+  monitors: z.array(monitorDefinitionSchema).optional()
+});
+
+export const configChangeSchema = z.object({
+  kind: z.enum(['channel', 'monitor']),
+  id: z.string(),
+  action: z.enum(['create', 'update', 'delete']),
+  // top-level fields that differ, for updates
+  fields: z.array(z.string()).optional()
+});
+
+export type ConfigDocument = z.infer<typeof configDocumentSchema>;
+export type ConfigChange = z.infer<typeof configChangeSchema>;
+export type ConfigError = { path: string; message: string };
+
+export type ConfigPlan = {
+  changes: ConfigChange[];
+  unchanged: number;
+  errors: ConfigError[];
+  saveChannels: Channel[];
+  saveMonitors: MonitorConfig[];
+  deleteChannels: string[];
+  deleteMonitors: string[];
+  managed: ManagedIds;
+};
+
+// Ids the last apply wrote, so dropping one from the document deletes it
+type ManagedIds = { channels: string[]; monitors: string[] };
+
+const SYNC_GROUP = 'config-sync';
+const MANAGED_KEY = 'managed';
+
+// Runtime and bookkeeping fields that a document neither sets nor is compared on
+const UNMANAGED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'paused']);
+
+// JSON is valid YAML, so one parser reads both formats
+export function parseConfigText(text: string): unknown {
+  return parseYaml(text);
+}
+
+export function validateConfig(raw: unknown): { document: ConfigDocument; errors: [] } | { document: null; errors: ConfigError[] } {
+  const parsed = configDocumentSchema.safeParse(raw ?? {});
+  if (parsed.success) return { document: parsed.data, errors: [] };
+  return {
+    document: null,
+    errors: parsed.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+  };
+}
+
+// ${VAR} references in a config file are filled from the environment, so secrets stay out of git
+export function interpolateEnv(text: string, env: NodeJS.ProcessEnv = process.env): string {
+  const missing = new Set<string>();
+  const result = text.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => {
+    const value = env[name];
+    if (value === undefined) missing.add(name);
+    return value ?? '';
+  });
+  if (missing.size > 0) throw new Error(`undefined environment variables: ${[...missing].join(', ')}`);
+  return result;
+}
+
+export async function loadConfigFile(path: string): Promise<unknown> {
+  return parseConfigText(interpolateEnv(await readFile(path, 'utf8')));
+}
+
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record).filter(k => record[k] !== undefined).sort();
+    return `{${keys.map(k => `${JSON.stringify(k)}:${stableJson(record[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// Only the fields a document defines count; anything else stored on the record is kept as is
+function changedFields(current: object, next: object): string[] {
+  const stored = current as Record<string, unknown>;
+  return Object.entries(next)
+    .filter(([key, value]) => !UNMANAGED_FIELDS.has(key) && stableJson(stored[key]) !== stableJson(value))
+    .map(([key]) => key)
+    .sort();
+}
+
+function duplicateIds(items: { id: string }[], path: string): ConfigError[] {
+  const seen = new Set<string>();
+  const errors: ConfigError[] = [];
+  items.forEach((item, i) => {
+    if (seen.has(item.id)) errors.push({ path: `${path}.${i}.id`, message: `duplicate id ${item.id}` });
+    seen.add(item.id);
+  });
+  return errors;
+}
+
+async function getManagedIds(state: InternalStateManager): Promise<ManagedIds> {
+  const managed = await state.get<ManagedIds>(SYNC_GROUP, MANAGED_KEY);
+  return { channels: managed?.channels ?? [], monitors: managed?.monitors ?? [] };
+}
+
+/**
+ * Works out what applying the document would change, without writing anything. A plan with
+ * errors (unknown or duplicate ids, channels still in use) must not be applied.
+ */
+export async function planConfig(
+  state: InternalStateManager,
+  document: ConfigDocument,
+  options: { prune?: boolean } = {}
+): Promise<ConfigPlan> {
+  const channelDefs = document.channels ?? [];
+  const monitorDefs = document.monitors ?? [];
+  const errors = [...duplicateIds(channelDefs, 'channels'), ...duplicateIds(monitorDefs, 'monitors')];
+  const currentChannels = new Map((await listChannels(state)).map(c => [c.id, c]));
+  const currentMonitors = new Map((await listMonitors(state)).map(m => [m.id, m]));
+  const managed = await getManagedIds(state);
+  const now = new Date().toISOString();
+
+  const changes: ConfigChange[] = [];
+  let unchanged = 0;
+
+  const saveChannels: Channel[] = [];
+  for (const def of channelDefs) {
+    const current = currentChannels.get(def.id) ?? null;
+    const next = keepRedactedSecrets(buildChannel(def.id, def), current);
+    if (!current) {
+      changes.push({ kind: 'channel', id: def.id, action: 'create' });
+      saveChannels.push(next);
+      continue;
+    }
+    const fields = changedFields(current, next);
+    if (fields.length === 0) {
+      unchanged++;
+      continue;
+    }
+    changes.push({ kind: 'channel', id: def.id, action: 'update', fields });
+    saveChannels.push({ ...current, ...next, createdAt: current.createdAt });
+  }
+
+  const saveMonitors: MonitorConfig[] = [];
+  for (const def of monitorDefs) {
+    const current = currentMonitors.get(def.id) ?? null;
+    const next = buildMonitorConfig(def.id, def);
+    if (!current) {
+      changes.push({ kind: 'monitor', id: def.id, action: 'create' });
+      saveMonitors.push(next);
+      continue;
+    }
+    const fields = changedFields(current, next);
+    if (fields.length === 0) {
+      unchanged++;
+      continue;
+    }
+    changes.push({ kind: 'monitor', id: def.id, action: 'update', fields });
+    saveMonitors.push({ ...current, ...next, paused: current.paused, createdAt: current.createdAt, updatedAt: now });
+  }
+
+  const listedChannels = new Set(channelDefs.map(c => c.id));
+  const listedMonitors = new Set(monitorDefs.map(m => m.id));
+  const deleteMonitors = [...currentMonitors.keys()].filter(
+    id => !listedMonitors.has(id) && (options.prune || managed.monitors.includes(id))
+  );
+  const deleteChannels = [...currentChannels.keys()].filter(
+    id => !listedChannels.has(id) && (options.prune || managed.channels.includes(id))
+  );
+  changes.push(
+    ...deleteMonitors.map(id => ({ kind: 'monitor' as const, id, action: 'delete' as const })),
+    ...deleteChannels.map(id => ({ kind: 'channel' as const, id, action: 'delete' as const }))
+  );
+
+  // References must resolve against the state as it will be after the apply
+  const channelsAfter = new Set([...listedChannels, ...[...currentChannels.keys()].filter(id => !deleteChannels.includes(id))]);
+  for (const [i, def] of monitorDefs.entries()) {
+    for (const channelId of def.channels ?? []) {
+      if (!channelsAfter.has(channelId)) errors.push({ path: `monitors.${i}.channels`, message: `unknown channel ${channelId}` });
+    }
+    if (def.escalationPolicyId && !(await getEscalationPolicy(state, def.escalationPolicyId))) {
+      errors.push({ path: `monitors.${i}.escalationPolicyId`, message: `unknown escalation policy ${def.escalationPolicyId}` });
+    }
+  }
+  for (const monitor of currentMonitors.values()) {
+    if (listedMonitors.has(monitor.id) || deleteMonitors.includes(monitor.id)) continue;
+    for (const channelId of monitor.channels.filter(id => deleteChannels.includes(id))) {
+      errors.push({ path: 'channels', message: `channel ${channelId} is still used by monitor ${monitor.id}` });
+    }
+  }
+
+  return {
+    changes,
+    unchanged,
+    errors,
+    saveChannels,
+    saveMonitors,
+    deleteChannels,
+    deleteMonitors,
+    managed: { channels: [...listedChannels], monitors: [...listedMonitors] }
+  };
+}
+
+// Channels go first and leave last so monitors never point at a missing one
+export async function applyConfigPlan(state: InternalStateManager, plan: ConfigPlan): Promise<void> {
+  for (const channel of plan.saveChannels) await saveChannel(state, channel);
+  for (const monitor of plan.saveMonitors) await state.set('monitors', monitor.id, monitor);
+  for (const monitorId of plan.deleteMonitors) await deleteMonitorData(state, monitorId);
+  for (const channelId of plan.deleteChannels) {
+    await deleteChannel(state, channelId);
+    await deleteRateLimitState(state, channelId);
+  }
+  await state.set<ManagedIds>(SYNC_GROUP, MANAGED_KEY, plan.managed);
+}
+
+// Drops what the document doesn't set: bookkeeping fields, nulls and empty lists (the defaults)
+function definitionFields(record: Record<string, unknown>, fields: string[], keepNull: string[] = []): Record<string, unknown> {
+  const definition: Record<string, unknown> = { id: record.id };
+  for (const field of fields) {
+    const value = record[field];
+    if (UNMANAGED_FIELDS.has(field) || value === undefined) continue;
+    if (value === null && !keepNull.includes(field)) continue;
+    if (Array.isArray(value) && value.length === 0) continue;
+    definition[field] = value;
+  }
+  return definition;
+}
+
+/**
+ * The current channels and monitors as a config document. Channel secrets come out redacted;
+ * applying the export again keeps the stored ones.
+ */
+export async function exportConfig(state: InternalStateManager): Promise<ConfigDocument> {
+  const channels = (await listChannels(state)).map(channel =>
+    // a null rate limit turns limiting off, unlike a missing one
+    definitionFields(redactChannel(channel), Object.keys(channelSchema.shape), ['rateLimit'])
+  );
+  const monitors = (await listMonitors(state)).map(monitor => {
+    const fields = Object.keys(monitorSchema.shape).filter(f => f !== 'url' || monitor.type === 'http');
+    return definitionFields(monitor, fields);
+  });
+  return { version: 1, channels, monitors } as ConfigDocument;
+}
+
+export function renderConfigYaml(document: ConfigDocument): string {
+  return stringifyYaml(document);
+}
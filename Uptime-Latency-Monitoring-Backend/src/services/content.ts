@@ -0,0 +1,194 @@
+import { createHash } from 'crypto';
+import type { InternalStateManager } from 'motia';
+
+// Snapshots are capped so a large page can't blow up the state store or the diff
+const MAX_SNAPSHOT_CHARS = 64 * 1024;
+const MAX_DIFF_LINES = 2000;
+const MAX_DIFF_EDITS = 500;
+const DIFF_CONTEXT_LINES = 3;
+const MAX_EXCERPT_LINES = 60;
+
+export type ContentSnapshot = {
+  hash: string;
+  content: string;
+  truncated: boolean;
+  capturedAt: string;
+};
+
+// Stored in the `monitor-content` state group, keyed by monitor id
+export type ContentRecord = {
+  monitorId: string;
+  current: ContentSnapshot;
+  previous: ContentSnapshot | null;
+};
+
+/**
+ * Strips volatile fragments (timestamps, nonces, CSRF tokens...) matched by the monitor's
+ * ignore patterns and normalizes line endings / trailing whitespace before hashing.
+ */
+export function normalizeContent(body: string, ignorePatterns: string[] = []): string {
+  let out = body.replace(/\r\n?/g, '\n');
+  for (const pattern of ignorePatterns) {
+    out = out.replace(new RegExp(pattern, 'g'), '');
+  }
+  return out
+    .split('\n')
+    .map(line => line.replace(/\s+$/, ''))
+    .join('\n')
+    .trim();
+}
+
+export function hashContent(normalized: string): string {
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+export function buildSnapshot(body: string, ignorePatterns: string[] = []): ContentSnapshot {
+  const normalized = normalizeContent(body, ignorePatterns);
+  return {
+    hash: hashContent(normalized),
+    content: normalized.slice(0, MAX_SNAPSHOT_CHARS),
+    truncated: normalized.length > MAX_SNAPSHOT_CHARS,
+    capturedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Stores the new snapshot and returns the updated record when the hash changed.
+ * The first snapshot for a monitor is a baseline and never counts as a change.
+ */
+export async function recordSnapshot(
+  state: InternalStateManager,
+  monitorId: string,
+  snapshot: ContentSnapshot
+): Promise<ContentRecord | null> {
+  const existing = await state.get<ContentRecord>('monitor-content', monitorId);
+
+  if (!existing) {
+    await state.set<ContentRecord>('monitor-content', monitorId, { monitorId, current: snapshot, previous: null });
+    return null;
+  }
+
+  if (existing.current.hash === snapshot.hash) return null;
+
+  const record: ContentRecord = { monitorId, current: snapshot, previous: existing.current };
+  await state.set<ContentRecord>('monitor-content', monitorId, record);
+  return record;
+}
+
+type DiffOp = { kind: ' ' | '-' | '+'; line: string };
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  // Unchanged head and tail lines don't need the edit search
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+  const before = a.slice(head, a.length - tail);
+  const after = b.slice(head, b.length - tail);
+
+  const ops: DiffOp[] = a.slice(0, head).map(line => ({ kind: ' ' as const, line }));
+  ops.push(...myersDiff(before, after));
+  for (const line of a.slice(a.length - tail)) ops.push({ kind: ' ', line });
+  return ops;
+}
+
+/**
+ * Myers' O((n+m)·D) diff. A change of more than MAX_DIFF_EDITS lines stops searching and
+ * is reported as the whole block replaced, which is all an alert excerpt could show anyway.
+ */
+function myersDiff(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const limit = Math.min(n + m, MAX_DIFF_EDITS);
+  const offset = limit + 1;
+  // v[offset + k] is the furthest x reached on diagonal k; one copy is kept per edit for the walk back
+  const v = new Int32Array(2 * limit + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= limit; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace, offset);
+    }
+  }
+
+  return [...a.map(line => ({ kind: '-' as const, line })), ...b.map(line => ({ kind: '+' as const, line }))];
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[], offset: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : v[offset + prevK];
+    const prevY = d === 0 ? 0 : prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ kind: ' ', line: a[--x] });
+      y--;
+    }
+    if (d === 0) break;
+    if (x === prevX) ops.push({ kind: '+', line: b[--y] });
+    else ops.push({ kind: '-', line: a[--x] });
+  }
+  return ops.reverse();
+}
+
+/**
+ * Unified diff (with @@ hunk headers) between two snapshots, cut down to an excerpt
+ * short enough to put in an alert.
+ */
+export function unifiedDiffExcerpt(before: string, after: string): string {
+  const a = before.split('\n').slice(0, MAX_DIFF_LINES);
+  const b = after.split('\n').slice(0, MAX_DIFF_LINES);
+  const ops = diffLines(a, b);
+
+  const out: string[] = ['--- previous', '+++ current'];
+  let idx = 0;
+  while (idx < ops.length) {
+    if (ops[idx].kind === ' ') {
+      idx++;
+      continue;
+    }
+
+    // Expand the hunk to include surrounding context and any nearby changes
+    const start = Math.max(0, idx - DIFF_CONTEXT_LINES);
+    let end = idx;
+    let lastChange = idx;
+    while (end < ops.length && end - lastChange <= DIFF_CONTEXT_LINES * 2) {
+      if (ops[end].kind !== ' ') lastChange = end;
+      end++;
+    }
+    end = Math.min(ops.length, lastChange + DIFF_CONTEXT_LINES + 1);
+
+    let oldLine = 1;
+    let newLine = 1;
+    for (let k = 0; k < start; k++) {
+      if (ops[k].kind !== '+') oldLine++;
+      if (ops[k].kind !== '-') newLine++;
+    }
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter(o => o.kind !== '+').length;
+    const newCount = hunk.filter(o => o.kind !== '-').length;
+
+    out.push(`@@ -${oldLine},${oldCount} +${newLine},${newCount} @@`);
+    for (const o of hunk) out.push(`${o.kind}${o.line}`);
+    idx = end;
+
+    if (out.length >= MAX_EXCERPT_LINES) break;
+  }
+
+  if (out.length > MAX_EXCERPT_LINES) {
+    return [...out.slice(0, MAX_EXCERPT_LINES), `... (${out.length - MAX_EXCERPT_LINES} more lines)`].join('\n');
+  }
+  return out.join('\n');
+}
@@ -0,0 +1,290 @@
+import { randomUUID } from 'crypto';
+import type { InternalStateManager } from 'motia';
+import { z } from 'zod';
+import { getChannel, type Channel } from './channels';
+import { recordAlertCounter } from './monitor-counters';
+import { deliver, failureStatusCode, isPermanentFailure, type Notification } from './notifications/deliver';
+
+export const deliveryStatusSchema = z.enum(['pending', 'in_flight', 'retrying', 'delivered', 'dead_lettered']);
+
+export const deliveryAttemptSchema = z.object({
+  attempt: z.number(),
+  at: z.string(),
+  success: z.boolean(),
+  statusCode: z.number().nullable(),
+  error: z.string().nullable(),
+  durationMs: z.number()
+});
+
+// What the API shows: the stored record minus the channel snapshot (which holds secrets)
+export const deliverySchema = z.object({
+  id: z.string(),
+  monitorId: z.string(),
+  incidentId: z.string().nullable(),
+  channelId: z.string(),
+  channelName: z.string(),
+  channelType: z.string(),
+  reason: z.string(),
+  severity: z.string(),
+  kind: z.string(),
+  title: z.string(),
+  status: deliveryStatusSchema,
+  attempts: z.array(deliveryAttemptSchema),
+  nextAttemptAt: z.string().nullable(),
+  deadLetteredAt: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+export type DeliveryStatus = z.infer<typeof deliveryStatusSchema>;
+export type DeliveryAttempt = z.infer<typeof deliveryAttemptSchema>;
+
+// Stored in `alert-deliveries` keyed by id; dead letters are also indexed in `alert-dead-letters`
+export type Delivery = {
+  id: string;
+  monitorId: string;
+  incidentId: string | null;
+  // snapshot taken when the alert fired; legacy env/inline channels only exist here
+  channel: Channel;
+  notification: Notification;
+  status: DeliveryStatus;
+  attempts: DeliveryAttempt[];
+  // attempts made before the last replay don't count against maxAttempts
+  replayedAtAttempt: number;
+  // set by the worker that claimed the attempt, so a duplicate DELIVER_NOTIFICATION can tell it lost
+  claimId?: string;
+  nextAttemptAt: string | null;
+  deadLetteredAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type DeadLetter = { deliveryId: string; monitorId: string; deadLetteredAt: string; lastError: string | null };
+
+const DELIVERIES_GROUP = 'alert-deliveries';
+const DEAD_LETTERS_GROUP = 'alert-dead-letters';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RETRY_BASE_SECONDS = 30;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const DEFAULT_LOG_RETENTION_DAYS = 7;
+// a delivery left "in_flight" this long was lost mid-flight (worker restart) and is re-queued
+const STALE_PENDING_MS = 10 * 60 * 1000;
+
+export type DeliveryPolicy = {
+  maxAttempts: number;
+  retryBaseMs: number;
+  logRetentionMs: number;
+};
+
+function positiveEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function deliveryPolicy(): DeliveryPolicy {
+  return {
+    maxAttempts: Math.floor(positiveEnv('NOTIFY_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS)),
+    retryBaseMs: positiveEnv('NOTIFY_RETRY_BASE_SECONDS', DEFAULT_RETRY_BASE_SECONDS) * 1000,
+    logRetentionMs: positiveEnv('NOTIFY_LOG_RETENTION_DAYS', DEFAULT_LOG_RETENTION_DAYS) * 24 * 60 * 60 * 1000
+  };
+}
+
+// 30s, 1m, 2m, 4m... capped at an hour
+export function retryDelayMs(failedAttempts: number, policy: DeliveryPolicy): number {
+  return Math.min(policy.retryBaseMs * 2 ** Math.max(0, failedAttempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+export function publicDelivery(delivery: Delivery): z.infer<typeof deliverySchema> {
+  const { channel, notification, replayedAtAttempt: _replayedAtAttempt, claimId: _claimId, ...rest } = delivery;
+  return {
+    ...rest,
+    channelId: channel.id,
+    channelName: channel.name,
+    channelType: channel.type,
+    reason: notification.reason,
+    severity: notification.severity,
+    kind: notification.kind,
+    title: notification.title
+  };
+}
+
+export async function getDelivery(state: InternalStateManager, deliveryId: string): Promise<Delivery | null> {
+  return (await state.get<Delivery>(DELIVERIES_GROUP, deliveryId)) ?? null;
+}
+
+async function saveDelivery(state: InternalStateManager, delivery: Delivery): Promise<void> {
+  await state.set(DELIVERIES_GROUP, delivery.id, delivery);
+}
+
+export async function createDelivery(
+  state: InternalStateManager,
+  channel: Channel,
+  notification: Notification
+): Promise<Delivery> {
+  const now = new Date().toISOString();
+  const delivery: Delivery = {
+    id: randomUUID(),
+    monitorId: notification.monitorId,
+    incidentId: notification.incidentId,
+    channel,
+    notification,
+    status: 'pending',
+    attempts: [],
+    replayedAtAttempt: 0,
+    nextAttemptAt: null,
+    deadLetteredAt: null,
+    createdAt: now,
+    updatedAt: now
+  };
+  await saveDelivery(state, delivery);
+  return delivery;
+}
+
+/**
+ * Moves a pending delivery to in_flight for this caller. Returns null when it isn't pending
+ * or another worker's claim landed instead, so duplicate events (e.g. a replay racing a
+ * retry) don't send twice.
+ */
+export async function claimDelivery(state: InternalStateManager, deliveryId: string): Promise<Delivery | null> {
+  const delivery = await getDelivery(state, deliveryId);
+  if (delivery?.status !== 'pending') return null;
+
+  const claimId = randomUUID();
+  await saveDelivery(state, { ...delivery, status: 'in_flight', claimId, updatedAt: new Date().toISOString() });
+  const claimed = await getDelivery(state, deliveryId);
+  return claimed?.status === 'in_flight' && claimed.claimId === claimId ? claimed : null;
+}
+
+/**
+ * Makes one delivery attempt for a claimed delivery and records it. Failures are rescheduled with exponential
+ * backoff until maxAttempts, or dead-lettered right away when retrying can't help.
+ */
+export async function attemptDelivery(
+  state: InternalStateManager,
+  delivery: Delivery,
+  policy: DeliveryPolicy = deliveryPolicy()
+): Promise<Delivery> {
+  // Pick up edits to stored channels; legacy channels only exist as the snapshot
+  const channel = (await getChannel(state, delivery.channel.id)) ?? delivery.channel;
+  const attemptNumber = delivery.attempts.length + 1;
+  const started = Date.now();
+
+  let attempt: DeliveryAttempt;
+  let permanent = false;
+  try {
+    const result = await deliver(channel, delivery.notification);
+    attempt = {
+      attempt: attemptNumber,
+      at: new Date(started).toISOString(),
+      success: true,
+      statusCode: result.statusCode,
+      error: null,
+      durationMs: Date.now() - started
+    };
+  } catch (err: any) {
+    permanent = isPermanentFailure(err);
+    attempt = {
+      attempt: attemptNumber,
+      at: new Date(started).toISOString(),
+      success: false,
+      statusCode: failureStatusCode(err),
+      error: err?.message ?? String(err),
+      durationMs: Date.now() - started
+    };
+  }
+
+  const now = Date.now();
+  const attempts = [...delivery.attempts, attempt];
+  const failedSinceReplay = attempts.length - delivery.replayedAtAttempt;
+  let updated: Delivery = { ...delivery, channel, attempts, updatedAt: new Date(now).toISOString() };
+
+  if (attempt.success) {
+    updated = { ...updated, status: 'delivered', nextAttemptAt: null };
+  } else if (permanent || failedSinceReplay >= policy.maxAttempts) {
+    const deadLetteredAt = new Date(now).toISOString();
+    updated = { ...updated, status: 'dead_lettered', nextAttemptAt: null, deadLetteredAt };
+    const deadLetter: DeadLetter = { deliveryId: delivery.id, monitorId: delivery.monitorId, deadLetteredAt, lastError: attempt.error };
+    await state.set(DEAD_LETTERS_GROUP, delivery.id, deadLetter);
+  } else {
+    updated = { ...updated, status: 'retrying', nextAttemptAt: new Date(now + retryDelayMs(failedSinceReplay, policy)).toISOString() };
+  }
+
+  await saveDelivery(state, updated);
+  if (updated.status === 'delivered' || updated.status === 'dead_lettered') {
+    await recordAlertCounter(state, delivery.monitorId, updated.status === 'delivered', now);
+  }
+  return updated;
+}
+
+/**
+ * Retries whose backoff has elapsed (and in_flight deliveries whose worker went away).
+ * They are marked pending before being returned so the next cron tick doesn't re-queue them.
+ */
+export async function claimDueDeliveries(state: InternalStateManager, now = Date.now()): Promise<Delivery[]> {
+  const deliveries = (await state.getGroup<Delivery>(DELIVERIES_GROUP)) || [];
+  const due: Delivery[] = [];
+  for (const delivery of deliveries) {
+    if (!delivery?.id) continue;
+    const retryDue = delivery.status === 'retrying' && delivery.nextAttemptAt !== null && Date.parse(delivery.nextAttemptAt) <= now;
+    const stale = delivery.status === 'in_flight' && now - Date.parse(delivery.updatedAt) > STALE_PENDING_MS;
+    if (!retryDue && !stale) continue;
+
+    const claimed: Delivery = { ...delivery, status: 'pending', nextAttemptAt: null, updatedAt: new Date(now).toISOString() };
+    await saveDelivery(state, claimed);
+    due.push(claimed);
+  }
+  return due;
+}
+
+// Puts a dead-lettered delivery back in the queue with a fresh retry budget
+export async function replayDelivery(state: InternalStateManager, delivery: Delivery): Promise<Delivery> {
+  const replayed: Delivery = {
+    ...delivery,
+    status: 'pending',
+    nextAttemptAt: null,
+    deadLetteredAt: null,
+    replayedAtAttempt: delivery.attempts.length,
+    updatedAt: new Date().toISOString()
+  };
+  await saveDelivery(state, replayed);
+  await state.delete(DEAD_LETTERS_GROUP, delivery.id);
+  return replayed;
+}
+
+// Newest first
+export async function listDeliveries(
+  state: InternalStateManager,
+  filter: { monitorId?: string; status?: DeliveryStatus } = {}
+): Promise<Delivery[]> {
+  const deliveries = (await state.getGroup<Delivery>(DELIVERIES_GROUP)) || [];
+  return deliveries
+    .filter(d => !!d?.id)
+    .filter(d => !filter.monitorId || d.monitorId === filter.monitorId)
+    .filter(d => !filter.status || d.status === filter.status)
+    .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+}
+
+export async function listDeadLetters(state: InternalStateManager): Promise<DeadLetter[]> {
+  const deadLetters = (await state.getGroup<DeadLetter>(DEAD_LETTERS_GROUP)) || [];
+  return deadLetters.filter(d => !!d?.deliveryId);
+}
+
+// Drops delivered records past the log retention; dead letters stay until replayed or the monitor is deleted
+export async function purgeDeliveries(state: InternalStateManager, policy: DeliveryPolicy = deliveryPolicy(), now = Date.now()): Promise<number> {
+  let purged = 0;
+  for (const delivery of await listDeliveries(state, { status: 'delivered' })) {
+    if (now - Date.parse(delivery.updatedAt) > policy.logRetentionMs) {
+      await state.delete(DELIVERIES_GROUP, delivery.id);
+      purged++;
+    }
+  }
+  return purged;
+}
+
+export async function deleteDeliveries(state: InternalStateManager, monitorId: string): Promise<void> {
+  for (const delivery of await listDeliveries(state, { monitorId })) {
+    await state.delete(DELIVERIES_GROUP, delivery.id);
+    await state.delete(DEAD_LETTERS_GROUP, delivery.id);
+  }
+}
@@ -0,0 +1,176 @@
+import type { InternalStateManager } from 'motia';
+import { z } from 'zod';
+import { getChannel, type Channel } from './channels';
+import type { Incident } from './incidents';
+import type { Notification } from './notifications/deliver';
+import { getRotation, onCallAt } from './oncall';
+
+// A level notifies whoever is on call in a rotation, or a fixed channel
+export const escalationTargetSchema = z
+  .object({
+    rotationId: z.string().min(1).optional(),
+    channelId: z.string().min(1).optional()
+  })
+  .refine(t => (t.rotationId === undefined) !== (t.channelId === undefined), 'set exactly one of rotationId or channelId');
+
+export const escalationLevelSchema = z.object({
+  targets: z.array(escalationTargetSchema).min(1),
+  // how long to wait for an acknowledgement before moving on to the next level
+  escalateAfterMinutes: z.number().int().min(1).max(24 * 60).optional()
+});
+
+export const escalationPolicyInputSchema = z.object({
+  name: z.string().min(1),
+  levels: z.array(escalationLevelSchema).min(1).max(10)
+});
+
+export const escalationPolicySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  levels: z.array(
+    z.object({
+      targets: z.array(z.object({ rotationId: z.string().optional(), channelId: z.string().optional() })),
+      escalateAfterMinutes: z.number()
+    })
+  ),
+  createdAt: z.string()
+});
+
+export type EscalationPolicyInput = z.infer<typeof escalationPolicyInputSchema>;
+export type EscalationPolicy = z.infer<typeof escalationPolicySchema>;
+
+// Progress of one incident through its monitor's policy, stored in `incident-escalations` keyed by incident id
+export type Escalation = {
+  incidentId: string;
+  monitorId: string;
+  policyId: string;
+  // index of the last level notified, -1 before the first one
+  level: number;
+  notification: Notification;
+  nextLevelAt: string | null;
+  startedAt: string;
+};
+
+const POLICIES_GROUP = 'escalation-policies';
+const ESCALATIONS_GROUP = 'incident-escalations';
+const DEFAULT_ESCALATE_AFTER_MINUTES = 15;
+
+export function buildEscalationPolicy(id: string, data: EscalationPolicyInput): EscalationPolicy {
+  return {
+    id,
+    name: data.name,
+    levels: data.levels.map(level => ({
+      targets: level.targets,
+      escalateAfterMinutes: level.escalateAfterMinutes ?? DEFAULT_ESCALATE_AFTER_MINUTES
+    })),
+    createdAt: new Date().toISOString()
+  };
+}
+
+export async function getEscalationPolicy(state: InternalStateManager, policyId: string): Promise<EscalationPolicy | null> {
+  return (await state.get<EscalationPolicy>(POLICIES_GROUP, policyId)) ?? null;
+}
+
+export async function listEscalationPolicies(state: InternalStateManager): Promise<EscalationPolicy[]> {
+  const policies = (await state.getGroup<EscalationPolicy>(POLICIES_GROUP)) || [];
+  return policies.filter(p => !!p?.id).sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+}
+
+export async function saveEscalationPolicy(state: InternalStateManager, policy: EscalationPolicy): Promise<void> {
+  await state.set(POLICIES_GROUP, policy.id, policy);
+}
+
+export async function deleteEscalationPolicy(state: InternalStateManager, policyId: string): Promise<void> {
+  await state.delete(POLICIES_GROUP, policyId);
+}
+
+// Rotation and channel ids referenced by a policy body that don't exist
+export async function missingPolicyTargets(
+  state: InternalStateManager,
+  data: EscalationPolicyInput
+): Promise<{ rotations: string[]; channels: string[] }> {
+  const rotations = new Set<string>();
+  const channels = new Set<string>();
+  for (const level of data.levels) {
+    for (const target of level.targets) {
+      if (target.rotationId && !(await getRotation(state, target.rotationId))) rotations.add(target.rotationId);
+      if (target.channelId && !(await getChannel(state, target.channelId))) channels.add(target.channelId);
+    }
+  }
+  return { rotations: [...rotations], channels: [...channels] };
+}
+
+/**
+ * Channels to notify for one level, resolving rotations to whoever is on call right now.
+ * `recipients` describes who was paged, for the incident timeline.
+ */
+export async function resolveLevelTargets(
+  state: InternalStateManager,
+  policy: EscalationPolicy,
+  level: number,
+  at = Date.now()
+): Promise<{ channels: Channel[]; recipients: string[] }> {
+  const channels = new Map<string, Channel>();
+  const recipients: string[] = [];
+
+  for (const target of policy.levels[level]?.targets ?? []) {
+    let channelId = target.channelId;
+    if (target.rotationId) {
+      const rotation = await getRotation(state, target.rotationId);
+      if (!rotation) continue;
+      const onCall = onCallAt(rotation, at);
+      channelId = onCall.participant.channelId;
+      recipients.push(`${onCall.participant.name} (${rotation.name})`);
+    }
+    const channel = channelId ? await getChannel(state, channelId) : null;
+    if (!channel) continue;
+    if (!target.rotationId) recipients.push(channel.name);
+    channels.set(channel.id, channel);
+  }
+
+  return { channels: [...channels.values()], recipients };
+}
+
+export async function getEscalation(state: InternalStateManager, incidentId: string): Promise<Escalation | null> {
+  return (await state.get<Escalation>(ESCALATIONS_GROUP, incidentId)) ?? null;
+}
+
+export async function listEscalations(state: InternalStateManager): Promise<Escalation[]> {
+  const escalations = (await state.getGroup<Escalation>(ESCALATIONS_GROUP)) || [];
+  return escalations.filter(e => !!e?.incidentId);
+}
+
+export async function saveEscalation(state: InternalStateManager, escalation: Escalation): Promise<void> {
+  await state.set(ESCALATIONS_GROUP, escalation.incidentId, escalation);
+}
+
+export async function stopEscalation(state: InternalStateManager, incidentId: string): Promise<void> {
+  await state.delete(ESCALATIONS_GROUP, incidentId);
+}
+
+// Returns null when the incident is already escalating, so a repeated alert can't restart level 1
+export async function startEscalation(
+  state: InternalStateManager,
+  incident: Incident,
+  policyId: string,
+  notification: Notification
+): Promise<Escalation | null> {
+  if (await getEscalation(state, incident.id)) return null;
+  const escalation: Escalation = {
+    incidentId: incident.id,
+    monitorId: incident.monitorId,
+    policyId,
+    level: -1,
+    notification,
+    nextLevelAt: null,
+    startedAt: new Date().toISOString()
+  };
+  await saveEscalation(state, escalation);
+  return escalation;
+}
+
+export async function escalationUsers(state: InternalStateManager, rotationId: string): Promise<string[]> {
+  return (await listEscalationPolicies(state))
+    .filter(p => p.levels.some(l => l.targets.some(t => t.rotationId === rotationId)))
+    .map(p => p.id);
+}
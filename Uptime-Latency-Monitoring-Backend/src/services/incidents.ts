@@ -0,0 +1,176 @@
+import { randomUUID } from 'crypto';
+import type { InternalStateManager } from 'motia';
+import { z } from 'zod';
+
+export const incidentStatusSchema = z.enum(['open', 'resolved']);
+
+export const timelineEntrySchema = z.object({
+  type: z.enum(['first_failure', 'opened', 'alert_sent', 'alert_suppressed', 'escalated', 'acknowledged', 'recovered']),
+  at: z.string(),
+  message: z.string(),
+  details: z.any().optional()
+});
+
+export const incidentSchema = z.object({
+  id: z.string(),
+  monitorId: z.string(),
+  status: incidentStatusSchema,
+  startedAt: z.string(),
+  resolvedAt: z.string().nullable(),
+  durationSeconds: z.number().nullable(),
+  acknowledgedAt: z.string().nullable(),
+  acknowledgedBy: z.string().nullable(),
+  // API key that acknowledged, next to the free-text name; null for the root key and older incidents
+  acknowledgedByKeyId: z.string().nullable().optional(),
+  timeline: z.array(timelineEntrySchema)
+});
+
+export const acknowledgeSchema = z.object({
+  by: z.string().min(1).optional(),
+  note: z.string().optional()
+});
+
+export type IncidentStatus = z.infer<typeof incidentStatusSchema>;
+export type TimelineEntry = z.infer<typeof timelineEntrySchema>;
+export type Incident = z.infer<typeof incidentSchema>;
+
+// Incidents live in `incidents` keyed by id; `monitor-open-incident` points a monitor at its open one
+const INCIDENTS_GROUP = 'incidents';
+const OPEN_INCIDENT_GROUP = 'monitor-open-incident';
+// First failed check of the current failure streak, so the incident can start where the outage did
+const FAILURE_STREAK_GROUP = 'monitor-failure-streak';
+
+function entry(type: TimelineEntry['type'], at: string, message: string, details?: unknown): TimelineEntry {
+  return details === undefined ? { type, at, message } : { type, at, message, details };
+}
+
+export async function recordFailureStreakStart(state: InternalStateManager, monitorId: string, at: string): Promise<void> {
+  const existing = await state.get<string>(FAILURE_STREAK_GROUP, monitorId);
+  if (!existing) await state.set(FAILURE_STREAK_GROUP, monitorId, at);
+}
+
+export async function clearFailureStreak(state: InternalStateManager, monitorId: string): Promise<void> {
+  await state.delete(FAILURE_STREAK_GROUP, monitorId);
+}
+
+export async function getIncident(state: InternalStateManager, incidentId: string): Promise<Incident | null> {
+  return (await state.get<Incident>(INCIDENTS_GROUP, incidentId)) ?? null;
+}
+
+export async function getOpenIncident(state: InternalStateManager, monitorId: string): Promise<Incident | null> {
+  const incidentId = await state.get<string>(OPEN_INCIDENT_GROUP, monitorId);
+  if (!incidentId) return null;
+  const incident = await getIncident(state, incidentId);
+  return incident?.status === 'open' ? incident : null;
+}
+
+/**
+ * Opens an incident for a monitor that just transitioned to DOWN. Returns the already
+ * open incident instead when there is one, so a repeated DOWN can't fork the timeline.
+ */
+export async function openIncident(
+  state: InternalStateManager,
+  monitorId: string,
+  details: { failureCount: number; failedAssertion?: unknown }
+): Promise<Incident> {
+  const open = await getOpenIncident(state, monitorId);
+  if (open) return open;
+
+  const now = new Date().toISOString();
+  const firstFailureAt = (await state.get<string>(FAILURE_STREAK_GROUP, monitorId)) ?? now;
+  const incident: Incident = {
+    id: randomUUID(),
+    monitorId,
+    status: 'open',
+    startedAt: firstFailureAt,
+    resolvedAt: null,
+    durationSeconds: null,
+    acknowledgedAt: null,
+    acknowledgedBy: null,
+    acknowledgedByKeyId: null,
+    timeline: [
+      entry('first_failure', firstFailureAt, 'First failed check'),
+      entry('opened', now, `Monitor marked DOWN after ${details.failureCount} consecutive failures`, details)
+    ]
+  };
+
+  await state.set(INCIDENTS_GROUP, incident.id, incident);
+  await state.set(OPEN_INCIDENT_GROUP, monitorId, incident.id);
+  return incident;
+}
+
+export async function addTimelineEntry(
+  state: InternalStateManager,
+  incidentId: string,
+  type: TimelineEntry['type'],
+  message: string,
+  details?: unknown
+): Promise<Incident | null> {
+  const incident = await getIncident(state, incidentId);
+  if (!incident) return null;
+  const updated: Incident = { ...incident, timeline: [...incident.timeline, entry(type, new Date().toISOString(), message, details)] };
+  await state.set(INCIDENTS_GROUP, incidentId, updated);
+  return updated;
+}
+
+// Acknowledging twice keeps the original acknowledger; only the first ack lands on the timeline
+export async function acknowledgeIncident(
+  state: InternalStateManager,
+  incident: Incident,
+  by: string | undefined,
+  note: string | undefined,
+  keyId: string | null
+): Promise<Incident> {
+  if (incident.acknowledgedAt) return incident;
+
+  const now = new Date().toISOString();
+  const acknowledgedBy = by ?? 'unknown';
+  const updated: Incident = {
+    ...incident,
+    acknowledgedAt: now,
+    acknowledgedBy,
+    acknowledgedByKeyId: keyId,
+    timeline: [...incident.timeline, entry('acknowledged', now, `Acknowledged by ${acknowledgedBy}`, note ? { note, keyId } : { keyId })]
+  };
+  await state.set(INCIDENTS_GROUP, incident.id, updated);
+  return updated;
+}
+
+export async function resolveIncident(state: InternalStateManager, monitorId: string): Promise<Incident | null> {
+  const incident = await getOpenIncident(state, monitorId);
+  await state.delete(OPEN_INCIDENT_GROUP, monitorId);
+  if (!incident) return null;
+
+  const now = new Date();
+  const durationSeconds = Math.max(0, Math.round((now.getTime() - Date.parse(incident.startedAt)) / 1000));
+  const resolved: Incident = {
+    ...incident,
+    status: 'resolved',
+    resolvedAt: now.toISOString(),
+    durationSeconds,
+    timeline: [...incident.timeline, entry('recovered', now.toISOString(), 'Monitor recovered', { durationSeconds })]
+  };
+  await state.set(INCIDENTS_GROUP, incident.id, resolved);
+  return resolved;
+}
+
+// Newest first
+export async function listIncidents(
+  state: InternalStateManager,
+  filter: { monitorId?: string; status?: IncidentStatus } = {}
+): Promise<Incident[]> {
+  const incidents = (await state.getGroup<Incident>(INCIDENTS_GROUP)) || [];
+  return incidents
+    .filter(i => !!i?.id)
+    .filter(i => !filter.monitorId || i.monitorId === filter.monitorId)
+    .filter(i => !filter.status || i.status === filter.status)
+    .sort((a, b) => Date.parse(b.startedAt) - Date.parse(a.startedAt));
+}
+
+export async function deleteIncidents(state: InternalStateManager, monitorId: string): Promise<void> {
+  for (const incident of await listIncidents(state, { monitorId })) {
+    await state.delete(INCIDENTS_GROUP, incident.id);
+  }
+  await state.delete(OPEN_INCIDENT_GROUP, monitorId);
+  await state.delete(FAILURE_STREAK_GROUP, monitorId);
+}
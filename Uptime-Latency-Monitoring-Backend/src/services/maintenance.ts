@@ -0,0 +1,220 @@
+import type { InternalStateManager } from 'motia';
+import { z } from 'zod';
+import { isValidCron, lastCronFire, parseCron } from '../utils/cron';
+import type { MonitorConfig } from './monitors';
+
+const isoTimestamp = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'expected an ISO timestamp');
+
+// Which monitors a window or silence covers: listed ids, plus every monitor carrying one of the tags
+const selectorFields = {
+  monitorIds: z.array(z.string().min(1)).optional(),
+  tags: z.array(z.string().min(1)).optional()
+};
+
+function hasSelector(data: { monitorIds?: string[]; tags?: string[] }): boolean {
+  return (data.monitorIds?.length ?? 0) > 0 || (data.tags?.length ?? 0) > 0;
+}
+
+const selectorMessage = { message: 'set monitorIds and/or tags', path: ['monitorIds'] };
+
+export const maintenanceWindowInputSchema = z
+  .object({
+    name: z.string().min(1),
+    ...selectorFields,
+    // one-off window
+    startsAt: isoTimestamp.optional(),
+    endsAt: isoTimestamp.optional(),
+    // recurring window: opens whenever the 5-field cron expression (UTC) fires and lasts durationMinutes
+    cron: z.string().refine(isValidCron, 'invalid cron expression').optional(),
+    durationMinutes: z.number().int().min(1).max(24 * 60).optional()
+  })
+  .refine(hasSelector, selectorMessage)
+  .superRefine((data, ctx) => {
+    const oneOff = data.startsAt !== undefined || data.endsAt !== undefined;
+    const recurring = data.cron !== undefined || data.durationMinutes !== undefined;
+    if (oneOff === recurring) {
+      ctx.addIssue({ code: 'custom', path: ['cron'], message: 'set either startsAt/endsAt or cron/durationMinutes' });
+    } else if (oneOff && !(data.startsAt && data.endsAt && Date.parse(data.endsAt) > Date.parse(data.startsAt))) {
+      ctx.addIssue({ code: 'custom', path: ['endsAt'], message: 'startsAt and endsAt are required and endsAt must be after startsAt' });
+    } else if (recurring && !(data.cron && data.durationMinutes)) {
+      ctx.addIssue({ code: 'custom', path: ['durationMinutes'], message: 'cron and durationMinutes are required together' });
+    }
+  });
+
+export const maintenanceWindowSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  monitorIds: z.array(z.string()),
+  tags: z.array(z.string()),
+  startsAt: z.string().nullable(),
+  endsAt: z.string().nullable(),
+  cron: z.string().nullable(),
+  durationMinutes: z.number().nullable(),
+  createdAt: z.string()
+});
+
+export const silenceInputSchema = z
+  .object({
+    ...selectorFields,
+    // defaults to now
+    startsAt: isoTimestamp.optional(),
+    endsAt: isoTimestamp.optional(),
+    durationMinutes: z.number().int().min(1).max(30 * 24 * 60).optional(),
+    comment: z.string().optional(),
+    createdBy: z.string().optional()
+  })
+  .refine(hasSelector, selectorMessage)
+  .refine(s => (s.endsAt === undefined) !== (s.durationMinutes === undefined), {
+    message: 'set exactly one of endsAt or durationMinutes',
+    path: ['endsAt']
+  });
+
+export const silenceSchema = z.object({
+  id: z.string(),
+  monitorIds: z.array(z.string()),
+  tags: z.array(z.string()),
+  startsAt: z.string(),
+  endsAt: z.string(),
+  comment: z.string().nullable(),
+  createdBy: z.string().nullable(),
+  createdAt: z.string()
+});
+
+// Window as returned by the API, with the occurrence in progress (if any)
+export const maintenanceWindowStatusSchema = maintenanceWindowSchema.extend({
+  active: z.boolean(),
+  currentOccurrence: z.object({ start: z.string(), end: z.string() }).nullable()
+});
+
+export const silenceStatusSchema = silenceSchema.extend({ active: z.boolean() });
+
+export type MaintenanceWindowInput = z.infer<typeof maintenanceWindowInputSchema>;
+export type MaintenanceWindow = z.infer<typeof maintenanceWindowSchema>;
+export type SilenceInput = z.infer<typeof silenceInputSchema>;
+export type Silence = z.infer<typeof silenceSchema>;
+
+const WINDOWS_GROUP = 'maintenance-windows';
+const SILENCES_GROUP = 'silences';
+// expired silences are kept this long for reference, then dropped
+const SILENCE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+function covers(selector: { monitorIds: string[]; tags: string[] }, monitor: Pick<MonitorConfig, 'id' | 'tags'>): boolean {
+  return selector.monitorIds.includes(monitor.id) || selector.tags.some(t => monitor.tags.includes(t));
+}
+
+export function buildMaintenanceWindow(id: string, data: MaintenanceWindowInput): MaintenanceWindow {
+  return {
+    id,
+    name: data.name,
+    monitorIds: data.monitorIds ?? [],
+    tags: data.tags ?? [],
+    startsAt: data.startsAt ? new Date(data.startsAt).toISOString() : null,
+    endsAt: data.endsAt ? new Date(data.endsAt).toISOString() : null,
+    cron: data.cron ?? null,
+    durationMinutes: data.durationMinutes ?? null,
+    createdAt: new Date().toISOString()
+  };
+}
+
+/**
+ * The [start, end) of the occurrence of a window covering `at`, or null when it is closed.
+ * Recurring windows open each time their cron expression fires.
+ */
+export function windowOccurrenceAt(window: MaintenanceWindow, at: number): { start: number; end: number } | null {
+  if (window.cron && window.durationMinutes) {
+    const durationMs = window.durationMinutes * 60 * 1000;
+    const start = lastCronFire(parseCron(window.cron), at, durationMs);
+    return start === null ? null : { start, end: start + durationMs };
+  }
+  if (window.startsAt && window.endsAt) {
+    const start = Date.parse(window.startsAt);
+    const end = Date.parse(window.endsAt);
+    return start <= at && at < end ? { start, end } : null;
+  }
+  return null;
+}
+
+export function maintenanceWindowStatus(window: MaintenanceWindow, at: number): z.infer<typeof maintenanceWindowStatusSchema> {
+  const occurrence = windowOccurrenceAt(window, at);
+  return {
+    ...window,
+    active: occurrence !== null,
+    currentOccurrence: occurrence ? { start: new Date(occurrence.start).toISOString(), end: new Date(occurrence.end).toISOString() } : null
+  };
+}
+
+export async function getMaintenanceWindow(state: InternalStateManager, windowId: string): Promise<MaintenanceWindow | null> {
+  return (await state.get<MaintenanceWindow>(WINDOWS_GROUP, windowId)) ?? null;
+}
+
+export async function listMaintenanceWindows(state: InternalStateManager): Promise<MaintenanceWindow[]> {
+  const windows = (await state.getGroup<MaintenanceWindow>(WINDOWS_GROUP)) || [];
+  return windows.filter(w => !!w?.id).sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+}
+
+export async function saveMaintenanceWindow(state: InternalStateManager, window: MaintenanceWindow): Promise<void> {
+  await state.set(WINDOWS_GROUP, window.id, window);
+}
+
+export async function deleteMaintenanceWindow(state: InternalStateManager, windowId: string): Promise<void> {
+  await state.delete(WINDOWS_GROUP, windowId);
+}
+
+// Maintenance window the monitor is in at `at`, if any
+export async function activeMaintenance(
+  state: InternalStateManager,
+  monitor: Pick<MonitorConfig, 'id' | 'tags'>,
+  at = Date.now()
+): Promise<MaintenanceWindow | null> {
+  const windows = await listMaintenanceWindows(state);
+  return windows.find(w => covers(w, monitor) && windowOccurrenceAt(w, at) !== null) ?? null;
+}
+
+export function buildSilence(id: string, data: SilenceInput, now = Date.now()): Silence {
+  const startsAt = data.startsAt ? Date.parse(data.startsAt) : now;
+  const endsAt = data.endsAt ? Date.parse(data.endsAt) : startsAt + (data.durationMinutes ?? 0) * 60 * 1000;
+  return {
+    id,
+    monitorIds: data.monitorIds ?? [],
+    tags: data.tags ?? [],
+    startsAt: new Date(startsAt).toISOString(),
+    endsAt: new Date(endsAt).toISOString(),
+    comment: data.comment ?? null,
+    createdBy: data.createdBy ?? null,
+    createdAt: new Date(now).toISOString()
+  };
+}
+
+export function silenceActiveAt(silence: Silence, at: number): boolean {
+  return Date.parse(silence.startsAt) <= at && at < Date.parse(silence.endsAt);
+}
+
+export async function getSilence(state: InternalStateManager, silenceId: string): Promise<Silence | null> {
+  return (await state.get<Silence>(SILENCES_GROUP, silenceId)) ?? null;
+}
+
+export async function listSilences(state: InternalStateManager): Promise<Silence[]> {
+  const silences = (await state.getGroup<Silence>(SILENCES_GROUP)) || [];
+  return silences.filter(s => !!s?.id).sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+}
+
+// Silences that ended more than a week ago are dropped whenever a new one is added
+export async function saveSilence(state: InternalStateManager, silence: Silence, now = Date.now()): Promise<void> {
+  for (const old of await listSilences(state)) {
+    if (now - Date.parse(old.endsAt) > SILENCE_RETENTION_MS) await state.delete(SILENCES_GROUP, old.id);
+  }
+  await state.set(SILENCES_GROUP, silence.id, silence);
+}
+
+export async function deleteSilence(state: InternalStateManager, silenceId: string): Promise<void> {
+  await state.delete(SILENCES_GROUP, silenceId);
+}
+
+export async function activeSilence(
+  state: InternalStateManager,
+  monitor: Pick<MonitorConfig, 'id' | 'tags'>,
+  at = Date.now()
+): Promise<Silence | null> {
+  const silences = await listSilences(state);
+  return silences.find(s => covers(s, monitor) && silenceActiveAt(s, at)) ?? null;
+}
@@ -0,0 +1,101 @@
+import type { InternalStateManager } from 'motia';
+import { formatBound, sanitizeMetricName, type MetricFamily, type MetricPoint } from '../utils/openmetrics';
+import { tagKey, tagValue } from '../utils/tags';
+import { latestMetric } from './metrics-store';
+import { getMonitorCounters, LATENCY_BUCKETS_SECONDS } from './monitor-counters';
+import { getMonitorStatus, monitorStatusSchema } from './monitor-state';
+import type { MonitorConfig } from './monitors';
+
+const PREFIX = 'uptime_monitor';
+
+/**
+ * Labels shared by every series of a monitor: id, name, all tags as one comma-separated
+ * `tags` label, and `tag_<key>` for each key:value tag so PromQL can filter on e.g. tag_team.
+ */
+export function monitorLabels(monitor: Pick<MonitorConfig, 'id' | 'name' | 'url' | 'tags'>): Record<string, string> {
+  const labels: Record<string, string> = {
+    monitor_id: monitor.id,
+    name: monitor.name ?? monitor.url,
+    tags: [...(monitor.tags ?? [])].sort().join(',')
+  };
+  for (const tag of monitor.tags ?? []) {
+    const key = tagKey(tag);
+    if (key === null) continue;
+    const name = `tag_${sanitizeMetricName(key)}`;
+    labels[name] = labels[name] ? `${labels[name]},${tagValue(tag)}` : tagValue(tag);
+  }
+  return labels;
+}
+
+function family(name: string, type: MetricFamily['type'], help: string, unit?: string): MetricFamily {
+  return { name: `${PREFIX}_${name}`, type, help, ...(unit ? { unit } : {}), samples: [] };
+}
+
+/**
+ * Every monitor's series, grouped into metric families. Monitors that were never checked
+ * only show up in `state`, `checks` and `alerts`.
+ */
+export async function collectMonitorMetrics(state: InternalStateManager, monitors: MonitorConfig[]): Promise<MetricFamily[]> {
+  const up = family('up', 'gauge', 'Whether the last check succeeded (1) or failed (0)');
+  const latency = family('latency_seconds', 'gauge', 'Latency of the last check', 'seconds');
+  const histogram = family('check_latency_seconds', 'histogram', 'Latency of all checks', 'seconds');
+  const statusCode = family('status_code', 'gauge', 'Response status code of the last check (0 when there was no response)');
+  const failures = family('consecutive_failures', 'gauge', 'Failed checks in a row');
+  const monitorState = family('state', 'stateset', 'Monitor state machine status');
+  const checks = family('checks', 'counter', 'Checks run, by result');
+  const alerts = family('alerts', 'counter', 'Alert notifications by outcome: delivered, or dead-lettered after the retries ran out');
+
+  for (const monitor of monitors) {
+    const labels = monitorLabels(monitor);
+    const point = (value: number, extra: Record<string, string> = {}, suffix?: string): MetricPoint => ({
+      ...(suffix ? { suffix } : {}),
+      labels: { ...labels, ...extra },
+      value
+    });
+
+    const latest = await latestMetric(state, monitor.id);
+    if (latest) {
+      up.samples.push(point(latest.success ? 1 : 0));
+      if (typeof latest.latency === 'number') latency.samples.push(point(latest.latency / 1000));
+      if (typeof latest.statusCode === 'number') statusCode.samples.push(point(latest.statusCode));
+      failures.samples.push(point((await state.get<number>('monitor-failures', monitor.id)) ?? 0));
+    }
+
+    const status = await getMonitorStatus(state, monitor.id);
+    for (const option of monitorStatusSchema.options) {
+      monitorState.samples.push(point(option === status ? 1 : 0, { [monitorState.name]: option }));
+    }
+
+    // a counter's _created sample has to follow its _total
+    const counters = await getMonitorCounters(state, monitor.id);
+    const created = counters ? Date.parse(counters.createdAt) / 1000 : null;
+    const counter = (value: number, extra: Record<string, string>): MetricPoint[] => [
+      point(value, extra, '_total'),
+      ...(created !== null ? [point(created, extra, '_created')] : [])
+    ];
+    checks.samples.push(
+      ...counter((counters?.checks ?? 0) - (counters?.failedChecks ?? 0), { result: 'success' }),
+      ...counter(counters?.failedChecks ?? 0, { result: 'failure' })
+    );
+    alerts.samples.push(
+      ...counter(counters?.alertsDelivered ?? 0, { outcome: 'delivered' }),
+      ...counter(counters?.alertsDeadLettered ?? 0, { outcome: 'dead_lettered' })
+    );
+
+    if (counters && counters.latencyCount > 0) {
+      let cumulative = 0;
+      LATENCY_BUCKETS_SECONDS.forEach((bound, i) => {
+        cumulative += counters.latencyBuckets[i] ?? 0;
+        histogram.samples.push(point(cumulative, { le: formatBound(bound) }, '_bucket'));
+      });
+      histogram.samples.push(
+        point(counters.latencyCount, { le: '+Inf' }, '_bucket'),
+        point(counters.latencyCount, {}, '_count'),
+        point(counters.latencySumSeconds, {}, '_sum'),
+        point(created ?? 0, {}, '_created')
+      );
+    }
+  }
+
+  return [up, latency, histogram, statusCode, failures, monitorState, checks, alerts];
+}
@@ -0,0 +1,122 @@
+import type { InternalStateManager, StateAdapter } from 'motia';
+import type { FailedAssertion } from './checks/types';
+import type { PhaseTimings } from './checks/timing';
+import type { ProbeSample } from './probes';
+import {
+  appendItems,
+  deleteSeries,
+  firstSegmentStart,
+  latestItem,
+  queryItems,
+  trimItems,
+  type SeriesSpec,
+  type TimeRange
+} from './segmented-series';
+
+export type { TimeRange } from './segmented-series';
+
+// One stored check result
+export type MetricSample = {
+  monitorId: string;
+  timestamp: string; // ISO string
+  latency?: number;
+  statusCode?: number;
+  success?: boolean;
+  timings?: PhaseTimings;
+  responseSize?: number;
+  failedAssertion?: FailedAssertion;
+  // taken during a maintenance window: kept for charts, left out of uptime and anomaly baselines
+  maintenance?: boolean;
+  // per-probe answers when the check ran on remote probes; the fields above are the quorum verdict
+  probes?: ProbeSample[];
+};
+
+/**
+ * Raw samples are stored per monitor in one-hour segments (`metric-segments`, key
+ * `${monitorId}:${segmentStart}`) indexed by `metric-segment-index`. Reads only touch
+ * the segments overlapping the requested range, so cost depends on the monitor being
+ * read rather than on all monitors.
+ */
+export const SEGMENT_MS = 60 * 60 * 1000;
+
+const rawSeries: SeriesSpec = {
+  segmentGroup: 'metric-segments',
+  indexGroup: 'metric-segment-index',
+  segmentMs: SEGMENT_MS
+};
+
+export async function appendMetric(state: InternalStateManager, sample: MetricSample): Promise<void> {
+  await appendItems(state, rawSeries, sample.monitorId, [sample]);
+}
+
+/**
+ * Samples for one monitor with `from <= timestamp <= to`, oldest first.
+ */
+export async function queryMetrics(
+  state: InternalStateManager,
+  monitorId: string,
+  range: TimeRange = {}
+): Promise<MetricSample[]> {
+  return queryItems<MetricSample>(state, rawSeries, monitorId, range);
+}
+
+export async function latestMetric(state: InternalStateManager, monitorId: string): Promise<MetricSample | null> {
+  return latestItem<MetricSample>(state, rawSeries, monitorId);
+}
+
+// Lower bound for the oldest raw sample still stored (segment granularity)
+export async function oldestMetricSegment(state: InternalStateManager, monitorId: string): Promise<number | null> {
+  return firstSegmentStart(state, rawSeries, monitorId);
+}
+
+/**
+ * Drops samples older than `before` and returns how many were removed.
+ */
+export async function trimMetrics(state: InternalStateManager, monitorId: string, before: number): Promise<number> {
+  return trimItems<MetricSample>(state, rawSeries, monitorId, before);
+}
+
+export async function deleteMetrics(state: InternalStateManager, monitorId: string): Promise<void> {
+  await deleteSeries(state, rawSeries, monitorId);
+}
+
+// Before segments, every sample was its own key in this group
+const LEGACY_METRICS_GROUP = 'monitor-metrics';
+const LEGACY_BATCH_SIZE = 500;
+
+/**
+ * Moves samples from the old per-sample `monitor-metrics` group into segments, a batch of
+ * keys at a time: each batch is appended, then its keys are deleted. A migration cut short
+ * picks up where it stopped, and a batch appended but not yet deleted isn't appended twice.
+ * Samples of monitors that no longer exist are discarded rather than revived.
+ * Returns how many samples were moved.
+ */
+export async function migrateLegacyMetrics(state: StateAdapter, monitorIds: Set<string>): Promise<number> {
+  const keys = await state.keys(LEGACY_METRICS_GROUP);
+  let moved = 0;
+  for (let i = 0; i < keys.length; i += LEGACY_BATCH_SIZE) {
+    const batch = keys.slice(i, i + LEGACY_BATCH_SIZE);
+    const bySegment = new Map<string, MetricSample[]>();
+    for (const key of batch) {
+      const sample = await state.get<MetricSample>(LEGACY_METRICS_GROUP, key);
+      const ts = sample ? Date.parse(sample.timestamp) : NaN;
+      if (!sample?.monitorId || !monitorIds.has(sample.monitorId) || Number.isNaN(ts)) continue;
+      const segmentKey = `${sample.monitorId}:${Math.floor(ts / SEGMENT_MS) * SEGMENT_MS}`;
+      bySegment.set(segmentKey, [...(bySegment.get(segmentKey) ?? []), sample]);
+    }
+
+    for (const samples of bySegment.values()) {
+      const { monitorId, timestamp } = samples[0];
+      const start = Math.floor(Date.parse(timestamp) / SEGMENT_MS) * SEGMENT_MS;
+      const stored = new Set((await queryMetrics(state, monitorId, { from: start, to: start + SEGMENT_MS - 1 })).map(s => s.timestamp));
+      const fresh = samples.filter(s => !stored.has(s.timestamp));
+      if (fresh.length === 0) continue;
+      fresh.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+      await appendItems(state, rawSeries, monitorId, fresh);
+      moved += fresh.length;
+    }
+
+    for (const key of batch) await state.delete(LEGACY_METRICS_GROUP, key);
+  }
+  return moved;
+}
@@ -0,0 +1,92 @@
+import type { InternalStateManager } from 'motia';
+
+// Upper bounds (seconds) of the check latency histogram; a last, implicit bucket catches the rest
+export const LATENCY_BUCKETS_SECONDS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Monotonic per-monitor totals for the metrics exporter, kept from the monitor's first check
+ * (or alert) on. Latency bucket counts are per bucket here and made cumulative on export.
+ */
+export type MonitorCounters = {
+  monitorId: string;
+  checks: number;
+  failedChecks: number;
+  alertsDelivered: number;
+  alertsDeadLettered: number;
+  latencyBuckets: number[];
+  latencyCount: number;
+  latencySumSeconds: number;
+  createdAt: string;
+};
+
+const COUNTERS_GROUP = 'monitor-counters';
+
+function emptyCounters(monitorId: string, now: number): MonitorCounters {
+  return {
+    monitorId,
+    checks: 0,
+    failedChecks: 0,
+    alertsDelivered: 0,
+    alertsDeadLettered: 0,
+    latencyBuckets: LATENCY_BUCKETS_SECONDS.map(() => 0).concat(0),
+    latencyCount: 0,
+    latencySumSeconds: 0,
+    createdAt: new Date(now).toISOString()
+  };
+}
+
+export async function getMonitorCounters(state: InternalStateManager, monitorId: string): Promise<MonitorCounters | null> {
+  return (await state.get<MonitorCounters>(COUNTERS_GROUP, monitorId)) ?? null;
+}
+
+async function updateCounters(
+  state: InternalStateManager,
+  monitorId: string,
+  now: number,
+  update: (counters: MonitorCounters) => MonitorCounters
+): Promise<MonitorCounters> {
+  const counters = update((await getMonitorCounters(state, monitorId)) ?? emptyCounters(monitorId, now));
+  await state.set(COUNTERS_GROUP, monitorId, counters);
+  return counters;
+}
+
+export async function recordCheckCounters(
+  state: InternalStateManager,
+  monitorId: string,
+  check: { success: boolean; latencyMs?: number },
+  now = Date.now()
+): Promise<MonitorCounters> {
+  return updateCounters(state, monitorId, now, counters => {
+    const updated = { ...counters, checks: counters.checks + 1, failedChecks: counters.failedChecks + (check.success ? 0 : 1) };
+    if (typeof check.latencyMs !== 'number') return updated;
+
+    const seconds = check.latencyMs / 1000;
+    const index = LATENCY_BUCKETS_SECONDS.findIndex(bound => seconds <= bound);
+    const latencyBuckets = [...counters.latencyBuckets];
+    latencyBuckets[index === -1 ? LATENCY_BUCKETS_SECONDS.length : index]++;
+    return {
+      ...updated,
+      latencyBuckets,
+      latencyCount: counters.latencyCount + 1,
+      latencySumSeconds: counters.latencySumSeconds + seconds
+    };
+  });
+}
+
+// Called once per delivery when it settles, so retries don't count twice
+export async function recordAlertCounter(
+  state: InternalStateManager,
+  monitorId: string,
+  delivered: boolean,
+  now = Date.now()
+): Promise<MonitorCounters> {
+  return updateCounters(state, monitorId, now, counters =>
+    delivered
+      ? { ...counters, alertsDelivered: counters.alertsDelivered + 1 }
+      : { ...counters, alertsDeadLettered: counters.alertsDeadLettered + 1 }
+  );
+}
+
+export async function deleteMonitorCounters(state: InternalStateManager, monitorId: string): Promise<void> {
+  await state.delete(COUNTERS_GROUP, monitorId);
+}
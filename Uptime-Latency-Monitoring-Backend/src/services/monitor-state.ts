@@ -0,0 +1,109 @@
+import type { InternalStateManager } from 'motia';
+import { z } from 'zod';
+
+/**
+ * Monitor lifecycle:
+ *   UNKNOWN     no check since creation or resume
+ *   UP          last check succeeded
+ *   DEGRADED    failing, but fewer consecutive failures than failureThreshold
+ *   DOWN        failureThreshold or more consecutive failures; an incident is open
+ *   PAUSED      checks are not scheduled
+ *   MAINTENANCE inside a maintenance window; checks run but don't drive the status
+ */
+export const monitorStatusSchema = z.enum(['UNKNOWN', 'UP', 'DEGRADED', 'DOWN', 'PAUSED', 'MAINTENANCE']);
+
+export type MonitorStatus = z.infer<typeof monitorStatusSchema>;
+
+const LEGAL_TRANSITIONS: Record<MonitorStatus, MonitorStatus[]> = {
+  UNKNOWN: ['UP', 'DEGRADED', 'DOWN', 'PAUSED', 'MAINTENANCE'],
+  UP: ['DEGRADED', 'DOWN', 'PAUSED', 'MAINTENANCE'],
+  DEGRADED: ['UP', 'DOWN', 'PAUSED', 'MAINTENANCE'],
+  DOWN: ['UP', 'PAUSED', 'MAINTENANCE'],
+  PAUSED: ['UNKNOWN'],
+  MAINTENANCE: ['UP', 'DEGRADED', 'DOWN', 'PAUSED']
+};
+
+export const transitionSchema = z.object({
+  from: monitorStatusSchema,
+  to: monitorStatusSchema,
+  at: z.string(),
+  reason: z.string()
+});
+
+export const monitorStateSchema = z.object({
+  status: monitorStatusSchema,
+  since: z.string().nullable(),
+  reason: z.string().nullable()
+});
+
+export type Transition = z.infer<typeof transitionSchema>;
+export type MonitorState = z.infer<typeof monitorStateSchema>;
+
+export class IllegalTransitionError extends Error {
+  constructor(
+    public readonly from: MonitorStatus,
+    public readonly to: MonitorStatus
+  ) {
+    super(`illegal monitor state transition ${from} -> ${to}`);
+    this.name = 'IllegalTransitionError';
+  }
+}
+
+// Current status in `monitor-state`, last transitions (newest last) in `monitor-state-history`
+const STATE_GROUP = 'monitor-state';
+const HISTORY_GROUP = 'monitor-state-history';
+const MAX_HISTORY = 100;
+
+export function canTransition(from: MonitorStatus, to: MonitorStatus): boolean {
+  return LEGAL_TRANSITIONS[from].includes(to);
+}
+
+// Older versions stored a bare 'UP' | 'DOWN' | 'ALERTED' string
+function normalizeState(stored: unknown): MonitorState {
+  if (typeof stored === 'string') {
+    const status = stored === 'ALERTED' ? 'DOWN' : monitorStatusSchema.safeParse(stored).data ?? 'UNKNOWN';
+    return { status, since: null, reason: null };
+  }
+  const parsed = monitorStateSchema.safeParse(stored);
+  return parsed.success ? parsed.data : { status: 'UNKNOWN', since: null, reason: null };
+}
+
+export async function getMonitorState(state: InternalStateManager, monitorId: string): Promise<MonitorState> {
+  return normalizeState(await state.get(STATE_GROUP, monitorId));
+}
+
+export async function getMonitorStatus(state: InternalStateManager, monitorId: string): Promise<MonitorStatus> {
+  return (await getMonitorState(state, monitorId)).status;
+}
+
+export async function getTransitionHistory(state: InternalStateManager, monitorId: string): Promise<Transition[]> {
+  return (await state.get<Transition[]>(HISTORY_GROUP, monitorId)) ?? [];
+}
+
+/**
+ * Moves a monitor to `to` and appends the transition to its history. Returns null when
+ * the monitor is already in that status; throws IllegalTransitionError for transitions
+ * the lifecycle doesn't allow.
+ */
+export async function transitionMonitor(
+  state: InternalStateManager,
+  monitorId: string,
+  to: MonitorStatus,
+  reason: string,
+  at = Date.now()
+): Promise<Transition | null> {
+  const current = await getMonitorState(state, monitorId);
+  if (current.status === to) return null;
+  if (!canTransition(current.status, to)) throw new IllegalTransitionError(current.status, to);
+
+  const transition: Transition = { from: current.status, to, at: new Date(at).toISOString(), reason };
+  await state.set(STATE_GROUP, monitorId, { status: to, since: transition.at, reason });
+  const history = await getTransitionHistory(state, monitorId);
+  await state.set(HISTORY_GROUP, monitorId, [...history, transition].slice(-MAX_HISTORY));
+  return transition;
+}
+
+export async function deleteMonitorState(state: InternalStateManager, monitorId: string): Promise<void> {
+  await state.delete(STATE_GROUP, monitorId);
+  await state.delete(HISTORY_GROUP, monitorId);
+}
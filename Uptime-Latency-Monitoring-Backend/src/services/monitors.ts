@@ -0,0 +1,377 @@
+import type { InternalStateManager } from 'motia';
+import { isIP } from 'net';
+import { z } from 'zod';
+import { deleteMetrics } from './metrics-store';
+import { deleteRollups } from './rollups';
+import { deleteIncidents } from './incidents';
+import { deleteDeliveries } from './deliveries';
+import { deleteSuppressionState } from './alert-suppression';
+import { anomalyDetectionSchema, deleteAnomalyState } from './anomaly';
+import { deleteSlos } from './slos';
+import { deleteMonitorState, getMonitorStatus, transitionMonitor } from './monitor-state';
+import { deleteProbeRounds } from './probes';
+import { deleteStatusFeedState } from './status-feed';
+import { deleteMonitorCounters } from './monitor-counters';
+import { resourceIdSchema } from '../utils/ids';
+import { isValidSelectorTerm, matchesTagSelector } from '../utils/tags';
+
+export const DEFAULT_INTERVAL_SECONDS = 60;
+export const MIN_INTERVAL_SECONDS = 10;
+export const MAX_INTERVAL_SECONDS = 24 * 60 * 60;
+
+export const httpMethodSchema = z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']);
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// "200-299" but not "299-200", which would never match
+function isOrderedRange(value: string): boolean {
+  const range = /^(\d{3})-(\d{3})$/.exec(value);
+  return !range || Number(range[1]) <= Number(range[2]);
+}
+
+const MAX_BODY_REGEX_LENGTH = 500;
+
+// Everything that decides whether an HTTP response counts as a successful check
+export const assertionsSchema = z.object({
+  // exact codes (200), classes ("2xx") or ranges ("200-299"); defaults to any status below 400
+  expectedStatus: z
+    .array(
+      z.union([
+        z.number().int().min(100).max(599),
+        z
+          .string()
+          .regex(/^([1-5]xx|\d{3}-\d{3})$/i)
+          .refine(isOrderedRange, 'status range must run from low to high')
+      ])
+    )
+    .optional(),
+  bodyContains: z.string().optional(),
+  bodyRegex: z.string().max(MAX_BODY_REGEX_LENGTH).refine(isValidRegex, 'invalid regular expression').optional(),
+  jsonPath: z
+    .array(
+      z.object({
+        path: z.string().min(1),
+        op: z.enum(['exists', 'notExists', 'equals', 'notEquals', 'contains', 'gt', 'lt']).optional(),
+        value: z.any().optional()
+      })
+    )
+    .optional(),
+  maxLatencyMs: z.number().int().positive().optional()
+});
+
+// Opt-in tracking of the (normalized) response body of an http monitor
+export const contentTrackingSchema = z.object({
+  enabled: z.boolean(),
+  // regexes removed from the body before hashing, e.g. timestamps and nonces
+  ignorePatterns: z.array(z.string().refine(isValidRegex, 'invalid regular expression')).optional(),
+  severity: z.enum(['WARNING', 'CRITICAL']).optional()
+});
+
+export const monitorTypeSchema = z.enum(['http', 'tcp', 'dns', 'tls']);
+
+export const tcpTargetSchema = z.object({
+  host: z.string().min(1),
+  port: z.number().int().min(1).max(65535)
+});
+
+// 1.1.1.1, 1.1.1.1:5353, 2606:4700::1111 or [2606:4700::1111]:5353; dns.setServers takes nothing else
+function isResolverAddress(value: string): boolean {
+  const bracketed = value.match(/^\[([^\]]+)\](?::(\d{1,5}))?$/);
+  const withPort = value.match(/^([^:]+):(\d{1,5})$/);
+  const [host, port] = bracketed ? [bracketed[1], bracketed[2]] : withPort ? [withPort[1], withPort[2]] : [value, undefined];
+  if (port !== undefined && (Number(port) < 1 || Number(port) > 65535)) return false;
+  return bracketed ? isIP(host) === 6 : isIP(host) !== 0;
+}
+
+export const dnsTargetSchema = z.object({
+  hostname: z.string().min(1),
+  recordType: z.enum(['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'NS']).optional(),
+  // every listed value must be present in the answer; omitted means "resolves to anything"
+  expected: z.array(z.string()).optional(),
+  // optional resolver IP (with optional port), defaults to the system resolver
+  resolver: z.string().refine(isResolverAddress, 'resolver must be an IPv4 or IPv6 address, optionally with a port').optional()
+});
+
+export const tlsTargetSchema = z.object({
+  host: z.string().min(1),
+  port: z.number().int().min(1).max(65535).optional(),
+  warnDays: z.number().int().positive().optional(),
+  criticalDays: z.number().int().positive().optional()
+});
+
+const monitorFieldsSchema = z.object({
+  type: monitorTypeSchema.optional(),
+  url: z.string().url().optional(),
+  tcp: tcpTargetSchema.optional(),
+  dns: dnsTargetSchema.optional(),
+  tls: tlsTargetSchema.optional(),
+  name: z.string().optional(),
+  failureThreshold: z.number().int().positive().optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  intervalSeconds: z.number().int().min(MIN_INTERVAL_SECONDS).max(MAX_INTERVAL_SECONDS).optional(),
+  method: httpMethodSchema.optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  body: z.union([z.string(), z.record(z.string(), z.any())]).optional(),
+  assertions: assertionsSchema.optional(),
+  contentTracking: contentTrackingSchema.optional(),
+  // latency/error-rate anomaly detector; null restores the defaults
+  anomalyDetection: anomalyDetectionSchema.nullable().optional(),
+  // ids of notification channels (see /channels) that receive this monitor's alerts
+  channels: z.array(z.string().min(1)).optional(),
+  // escalation policy paged when the monitor goes down; null detaches it
+  escalationPolicyId: z.string().min(1).nullable().optional(),
+  // free-form labels; key:value tags such as team:payments also group monitors by their key
+  tags: z.array(z.string().min(1)).optional(),
+  // probe regions that check this monitor; empty means every live probe
+  regions: z.array(z.string().min(1)).optional(),
+  // failing probes needed to count a check as failed; null means a majority of the probes that answered
+  quorum: z.number().int().min(1).nullable().optional()
+});
+
+// Each check type needs its own target block (http keeps using `url`)
+function refineTarget(
+  data: { type?: string | null; url?: string | null; tcp?: unknown; dns?: unknown; tls?: { warnDays?: number; criticalDays?: number } | null },
+  ctx: z.RefinementCtx
+): void {
+  const type = data.type ?? 'http';
+  if (type === 'http' && !/^https?:\/\//i.test(data.url ?? '')) {
+    ctx.addIssue({ code: 'custom', path: ['url'], message: 'url is required for http monitors' });
+  }
+  if (type !== 'http' && !data[type as 'tcp' | 'dns' | 'tls']) {
+    ctx.addIssue({ code: 'custom', path: [type], message: `${type} settings are required for ${type} monitors` });
+  }
+  const tls = data.tls;
+  if (tls?.warnDays !== undefined && tls?.criticalDays !== undefined && tls.criticalDays > tls.warnDays) {
+    ctx.addIssue({ code: 'custom', path: ['tls', 'criticalDays'], message: 'criticalDays must not exceed warnDays' });
+  }
+}
+
+// Shared by every monitor management route so create and update validate the same way
+export const monitorInputSchema = monitorFieldsSchema.superRefine(refineTarget);
+
+// POST /monitors may pick a stable id instead of a generated one; config files always do
+export const monitorCreateSchema = monitorFieldsSchema.extend({ id: resourceIdSchema.optional() }).superRefine(refineTarget);
+
+export const monitorDefinitionSchema = monitorFieldsSchema.extend({ id: resourceIdSchema }).superRefine(refineTarget);
+
+export const monitorUpdateSchema = monitorFieldsSchema.partial();
+
+// Re-checks the merged result of a PATCH, since a partial body can't be validated on its own
+export const monitorTargetSchema = z
+  .object({
+    type: monitorTypeSchema,
+    url: z.string().nullable(),
+    tcp: z.any(),
+    dns: z.any(),
+    tls: z.any()
+  })
+  .superRefine(refineTarget);
+
+export const monitorSchema = z.object({
+  id: z.string(),
+  type: monitorTypeSchema,
+  // for non-http monitors this is a descriptive target such as tcp://db.internal:5432
+  url: z.string(),
+  tcp: tcpTargetSchema.nullable(),
+  dns: dnsTargetSchema.nullable(),
+  tls: tlsTargetSchema.nullable(),
+  name: z.string().nullable(),
+  failureThreshold: z.number(),
+  timeoutMs: z.number(),
+  intervalSeconds: z.number(),
+  method: httpMethodSchema,
+  headers: z.record(z.string(), z.string()).nullable(),
+  body: z.union([z.string(), z.record(z.string(), z.any())]).nullable(),
+  assertions: assertionsSchema.nullable(),
+  contentTracking: contentTrackingSchema.nullable(),
+  anomalyDetection: anomalyDetectionSchema.nullable(),
+  channels: z.array(z.string()),
+  escalationPolicyId: z.string().nullable(),
+  tags: z.array(z.string()),
+  regions: z.array(z.string()),
+  quorum: z.number().nullable(),
+  paused: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string().optional()
+});
+
+export const errorSchema = z.object({ error: z.string(), details: z.any().optional() });
+
+// Terms like env:prod, team:* or !env:staging that a monitor's tags must all match
+export const tagSelectorSchema = z.array(z.string().refine(isValidSelectorTerm, 'invalid selector term'));
+
+export type MonitorInput = z.infer<typeof monitorInputSchema>;
+export type MonitorDefinition = z.infer<typeof monitorDefinitionSchema>;
+export type MonitorUpdate = z.infer<typeof monitorUpdateSchema>;
+export type MonitorConfig = z.infer<typeof monitorSchema>;
+
+export function describeTarget(monitor: Pick<MonitorConfig, 'type' | 'url' | 'tcp' | 'dns' | 'tls'>): string {
+  switch (monitor.type) {
+    case 'tcp':
+      return `tcp://${monitor.tcp?.host}:${monitor.tcp?.port}`;
+    case 'dns':
+      return `dns://${monitor.dns?.hostname}/${monitor.dns?.recordType ?? 'A'}`;
+    case 'tls':
+      return `tls://${monitor.tls?.host}:${monitor.tls?.port ?? 443}`;
+    default:
+      return monitor.url;
+  }
+}
+
+export function buildMonitorConfig(id: string, data: MonitorInput): MonitorConfig {
+  const target = {
+    type: data.type ?? 'http',
+    url: data.url ?? '',
+    tcp: data.tcp ?? null,
+    dns: data.dns ?? null,
+    tls: data.tls ?? null
+  } as const;
+
+  return {
+    id,
+    ...target,
+    url: describeTarget(target),
+    name: data.name ?? null,
+    failureThreshold: data.failureThreshold ?? 3,
+    timeoutMs: data.timeoutMs ?? 5000,
+    intervalSeconds: data.intervalSeconds ?? DEFAULT_INTERVAL_SECONDS,
+    method: data.method ?? 'GET',
+    headers: data.headers ?? null,
+    body: data.body ?? null,
+    assertions: data.assertions ?? null,
+    contentTracking: data.contentTracking ?? null,
+    anomalyDetection: data.anomalyDetection ?? null,
+    channels: data.channels ?? [],
+    escalationPolicyId: data.escalationPolicyId ?? null,
+    tags: data.tags ?? [],
+    regions: data.regions ?? [],
+    quorum: data.quorum ?? null,
+    paused: false,
+    createdAt: new Date().toISOString()
+  };
+}
+
+export function applyMonitorUpdate(monitor: MonitorConfig, update: MonitorUpdate): MonitorConfig {
+  // Only overwrite fields present in the PATCH body; everything else is kept as stored
+  const next: MonitorConfig = { ...monitor, updatedAt: new Date().toISOString() };
+  if (update.type !== undefined) next.type = update.type;
+  if (update.url !== undefined) next.url = update.url;
+  if (update.tcp !== undefined) next.tcp = update.tcp;
+  if (update.dns !== undefined) next.dns = update.dns;
+  if (update.tls !== undefined) next.tls = update.tls;
+  if (update.name !== undefined) next.name = update.name;
+  if (update.failureThreshold !== undefined) next.failureThreshold = update.failureThreshold;
+  if (update.timeoutMs !== undefined) next.timeoutMs = update.timeoutMs;
+  if (update.intervalSeconds !== undefined) next.intervalSeconds = update.intervalSeconds;
+  if (update.method !== undefined) next.method = update.method;
+  if (update.headers !== undefined) next.headers = update.headers;
+  if (update.body !== undefined) next.body = update.body;
+  if (update.assertions !== undefined) next.assertions = update.assertions;
+  if (update.contentTracking !== undefined) next.contentTracking = update.contentTracking;
+  if (update.anomalyDetection !== undefined) next.anomalyDetection = update.anomalyDetection;
+  if (update.channels !== undefined) next.channels = update.channels;
+  if (update.escalationPolicyId !== undefined) next.escalationPolicyId = update.escalationPolicyId;
+  if (update.tags !== undefined) next.tags = update.tags;
+  if (update.regions !== undefined) next.regions = update.regions;
+  if (update.quorum !== undefined) next.quorum = update.quorum;
+  if (next.type !== 'http') next.url = describeTarget(next);
+  return next;
+}
+
+// Fills in fields that monitors stored by older versions of the API don't have
+export function normalizeMonitor(monitor: MonitorConfig): MonitorConfig {
+  return {
+    ...monitor,
+    type: monitor.type ?? 'http',
+    tcp: monitor.tcp ?? null,
+    dns: monitor.dns ?? null,
+    tls: monitor.tls ?? null,
+    paused: monitor.paused === true,
+    intervalSeconds: typeof monitor.intervalSeconds === 'number' ? monitor.intervalSeconds : DEFAULT_INTERVAL_SECONDS,
+    method: monitor.method ?? 'GET',
+    headers: monitor.headers ?? null,
+    body: monitor.body ?? null,
+    assertions: monitor.assertions ?? null,
+    contentTracking: monitor.contentTracking ?? null,
+    anomalyDetection: monitor.anomalyDetection ?? null,
+    channels: Array.isArray(monitor.channels) ? monitor.channels : [],
+    escalationPolicyId: monitor.escalationPolicyId ?? null,
+    tags: Array.isArray(monitor.tags) ? monitor.tags : [],
+    regions: Array.isArray(monitor.regions) ? monitor.regions : [],
+    quorum: monitor.quorum ?? null
+  };
+}
+
+export async function getMonitor(state: InternalStateManager, monitorId: string): Promise<MonitorConfig | null> {
+  const monitor = await state.get<MonitorConfig>('monitors', monitorId);
+  if (!monitor) return null;
+  return normalizeMonitor(monitor);
+}
+
+export async function listMonitors(state: InternalStateManager): Promise<MonitorConfig[]> {
+  const monitors = (await state.getGroup<MonitorConfig>('monitors')) || [];
+  return monitors
+    .filter(m => !!m?.id)
+    .map(normalizeMonitor)
+    .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+}
+
+export async function selectMonitors(state: InternalStateManager, selector: string[]): Promise<MonitorConfig[]> {
+  return (await listMonitors(state)).filter(m => matchesTagSelector(m.tags, selector));
+}
+
+// Pausing stops scheduling and parks the state machine; resuming starts over from UNKNOWN
+export async function setMonitorPaused(
+  state: InternalStateManager,
+  monitor: MonitorConfig,
+  paused: boolean,
+  reason: string
+): Promise<MonitorConfig> {
+  const updated = { ...monitor, paused, updatedAt: new Date().toISOString() };
+  await state.set('monitors', monitor.id, updated);
+  if (paused) {
+    await transitionMonitor(state, monitor.id, 'PAUSED', reason);
+  } else if ((await getMonitorStatus(state, monitor.id)) === 'PAUSED') {
+    // monitors paused by older versions never entered PAUSED
+    await transitionMonitor(state, monitor.id, 'UNKNOWN', reason);
+  }
+  return updated;
+}
+
+// Ids from a request body that don't name a stored monitor
+export async function missingMonitors(state: InternalStateManager, monitorIds: string[] | undefined): Promise<string[]> {
+  const missing: string[] = [];
+  for (const id of monitorIds ?? []) {
+    if (!(await state.get('monitors', id))) missing.push(id);
+  }
+  return missing;
+}
+
+// Removes the monitor config and everything PingMonitor / MonitorDown stored for it
+export async function deleteMonitorData(state: InternalStateManager, monitorId: string): Promise<void> {
+  await deleteMetrics(state, monitorId);
+  await deleteRollups(state, monitorId);
+  await deleteIncidents(state, monitorId);
+  await deleteDeliveries(state, monitorId);
+  await deleteSuppressionState(state, monitorId);
+  await deleteAnomalyState(state, monitorId);
+  await deleteSlos(state, monitorId);
+  await deleteProbeRounds(state, monitorId);
+  await deleteStatusFeedState(state, monitorId);
+  await deleteMonitorCounters(state, monitorId);
+  await state.delete('monitor-schedule', monitorId);
+  await state.delete('monitor-ping-slots', monitorId);
+  await state.delete('monitor-cert-alerts', monitorId);
+  await state.delete('monitor-content', monitorId);
+  await state.delete('monitor-failures', monitorId);
+  await state.delete('monitor-muted', monitorId);
+  await deleteMonitorState(state, monitorId);
+  await state.delete('monitors', monitorId);
+}
@@ -0,0 +1,51 @@
+import type { Channel, ChannelType } from '../channels';
+import { emailSender } from './email';
+import { emailApiSender } from './email-api';
+import { eventsApiSender } from './events-api';
+import { SmtpError } from './smtp-client';
+import type { ChannelSender, DeliveryResult, Notification } from './types';
+import { discordSender, slackSender, teamsSender, webhookSender } from './webhook';
+
+export type { AlertSeverity, ChannelSender, DeliveryResult, Notification } from './types';
+
+const senders: Record<ChannelType, ChannelSender> = {
+  smtp: emailSender,
+  email_api: emailApiSender,
+  webhook: webhookSender,
+  slack: slackSender,
+  discord: discordSender,
+  teams: teamsSender,
+  events_api: eventsApiSender
+};
+
+// Severity routing per channel; test notifications and digests (already routed) always go out
+export function channelAccepts(channel: Channel, n: Notification): boolean {
+  if (n.reason === 'test' || n.reason === 'digest') return true;
+  if (n.kind === 'recovery') return channel.sendRecovery;
+  if (n.severity === 'NORMAL') return false;
+  return channel.minSeverity === 'WARNING' || n.severity === 'CRITICAL';
+}
+
+export async function deliver(channel: Channel, notification: Notification): Promise<DeliveryResult> {
+  const sender = senders[channel.type];
+  if (!sender) throw new Error(`unsupported channel type ${channel.type}`);
+  return sender.send(channel, notification);
+}
+
+// Status code carried by a failed delivery (HTTP response status or SMTP reply code), if any
+export function failureStatusCode(err: unknown): number | null {
+  if (err instanceof SmtpError) return err.code ?? null;
+  const status = (err as { response?: { status?: unknown } })?.response?.status;
+  return typeof status === 'number' ? status : null;
+}
+
+/**
+ * Failures that won't succeed on retry: HTTP 4xx other than timeouts/rate limits,
+ * permanent SMTP rejections (5xx), invalid addresses and channels missing their settings.
+ */
+export function isPermanentFailure(err: unknown): boolean {
+  const code = failureStatusCode(err);
+  if (err instanceof SmtpError) return code !== null && code >= 500;
+  if (code !== null) return code >= 400 && code < 500 && code !== 408 && code !== 429;
+  return err instanceof Error && /has no \w+ settings|unsupported channel type|invalid mailbox|private address/.test(err.message);
+}
@@ -0,0 +1,19 @@
+import axios from 'axios';
+import type { Channel } from '../channels';
+import { formatEmail } from './email';
+import { NOTIFY_TIMEOUT_MS, type ChannelSender, type DeliveryResult, type Notification } from './types';
+
+// The generic email-API body the alerts always posted; `to` stays one comma-separated string
+export async function sendEmailApi(channel: Channel, n: Notification): Promise<DeliveryResult> {
+  const emailApi = channel.emailApi;
+  if (!emailApi) throw new Error(`channel ${channel.id} has no emailApi settings`);
+  const { subject, text } = formatEmail(n);
+  const response = await axios.post(
+    emailApi.url,
+    { to: emailApi.to.join(', '), from: emailApi.from, subject, text },
+    { headers: { Authorization: `Bearer ${emailApi.apiKey}` }, timeout: NOTIFY_TIMEOUT_MS }
+  );
+  return { statusCode: response.status };
+}
+
+export const emailApiSender: ChannelSender = { send: sendEmailApi };
@@ -0,0 +1,35 @@
+import type { Channel } from '../channels';
+import { notificationDetail, notificationFacts } from './message';
+import { sendMail } from './smtp-client';
+import { NOTIFY_TIMEOUT_MS, type ChannelSender, type DeliveryResult, type Notification } from './types';
+
+export function formatEmail(n: Notification): { subject: string; text: string } {
+  const tag = n.kind === 'recovery' ? 'RECOVERED' : n.severity;
+  const lines = notificationFacts(n).map(f => `${f.label}: ${f.value}`);
+  const detail = notificationDetail(n);
+  return {
+    subject: `[${tag}] ${n.title}`,
+    text: [`${n.title} at ${n.timestamp}`, '', ...lines, ...(detail ? ['', detail] : []), '', `Diagnostic: ${JSON.stringify(n.diagnostic ?? {})}`].join('\n')
+  };
+}
+
+export async function sendEmail(channel: Channel, n: Notification): Promise<DeliveryResult> {
+  const smtp = channel.smtp;
+  if (!smtp) throw new Error(`channel ${channel.id} has no smtp settings`);
+  const { subject, text } = formatEmail(n);
+  const code = await sendMail(
+    {
+      host: smtp.host,
+      port: smtp.port ?? (smtp.secure ? 465 : 587),
+      secure: smtp.secure === true,
+      startTls: smtp.startTls,
+      username: smtp.username,
+      password: smtp.password,
+      timeoutMs: NOTIFY_TIMEOUT_MS
+    },
+    { from: smtp.from, to: smtp.to, subject, text }
+  );
+  return { statusCode: code };
+}
+
+export const emailSender: ChannelSender = { send: sendEmail };
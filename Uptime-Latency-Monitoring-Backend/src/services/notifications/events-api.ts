@@ -0,0 +1,47 @@
+import axios from 'axios';
+import type { Channel } from '../channels';
+import { notificationDetail } from './message';
+import { NOTIFY_TIMEOUT_MS, type ChannelSender, type DeliveryResult, type Notification } from './types';
+
+export const DEFAULT_EVENTS_API_URL = 'https://events.pagerduty.com/v2/enqueue';
+
+const SEVERITY = { CRITICAL: 'critical', WARNING: 'warning', NORMAL: 'info' } as const;
+
+// Events API v2 body: a recovery resolves the event its dedup key triggered
+export function formatEvent(routingKey: string, n: Notification) {
+  if (n.kind === 'recovery') {
+    return { routing_key: routingKey, event_action: 'resolve', dedup_key: n.dedupKey };
+  }
+  return {
+    routing_key: routingKey,
+    event_action: 'trigger',
+    dedup_key: n.dedupKey,
+    payload: {
+      summary: n.title,
+      source: n.monitorUrl ?? n.monitorId,
+      severity: SEVERITY[n.severity],
+      timestamp: n.timestamp,
+      component: n.monitorName ?? n.monitorId,
+      class: n.reason,
+      custom_details: {
+        monitorId: n.monitorId,
+        incidentId: n.incidentId,
+        failureDurationSeconds: n.failureDurationSeconds,
+        avgLatency: n.avgLatency,
+        detail: notificationDetail(n)
+      }
+    }
+  };
+}
+
+export async function sendEvent(channel: Channel, n: Notification): Promise<DeliveryResult> {
+  const settings = channel.eventsApi;
+  if (!settings) throw new Error(`channel ${channel.id} has no eventsApi settings`);
+  const response = await axios.post(settings.url ?? DEFAULT_EVENTS_API_URL, formatEvent(settings.routingKey, n), {
+    headers: { 'Content-Type': 'application/json' },
+    timeout: NOTIFY_TIMEOUT_MS
+  });
+  return { statusCode: response.status };
+}
+
+export const eventsApiSender: ChannelSender = { send: sendEvent };
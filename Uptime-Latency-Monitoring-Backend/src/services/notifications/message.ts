@@ -0,0 +1,283 @@
+import { z } from 'zod';
+import type { HeldAlert } from '../channel-rate-limits';
+import type { MaintenanceNotice, StatusIncident, StatusPage } from '../status-pages';
+import type { AlertSeverity, Notification } from './types';
+
+type AlertInput = {
+  monitor: { id: string; name: string | null; url: string | null };
+  severity: AlertSeverity;
+  diagnostic: unknown;
+  incidentId: string | null;
+  failureDurationSeconds: number | null;
+  avgLatency: number | null;
+  suppressedCount?: number;
+  now?: Date;
+};
+
+const MAX_DETAIL_CHARS = 1500;
+
+// What the SEND_ALERT producers put in `diagnostic`, as far as titles and details read it;
+// a diagnostic that doesn't match just gets the generic wording
+const tlsDiagnosticSchema = z.object({
+  certificate: z.object({ subject: z.string().nullish(), validTo: z.string(), daysRemaining: z.number().optional() })
+});
+const contentDiagnosticSchema = z.object({ diff: z.string() });
+const sloDiagnosticSchema = z.object({
+  slo: z.object({ name: z.string().optional(), target: z.number().optional() }).optional(),
+  rule: z.object({ name: z.string(), burnRate: z.number(), longWindowMinutes: z.number(), shortWindowMinutes: z.number() }),
+  burnRate: z.object({ long: z.number().nullish(), short: z.number().nullish() }).optional(),
+  errorBudgetRemainingPercent: z.number().nullish()
+});
+const statusPageDiagnosticSchema = z.object({
+  message: z.string(),
+  scheduledFor: z.string().nullish(),
+  scheduledUntil: z.string().nullish()
+});
+const flappingDiagnosticSchema = z.object({ transitions: z.number().optional(), windowMinutes: z.number().optional() });
+const digestDiagnosticSchema = z.object({
+  heldCount: z.number().optional(),
+  alerts: z.array(z.object({ timestamp: z.string(), severity: z.string(), title: z.string() }))
+});
+const anomalyDiagnosticSchema = z.object({
+  latency: z.object({ value: z.number(), z: z.number() }),
+  error_rate: z.object({ z: z.number() }).optional(),
+  regressedPhases: z.array(z.string()).optional(),
+  detector: z.object({ detector: z.string().optional() }).optional()
+});
+
+function parseDiagnostic<T extends z.ZodTypeAny>(schema: T, diagnostic: unknown): z.infer<T> | null {
+  const parsed = schema.safeParse(diagnostic);
+  return parsed.success ? parsed.data : null;
+}
+
+// SEND_ALERT producers tag their diagnostics with a reason; CheckAnomaly results don't carry one
+export function alertReason(severity: AlertSeverity, diagnostic: unknown): string {
+  const d = (diagnostic ?? {}) as { reason?: unknown; recovered?: unknown };
+  if (severity === 'NORMAL' && d.recovered) return 'recovered';
+  if (typeof d.reason === 'string') return d.reason;
+  return 'anomaly';
+}
+
+export function dedupKey(monitorId: string, reason: string): string {
+  // a recovery resolves the outage it follows
+  return `${monitorId}:${reason === 'recovered' ? 'monitor_down' : reason}`;
+}
+
+function titleFor(reason: string, label: string, diagnostic: unknown): string {
+  switch (reason) {
+    case 'monitor_down':
+      return `${label} is down`;
+    case 'recovered':
+      return `${label} recovered`;
+    case 'tls_expiry':
+      return `${label}: TLS certificate expires in ${parseDiagnostic(tlsDiagnosticSchema, diagnostic)?.certificate.daysRemaining ?? '?'} days`;
+    case 'content_changed':
+      return `${label}: content changed`;
+    case 'slo_burn': {
+      const d = parseDiagnostic(sloDiagnosticSchema, diagnostic);
+      return `${label}: SLO "${d?.slo?.name ?? '?'}" is burning its error budget (${d?.rule.name ?? '?'} burn)`;
+    }
+    case 'flapping':
+      return `${label} is flapping`;
+    case 'test':
+      return `Test notification for ${label}`;
+    default:
+      return `${label}: anomaly detected`;
+  }
+}
+
+export function buildNotification(input: AlertInput): Notification {
+  const { monitor, severity, diagnostic } = input;
+  const reason = alertReason(severity, diagnostic);
+  const label = monitor.name || monitor.url || monitor.id;
+  return {
+    monitorId: monitor.id,
+    monitorName: monitor.name,
+    monitorUrl: monitor.url,
+    severity,
+    kind: reason === 'recovered' ? 'recovery' : 'alert',
+    reason,
+    dedupKey: dedupKey(monitor.id, reason),
+    title: titleFor(reason, label, diagnostic),
+    timestamp: (input.now ?? new Date()).toISOString(),
+    incidentId: input.incidentId,
+    failureDurationSeconds: input.failureDurationSeconds,
+    avgLatency: input.avgLatency,
+    diagnostic: diagnostic ?? null,
+    ...(input.suppressedCount ? { suppressedCount: input.suppressedCount } : {})
+  };
+}
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { NORMAL: 0, WARNING: 1, CRITICAL: 2 };
+
+// One summary for the alerts a rate-limited channel held back
+export function buildDigestNotification(channelId: string, held: HeldAlert[], heldCount: number, now = new Date()): Notification {
+  const severity = held.reduce<AlertSeverity>((max, a) => (SEVERITY_RANK[a.severity] > SEVERITY_RANK[max] ? a.severity : max), 'NORMAL');
+  const monitors = new Set(held.map(a => a.monitorId));
+  const only = monitors.size === 1 ? held[0] : null;
+  return {
+    monitorId: only?.monitorId ?? '*',
+    monitorName: only ? only.monitorName : `${monitors.size} monitors`,
+    monitorUrl: null,
+    severity,
+    kind: 'alert',
+    reason: 'digest',
+    dedupKey: `digest:${channelId}`,
+    title: `${heldCount} alert${heldCount === 1 ? '' : 's'} held back by the rate limit`,
+    timestamp: now.toISOString(),
+    incidentId: null,
+    failureDurationSeconds: null,
+    avgLatency: null,
+    diagnostic: { reason: 'digest', heldCount, alerts: held }
+  };
+}
+
+export type StatusPagePost =
+  | { kind: 'incident'; incident: StatusIncident; update: StatusIncident['updates'][number] }
+  | { kind: 'maintenance'; notice: MaintenanceNotice };
+
+// Deliveries for a page are filed under this key where alert deliveries use the monitor id
+export function statusPageDeliveryKey(pageId: string): string {
+  return `status-page:${pageId}`;
+}
+
+const IMPACT_SEVERITY: Record<StatusIncident['impact'], AlertSeverity> = { none: 'NORMAL', minor: 'WARNING', major: 'CRITICAL', critical: 'CRITICAL' };
+
+/**
+ * A status page post for one subscriber (the diagnostic carries their unsubscribe token).
+ * The page stands in for the monitor, so every channel shows its name.
+ */
+export function buildStatusPageNotification(
+  page: Pick<StatusPage, 'id' | 'name' | 'slug'>,
+  post: StatusPagePost,
+  subscriber: { token: string; pageUrl: string | null },
+  now = new Date()
+): Notification {
+  const resolved = post.kind === 'incident' && post.update.status === 'resolved';
+  const itemId = post.kind === 'incident' ? post.incident.id : post.notice.id;
+  return {
+    monitorId: statusPageDeliveryKey(page.id),
+    monitorName: page.name,
+    monitorUrl: subscriber.pageUrl,
+    severity: post.kind === 'incident' && !resolved ? IMPACT_SEVERITY[post.incident.impact] : 'NORMAL',
+    kind: resolved ? 'recovery' : 'alert',
+    reason: 'status_page',
+    dedupKey: `${statusPageDeliveryKey(page.id)}:${itemId}`,
+    title:
+      post.kind === 'incident'
+        ? `${page.name}: ${post.incident.title} [${post.update.status}]`
+        : `${page.name}: scheduled maintenance, ${post.notice.title}`,
+    timestamp: now.toISOString(),
+    incidentId: null,
+    failureDurationSeconds: null,
+    avgLatency: null,
+    diagnostic:
+      post.kind === 'incident'
+        ? {
+            reason: 'status_page',
+            page: page.slug,
+            incidentId: post.incident.id,
+            status: post.update.status,
+            impact: post.incident.impact,
+            message: post.update.message,
+            unsubscribeToken: subscriber.token
+          }
+        : {
+            reason: 'status_page',
+            page: page.slug,
+            noticeId: post.notice.id,
+            scheduledFor: post.notice.scheduledFor,
+            scheduledUntil: post.notice.scheduledUntil,
+            message: post.notice.message,
+            unsubscribeToken: subscriber.token
+          }
+  };
+}
+
+/**
+ * Sent once to a new subscriber: nothing else goes to the address until it is confirmed,
+ * and only someone receiving this message learns the confirm token.
+ */
+export function buildSubscriptionConfirmation(
+  page: Pick<StatusPage, 'id' | 'name' | 'slug'>,
+  subscriber: { id: string; token: string; confirmToken: string; confirmUrl: string | null; pageUrl: string | null },
+  now = new Date()
+): Notification {
+  const how = subscriber.confirmUrl ? `open ${subscriber.confirmUrl}` : `confirm with token ${subscriber.confirmToken}`;
+  return {
+    monitorId: statusPageDeliveryKey(page.id),
+    monitorName: page.name,
+    monitorUrl: subscriber.pageUrl,
+    severity: 'NORMAL',
+    kind: 'alert',
+    reason: 'status_page',
+    dedupKey: `${statusPageDeliveryKey(page.id)}:confirm:${subscriber.id}`,
+    title: `${page.name}: confirm your subscription`,
+    timestamp: now.toISOString(),
+    incidentId: null,
+    failureDurationSeconds: null,
+    avgLatency: null,
+    diagnostic: {
+      reason: 'status_page',
+      page: page.slug,
+      message: `To receive status updates for ${page.name}, ${how}. If you didn't ask for this, ignore this message.`,
+      confirmToken: subscriber.confirmToken,
+      unsubscribeToken: subscriber.token
+    }
+  };
+}
+
+// Label/value pairs shown by every human-readable channel
+export function notificationFacts(n: Notification): { label: string; value: string }[] {
+  const facts: { label: string; value: string | null }[] = [
+    { label: 'Monitor', value: n.monitorName ?? n.monitorId },
+    { label: 'Target', value: n.monitorUrl },
+    { label: 'Severity', value: n.kind === 'recovery' ? 'RECOVERED' : n.severity },
+    { label: 'Failure duration', value: n.failureDurationSeconds !== null ? `${n.failureDurationSeconds}s` : null },
+    { label: 'Avg latency (1h)', value: n.avgLatency !== null ? `${Math.round(n.avgLatency)} ms` : null },
+    { label: 'Incident', value: n.incidentId },
+    { label: 'Repeats suppressed', value: n.suppressedCount ? String(n.suppressedCount) : null }
+  ];
+  return facts.filter((f): f is { label: string; value: string } => f.value !== null && f.value !== '');
+}
+
+// Short reason-specific explanation (diff excerpt, certificate, z-scores), if there is one
+export function notificationDetail(n: Notification): string | null {
+  let detail: string | null = null;
+  if (n.reason === 'content_changed') {
+    detail = parseDiagnostic(contentDiagnosticSchema, n.diagnostic)?.diff ?? null;
+  } else if (n.reason === 'tls_expiry') {
+    const d = parseDiagnostic(tlsDiagnosticSchema, n.diagnostic);
+    if (d) detail = `Certificate ${d.certificate.subject ?? ''} expires ${d.certificate.validTo}`.replace(/\s+/g, ' ');
+  } else if (n.reason === 'slo_burn') {
+    const d = parseDiagnostic(sloDiagnosticSchema, n.diagnostic);
+    if (d) {
+      const rate = (v: number | null | undefined) => (typeof v === 'number' ? `${v.toFixed(1)}x` : 'n/a');
+      const budget =
+        typeof d.errorBudgetRemainingPercent === 'number' ? `, ${d.errorBudgetRemainingPercent.toFixed(1)}% of the error budget left` : '';
+      detail = `burn rate ${rate(d.burnRate?.long)} over ${d.rule.longWindowMinutes}m and ${rate(d.burnRate?.short)} over ${d.rule.shortWindowMinutes}m (threshold ${d.rule.burnRate}x) for target ${d.slo?.target}%${budget}`;
+    }
+  } else if (n.reason === 'status_page') {
+    const d = parseDiagnostic(statusPageDiagnosticSchema, n.diagnostic);
+    if (d) detail = d.scheduledFor ? `${d.message}\nFrom ${d.scheduledFor} to ${d.scheduledUntil}` : d.message;
+  } else if (n.reason === 'flapping') {
+    const d = parseDiagnostic(flappingDiagnosticSchema, n.diagnostic);
+    detail = `${d?.transitions ?? '?'} up/down transitions within ${d?.windowMinutes ?? '?'} minutes; further up/down alerts are held until it settles`;
+  } else if (n.reason === 'digest') {
+    const d = parseDiagnostic(digestDiagnosticSchema, n.diagnostic);
+    if (d) {
+      const omitted = (d.heldCount ?? d.alerts.length) - d.alerts.length;
+      detail = d.alerts.map(a => `${a.timestamp} ${a.severity} ${a.title}`).join('\n');
+      if (omitted > 0) detail += `\n… and ${omitted} older`;
+    }
+  } else if (n.reason === 'anomaly') {
+    const d = parseDiagnostic(anomalyDiagnosticSchema, n.diagnostic);
+    if (d) {
+      const phases = d.regressedPhases && d.regressedPhases.length > 0 ? `, regressed: ${d.regressedPhases.join(', ')}` : '';
+      const detector = d.detector?.detector ? ` [${d.detector.detector} detector]` : '';
+      detail = `latency ${Math.round(d.latency.value)} ms (z=${d.latency.z.toFixed(2)}), error rate z=${(d.error_rate?.z ?? 0).toFixed(2)}${phases}${detector}`;
+    }
+  }
+  if (detail === null) return null;
+  return detail.length > MAX_DETAIL_CHARS ? `${detail.slice(0, MAX_DETAIL_CHARS)}\n…` : detail;
+}
@@ -0,0 +1,246 @@
+import { randomUUID } from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+
+export type SmtpOptions = {
+  host: string;
+  port: number;
+  // implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it
+  secure: boolean;
+  startTls?: boolean;
+  username?: string;
+  password?: string;
+  timeoutMs: number;
+};
+
+export type MailMessage = {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+};
+
+type Reply = { code: number; lines: string[] };
+
+export class SmtpError extends Error {
+  constructor(message: string, readonly code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+// Reads multi-line SMTP replies ("250-..." continuation lines, "250 ..." final line) off a socket
+class SmtpSession {
+  private socket!: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: Reply[] = [];
+  private waiting: { resolve: (reply: Reply) => void; reject: (err: Error) => void } | null = null;
+  private failure: Error | null = null;
+  private readonly failureWatchers = new Set<(err: Error) => void>();
+  private readonly onData = (chunk: Buffer) => this.receive(chunk.toString('utf8'));
+  private readonly onError = (err: Error) => this.fail(err);
+  private readonly onClose = () => this.fail(new SmtpError('connection closed by server'));
+
+  constructor(socket: net.Socket, private readonly timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  // The error listener is never removed: a socket emitting 'error' without one crashes the
+  // process, and the raw socket under STARTTLS or a closed one can still emit late errors
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setTimeout(this.timeoutMs, () => {
+      this.fail(new SmtpError(`SMTP timed out after ${this.timeoutMs}ms`));
+      socket.destroy();
+    });
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  private detach(): void {
+    this.socket.setTimeout(0);
+    this.socket.off('data', this.onData);
+    this.socket.off('close', this.onClose);
+  }
+
+  private receive(text: string): void {
+    this.buffer += text;
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+      this.lines.push(line);
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.push({ code: Number(line.slice(0, 3)), lines: this.lines.map(l => l.slice(4)) });
+        this.lines = [];
+      }
+    }
+  }
+
+  private push(reply: Reply): void {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(err: Error): void {
+    if (this.failure) return;
+    this.failure = err;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(err);
+    }
+    for (const watcher of this.failureWatchers) watcher(err);
+    this.failureWatchers.clear();
+  }
+
+  read(): Promise<Reply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  async expect(expected: number[], step: string): Promise<Reply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`${step} rejected: ${reply.code} ${reply.lines.join(' ')}`.trim(), reply.code);
+    }
+    return reply;
+  }
+
+  // `step` names the command in errors so credentials never end up in logs
+  async command(line: string, expected: number[], step = line.split(' ')[0]): Promise<Reply> {
+    if (this.failure) throw this.failure;
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, step);
+  }
+
+  // The TLS socket is attached before the handshake, so its errors, close and timeout fail the session
+  async upgrade(servername: string): Promise<void> {
+    this.detach();
+    const secure = tls.connect({ socket: this.socket, servername });
+    this.attach(secure);
+    await new Promise<void>((resolve, reject) => {
+      if (this.failure) return reject(this.failure);
+      this.failureWatchers.add(reject);
+      secure.once('secureConnect', () => {
+        this.failureWatchers.delete(reject);
+        resolve();
+      });
+    });
+  }
+
+  close(): void {
+    this.detach();
+    this.socket.destroy();
+  }
+}
+
+function extensions(reply: Reply): string[] {
+  return reply.lines.map(line => line.toUpperCase());
+}
+
+function supports(reply: Reply, extension: string): boolean {
+  return extensions(reply).some(line => line === extension || line.startsWith(`${extension} `));
+}
+
+// "Ops Team <ops@example.com>" -> "ops@example.com"
+export function mailboxAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+const ADDRESS_PATTERN = /^[^\s@<>()",;:\\[\]]+@[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?)+$/;
+
+/**
+ * "ops@example.com" or "Ops Team <ops@example.com>". Mailboxes go into MAIL FROM / RCPT TO and
+ * the From / To headers verbatim, so anything that could end a line is refused.
+ */
+export function isMailbox(value: string): boolean {
+  if (/[\r\n]/.test(value)) return false;
+  const named = value.match(/^([^<>]*)<([^<>]+)>$/);
+  return ADDRESS_PATTERN.test((named ? named[2] : value).trim());
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+export function buildMessage(message: MailMessage, hostname = os.hostname()): string {
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64');
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${hostname}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64'
+  ];
+  // base64 lines never start with "." so no dot-stuffing is needed
+  return [...headers, '', ...(body.match(/.{1,76}/g) ?? [])].join('\r\n');
+}
+
+/**
+ * Minimal SMTP submission client: EHLO, optional STARTTLS, AUTH PLAIN/LOGIN, one message.
+ * Works against real relays and local sinks such as MailHog or smtp4dev.
+ * Resolves with the reply code the server accepted the message with.
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<number> {
+  const invalid = [message.from, ...message.to].find(address => !isMailbox(address));
+  if (invalid !== undefined) throw new Error(`invalid mailbox ${JSON.stringify(invalid)}`);
+
+  const socket = options.secure
+    ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+    : net.connect({ host: options.host, port: options.port });
+  const session = new SmtpSession(socket, options.timeoutMs);
+  const hostname = os.hostname();
+
+  try {
+    await session.expect([220], 'greeting');
+    let ehlo = await session.command(`EHLO ${hostname}`, [250]);
+
+    if (!options.secure && options.startTls !== false && supports(ehlo, 'STARTTLS')) {
+      await session.command('STARTTLS', [220]);
+      await session.upgrade(options.host);
+      ehlo = await session.command(`EHLO ${hostname}`, [250]);
+    }
+
+    if (options.username) {
+      const user = options.username;
+      const password = options.password ?? '';
+      const authLine = extensions(ehlo).find(line => line.startsWith('AUTH')) ?? '';
+      if (/\bPLAIN\b/.test(authLine) || !/\bLOGIN\b/.test(authLine)) {
+        const token = Buffer.from(`\0${user}\0${password}`, 'utf8').toString('base64');
+        await session.command(`AUTH PLAIN ${token}`, [235], 'AUTH PLAIN');
+      } else {
+        await session.command('AUTH LOGIN', [334]);
+        await session.command(Buffer.from(user, 'utf8').toString('base64'), [334], 'AUTH LOGIN username');
+        await session.command(Buffer.from(password, 'utf8').toString('base64'), [235], 'AUTH LOGIN password');
+      }
+    }
+
+    await session.command(`MAIL FROM:<${mailboxAddress(message.from)}>`, [250], 'MAIL FROM');
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${mailboxAddress(recipient)}>`, [250, 251], 'RCPT TO');
+    }
+    await session.command('DATA', [354]);
+    const accepted = await session.command(`${buildMessage(message, hostname)}\r\n.`, [250], 'message');
+    await session.command('QUIT', [221]).catch(() => undefined);
+    return accepted.code;
+  } finally {
+    session.close();
+  }
+}
@@ -0,0 +1,33 @@
+import type { Channel } from '../channels';
+
+export type AlertSeverity = 'NORMAL' | 'WARNING' | 'CRITICAL';
+
+// Channel-agnostic description of one alert; each sender formats it for its transport
+export type Notification = {
+  monitorId: string;
+  monitorName: string | null;
+  monitorUrl: string | null;
+  severity: AlertSeverity;
+  kind: 'alert' | 'recovery';
+  // monitor_down, tls_expiry, content_changed, anomaly, flapping, slo_burn, recovered, digest, status_page, test
+  reason: string;
+  // groups a trigger with its later resolve on incident-style channels
+  dedupKey: string;
+  title: string;
+  timestamp: string;
+  incidentId: string | null;
+  failureDurationSeconds: number | null;
+  avgLatency: number | null;
+  diagnostic: unknown;
+  // repeats of this alert held back by the cooldown since the previous one went out
+  suppressedCount?: number;
+};
+
+// HTTP status for webhook-style channels, the final SMTP reply code for email
+export type DeliveryResult = { statusCode: number | null };
+
+export interface ChannelSender {
+  send(channel: Channel, notification: Notification): Promise<DeliveryResult>;
+}
+
+export const NOTIFY_TIMEOUT_MS = 10_000;
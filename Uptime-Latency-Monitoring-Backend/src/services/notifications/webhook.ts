@@ -0,0 +1,116 @@
+import axios from 'axios';
+import http from 'http';
+import https from 'https';
+import { isIP } from 'net';
+import { isPrivateAddress, publicOnlyLookup } from '../../utils/net';
+import type { Channel } from '../channels';
+import { notificationDetail, notificationFacts } from './message';
+import { NOTIFY_TIMEOUT_MS, type ChannelSender, type DeliveryResult, type Notification } from './types';
+
+const COLORS = { CRITICAL: '#d93025', WARNING: '#f9ab00', RECOVERED: '#1e8e3e' } as const;
+
+function color(n: Notification): string {
+  if (n.kind === 'recovery' || n.severity === 'NORMAL') return COLORS.RECOVERED;
+  return COLORS[n.severity];
+}
+
+// Same JSON body the webhook alerts always had, plus the reason/title fields
+export function formatWebhook(n: Notification) {
+  return {
+    monitorId: n.monitorId,
+    monitorUrl: n.monitorUrl,
+    failureDurationSeconds: n.failureDurationSeconds,
+    avgLatency: n.avgLatency,
+    severity: n.severity,
+    timestamp: n.timestamp,
+    incidentId: n.incidentId,
+    kind: n.kind,
+    reason: n.reason,
+    title: n.title,
+    diagnostic: n.diagnostic
+  };
+}
+
+export function formatSlack(n: Notification) {
+  const detail = notificationDetail(n);
+  return {
+    text: n.title,
+    attachments: [
+      {
+        color: color(n),
+        title: n.title,
+        text: detail ? `\`\`\`\n${detail}\n\`\`\`` : undefined,
+        fields: notificationFacts(n).map(f => ({ title: f.label, value: f.value, short: f.value.length < 40 })),
+        ts: Math.floor(Date.parse(n.timestamp) / 1000)
+      }
+    ]
+  };
+}
+
+export function formatDiscord(n: Notification) {
+  const detail = notificationDetail(n);
+  return {
+    embeds: [
+      {
+        title: n.title,
+        description: detail ? `\`\`\`\n${detail}\n\`\`\`` : undefined,
+        color: parseInt(color(n).slice(1), 16),
+        fields: notificationFacts(n).map(f => ({ name: f.label, value: f.value, inline: f.value.length < 40 })),
+        timestamp: n.timestamp
+      }
+    ]
+  };
+}
+
+// Office 365 connector MessageCard, accepted by Teams incoming webhooks
+export function formatTeams(n: Notification) {
+  const detail = notificationDetail(n);
+  return {
+    '@type': 'MessageCard',
+    '@context': 'https://schema.org/extensions',
+    themeColor: color(n).slice(1),
+    summary: n.title,
+    title: n.title,
+    sections: [
+      {
+        facts: notificationFacts(n).map(f => ({ name: f.label, value: f.value })),
+        ...(detail ? { text: `<pre>${detail.replace(/</g, '&lt;')}</pre>` } : {})
+      }
+    ]
+  };
+}
+
+// Connections that resolve hostnames through publicOnlyLookup; redirects aren't followed, they could lead anywhere
+const publicOnlyOptions = {
+  httpAgent: new http.Agent({ lookup: publicOnlyLookup }),
+  httpsAgent: new https.Agent({ lookup: publicOnlyLookup }),
+  maxRedirects: 0
+};
+
+function assertPublicTarget(url: string): void {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if ((isIP(host) && isPrivateAddress(host)) || host === 'localhost' || host.endsWith('.localhost')) {
+    throw new Error(`webhook target ${host} is a private address`);
+  }
+}
+
+function postTo(format: (n: Notification) => unknown): ChannelSender {
+  return {
+    async send(channel: Channel, n: Notification): Promise<DeliveryResult> {
+      const webhook = channel.webhook;
+      if (!webhook) throw new Error(`channel ${channel.id} has no webhook settings`);
+      if (webhook.publicOnly) assertPublicTarget(webhook.url);
+      const response = await axios.post(webhook.url, format(n), {
+        headers: { 'Content-Type': 'application/json', ...(webhook.headers ?? {}) },
+        timeout: NOTIFY_TIMEOUT_MS,
+        ...(webhook.publicOnly ? publicOnlyOptions : {})
+      });
+      return { statusCode: response.status };
+    }
+  };
+}
+
+export const webhookSender = postTo(formatWebhook);
+export const slackSender = postTo(formatSlack);
+export const discordSender = postTo(formatDiscord);
+export const teamsSender = postTo(formatTeams);
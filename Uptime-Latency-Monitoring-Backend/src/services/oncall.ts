@@ -0,0 +1,139 @@
+import { randomUUID } from 'crypto';
+import type { InternalStateManager } from 'motia';
+import { z } from 'zod';
+
+const isoTimestamp = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'expected an ISO timestamp');
+
+// Someone who can be on call; alerts reach them through one of the notification channels
+export const participantSchema = z.object({
+  name: z.string().min(1),
+  channelId: z.string().min(1)
+});
+
+export const overrideInputSchema = z
+  .object({
+    participant: participantSchema,
+    from: isoTimestamp,
+    to: isoTimestamp
+  })
+  .refine(o => Date.parse(o.to) > Date.parse(o.from), { message: 'to must be after from', path: ['to'] });
+
+export const rotationInputSchema = z.object({
+  name: z.string().min(1),
+  type: z.enum(['daily', 'weekly']),
+  // first handoff; later handoffs happen every day/week at the same UTC time
+  startsAt: isoTimestamp,
+  participants: z.array(participantSchema).min(1)
+});
+
+export const overrideSchema = z.object({
+  id: z.string(),
+  participant: participantSchema,
+  from: z.string(),
+  to: z.string(),
+  createdAt: z.string()
+});
+
+export const rotationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.enum(['daily', 'weekly']),
+  startsAt: z.string(),
+  participants: z.array(participantSchema),
+  overrides: z.array(overrideSchema),
+  createdAt: z.string()
+});
+
+export const onCallSchema = z.object({
+  participant: participantSchema,
+  source: z.enum(['rotation', 'override']),
+  until: z.string()
+});
+
+export type Participant = z.infer<typeof participantSchema>;
+export type RotationInput = z.infer<typeof rotationInputSchema>;
+export type OverrideInput = z.infer<typeof overrideInputSchema>;
+export type Rotation = z.infer<typeof rotationSchema>;
+export type OnCall = z.infer<typeof onCallSchema>;
+
+const ROTATIONS_GROUP = 'oncall-rotations';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function shiftMs(rotation: Rotation): number {
+  return rotation.type === 'weekly' ? 7 * DAY_MS : DAY_MS;
+}
+
+export function buildRotation(id: string, data: RotationInput): Rotation {
+  return {
+    id,
+    name: data.name,
+    type: data.type,
+    startsAt: new Date(data.startsAt).toISOString(),
+    participants: data.participants,
+    overrides: [],
+    createdAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Who is on call at `at`: the most recently created override covering that instant,
+ * otherwise the participant whose shift it is. Shifts are counted in UTC, so a handoff
+ * stays at the same UTC time across DST changes.
+ */
+export function onCallAt(rotation: Rotation, at: number): OnCall {
+  const overrides = rotation.overrides
+    .filter(o => Date.parse(o.from) <= at && at < Date.parse(o.to))
+    .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+  if (overrides.length > 0) {
+    return { participant: overrides[0].participant, source: 'override', until: overrides[0].to };
+  }
+
+  const start = Date.parse(rotation.startsAt);
+  const shift = shiftMs(rotation);
+  const index = Math.floor((at - start) / shift);
+  const count = rotation.participants.length;
+  const participant = rotation.participants[((index % count) + count) % count];
+  return { participant, source: 'rotation', until: new Date(start + (index + 1) * shift).toISOString() };
+}
+
+export async function getRotation(state: InternalStateManager, rotationId: string): Promise<Rotation | null> {
+  return (await state.get<Rotation>(ROTATIONS_GROUP, rotationId)) ?? null;
+}
+
+export async function listRotations(state: InternalStateManager): Promise<Rotation[]> {
+  const rotations = (await state.getGroup<Rotation>(ROTATIONS_GROUP)) || [];
+  return rotations.filter(r => !!r?.id).sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+}
+
+export async function saveRotation(state: InternalStateManager, rotation: Rotation): Promise<void> {
+  await state.set(ROTATIONS_GROUP, rotation.id, rotation);
+}
+
+export async function deleteRotation(state: InternalStateManager, rotationId: string): Promise<void> {
+  await state.delete(ROTATIONS_GROUP, rotationId);
+}
+
+// Expired overrides are dropped whenever a new one is added so the list doesn't grow forever
+export async function addOverride(state: InternalStateManager, rotation: Rotation, data: OverrideInput): Promise<Rotation> {
+  const now = Date.now();
+  const override = {
+    id: randomUUID(),
+    participant: data.participant,
+    from: new Date(data.from).toISOString(),
+    to: new Date(data.to).toISOString(),
+    createdAt: new Date(now).toISOString()
+  };
+  const updated: Rotation = {
+    ...rotation,
+    overrides: [...rotation.overrides.filter(o => Date.parse(o.to) > now), override]
+  };
+  await saveRotation(state, updated);
+  return updated;
+}
+
+export async function removeOverride(state: InternalStateManager, rotation: Rotation, overrideId: string): Promise<Rotation | null> {
+  if (!rotation.overrides.some(o => o.id === overrideId)) return null;
+  const updated: Rotation = { ...rotation, overrides: rotation.overrides.filter(o => o.id !== overrideId) };
+  await saveRotation(state, updated);
+  return updated;
+}
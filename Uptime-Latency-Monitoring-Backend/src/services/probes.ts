@@ -0,0 +1,286 @@
+import type { InternalStateManager } from 'motia';
+import { z } from 'zod';
+import type { MonitorConfig } from './monitors';
+import type { CheckResult } from './checks/types';
+import { sameSecret } from './auth';
+
+/**
+ * Probe workers (see src/probe/worker.ts) run checks from other processes or hosts.
+ * While at least one probe matching a monitor's `regions` is alive, each due check becomes
+ * a round: one job per probe, pulled through POST /probes/claim and answered through
+ * POST /probes/results. PingMonitor evaluates the round once every probe has answered or
+ * its deadline passes. With no live probes the backend runs the check itself, as before.
+ */
+export const checkResultSchema = z.object({
+  latency: z.number(),
+  statusCode: z.number(),
+  success: z.boolean(),
+  timings: z.any().optional(),
+  responseSize: z.number().optional(),
+  failedAssertion: z.any().optional(),
+  certificate: z.any().optional(),
+  content: z.string().optional()
+});
+
+const probeIdentitySchema = {
+  probeId: z.string().min(1).max(100),
+  region: z.string().min(1).max(100)
+};
+
+export const probeClaimSchema = z.object({
+  ...probeIdentitySchema,
+  max: z.number().int().min(1).max(100).optional()
+});
+
+export const probeResultsSchema = z.object({
+  ...probeIdentitySchema,
+  results: z.array(z.object({ jobId: z.string().min(1), result: checkResultSchema })).max(100)
+});
+
+export const probeSchema = z.object({
+  id: z.string(),
+  region: z.string(),
+  firstSeenAt: z.string(),
+  lastSeenAt: z.string(),
+  active: z.boolean()
+});
+
+export type Probe = Omit<z.infer<typeof probeSchema>, 'active'>;
+
+// One probe's answer within a round; stored samples keep these (minus bodies) per check
+export type ProbeResult = CheckResult & { probeId: string; region: string };
+
+export type ProbeSample = {
+  probeId: string;
+  region: string;
+  latency: number;
+  statusCode: number;
+  success: boolean;
+  failedAssertion?: CheckResult['failedAssertion'];
+};
+
+export type CheckRound = {
+  id: string;
+  monitorId: string;
+  probeIds: string[];
+  createdAt: string;
+  deadline: string;
+};
+
+export type ProbeJob = {
+  id: string; // `${roundId}:${probeId}`
+  roundId: string;
+  monitorId: string;
+  probeId: string;
+  status: 'pending' | 'claimed' | 'done';
+  createdAt: string;
+  claimedAt?: string;
+  result?: ProbeResult;
+};
+
+const PROBES_GROUP = 'probes';
+const ROUNDS_GROUP = 'check-rounds';
+const JOBS_GROUP = 'probe-jobs';
+
+const DEFAULT_PROBE_STALE_SECONDS = 30;
+// Time a probe gets on top of the monitor's own timeout to pick up and report a job
+const ROUND_GRACE_MS = 10 * 1000;
+// Probes not heard from for this long are forgotten
+const PROBE_FORGET_MS = 24 * 60 * 60 * 1000;
+
+// The backend's own check when no probe is running
+export const LOCAL_PROBE_ID = 'local';
+
+export function localRegion(): string {
+  return process.env.LOCAL_PROBE_REGION || 'local';
+}
+
+function probeStaleMs(): number {
+  const seconds = Number(process.env.PROBE_STALE_SECONDS);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_PROBE_STALE_SECONDS) * 1000;
+}
+
+// Probes send PROBE_TOKEN in the x-probe-token header; without one configured no probe gets in that way
+export function probeAuthorized(headers: Record<string, string | string[] | undefined> | undefined): boolean {
+  const token = process.env.PROBE_TOKEN;
+  const value = headers?.['x-probe-token'];
+  const sent = Array.isArray(value) ? value[0] : value;
+  return !!token && !!sent && sameSecret(sent, token);
+}
+
+export function probeActiveAt(probe: Probe, now: number): boolean {
+  return now - Date.parse(probe.lastSeenAt) < probeStaleMs();
+}
+
+// Every claim and result report counts as a heartbeat
+export async function touchProbe(state: InternalStateManager, probeId: string, region: string, now = Date.now()): Promise<Probe> {
+  const existing = await state.get<Probe>(PROBES_GROUP, probeId);
+  const probe: Probe = {
+    id: probeId,
+    region,
+    firstSeenAt: existing?.firstSeenAt ?? new Date(now).toISOString(),
+    lastSeenAt: new Date(now).toISOString()
+  };
+  await state.set(PROBES_GROUP, probeId, probe);
+  return probe;
+}
+
+export async function listProbes(state: InternalStateManager): Promise<Probe[]> {
+  const probes = (await state.getGroup<Probe>(PROBES_GROUP)) || [];
+  return probes.filter(p => !!p?.id).sort((a, b) => a.region.localeCompare(b.region) || a.id.localeCompare(b.id));
+}
+
+// Live probes that should check this monitor; an empty `regions` list means all of them
+export async function probesForMonitor(
+  state: InternalStateManager,
+  monitor: Pick<MonitorConfig, 'regions'>,
+  now = Date.now()
+): Promise<Probe[]> {
+  const regions = monitor.regions ?? [];
+  return (await listProbes(state)).filter(p => probeActiveAt(p, now) && (regions.length === 0 || regions.includes(p.region)));
+}
+
+export async function forgetStaleProbes(state: InternalStateManager, now = Date.now()): Promise<number> {
+  let removed = 0;
+  for (const probe of await listProbes(state)) {
+    if (now - Date.parse(probe.lastSeenAt) >= PROBE_FORGET_MS) {
+      await state.delete(PROBES_GROUP, probe.id);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+export async function dispatchRound(
+  state: InternalStateManager,
+  monitor: MonitorConfig,
+  probes: Probe[],
+  roundId: string,
+  now = Date.now()
+): Promise<CheckRound> {
+  const round: CheckRound = {
+    id: roundId,
+    monitorId: monitor.id,
+    probeIds: probes.map(p => p.id),
+    createdAt: new Date(now).toISOString(),
+    deadline: new Date(now + monitor.timeoutMs + ROUND_GRACE_MS).toISOString()
+  };
+  await state.set(ROUNDS_GROUP, round.id, round);
+  for (const probe of probes) {
+    const job: ProbeJob = {
+      id: `${round.id}:${probe.id}`,
+      roundId: round.id,
+      monitorId: monitor.id,
+      probeId: probe.id,
+      status: 'pending',
+      createdAt: round.createdAt
+    };
+    await state.set(JOBS_GROUP, job.id, job);
+  }
+  return round;
+}
+
+// Hands out up to `max` of the probe's pending jobs, oldest first
+export async function claimJobs(state: InternalStateManager, probeId: string, max: number, now = Date.now()): Promise<ProbeJob[]> {
+  const jobs = ((await state.getGroup<ProbeJob>(JOBS_GROUP)) || [])
+    .filter(j => j?.probeId === probeId && j.status === 'pending')
+    .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt))
+    .slice(0, max);
+
+  const claimed: ProbeJob[] = [];
+  for (const job of jobs) {
+    const updated: ProbeJob = { ...job, status: 'claimed', claimedAt: new Date(now).toISOString() };
+    await state.set(JOBS_GROUP, job.id, updated);
+    claimed.push(updated);
+  }
+  return claimed;
+}
+
+/**
+ * Stores one probe's answer. Returns 'unknown' for jobs that don't exist or belong to
+ * another probe (e.g. the round already closed), otherwise whether every probe in the
+ * round has now answered.
+ */
+export async function recordJobResult(
+  state: InternalStateManager,
+  probe: Pick<Probe, 'id' | 'region'>,
+  jobId: string,
+  result: CheckResult
+): Promise<{ round: CheckRound; complete: boolean } | 'unknown'> {
+  const job = await state.get<ProbeJob>(JOBS_GROUP, jobId);
+  if (!job || job.probeId !== probe.id || job.status === 'done') return 'unknown';
+  const round = await state.get<CheckRound>(ROUNDS_GROUP, job.roundId);
+  if (!round) return 'unknown';
+
+  await state.set<ProbeJob>(JOBS_GROUP, jobId, { ...job, status: 'done', result: { ...result, probeId: probe.id, region: probe.region } });
+
+  for (const probeId of round.probeIds) {
+    const other = await state.get<ProbeJob>(JOBS_GROUP, `${round.id}:${probeId}`);
+    if (other?.status !== 'done') return { round, complete: false };
+  }
+  return { round, complete: true };
+}
+
+// Rounds whose deadline passed without every probe answering
+export async function overdueRounds(state: InternalStateManager, now = Date.now()): Promise<CheckRound[]> {
+  const rounds = (await state.getGroup<CheckRound>(ROUNDS_GROUP)) || [];
+  return rounds.filter(r => !!r?.id && Date.parse(r.deadline) <= now);
+}
+
+/**
+ * Removes a round and its jobs and returns the answers that came in. Returns null when the
+ * round was already closed, so a round completed and timed out at once is evaluated once.
+ */
+export async function closeRound(state: InternalStateManager, roundId: string): Promise<{ round: CheckRound; results: ProbeResult[] } | null> {
+  const round = await state.get<CheckRound>(ROUNDS_GROUP, roundId);
+  if (!round) return null;
+  await state.delete(ROUNDS_GROUP, roundId);
+
+  const results: ProbeResult[] = [];
+  for (const probeId of round.probeIds) {
+    const jobId = `${round.id}:${probeId}`;
+    const job = await state.get<ProbeJob>(JOBS_GROUP, jobId);
+    if (job?.result) results.push(job.result);
+    await state.delete(JOBS_GROUP, jobId);
+  }
+  return { round, results };
+}
+
+// Failing probes needed to count a round as failed: the monitor's `quorum`, else a majority
+export function quorumFor(monitor: Pick<MonitorConfig, 'quorum'>, responders: number): number {
+  const quorum = monitor.quorum ?? Math.floor(responders / 2) + 1;
+  return Math.max(1, Math.min(quorum, responders));
+}
+
+/**
+ * Folds the probes' answers into one check result. The round fails when at least `quorum`
+ * probes failed; the reported result is then a failing probe's (for its failed assertion),
+ * otherwise the successful probe with the median latency.
+ */
+export function summarizeRound(
+  monitor: Pick<MonitorConfig, 'quorum'>,
+  results: ProbeResult[]
+): { success: boolean; result: ProbeResult; failing: ProbeResult[]; quorum: number; probes: ProbeSample[] } {
+  const failing = results.filter(r => !r.success);
+  const quorum = quorumFor(monitor, results.length);
+  const success = failing.length < quorum;
+
+  const passing = results.filter(r => r.success).sort((a, b) => a.latency - b.latency);
+  const result = success ? passing[Math.floor((passing.length - 1) / 2)] : failing[0];
+
+  const probes = results.map(r => ({
+    probeId: r.probeId,
+    region: r.region,
+    latency: r.latency,
+    statusCode: r.statusCode,
+    success: r.success,
+    ...(r.failedAssertion ? { failedAssertion: r.failedAssertion } : {})
+  }));
+
+  return { success, result, failing, quorum, probes };
+}
+
+export async function deleteProbeRounds(state: InternalStateManager, monitorId: string): Promise<void> {
+  const rounds = ((await state.getGroup<CheckRound>(ROUNDS_GROUP)) || []).filter(r => r?.monitorId === monitorId);
+  for (const round of rounds) await closeRound(state, round.id);
+}
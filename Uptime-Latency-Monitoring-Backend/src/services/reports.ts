@@ -0,0 +1,275 @@
+import type { InternalStateManager } from 'motia';
+import { queryMetrics, type MetricSample } from './metrics-store';
+import { buildRollups, queryRollups, type Resolution, type Rollup } from './rollups';
+import { rolledUpUntil } from './retention';
+import { LOCAL_PROBE_ID, localRegion } from './probes';
+import { summarizeLatencies, type LatencySummary } from '../utils/stats';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const REPORT_WINDOWS = { '24h': DAY_MS, '7d': 7 * DAY_MS, '30d': 30 * DAY_MS } as const;
+export type ReportWindow = keyof typeof REPORT_WINDOWS;
+
+export type SeriesResolution = 'raw' | Resolution;
+
+/**
+ * Uptime as a percentage of successful checks. This is the single definition used by
+ * the SSE stream and the uptime report, so both always agree.
+ */
+export function uptimePercent(count: number, successCount: number): number | null {
+  return count > 0 ? (successCount / count) * 100 : null;
+}
+
+// Samples taken during a maintenance window don't count either way
+export function samplesUptimePercent(samples: Pick<MetricSample, 'success' | 'maintenance'>[]): number | null {
+  const counted = samples.filter(s => !s.maintenance);
+  return uptimePercent(counted.length, counted.filter(s => s.success === true).length);
+}
+
+export type RegionBreakdown = {
+  region: string;
+  probes: string[];
+  checks: number;
+  successfulChecks: number;
+  uptimePercent: number | null;
+  latency: LatencySummary | null;
+  latest: { timestamp: string; latency: number | null; success: boolean } | null;
+};
+
+/**
+ * Per-region view of raw samples: every probe answer counts in its probe's region, and
+ * checks the backend ran itself count under LOCAL_PROBE_REGION. Unlike the sample-level
+ * verdict, a region's uptime includes failures that didn't reach the quorum.
+ */
+export function regionBreakdown(samples: MetricSample[]): RegionBreakdown[] {
+  const regions = new Map<string, { probes: Set<string>; answers: { timestamp: string; latency?: number; success: boolean }[] }>();
+
+  for (const sample of samples) {
+    if (sample.maintenance) continue;
+    const answers = sample.probes ?? [
+      { probeId: LOCAL_PROBE_ID, region: localRegion(), latency: sample.latency, success: sample.success === true }
+    ];
+    for (const answer of answers) {
+      const entry = regions.get(answer.region) ?? { probes: new Set<string>(), answers: [] };
+      entry.probes.add(answer.probeId);
+      entry.answers.push({ timestamp: sample.timestamp, latency: answer.latency, success: answer.success });
+      regions.set(answer.region, entry);
+    }
+  }
+
+  return [...regions.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([region, { probes, answers }]) => {
+      const successfulChecks = answers.filter(a => a.success).length;
+      const last = answers[answers.length - 1];
+      return {
+        region,
+        probes: [...probes].sort(),
+        checks: answers.length,
+        successfulChecks,
+        uptimePercent: uptimePercent(answers.length, successfulChecks),
+        latency: summarizeLatencies(answers.flatMap(a => (typeof a.latency === 'number' ? [a.latency] : []))),
+        latest: last ? { timestamp: last.timestamp, latency: last.latency ?? null, success: last.success } : null
+      };
+    });
+}
+
+// Picks a resolution that keeps a response to at most a few thousand points
+export function autoResolution(from: number, to: number): SeriesResolution {
+  const span = to - from;
+  if (span <= 6 * HOUR_MS) return 'raw';
+  if (span <= 3 * DAY_MS) return '1m';
+  if (span <= 120 * DAY_MS) return '1h';
+  return '1d';
+}
+
+/**
+ * Time series for one monitor. Rollup resolutions also include buckets that the
+ * retention cron hasn't rolled up yet, built on the fly from raw samples.
+ */
+export async function loadSeries(
+  state: InternalStateManager,
+  monitorId: string,
+  resolution: SeriesResolution,
+  from: number,
+  to: number
+): Promise<MetricSample[] | Rollup[]> {
+  if (resolution === 'raw') {
+    return queryMetrics(state, monitorId, { from, to });
+  }
+
+  const watermark = await rolledUpUntil(state, monitorId, resolution);
+  const stored = watermark > from ? await queryRollups(state, monitorId, resolution, { from, to: Math.min(to, watermark - 1) }) : [];
+  if (watermark > to) return stored;
+
+  const fresh = await queryMetrics(state, monitorId, { from: Math.max(from, watermark), to });
+  return [...stored, ...buildRollups(monitorId, resolution, fresh)];
+}
+
+// One contiguous slice of history: a raw sample or a rollup bucket
+export type Unit = {
+  start: number;
+  count: number;
+  successCount: number;
+  latencies?: number[]; // raw samples only
+  latency?: LatencySummary | null; // rollups only
+};
+
+function ceilHour(ts: number): number {
+  return Math.ceil(ts / HOUR_MS) * HOUR_MS;
+}
+
+/**
+ * History in [from, to] at the finest resolution still stored: raw samples where
+ * they are retained, then 1m rollups, then 1h rollups. Cut points between sources are
+ * hour-aligned so no period is counted twice; each source is queried from an hour
+ * before `from` to tell "retained since before the window" from "trimmed inside it".
+ */
+export async function loadUnits(state: InternalStateManager, monitorId: string, from: number, to: number): Promise<Unit[]> {
+  const raw = await queryMetrics(state, monitorId, { from: from - HOUR_MS, to });
+  const rawFirst = raw.length > 0 ? Date.parse(raw[0].timestamp) : null;
+
+  const olderMinutes =
+    rawFirst === null || rawFirst >= from
+      ? await queryRollups(state, monitorId, '1m', { from: from - HOUR_MS, to: (rawFirst ?? to + 1) - 1 })
+      : [];
+  const olderHours =
+    rawFirst === null || rawFirst >= from
+      ? await queryRollups(state, monitorId, '1h', { from: from - HOUR_MS, to: (rawFirst ?? to + 1) - 1 })
+      : [];
+
+  // Raw samples are authoritative from rawCut on; if nothing older exists they cover everything
+  let rawCut: number;
+  if (rawFirst === null) rawCut = to + 1;
+  else if (rawFirst < from || (olderMinutes.length === 0 && olderHours.length === 0)) rawCut = from;
+  else rawCut = ceilHour(rawFirst);
+
+  const minuteFirst = olderMinutes.length > 0 ? Date.parse(olderMinutes[0].timestamp) : null;
+  let minuteCut: number;
+  if (minuteFirst === null) minuteCut = rawCut;
+  else if (minuteFirst < from || olderHours.length === 0) minuteCut = from;
+  else minuteCut = Math.min(rawCut, ceilHour(minuteFirst));
+
+  const inRange = (ts: number, lo: number, hi: number) => ts >= Math.max(lo, from) && ts < hi;
+
+  const hourUnits = olderHours.filter(r => inRange(Date.parse(r.timestamp), from, minuteCut)).map(rollupUnit);
+  const minuteUnits = olderMinutes.filter(r => inRange(Date.parse(r.timestamp), minuteCut, rawCut)).map(rollupUnit);
+  const rawUnits = raw
+    .filter(s => !s.maintenance && inRange(Date.parse(s.timestamp), rawCut, to + 1))
+    .map(s => ({
+      start: Date.parse(s.timestamp),
+      count: 1,
+      successCount: s.success === true ? 1 : 0,
+      latencies: typeof s.latency === 'number' ? [s.latency] : []
+    }));
+
+  return [...hourUnits, ...minuteUnits, ...rawUnits];
+}
+
+function rollupUnit(r: Rollup): Unit {
+  return { start: Date.parse(r.timestamp), count: r.count, successCount: r.successCount, latency: r.latency };
+}
+
+export type UptimeReport = {
+  monitorId: string;
+  window: ReportWindow;
+  from: string;
+  to: string;
+  checks: number;
+  successfulChecks: number;
+  uptimePercent: number | null;
+  incidents: number;
+  downtimeSeconds: number;
+  mttrSeconds: number | null;
+  mtbfSeconds: number | null;
+  latency: (LatencySummary & { approximate: boolean }) | null;
+  // from raw samples only, so for long windows this covers the retained raw period starting at regionsFrom
+  regions: RegionBreakdown[];
+  regionsFrom: string | null;
+};
+
+/**
+ * Uptime report over a trailing window. An incident is a run of consecutive fully
+ * failed units (failed checks, or rollup buckets in which every check failed); it lasts
+ * until the next unit with a success, or until the end of the window if still ongoing.
+ */
+export async function buildUptimeReport(
+  state: InternalStateManager,
+  monitorId: string,
+  window: ReportWindow,
+  now: number = Date.now()
+): Promise<UptimeReport> {
+  const from = now - REPORT_WINDOWS[window];
+  const units = await loadUnits(state, monitorId, from, now);
+
+  const checks = units.reduce((s, u) => s + u.count, 0);
+  const successfulChecks = units.reduce((s, u) => s + u.successCount, 0);
+
+  let incidents = 0;
+  let downtimeMs = 0;
+  let downSince: number | null = null;
+  for (const u of units) {
+    const down = u.count > 0 && u.successCount === 0;
+    if (down && downSince === null) {
+      downSince = u.start;
+      incidents++;
+    } else if (!down && downSince !== null) {
+      downtimeMs += u.start - downSince;
+      downSince = null;
+    }
+  }
+  if (downSince !== null) downtimeMs += now - downSince;
+
+  // Observed period starts at the first data point, not at the window start
+  const observedMs = units.length > 0 ? now - units[0].start : 0;
+
+  const raw = await queryMetrics(state, monitorId, { from, to: now });
+
+  return {
+    monitorId,
+    window,
+    from: new Date(from).toISOString(),
+    to: new Date(now).toISOString(),
+    checks,
+    successfulChecks,
+    uptimePercent: uptimePercent(checks, successfulChecks),
+    incidents,
+    downtimeSeconds: Math.round(downtimeMs / 1000),
+    mttrSeconds: incidents > 0 ? Math.round(downtimeMs / incidents / 1000) : null,
+    mtbfSeconds: incidents > 0 ? Math.round((observedMs - downtimeMs) / incidents / 1000) : null,
+    latency: combineLatency(units),
+    regions: regionBreakdown(raw),
+    regionsFrom: raw.length > 0 ? raw[0].timestamp : null
+  };
+}
+
+// Exact percentiles when only raw samples are involved, count-weighted bucket percentiles otherwise
+function combineLatency(units: Unit[]): (LatencySummary & { approximate: boolean }) | null {
+  const rawLatencies = units.flatMap(u => u.latencies ?? []);
+  const buckets = units.filter(u => u.latency);
+  if (buckets.length === 0) {
+    const exact = summarizeLatencies(rawLatencies);
+    return exact ? { ...exact, approximate: false } : null;
+  }
+
+  const weighted: { weight: number; summary: LatencySummary }[] = buckets.map(u => ({
+    weight: u.count,
+    summary: u.latency as LatencySummary
+  }));
+  const rawSummary = summarizeLatencies(rawLatencies);
+  if (rawSummary) weighted.push({ weight: rawLatencies.length, summary: rawSummary });
+
+  const totalWeight = weighted.reduce((s, w) => s + w.weight, 0);
+  const avgOf = (key: keyof LatencySummary) => weighted.reduce((s, w) => s + w.summary[key] * w.weight, 0) / totalWeight;
+
+  return {
+    min: Math.min(...weighted.map(w => w.summary.min)),
+    avg: avgOf('avg'),
+    max: Math.max(...weighted.map(w => w.summary.max)),
+    p50: avgOf('p50'),
+    p95: avgOf('p95'),
+    p99: avgOf('p99'),
+    approximate: true
+  };
+}
@@ -0,0 +1,103 @@
+import type { InternalStateManager } from 'motia';
+import { oldestMetricSegment, queryMetrics, trimMetrics } from './metrics-store';
+import {
+  appendRollups,
+  bucketStart,
+  buildRollups,
+  RESOLUTIONS,
+  trimRollups,
+  type Resolution
+} from './rollups';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Rollups are built from raw samples, so raw data must outlive a whole daily bucket
+const MIN_RAW_RETENTION_HOURS = 25;
+
+// Samples stamped right before a bucket closes may still be in flight; wait this long
+const ROLLUP_GRACE_MS = 30 * 1000;
+
+export type RetentionConfig = {
+  rawMs: number;
+  rollupMs: Record<Resolution, number>;
+};
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function retentionConfig(): RetentionConfig {
+  return {
+    rawMs: Math.max(MIN_RAW_RETENTION_HOURS, envNumber('METRICS_RAW_RETENTION_HOURS', 48)) * HOUR_MS,
+    rollupMs: {
+      '1m': envNumber('METRICS_1M_RETENTION_DAYS', 7) * DAY_MS,
+      '1h': envNumber('METRICS_1H_RETENTION_DAYS', 90) * DAY_MS,
+      '1d': envNumber('METRICS_1D_RETENTION_DAYS', 730) * DAY_MS
+    }
+  };
+}
+
+// End of the last bucket rolled up per resolution, stored in `rollup-watermarks`
+type Watermarks = Partial<Record<Resolution, number>>;
+
+export type RetentionResult = {
+  monitorId: string;
+  rolledUp: Record<Resolution, number>;
+  trimmedRaw: number;
+  trimmedRollups: Record<Resolution, number>;
+};
+
+/**
+ * Rolls up every completed bucket since the last run, then trims raw samples and
+ * rollups that are past their retention window.
+ */
+export async function runRetention(
+  state: InternalStateManager,
+  monitorId: string,
+  config: RetentionConfig,
+  now: number = Date.now()
+): Promise<RetentionResult> {
+  const watermarks = (await state.get<Watermarks>('rollup-watermarks', monitorId)) ?? {};
+  const oldestRaw = await oldestMetricSegment(state, monitorId);
+  const result: RetentionResult = {
+    monitorId,
+    rolledUp: { '1m': 0, '1h': 0, '1d': 0 },
+    trimmedRaw: 0,
+    trimmedRollups: { '1m': 0, '1h': 0, '1d': 0 }
+  };
+
+  for (const resolution of RESOLUTIONS) {
+    const from = watermarks[resolution] ?? (oldestRaw !== null ? bucketStart(oldestRaw, resolution) : null);
+    if (from === null) continue;
+
+    const to = bucketStart(now - ROLLUP_GRACE_MS, resolution);
+    if (to <= from) continue;
+
+    const samples = await queryMetrics(state, monitorId, { from, to: to - 1 });
+    const rollups = buildRollups(monitorId, resolution, samples);
+    await appendRollups(state, monitorId, resolution, rollups);
+    watermarks[resolution] = to;
+    result.rolledUp[resolution] = rollups.length;
+  }
+
+  await state.set<Watermarks>('rollup-watermarks', monitorId, watermarks);
+
+  // Never trim raw samples that haven't been folded into every resolution yet
+  const rolledUpTo = Math.min(...RESOLUTIONS.map(r => watermarks[r] ?? 0));
+  result.trimmedRaw = await trimMetrics(state, monitorId, Math.min(now - config.rawMs, rolledUpTo));
+
+  for (const resolution of RESOLUTIONS) {
+    const cutoff = bucketStart(now - config.rollupMs[resolution], resolution);
+    result.trimmedRollups[resolution] = await trimRollups(state, monitorId, resolution, cutoff);
+  }
+
+  return result;
+}
+
+// End of the last bucket already rolled up for a resolution (0 when none yet)
+export async function rolledUpUntil(state: InternalStateManager, monitorId: string, resolution: Resolution): Promise<number> {
+  const watermarks = (await state.get<Watermarks>('rollup-watermarks', monitorId)) ?? {};
+  return watermarks[resolution] ?? 0;
+}
@@ -0,0 +1,121 @@
+import type { InternalStateManager } from 'motia';
+import type { MetricSample } from './metrics-store';
+import {
+  appendItems,
+  deleteSeries,
+  queryItems,
+  trimItems,
+  type SeriesSpec,
+  type TimeRange
+} from './segmented-series';
+import { summarizeLatencies, type LatencySummary } from '../utils/stats';
+
+export type Resolution = '1m' | '1h' | '1d';
+
+export const RESOLUTIONS: Resolution[] = ['1m', '1h', '1d'];
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export const RESOLUTION_MS: Record<Resolution, number> = {
+  '1m': MINUTE_MS,
+  '1h': HOUR_MS,
+  '1d': DAY_MS
+};
+
+// Aggregate of all samples in [timestamp, timestamp + resolution)
+export type Rollup = {
+  monitorId: string;
+  resolution: Resolution;
+  timestamp: string; // bucket start, ISO string
+  count: number;
+  successCount: number;
+  latency: LatencySummary | null;
+};
+
+// Segment sizes keep every stored segment at roughly a few hundred to ~1500 rollups
+const specs: Record<Resolution, SeriesSpec> = {
+  '1m': { segmentGroup: 'rollup-segments', indexGroup: 'rollup-segment-index', segmentMs: DAY_MS },
+  '1h': { segmentGroup: 'rollup-segments', indexGroup: 'rollup-segment-index', segmentMs: 30 * DAY_MS },
+  '1d': { segmentGroup: 'rollup-segments', indexGroup: 'rollup-segment-index', segmentMs: 366 * DAY_MS }
+};
+
+function seriesId(monitorId: string, resolution: Resolution): string {
+  return `${monitorId}:${resolution}`;
+}
+
+export function bucketStart(ts: number, resolution: Resolution): number {
+  const size = RESOLUTION_MS[resolution];
+  return Math.floor(ts / size) * size;
+}
+
+/**
+ * Groups raw samples into buckets of the given resolution. Empty buckets produce no rollup;
+ * samples taken during maintenance are left out, so rollups only describe counted checks.
+ */
+export function buildRollups(monitorId: string, resolution: Resolution, samples: MetricSample[]): Rollup[] {
+  const buckets = new Map<number, MetricSample[]>();
+  for (const s of samples) {
+    if (s.maintenance) continue;
+    const t = Date.parse(s.timestamp);
+    if (Number.isNaN(t)) continue;
+    const key = bucketStart(t, resolution);
+    const list = buckets.get(key) ?? [];
+    list.push(s);
+    buckets.set(key, list);
+  }
+
+  return Array.from(buckets.keys())
+    .sort((a, b) => a - b)
+    .map(start => {
+      const list = buckets.get(start) ?? [];
+      const latencies = list.map(s => s.latency).filter((n): n is number => typeof n === 'number' && !Number.isNaN(n));
+      return {
+        monitorId,
+        resolution,
+        timestamp: new Date(start).toISOString(),
+        count: list.length,
+        successCount: list.filter(s => s.success === true).length,
+        latency: summarizeLatencies(latencies)
+      };
+    });
+}
+
+export async function appendRollups(
+  state: InternalStateManager,
+  monitorId: string,
+  resolution: Resolution,
+  rollups: Rollup[]
+): Promise<void> {
+  if (rollups.length === 0) return;
+  await appendItems(state, specs[resolution], seriesId(monitorId, resolution), rollups);
+}
+
+/**
+ * Rollups for one monitor whose bucket start is within the range, oldest first.
+ */
+export async function queryRollups(
+  state: InternalStateManager,
+  monitorId: string,
+  resolution: Resolution,
+  range: TimeRange = {}
+): Promise<Rollup[]> {
+  return queryItems<Rollup>(state, specs[resolution], seriesId(monitorId, resolution), range);
+}
+
+export async function trimRollups(
+  state: InternalStateManager,
+  monitorId: string,
+  resolution: Resolution,
+  before: number
+): Promise<number> {
+  return trimItems<Rollup>(state, specs[resolution], seriesId(monitorId, resolution), before);
+}
+
+export async function deleteRollups(state: InternalStateManager, monitorId: string): Promise<void> {
+  for (const resolution of RESOLUTIONS) {
+    await deleteSeries(state, specs[resolution], seriesId(monitorId, resolution));
+  }
+  await state.delete('rollup-watermarks', monitorId);
+}
@@ -0,0 +1,85 @@
+import type { InternalStateManager } from 'motia';
+
+// Stored in the `monitor-schedule` state group, keyed by monitor id
+export type MonitorSchedule = {
+  monitorId: string;
+  intervalSeconds: number;
+  nextDueAt: number; // epoch ms
+  lastRunAt?: number;
+};
+
+// Last due slot PingMonitor ran for, keyed by monitor id
+const PING_SLOTS_GROUP = 'monitor-ping-slots';
+
+// PingMonitorsCron's tick length; a due time between two ticks only fires on the next one
+export const TICK_SECONDS = 5;
+
+// Deterministic per-monitor offset inside its interval, in whole ticks, so monitors with the
+// same interval are spread over different cron ticks instead of all firing on the same one.
+export function phaseOffsetMs(monitorId: string, intervalSeconds: number): number {
+  let hash = 0;
+  for (let i = 0; i < monitorId.length; i++) {
+    hash = (hash * 31 + monitorId.charCodeAt(i)) >>> 0;
+  }
+  const ticks = Math.max(1, Math.floor(intervalSeconds / TICK_SECONDS));
+  return (hash % ticks) * TICK_SECONDS * 1000;
+}
+
+// First due time for a monitor that has no schedule yet (or whose interval changed)
+export function initialDueAt(monitorId: string, intervalSeconds: number, now: number): number {
+  const intervalMs = intervalSeconds * 1000;
+  const windowStart = Math.floor(now / intervalMs) * intervalMs;
+  const due = windowStart + phaseOffsetMs(monitorId, intervalSeconds);
+  return due >= now ? due : due + intervalMs;
+}
+
+// Next due time after a run. Keeps the monitor on its phase even if ticks were missed
+// (e.g. while paused or while the process was down) instead of firing a burst of catch-up checks.
+export function nextDueAt(schedule: MonitorSchedule, now: number): number {
+  const intervalMs = schedule.intervalSeconds * 1000;
+  const next = schedule.nextDueAt + intervalMs;
+  if (next > now) return next;
+  const missed = Math.floor((now - schedule.nextDueAt) / intervalMs) + 1;
+  return schedule.nextDueAt + missed * intervalMs;
+}
+
+/**
+ * Returns the due slot (its nextDueAt) when the monitor should be pinged on this tick and
+ * advances its schedule, null otherwise. Overlapping ticks can both see the same slot due,
+ * so PingMonitor runs each slot once through `recordPingSlot`.
+ */
+export async function claimIfDue(
+  state: InternalStateManager,
+  monitorId: string,
+  intervalSeconds: number,
+  now: number
+): Promise<number | null> {
+  const existing = await state.get<MonitorSchedule>('monitor-schedule', monitorId);
+
+  if (!existing || existing.intervalSeconds !== intervalSeconds) {
+    await state.set<MonitorSchedule>('monitor-schedule', monitorId, {
+      monitorId,
+      intervalSeconds,
+      nextDueAt: initialDueAt(monitorId, intervalSeconds, now),
+      lastRunAt: existing?.lastRunAt
+    });
+    return null;
+  }
+
+  if (existing.nextDueAt > now) return null;
+
+  await state.set<MonitorSchedule>('monitor-schedule', monitorId, {
+    ...existing,
+    nextDueAt: nextDueAt(existing, now),
+    lastRunAt: now
+  });
+  return existing.nextDueAt;
+}
+
+// False when this due slot (or a later one) was already run, e.g. emitted by two overlapping ticks
+export async function recordPingSlot(state: InternalStateManager, monitorId: string, dueAt: number): Promise<boolean> {
+  const last = await state.get<number>(PING_SLOTS_GROUP, monitorId);
+  if (typeof last === 'number' && last >= dueAt) return false;
+  await state.set(PING_SLOTS_GROUP, monitorId, dueAt);
+  return true;
+}
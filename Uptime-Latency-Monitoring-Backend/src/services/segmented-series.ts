@@ -0,0 +1,177 @@
+import type { InternalStateManager } from 'motia';
+
+/**
+ * Generic time-series storage on top of the state manager. Items of one series are
+ * stored in fixed time segments (`${seriesId}:${segmentStart}` in `segmentGroup`) with a
+ * per-series list of segment starts in `indexGroup`, so range reads and trims only touch
+ * the segments that overlap the requested range.
+ */
+export type SeriesSpec = {
+  segmentGroup: string;
+  indexGroup: string;
+  segmentMs: number;
+};
+
+export type TimedItem = { timestamp: string };
+
+export type TimeRange = { from?: number; to?: number };
+
+type Segment<T> = {
+  seriesId: string;
+  start: number;
+  items: T[];
+};
+
+type SegmentIndex = {
+  seriesId: string;
+  segments: number[]; // ascending segment starts
+};
+
+function segmentKey(seriesId: string, start: number): string {
+  return `${seriesId}:${start}`;
+}
+
+async function getIndex(state: InternalStateManager, spec: SeriesSpec, seriesId: string): Promise<SegmentIndex> {
+  const index = await state.get<SegmentIndex>(spec.indexGroup, seriesId);
+  return index ?? { seriesId, segments: [] };
+}
+
+export async function appendItems<T extends TimedItem>(
+  state: InternalStateManager,
+  spec: SeriesSpec,
+  seriesId: string,
+  items: T[]
+): Promise<void> {
+  const bySegment = new Map<number, T[]>();
+  for (const item of items) {
+    const ts = Date.parse(item.timestamp);
+    if (Number.isNaN(ts)) throw new Error(`invalid timestamp: ${item.timestamp}`);
+    const start = Math.floor(ts / spec.segmentMs) * spec.segmentMs;
+    const list = bySegment.get(start) ?? [];
+    list.push(item);
+    bySegment.set(start, list);
+  }
+
+  const index = await getIndex(state, spec, seriesId);
+  let indexChanged = false;
+
+  for (const [start, list] of bySegment) {
+    const key = segmentKey(seriesId, start);
+    const segment = (await state.get<Segment<T>>(spec.segmentGroup, key)) ?? { seriesId, start, items: [] };
+    const firstNew = segment.items.length;
+    segment.items.push(...list);
+    // Items normally arrive in order; keep the segment sorted if some didn't
+    const outOfOrder = segment.items.some(
+      (item, i) => i >= Math.max(1, firstNew) && Date.parse(segment.items[i - 1].timestamp) > Date.parse(item.timestamp)
+    );
+    if (outOfOrder) {
+      segment.items.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    }
+    await state.set<Segment<T>>(spec.segmentGroup, key, segment);
+
+    if (!index.segments.includes(start)) {
+      index.segments.push(start);
+      indexChanged = true;
+    }
+  }
+
+  if (indexChanged) {
+    index.segments.sort((a, b) => a - b);
+    await state.set<SegmentIndex>(spec.indexGroup, seriesId, index);
+  }
+}
+
+/**
+ * Items of one series with `from <= timestamp <= to`, oldest first.
+ */
+export async function queryItems<T extends TimedItem>(
+  state: InternalStateManager,
+  spec: SeriesSpec,
+  seriesId: string,
+  range: TimeRange = {}
+): Promise<T[]> {
+  const from = range.from ?? 0;
+  const to = range.to ?? Date.now();
+  const index = await getIndex(state, spec, seriesId);
+
+  const out: T[] = [];
+  for (const start of index.segments) {
+    if (start + spec.segmentMs <= from || start > to) continue;
+    const segment = await state.get<Segment<T>>(spec.segmentGroup, segmentKey(seriesId, start));
+    if (!segment) continue;
+    for (const item of segment.items) {
+      const t = Date.parse(item.timestamp);
+      if (!Number.isNaN(t) && t >= from && t <= to) out.push(item);
+    }
+  }
+  return out;
+}
+
+export async function latestItem<T extends TimedItem>(
+  state: InternalStateManager,
+  spec: SeriesSpec,
+  seriesId: string
+): Promise<T | null> {
+  const index = await getIndex(state, spec, seriesId);
+  for (let i = index.segments.length - 1; i >= 0; i--) {
+    const segment = await state.get<Segment<T>>(spec.segmentGroup, segmentKey(seriesId, index.segments[i]));
+    if (segment && segment.items.length > 0) return segment.items[segment.items.length - 1];
+  }
+  return null;
+}
+
+// Start of the oldest stored segment, or null for an empty series
+export async function firstSegmentStart(
+  state: InternalStateManager,
+  spec: SeriesSpec,
+  seriesId: string
+): Promise<number | null> {
+  const index = await getIndex(state, spec, seriesId);
+  return index.segments.length > 0 ? index.segments[0] : null;
+}
+
+/**
+ * Drops items older than `before` and returns how many were removed.
+ */
+export async function trimItems<T extends TimedItem>(
+  state: InternalStateManager,
+  spec: SeriesSpec,
+  seriesId: string,
+  before: number
+): Promise<number> {
+  const index = await getIndex(state, spec, seriesId);
+  const kept: number[] = [];
+  let removed = 0;
+
+  for (const start of index.segments) {
+    const key = segmentKey(seriesId, start);
+    if (start + spec.segmentMs <= before) {
+      const segment = await state.get<Segment<T>>(spec.segmentGroup, key);
+      removed += segment?.items.length ?? 0;
+      await state.delete(spec.segmentGroup, key);
+      continue;
+    }
+    if (start < before) {
+      const segment = await state.get<Segment<T>>(spec.segmentGroup, key);
+      if (segment) {
+        const items = segment.items.filter(i => Date.parse(i.timestamp) >= before);
+        removed += segment.items.length - items.length;
+        await state.set<Segment<T>>(spec.segmentGroup, key, { ...segment, items });
+      }
+    }
+    kept.push(start);
+  }
+
+  if (kept.length !== index.segments.length) {
+    await state.set<SegmentIndex>(spec.indexGroup, seriesId, { seriesId, segments: kept });
+  }
+  return removed;
+}
+
+export async function deleteSeries(state: InternalStateManager, spec: SeriesSpec, seriesId: string): Promise<void> {
+  const index = await getIndex(state, spec, seriesId);
+  for (const start of index.segments) {
+    await state.delete(spec.segmentGroup, segmentKey(seriesId, start));
+  }
+  await state.delete(spec.indexGroup, seriesId);
+}
@@ -0,0 +1,252 @@
+import type { InternalStateManager } from 'motia';
+import { z } from 'zod';
+import { loadUnits, type Unit } from './reports';
+import { fractionAtOrBelow } from '../utils/stats';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Multi-window burn-rate rule: fires when both windows burn budget at least `burnRate` times too fast
+export const burnRateRuleSchema = z
+  .object({
+    name: z.string().min(1),
+    longWindowMinutes: z.number().int().min(5).max(24 * 60),
+    shortWindowMinutes: z.number().int().min(1).max(24 * 60),
+    burnRate: z.number().positive(),
+    severity: z.enum(['WARNING', 'CRITICAL'])
+  })
+  .refine(r => r.shortWindowMinutes < r.longWindowMinutes, {
+    message: 'shortWindowMinutes must be below longWindowMinutes',
+    path: ['shortWindowMinutes']
+  });
+
+export const sloInputSchema = z
+  .object({
+    name: z.string().min(1),
+    monitorId: z.string().min(1),
+    // availability: successful checks are good; latency: successful checks at or under latencyThresholdMs are good
+    indicator: z.enum(['availability', 'latency']),
+    // percentage of good checks, e.g. 99.9
+    target: z.number().gt(0).lt(100),
+    latencyThresholdMs: z.number().int().positive().optional(),
+    windowDays: z.number().int().min(1).max(90).optional(),
+    burnRateRules: z.array(burnRateRuleSchema).max(5).optional()
+  })
+  .refine(s => s.indicator !== 'latency' || s.latencyThresholdMs !== undefined, {
+    message: 'latencyThresholdMs is required for latency SLOs',
+    path: ['latencyThresholdMs']
+  });
+
+export const sloSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  monitorId: z.string(),
+  indicator: z.enum(['availability', 'latency']),
+  target: z.number(),
+  latencyThresholdMs: z.number().nullable(),
+  windowDays: z.number(),
+  burnRateRules: z.array(
+    z.object({
+      name: z.string(),
+      longWindowMinutes: z.number(),
+      shortWindowMinutes: z.number(),
+      burnRate: z.number(),
+      severity: z.enum(['WARNING', 'CRITICAL'])
+    })
+  ),
+  createdAt: z.string()
+});
+
+export const burnRateStatusSchema = z.object({
+  rule: z.string(),
+  severity: z.enum(['WARNING', 'CRITICAL']),
+  threshold: z.number(),
+  longWindowBurnRate: z.number().nullable(),
+  shortWindowBurnRate: z.number().nullable(),
+  firing: z.boolean(),
+  firingSince: z.string().nullable()
+});
+
+export const sloStatusSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  validChecks: z.number(),
+  goodChecks: z.number(),
+  attainmentPercent: z.number().nullable(),
+  errorBudgetChecks: z.number(),
+  errorBudgetRemainingPercent: z.number().nullable(),
+  // latency SLOs read from rollups estimate good checks from the bucket percentiles
+  approximate: z.boolean(),
+  burnRates: z.array(burnRateStatusSchema)
+});
+
+export type SloInput = z.infer<typeof sloInputSchema>;
+export type Slo = z.infer<typeof sloSchema>;
+export type BurnRateRule = Slo['burnRateRules'][number];
+export type SloStatus = z.infer<typeof sloStatusSchema>;
+
+// Google SRE workbook defaults for a 30-day budget: page on fast burn, ticket on slow burn
+export const DEFAULT_BURN_RATE_RULES: BurnRateRule[] = [
+  { name: 'fast', longWindowMinutes: 60, shortWindowMinutes: 5, burnRate: 14.4, severity: 'CRITICAL' },
+  { name: 'slow', longWindowMinutes: 360, shortWindowMinutes: 30, burnRate: 6, severity: 'WARNING' }
+];
+
+const SLOS_GROUP = 'slos';
+// Firing burn-rate alerts, keyed `${sloId}:${ruleName}`
+const SLO_ALERTS_GROUP = 'slo-alerts';
+
+type SloAlert = { key: string; sloId: string; rule: string; since: string };
+
+export function buildSlo(id: string, data: SloInput): Slo {
+  return {
+    id,
+    name: data.name,
+    monitorId: data.monitorId,
+    indicator: data.indicator,
+    target: data.target,
+    latencyThresholdMs: data.latencyThresholdMs ?? null,
+    windowDays: data.windowDays ?? 30,
+    burnRateRules: data.burnRateRules ?? DEFAULT_BURN_RATE_RULES,
+    createdAt: new Date().toISOString()
+  };
+}
+
+export async function getSlo(state: InternalStateManager, sloId: string): Promise<Slo | null> {
+  return (await state.get<Slo>(SLOS_GROUP, sloId)) ?? null;
+}
+
+export async function listSlos(state: InternalStateManager, monitorId?: string): Promise<Slo[]> {
+  const slos = (await state.getGroup<Slo>(SLOS_GROUP)) || [];
+  return slos
+    .filter(s => !!s?.id && (!monitorId || s.monitorId === monitorId))
+    .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+}
+
+export async function saveSlo(state: InternalStateManager, slo: Slo): Promise<void> {
+  await state.set(SLOS_GROUP, slo.id, slo);
+}
+
+export async function deleteSlo(state: InternalStateManager, sloId: string): Promise<void> {
+  const slo = await getSlo(state, sloId);
+  for (const rule of slo?.burnRateRules ?? []) await state.delete(SLO_ALERTS_GROUP, `${sloId}:${rule.name}`);
+  await state.delete(SLOS_GROUP, sloId);
+}
+
+export async function deleteSlos(state: InternalStateManager, monitorId: string): Promise<void> {
+  for (const slo of await listSlos(state, monitorId)) await deleteSlo(state, slo.id);
+}
+
+type Counts = { valid: number; good: number; approximate: boolean };
+
+// Valid and good checks in a set of units for the SLO's indicator
+function countUnits(slo: Slo, units: Unit[]): Counts {
+  let valid = 0;
+  let good = 0;
+  let approximate = false;
+  for (const u of units) {
+    if (slo.indicator === 'availability') {
+      valid += u.count;
+      good += u.successCount;
+      continue;
+    }
+    // latency SLIs only judge checks that succeeded
+    const threshold = slo.latencyThresholdMs ?? Infinity;
+    valid += u.successCount;
+    if (u.latencies) {
+      good += u.successCount > 0 && u.latencies.every(l => l <= threshold) ? u.successCount : 0;
+    } else if (u.latency) {
+      good += u.successCount * fractionAtOrBelow(u.latency, threshold);
+      approximate = true;
+    }
+  }
+  return { valid, good, approximate };
+}
+
+// How many times faster than sustainable the budget burns; null without data
+function burnRate(slo: Slo, counts: Counts): number | null {
+  if (counts.valid === 0) return null;
+  const errorRate = (counts.valid - counts.good) / counts.valid;
+  return errorRate / (1 - slo.target / 100);
+}
+
+/**
+ * Burn rates for every rule, from the raw samples of the longest rule window. `firing`
+ * is true when both windows exceed the rule's threshold.
+ */
+export async function evaluateBurnRates(
+  state: InternalStateManager,
+  slo: Slo,
+  now = Date.now()
+): Promise<{ rule: BurnRateRule; long: number | null; short: number | null; firing: boolean }[]> {
+  const longest = Math.max(...slo.burnRateRules.map(r => r.longWindowMinutes), 0) * MINUTE_MS;
+  const units = longest > 0 ? await loadUnits(state, slo.monitorId, now - longest, now) : [];
+  const since = (minutes: number) => units.filter(u => u.start >= now - minutes * MINUTE_MS);
+
+  return slo.burnRateRules.map(rule => {
+    const long = burnRate(slo, countUnits(slo, since(rule.longWindowMinutes)));
+    const short = burnRate(slo, countUnits(slo, since(rule.shortWindowMinutes)));
+    const firing = long !== null && short !== null && long >= rule.burnRate && short >= rule.burnRate;
+    return { rule, long, short, firing };
+  });
+}
+
+/**
+ * Records whether a rule is firing. Returns 'started' or 'stopped' on a change so the
+ * caller alerts once per episode, null otherwise.
+ */
+export async function updateSloAlert(
+  state: InternalStateManager,
+  slo: Slo,
+  rule: BurnRateRule,
+  firing: boolean,
+  now = Date.now()
+): Promise<'started' | 'stopped' | null> {
+  const key = `${slo.id}:${rule.name}`;
+  const existing = await state.get<SloAlert>(SLO_ALERTS_GROUP, key);
+  if (firing && !existing) {
+    await state.set(SLO_ALERTS_GROUP, key, { key, sloId: slo.id, rule: rule.name, since: new Date(now).toISOString() });
+    return 'started';
+  }
+  if (!firing && existing) {
+    await state.delete(SLO_ALERTS_GROUP, key);
+    return 'stopped';
+  }
+  return null;
+}
+
+// Attainment and error budget over the SLO window, plus the current burn rates
+export async function buildSloStatus(state: InternalStateManager, slo: Slo, now = Date.now()): Promise<SloStatus> {
+  const from = now - slo.windowDays * DAY_MS;
+  const counts = countUnits(slo, await loadUnits(state, slo.monitorId, from, now));
+
+  // bad checks the target allows over the window
+  const budget = counts.valid * (1 - slo.target / 100);
+  const bad = counts.valid - counts.good;
+  const remaining = budget > 0 ? ((budget - bad) / budget) * 100 : counts.valid > 0 && bad === 0 ? 100 : null;
+
+  const burnRates = [];
+  for (const { rule, long, short, firing } of await evaluateBurnRates(state, slo, now)) {
+    const alert = await state.get<SloAlert>(SLO_ALERTS_GROUP, `${slo.id}:${rule.name}`);
+    burnRates.push({
+      rule: rule.name,
+      severity: rule.severity,
+      threshold: rule.burnRate,
+      longWindowBurnRate: long,
+      shortWindowBurnRate: short,
+      firing,
+      firingSince: alert?.since ?? null
+    });
+  }
+
+  return {
+    from: new Date(from).toISOString(),
+    to: new Date(now).toISOString(),
+    validChecks: counts.valid,
+    goodChecks: Math.round(counts.good),
+    attainmentPercent: counts.valid > 0 ? (counts.good / counts.valid) * 100 : null,
+    errorBudgetChecks: budget,
+    errorBudgetRemainingPercent: remaining,
+    approximate: counts.approximate,
+    burnRates
+  };
+}
@@ -0,0 +1,27 @@
+import type { InternalStateManager } from 'motia';
+
+/**
+ * Startup work (the legacy metrics migration, the monitors-as-code file) runs from plugins,
+ * after Motia has already scheduled the crons. Each task is listed in `startup-tasks` while it
+ * runs and PingMonitorsCron skips its ticks until the list is empty, so the first pings see
+ * the migrated metrics and the file's monitors.
+ */
+const STARTUP_TASKS_GROUP = 'startup-tasks';
+// a task listed this long belongs to a server that died mid-task; it no longer holds the scheduler
+const STALE_TASK_MS = 10 * 60 * 1000;
+
+type StartupTask = { name: string; startedAt: number };
+
+export async function runStartupTask<T>(state: InternalStateManager, name: string, task: () => Promise<T>): Promise<T> {
+  await state.set<StartupTask>(STARTUP_TASKS_GROUP, name, { name, startedAt: Date.now() });
+  try {
+    return await task();
+  } finally {
+    await state.delete(STARTUP_TASKS_GROUP, name);
+  }
+}
+
+export async function pendingStartupTasks(state: InternalStateManager, now = Date.now()): Promise<string[]> {
+  const tasks = (await state.getGroup<StartupTask>(STARTUP_TASKS_GROUP)) || [];
+  return tasks.filter(t => !!t?.name && now - t.startedAt < STALE_TASK_MS).map(t => t.name);
+}
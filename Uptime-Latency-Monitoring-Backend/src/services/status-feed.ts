@@ -0,0 +1,226 @@
+import { randomBytes } from 'crypto';
+import type { InternalStateManager, MotiaStream } from 'motia';
+import { queryList } from '../utils/query';
+import { isValidSelectorTerm, matchesTagSelector } from '../utils/tags';
+import { latestMetric, queryMetrics, type MetricSample } from './metrics-store';
+import { getMonitorStatus, type MonitorStatus } from './monitor-state';
+import type { MonitorConfig } from './monitors';
+import { regionBreakdown, samplesUptimePercent, type RegionBreakdown } from './reports';
+
+/**
+ * The multiplexed live status feed. PingMonitor publishes every check result here; results
+ * that change nothing a dashboard shows are dropped, and latency-only changes go out at most
+ * once a minute per monitor. Published events get an id that sorts by publish time, are kept STATUS_FEED_RETENTION_MINUTES (default 60) for Last-Event-ID
+ * replay and are sent on the monitorStatus stream's `feed` group, which GET /status/stream
+ * and WebSocket subscribers listen to.
+ */
+export const STATUS_FEED_GROUP = 'feed';
+
+export type StatusPayload = {
+  monitorId: string;
+  name: string | null;
+  status: MonitorStatus;
+  timestamp: string;
+  latency?: number;
+  statusCode?: number;
+  success?: boolean;
+  timings?: MetricSample['timings'];
+  responseSize?: number;
+  failedAssertion?: MetricSample['failedAssertion'];
+  maintenance: boolean;
+  probes?: MetricSample['probes'];
+  regions: RegionBreakdown[];
+  // over the last UPTIME_WINDOW_MS
+  uptimePercent: number | null;
+};
+
+export type StatusEvent = { id: string; monitorId: string; tags: string[]; data: StatusPayload };
+
+// Empty lists select every monitor
+export type StatusFilter = { monitorIds: string[]; tags: string[] };
+
+const EVENTS_GROUP = 'status-feed';
+const LAST_GROUP = 'status-feed-last';
+
+const UPTIME_WINDOW_MS = 60 * 60 * 1000;
+const DEFAULT_RETENTION_MINUTES = 60;
+// Latency moves below this fraction of the last published value aren't worth a push
+const LATENCY_CHANGE_RATIO = 0.1;
+// ...and bigger ones are pushed at most this often when nothing else changed, so jitter can't flood the feed
+const LATENCY_PUSH_INTERVAL_MS = 60 * 1000;
+
+export function statusFeedRetentionMs(): number {
+  const minutes = Number(process.env.STATUS_FEED_RETENTION_MINUTES);
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_RETENTION_MINUTES) * 60 * 1000;
+}
+
+let lastEventTime = 0;
+let eventSeq = 0;
+
+/**
+ * Zero-padded publish time and a sequence number, so ids compare as strings in publish order
+ * even within a millisecond. Time and sequence only run forward within the process that
+ * publishes; the random suffix keeps ids from different step processes apart.
+ */
+function statusEventId(now: number): string {
+  if (now > lastEventTime) {
+    lastEventTime = now;
+    eventSeq = 0;
+  } else {
+    eventSeq++;
+  }
+  return `${String(lastEventTime).padStart(15, '0')}-${String(eventSeq).padStart(6, '0')}-${randomBytes(4).toString('hex')}`;
+}
+
+// Events published before sequence numbers have ids without the middle part
+function statusEventTime(id: string): number | null {
+  const time = Number(id.split('-')[0]);
+  return /^\d+(-\d+)?-[0-9a-f]+$/.test(id) && Number.isFinite(time) ? time : null;
+}
+
+// ?ids=a,b and/or ?tag=team:payments&tag=env:prod; null when a tag term is invalid
+export function parseStatusFilter(params: Record<string, string | string[]> | undefined): StatusFilter | null {
+  const tags = queryList(params, 'tag');
+  if (!tags.every(isValidSelectorTerm)) return null;
+  return { monitorIds: queryList(params, 'ids'), tags };
+}
+
+export function matchesStatusFilter(event: Pick<StatusEvent, 'monitorId' | 'tags'>, filter: StatusFilter): boolean {
+  if (filter.monitorIds.length > 0 && !filter.monitorIds.includes(event.monitorId)) return false;
+  return filter.tags.length === 0 || matchesTagSelector(event.tags, filter.tags);
+}
+
+export async function buildStatusPayload(
+  state: InternalStateManager,
+  monitor: Pick<MonitorConfig, 'id' | 'name'>,
+  sample: MetricSample,
+  now = Date.now()
+): Promise<StatusPayload> {
+  const window = await queryMetrics(state, monitor.id, { from: now - UPTIME_WINDOW_MS, to: now });
+  return {
+    monitorId: monitor.id,
+    name: monitor.name,
+    status: await getMonitorStatus(state, monitor.id),
+    timestamp: sample.timestamp,
+    latency: sample.latency,
+    statusCode: sample.statusCode,
+    success: sample.success,
+    timings: sample.timings,
+    responseSize: sample.responseSize,
+    failedAssertion: sample.failedAssertion,
+    maintenance: sample.maintenance === true,
+    probes: sample.probes,
+    regions: regionBreakdown(window),
+    uptimePercent: samplesUptimePercent(window)
+  };
+}
+
+// What a pushed event must differ in from the previous one for the same monitor
+function changeKey(payload: StatusPayload): string {
+  return JSON.stringify([
+    payload.status,
+    payload.success ?? null,
+    payload.statusCode ?? null,
+    payload.maintenance,
+    payload.failedAssertion?.type ?? null,
+    payload.uptimePercent === null ? null : Math.round(payload.uptimePercent * 10) / 10
+  ]);
+}
+
+type LastPublished = { key: string; latency: number | null; at?: number };
+
+function changed(last: LastPublished | null, key: string, latency: number | undefined, now: number): boolean {
+  if (!last || last.key !== key) return true;
+  if (now - (last.at ?? 0) < LATENCY_PUSH_INTERVAL_MS) return false;
+  if (typeof latency !== 'number' || last.latency === null) return typeof latency === 'number' || last.latency !== null;
+  return Math.abs(latency - last.latency) > Math.max(1, last.latency * LATENCY_CHANGE_RATIO);
+}
+
+/**
+ * Publishes a check result to the feed unless it repeats what subscribers already have.
+ * Returns the event, or null when it was dropped.
+ */
+export async function publishStatusEvent(
+  state: InternalStateManager,
+  stream: Pick<MotiaStream<any>, 'send'> | undefined,
+  monitor: Pick<MonitorConfig, 'id' | 'name' | 'tags'>,
+  sample: MetricSample,
+  now = Date.now()
+): Promise<StatusEvent | null> {
+  const data = await buildStatusPayload(state, monitor, sample, now);
+  const key = changeKey(data);
+  const last = await state.get<LastPublished>(LAST_GROUP, monitor.id);
+  if (!changed(last, key, data.latency, now)) return null;
+
+  const event: StatusEvent = { id: statusEventId(now), monitorId: monitor.id, tags: monitor.tags ?? [], data };
+  await state.set(EVENTS_GROUP, event.id, event);
+  await state.set<LastPublished>(LAST_GROUP, monitor.id, { key, latency: data.latency ?? null, at: now });
+  await stream?.send({ groupId: STATUS_FEED_GROUP, id: event.id }, { type: 'status', data: event });
+  return event;
+}
+
+/**
+ * Retained events after `lastEventId` that match the filter, oldest first. Ids from different
+ * step processes can't be ordered within a millisecond, so every other event from that
+ * millisecond is sent again: a client may see one twice but never misses one. `complete` is
+ * false when that id is unknown or older than the retention, i.e. events may be missing and
+ * the client should start over from a snapshot.
+ */
+function isAfter(id: string, lastEventId: string, since: number | null): boolean {
+  if (id > lastEventId) return true;
+  return since !== null && statusEventTime(id) === since;
+}
+
+export async function statusEventsSince(
+  state: InternalStateManager,
+  lastEventId: string,
+  filter: StatusFilter,
+  now = Date.now()
+): Promise<{ events: StatusEvent[]; complete: boolean }> {
+  const since = statusEventTime(lastEventId);
+  const complete = since !== null && since > now - statusFeedRetentionMs();
+  const events = ((await state.getGroup<StatusEvent>(EVENTS_GROUP)) || [])
+    .filter(e => !!e?.id && e.id !== lastEventId && isAfter(e.id, lastEventId, since) && matchesStatusFilter(e, filter))
+    .sort((a, b) => (a.id < b.id ? -1 : 1));
+  return { events, complete };
+}
+
+// Current state of every matching monitor that has been checked, for clients starting fresh
+export async function statusSnapshot(
+  state: InternalStateManager,
+  monitors: MonitorConfig[],
+  filter: StatusFilter,
+  now = Date.now()
+): Promise<StatusPayload[]> {
+  const payloads: StatusPayload[] = [];
+  for (const monitor of monitors) {
+    if (!matchesStatusFilter({ monitorId: monitor.id, tags: monitor.tags }, filter)) continue;
+    const sample = await latestMetric(state, monitor.id);
+    if (sample) payloads.push(await buildStatusPayload(state, monitor, sample, now));
+  }
+  return payloads;
+}
+
+// The newest retained id; clients resume from here after taking a snapshot
+export async function latestStatusEventId(state: InternalStateManager): Promise<string | null> {
+  const ids = ((await state.getGroup<StatusEvent>(EVENTS_GROUP)) || []).filter(e => !!e?.id).map(e => e.id);
+  return ids.length > 0 ? ids.reduce((a, b) => (a > b ? a : b)) : null;
+}
+
+export async function pruneStatusEvents(state: InternalStateManager, now = Date.now()): Promise<number> {
+  const cutoff = now - statusFeedRetentionMs();
+  let removed = 0;
+  for (const event of (await state.getGroup<StatusEvent>(EVENTS_GROUP)) || []) {
+    if (!event?.id) continue;
+    const time = statusEventTime(event.id);
+    if (time === null || time < cutoff) {
+      await state.delete(EVENTS_GROUP, event.id);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+export async function deleteStatusFeedState(state: InternalStateManager, monitorId: string): Promise<void> {
+  await state.delete(LAST_GROUP, monitorId);
+}
@@ -0,0 +1,599 @@
+import { randomUUID } from 'crypto';
+import { promises as dns } from 'dns';
+import { isIP } from 'net';
+import type { InternalStateManager } from 'motia';
+import { z } from 'zod';
+import type { FeedItem } from '../utils/feeds';
+import { isPrivateAddress } from '../utils/net';
+import { isValidSelectorTerm, matchesTagSelector } from '../utils/tags';
+import { buildChannel, type Channel } from './channels';
+import { deleteDeliveries } from './deliveries';
+import { deleteMonitorCounters } from './monitor-counters';
+import { getMonitorStatus, type MonitorStatus } from './monitor-state';
+import { listMonitors, type MonitorConfig } from './monitors';
+import { statusPageDeliveryKey } from './notifications/message';
+import { loadSeries } from './reports';
+import type { Rollup } from './rollups';
+import { scopedName, unscopedName, workspaceOf } from './workspaces';
+
+const isoTimestamp = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'expected an ISO timestamp');
+
+// A component shows the combined status of the monitors it selects by id and/or tag selector
+export const componentInputSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    monitorIds: z.array(z.string().min(1)).optional(),
+    tags: z.array(z.string().refine(isValidSelectorTerm, 'invalid selector term')).optional()
+  })
+  .refine(c => (c.monitorIds?.length ?? 0) > 0 || (c.tags?.length ?? 0) > 0, {
+    message: 'set monitorIds and/or tags',
+    path: ['monitorIds']
+  });
+
+export const statusPageInputSchema = z.object({
+  // public address: /public/status/:slug
+  slug: z.string().regex(/^[a-z0-9][a-z0-9-]{0,62}$/, 'lowercase letters, digits and dashes'),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  components: z.array(componentInputSchema).min(1).max(50)
+});
+
+export const componentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  monitorIds: z.array(z.string()),
+  tags: z.array(z.string())
+});
+
+export const statusPageSchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  components: z.array(componentSchema),
+  createdAt: z.string()
+});
+
+export const incidentProgressSchema = z.enum(['investigating', 'identified', 'monitoring', 'resolved']);
+export const incidentImpactSchema = z.enum(['none', 'minor', 'major', 'critical']);
+
+// Posted by operators; unlike monitor incidents these are written for customers
+export const statusIncidentInputSchema = z.object({
+  title: z.string().min(1),
+  message: z.string().min(1),
+  status: incidentProgressSchema.optional(),
+  impact: incidentImpactSchema.optional(),
+  // affected components; empty means the whole page
+  componentIds: z.array(z.string().min(1)).optional()
+});
+
+export const statusIncidentUpdateInputSchema = z.object({
+  status: incidentProgressSchema,
+  message: z.string().min(1),
+  impact: incidentImpactSchema.optional()
+});
+
+export const statusIncidentSchema = z.object({
+  id: z.string(),
+  pageId: z.string(),
+  title: z.string(),
+  status: incidentProgressSchema,
+  impact: incidentImpactSchema,
+  componentIds: z.array(z.string()),
+  updates: z.array(z.object({ id: z.string(), status: incidentProgressSchema, message: z.string(), at: z.string() })),
+  createdAt: z.string(),
+  resolvedAt: z.string().nullable()
+});
+
+export const maintenanceNoticeInputSchema = z
+  .object({
+    title: z.string().min(1),
+    message: z.string().min(1),
+    componentIds: z.array(z.string().min(1)).optional(),
+    scheduledFor: isoTimestamp,
+    scheduledUntil: isoTimestamp
+  })
+  .refine(n => Date.parse(n.scheduledUntil) > Date.parse(n.scheduledFor), {
+    message: 'scheduledUntil must be after scheduledFor',
+    path: ['scheduledUntil']
+  });
+
+export const maintenanceNoticeSchema = z.object({
+  id: z.string(),
+  pageId: z.string(),
+  title: z.string(),
+  message: z.string(),
+  componentIds: z.array(z.string()),
+  scheduledFor: z.string(),
+  scheduledUntil: z.string(),
+  createdAt: z.string()
+});
+
+export const subscribeInputSchema = z
+  .object({
+    email: z.string().email().optional(),
+    webhookUrl: z.string().url().optional()
+  })
+  .refine(s => (s.email === undefined) !== (s.webhookUrl === undefined), 'set exactly one of email or webhookUrl');
+
+export const componentStatusSchema = z.enum(['operational', 'degraded_performance', 'partial_outage', 'major_outage', 'under_maintenance']);
+
+export type StatusPageInput = z.infer<typeof statusPageInputSchema>;
+export type StatusPage = z.infer<typeof statusPageSchema>;
+export type StatusComponent = z.infer<typeof componentSchema>;
+export type StatusIncidentInput = z.infer<typeof statusIncidentInputSchema>;
+export type StatusIncidentUpdateInput = z.infer<typeof statusIncidentUpdateInputSchema>;
+export type StatusIncident = z.infer<typeof statusIncidentSchema>;
+export type MaintenanceNoticeInput = z.infer<typeof maintenanceNoticeInputSchema>;
+export type MaintenanceNotice = z.infer<typeof maintenanceNoticeSchema>;
+export type ComponentStatus = z.infer<typeof componentStatusSchema>;
+
+/**
+ * Subscriptions are double opt-in: the confirm token (and the unsubscribe `token`) are only
+ * ever sent to the address or webhook itself, never returned to whoever signed it up.
+ */
+export type Subscriber = {
+  id: string;
+  pageId: string;
+  type: 'email' | 'webhook';
+  email: string | null;
+  webhookUrl: string | null;
+  token: string;
+  confirmToken?: string | null;
+  // null while pending; absent on subscriptions made before confirmation existed
+  confirmedAt?: string | null;
+  createdAt: string;
+};
+
+const PAGES_GROUP = 'status-pages';
+// slug -> page id (scoped by workspace); shared by all workspaces so slugs are unique across them
+const SLUGS_GROUP = 'status-page-slugs';
+const INCIDENTS_GROUP = 'status-page-incidents';
+const NOTICES_GROUP = 'status-page-notices';
+const SUBSCRIBERS_GROUP = 'status-page-subscribers';
+// Rendered public view per page, so visitor traffic doesn't recompute 90 days of bars every time
+const CACHE_GROUP = 'status-page-cache';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Unconfirmed subscriptions are dropped after this long
+const PENDING_SUBSCRIBER_TTL_MS = DAY_MS;
+const DEFAULT_MAX_SUBSCRIBERS = 1000;
+export const UPTIME_DAYS = 90;
+const CACHE_TTL_MS = 30 * 1000;
+// Resolved incidents and finished maintenance stay on the page this long
+const HISTORY_DAYS = 14;
+
+export function buildStatusPage(id: string, data: StatusPageInput): StatusPage {
+  return {
+    id,
+    slug: data.slug,
+    name: data.name,
+    description: data.description ?? null,
+    components: data.components.map(c => ({
+      id: randomUUID(),
+      name: c.name,
+      description: c.description ?? null,
+      monitorIds: c.monitorIds ?? [],
+      tags: c.tags ?? []
+    })),
+    createdAt: new Date().toISOString()
+  };
+}
+
+export async function getStatusPage(state: InternalStateManager, pageId: string): Promise<StatusPage | null> {
+  return (await state.get<StatusPage>(PAGES_GROUP, pageId)) ?? null;
+}
+
+export async function getStatusPageBySlug(state: InternalStateManager, slug: string): Promise<StatusPage | null> {
+  const owner = await state.get<string>(SLUGS_GROUP, slug);
+  if (!owner) return null;
+  const { workspaceId, name: pageId } = unscopedName(owner);
+  return workspaceId === workspaceOf(state) ? getStatusPage(state, pageId) : null;
+}
+
+// The workspace whose page has the slug, for the public routes that carry no key
+export async function statusPageWorkspace(state: InternalStateManager, slug: string): Promise<string | null> {
+  const owner = await state.get<string>(SLUGS_GROUP, slug);
+  return owner ? unscopedName(owner).workspaceId : null;
+}
+
+export async function listStatusPages(state: InternalStateManager): Promise<StatusPage[]> {
+  const pages = (await state.getGroup<StatusPage>(PAGES_GROUP)) || [];
+  return pages.filter(p => !!p?.id).sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+}
+
+// Returns false when another page, in any workspace, already uses the slug
+export async function saveStatusPage(state: InternalStateManager, page: StatusPage): Promise<boolean> {
+  const owner = await state.get<string>(SLUGS_GROUP, page.slug);
+  const scopedId = scopedName(workspaceOf(state), page.id);
+  if (owner && owner !== scopedId) return false;
+  await state.set(SLUGS_GROUP, page.slug, scopedId);
+  await state.set(PAGES_GROUP, page.id, page);
+  return true;
+}
+
+export async function deleteStatusPage(state: InternalStateManager, page: StatusPage): Promise<void> {
+  for (const incident of await listStatusIncidents(state, page.id)) await state.delete(INCIDENTS_GROUP, incident.id);
+  for (const notice of await listMaintenanceNotices(state, page.id)) await state.delete(NOTICES_GROUP, notice.id);
+  for (const subscriber of await listSubscribers(state, page.id)) await state.delete(SUBSCRIBERS_GROUP, subscriber.id);
+  await deleteDeliveries(state, statusPageDeliveryKey(page.id));
+  await deleteMonitorCounters(state, statusPageDeliveryKey(page.id));
+  await state.delete(CACHE_GROUP, page.id);
+  await state.delete(SLUGS_GROUP, page.slug);
+  await state.delete(PAGES_GROUP, page.id);
+}
+
+// Component ids from a request body that aren't on the page
+export function unknownComponents(page: StatusPage, componentIds: string[] | undefined): string[] {
+  return (componentIds ?? []).filter(id => !page.components.some(c => c.id === id));
+}
+
+export async function getStatusIncident(state: InternalStateManager, incidentId: string): Promise<StatusIncident | null> {
+  return (await state.get<StatusIncident>(INCIDENTS_GROUP, incidentId)) ?? null;
+}
+
+// Newest first
+export async function listStatusIncidents(state: InternalStateManager, pageId: string): Promise<StatusIncident[]> {
+  const incidents = (await state.getGroup<StatusIncident>(INCIDENTS_GROUP)) || [];
+  return incidents.filter(i => i?.pageId === pageId).sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+}
+
+export async function createStatusIncident(state: InternalStateManager, page: StatusPage, data: StatusIncidentInput): Promise<StatusIncident> {
+  const now = new Date().toISOString();
+  const status = data.status ?? 'investigating';
+  const incident: StatusIncident = {
+    id: randomUUID(),
+    pageId: page.id,
+    title: data.title,
+    status,
+    impact: data.impact ?? 'minor',
+    componentIds: data.componentIds ?? [],
+    updates: [{ id: randomUUID(), status, message: data.message, at: now }],
+    createdAt: now,
+    resolvedAt: status === 'resolved' ? now : null
+  };
+  await state.set(INCIDENTS_GROUP, incident.id, incident);
+  await state.delete(CACHE_GROUP, page.id);
+  return incident;
+}
+
+export async function addStatusIncidentUpdate(
+  state: InternalStateManager,
+  incident: StatusIncident,
+  data: StatusIncidentUpdateInput
+): Promise<StatusIncident> {
+  const now = new Date().toISOString();
+  const updated: StatusIncident = {
+    ...incident,
+    status: data.status,
+    impact: data.impact ?? incident.impact,
+    updates: [...incident.updates, { id: randomUUID(), status: data.status, message: data.message, at: now }],
+    resolvedAt: data.status === 'resolved' ? incident.resolvedAt ?? now : null
+  };
+  await state.set(INCIDENTS_GROUP, incident.id, updated);
+  await state.delete(CACHE_GROUP, incident.pageId);
+  return updated;
+}
+
+// Soonest first
+export async function listMaintenanceNotices(state: InternalStateManager, pageId: string): Promise<MaintenanceNotice[]> {
+  const notices = (await state.getGroup<MaintenanceNotice>(NOTICES_GROUP)) || [];
+  return notices.filter(n => n?.pageId === pageId).sort((a, b) => Date.parse(a.scheduledFor) - Date.parse(b.scheduledFor));
+}
+
+export async function getMaintenanceNotice(state: InternalStateManager, noticeId: string): Promise<MaintenanceNotice | null> {
+  return (await state.get<MaintenanceNotice>(NOTICES_GROUP, noticeId)) ?? null;
+}
+
+export async function createMaintenanceNotice(
+  state: InternalStateManager,
+  page: StatusPage,
+  data: MaintenanceNoticeInput
+): Promise<MaintenanceNotice> {
+  const notice: MaintenanceNotice = {
+    id: randomUUID(),
+    pageId: page.id,
+    title: data.title,
+    message: data.message,
+    componentIds: data.componentIds ?? [],
+    scheduledFor: new Date(data.scheduledFor).toISOString(),
+    scheduledUntil: new Date(data.scheduledUntil).toISOString(),
+    createdAt: new Date().toISOString()
+  };
+  await state.set(NOTICES_GROUP, notice.id, notice);
+  await state.delete(CACHE_GROUP, page.id);
+  return notice;
+}
+
+export function noticeState(notice: MaintenanceNotice, now: number): 'scheduled' | 'in_progress' | 'completed' {
+  if (now < Date.parse(notice.scheduledFor)) return 'scheduled';
+  return now < Date.parse(notice.scheduledUntil) ? 'in_progress' : 'completed';
+}
+
+export async function listSubscribers(state: InternalStateManager, pageId: string): Promise<Subscriber[]> {
+  const subscribers = (await state.getGroup<Subscriber>(SUBSCRIBERS_GROUP)) || [];
+  return subscribers.filter(s => s?.pageId === pageId);
+}
+
+export function isSubscriberConfirmed(subscriber: Subscriber): boolean {
+  return subscriber.confirmedAt !== null;
+}
+
+function maxSubscribersPerPage(): number {
+  const max = Number(process.env.STATUS_PAGE_MAX_SUBSCRIBERS);
+  return Number.isInteger(max) && max > 0 ? max : DEFAULT_MAX_SUBSCRIBERS;
+}
+
+function pendingExpired(subscriber: Subscriber, now: number): boolean {
+  return !isSubscriberConfirmed(subscriber) && now - Date.parse(subscriber.createdAt) > PENDING_SUBSCRIBER_TTL_MS;
+}
+
+// Webhook subscribers must point at the public internet, checked on every address the host resolves to
+export async function isPublicWebhookTarget(url: string): Promise<boolean> {
+  let host: string;
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return false;
+    host = parsed.hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    return false;
+  }
+  if (isIP(host)) return !isPrivateAddress(host);
+  if (host === 'localhost' || host.endsWith('.localhost')) return false;
+  try {
+    const addresses = await dns.lookup(host, { all: true });
+    return addresses.length > 0 && addresses.every(a => !isPrivateAddress(a.address));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Adds a pending subscription, or returns the existing one for the same address (without
+ * sending another confirmation). `created` tells the caller whether to send the confirmation;
+ * null means the page is at its subscriber limit.
+ */
+export async function addSubscriber(
+  state: InternalStateManager,
+  page: StatusPage,
+  data: z.infer<typeof subscribeInputSchema>,
+  now = Date.now()
+): Promise<{ subscriber: Subscriber; created: boolean } | null> {
+  const subscribers: Subscriber[] = [];
+  for (const subscriber of await listSubscribers(state, page.id)) {
+    if (pendingExpired(subscriber, now)) await state.delete(SUBSCRIBERS_GROUP, subscriber.id);
+    else subscribers.push(subscriber);
+  }
+
+  const existing = subscribers.find(
+    s => (data.email !== undefined && s.email === data.email) || (data.webhookUrl !== undefined && s.webhookUrl === data.webhookUrl)
+  );
+  if (existing) return { subscriber: existing, created: false };
+  if (subscribers.length >= maxSubscribersPerPage()) return null;
+
+  const subscriber: Subscriber = {
+    id: randomUUID(),
+    pageId: page.id,
+    type: data.email !== undefined ? 'email' : 'webhook',
+    email: data.email ?? null,
+    webhookUrl: data.webhookUrl ?? null,
+    token: randomUUID(),
+    confirmToken: randomUUID(),
+    confirmedAt: null,
+    createdAt: new Date(now).toISOString()
+  };
+  await state.set(SUBSCRIBERS_GROUP, subscriber.id, subscriber);
+  return { subscriber, created: true };
+}
+
+export async function confirmSubscriber(
+  state: InternalStateManager,
+  pageId: string,
+  confirmToken: string,
+  now = Date.now()
+): Promise<Subscriber | null> {
+  const subscriber = (await listSubscribers(state, pageId)).find(s => !!s.confirmToken && s.confirmToken === confirmToken);
+  if (!subscriber || pendingExpired(subscriber, now)) return null;
+  if (isSubscriberConfirmed(subscriber)) return subscriber;
+  const confirmed: Subscriber = { ...subscriber, confirmedAt: new Date(now).toISOString() };
+  await state.set(SUBSCRIBERS_GROUP, subscriber.id, confirmed);
+  return confirmed;
+}
+
+export async function removeSubscriber(state: InternalStateManager, pageId: string, token: string): Promise<boolean> {
+  const subscriber = (await listSubscribers(state, pageId)).find(s => s.token === token);
+  if (!subscriber) return false;
+  await state.delete(SUBSCRIBERS_GROUP, subscriber.id);
+  return true;
+}
+
+// Email subscriptions go out through the SMTP_* / EMAIL_FROM defaults used for legacy email alerts
+export function emailSubscriptionsAvailable(): boolean {
+  return !!process.env.SMTP_HOST && !!process.env.EMAIL_FROM;
+}
+
+/**
+ * A channel snapshot for one subscriber, delivered through the same retrying path as alerts.
+ * Never stored in `channels`, so it doesn't show up in the channel API.
+ */
+export function subscriberChannel(subscriber: Subscriber): Channel | null {
+  const id = `status-subscriber:${subscriber.id}`;
+  if (subscriber.type === 'webhook' && subscriber.webhookUrl) {
+    // literal private addresses, e.g. on subscriptions stored before targets were checked
+    const host = new URL(subscriber.webhookUrl).hostname.replace(/^\[|\]$/g, '');
+    if (isPrivateAddress(host) || host === 'localhost') return null;
+    // the hostname may be re-pointed after subscribing, so the sender checks it again on every delivery
+    return buildChannel(id, { name: 'status subscriber', type: 'webhook', webhook: { url: subscriber.webhookUrl, publicOnly: true } });
+  }
+  const host = process.env.SMTP_HOST;
+  const from = process.env.EMAIL_FROM;
+  if (subscriber.type !== 'email' || !subscriber.email || !host || !from) return null;
+  return buildChannel(id, {
+    name: 'status subscriber',
+    type: 'smtp',
+    smtp: {
+      host,
+      port: process.env.SMTP_PORT ? Number(process.env.SMTP_PORT) : undefined,
+      secure: process.env.SMTP_SECURE === 'true',
+      username: process.env.SMTP_USER || undefined,
+      password: process.env.SMTP_PASS || undefined,
+      from,
+      to: [subscriber.email]
+    }
+  });
+}
+
+// Links in feeds and notifications need to know where the page is served from
+export function publicPageUrl(slug: string): string | null {
+  const base = process.env.PUBLIC_BASE_URL;
+  return base ? `${base.replace(/\/+$/, '')}/public/status/${slug}` : null;
+}
+
+export function confirmSubscriptionUrl(slug: string, confirmToken: string): string | null {
+  const pageUrl = publicPageUrl(slug);
+  return pageUrl ? `${pageUrl}/subscribers/confirm/${confirmToken}` : null;
+}
+
+export function componentMonitors(component: StatusComponent, monitors: MonitorConfig[]): MonitorConfig[] {
+  return monitors.filter(
+    m => component.monitorIds.includes(m.id) || (component.tags.length > 0 && matchesTagSelector(m.tags, component.tags))
+  );
+}
+
+/**
+ * Customer-facing status from the monitors' states. Paused and not yet checked monitors
+ * don't count; a component with nothing left to go on shows as operational.
+ */
+export function componentStatus(statuses: MonitorStatus[], inMaintenance: boolean): ComponentStatus {
+  const counted = statuses.filter(s => s !== 'PAUSED' && s !== 'UNKNOWN');
+  const down = counted.filter(s => s === 'DOWN').length;
+  if (down > 0) return down === counted.length ? 'major_outage' : 'partial_outage';
+  if (inMaintenance || (counted.length > 0 && counted.every(s => s === 'MAINTENANCE'))) return 'under_maintenance';
+  if (counted.some(s => s === 'DEGRADED')) return 'degraded_performance';
+  return 'operational';
+}
+
+const STATUS_RANK: Record<ComponentStatus, number> = {
+  operational: 0,
+  under_maintenance: 1,
+  degraded_performance: 2,
+  partial_outage: 3,
+  major_outage: 4
+};
+
+export type UptimeDay = { date: string; uptimePercent: number | null };
+
+// One bar per UTC day, oldest first; days without counted checks have no value
+export function dailyUptime(rollups: Rollup[], now: number, days = UPTIME_DAYS): UptimeDay[] {
+  const totals = new Map<number, { count: number; success: number }>();
+  for (const r of rollups) {
+    const day = Math.floor(Date.parse(r.timestamp) / DAY_MS) * DAY_MS;
+    const total = totals.get(day) ?? { count: 0, success: 0 };
+    totals.set(day, { count: total.count + r.count, success: total.success + r.successCount });
+  }
+
+  const today = Math.floor(now / DAY_MS) * DAY_MS;
+  const bars: UptimeDay[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const day = today - i * DAY_MS;
+    const total = totals.get(day);
+    bars.push({
+      date: new Date(day).toISOString().slice(0, 10),
+      uptimePercent: total && total.count > 0 ? (total.success / total.count) * 100 : null
+    });
+  }
+  return bars;
+}
+
+export type PublicStatus = {
+  page: { name: string; slug: string; description: string | null; url: string | null };
+  status: ComponentStatus;
+  components: {
+    id: string;
+    name: string;
+    description: string | null;
+    status: ComponentStatus;
+    uptimePercent: number | null;
+    uptime: UptimeDay[];
+  }[];
+  incidents: StatusIncident[];
+  maintenance: (MaintenanceNotice & { state: 'scheduled' | 'in_progress' | 'completed' })[];
+  generatedAt: string;
+};
+
+async function renderPublicStatus(state: InternalStateManager, page: StatusPage, now: number): Promise<PublicStatus> {
+  const monitors = await listMonitors(state);
+  const from = Math.floor(now / DAY_MS) * DAY_MS - (UPTIME_DAYS - 1) * DAY_MS;
+
+  const notices = (await listMaintenanceNotices(state, page.id))
+    .map(n => ({ ...n, state: noticeState(n, now) }))
+    .filter(n => n.state !== 'completed' || now - Date.parse(n.scheduledUntil) < HISTORY_DAYS * DAY_MS);
+  const inMaintenance = (componentId: string) =>
+    notices.some(n => n.state === 'in_progress' && (n.componentIds.length === 0 || n.componentIds.includes(componentId)));
+
+  const components = [];
+  for (const component of page.components) {
+    const selected = componentMonitors(component, monitors);
+    const statuses: MonitorStatus[] = [];
+    const rollups: Rollup[] = [];
+    for (const monitor of selected) {
+      statuses.push(await getMonitorStatus(state, monitor.id));
+      rollups.push(...((await loadSeries(state, monitor.id, '1d', from, now)) as Rollup[]));
+    }
+    const count = rollups.reduce((s, r) => s + r.count, 0);
+    const success = rollups.reduce((s, r) => s + r.successCount, 0);
+    components.push({
+      id: component.id,
+      name: component.name,
+      description: component.description,
+      status: componentStatus(statuses, inMaintenance(component.id)),
+      uptimePercent: count > 0 ? (success / count) * 100 : null,
+      uptime: dailyUptime(rollups, now)
+    });
+  }
+
+  const incidents = (await listStatusIncidents(state, page.id)).filter(
+    i => i.status !== 'resolved' || now - Date.parse(i.resolvedAt ?? i.createdAt) < HISTORY_DAYS * DAY_MS
+  );
+
+  return {
+    page: { name: page.name, slug: page.slug, description: page.description, url: publicPageUrl(page.slug) },
+    status: components.reduce<ComponentStatus>((worst, c) => (STATUS_RANK[c.status] > STATUS_RANK[worst] ? c.status : worst), 'operational'),
+    components,
+    incidents,
+    maintenance: notices,
+    generatedAt: new Date(now).toISOString()
+  };
+}
+
+// Served from a short-lived cache; posting an incident or notice invalidates it right away
+export async function publicStatus(state: InternalStateManager, page: StatusPage, now = Date.now()): Promise<PublicStatus> {
+  const cached = await state.get<PublicStatus>(CACHE_GROUP, page.id);
+  if (cached && now - Date.parse(cached.generatedAt) < CACHE_TTL_MS) return cached;
+  const rendered = await renderPublicStatus(state, page, now);
+  await state.set(CACHE_GROUP, page.id, rendered);
+  return rendered;
+}
+
+// Every incident update and maintenance notice, newest first
+export async function feedEntries(state: InternalStateManager, page: StatusPage, limit = 50): Promise<FeedItem[]> {
+  const url = publicPageUrl(page.slug);
+  const entries: FeedItem[] = [];
+  for (const incident of await listStatusIncidents(state, page.id)) {
+    for (const update of incident.updates) {
+      entries.push({ id: `incident:${incident.id}:${update.id}`, title: `${incident.title} [${update.status}]`, content: update.message, updatedAt: update.at, url });
+    }
+  }
+  for (const notice of await listMaintenanceNotices(state, page.id)) {
+    entries.push({
+      id: `maintenance:${notice.id}`,
+      title: `Scheduled maintenance: ${notice.title} (${notice.scheduledFor} to ${notice.scheduledUntil})`,
+      content: notice.message,
+      updatedAt: notice.createdAt,
+      url
+    });
+  }
+  return entries.sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt)).slice(0, limit);
+}
@@ -0,0 +1,140 @@
+import type { FlowContext, InternalStateManager, MotiaStream } from 'motia';
+import { z } from 'zod';
+import { resourceIdSchema } from '../utils/ids';
+
+/**
+ * Workspaces (tenants) isolate monitors, metrics, incidents, channels and everything else
+ * stored for them. Isolation happens at the state layer: a workspace's steps see a state
+ * manager whose groups are prefixed with the workspace id, so services stay unaware of
+ * tenancy. The `default` workspace keeps the unprefixed groups, i.e. all data stored
+ * before workspaces existed.
+ */
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+export const workspaceInputSchema = z.object({
+  id: resourceIdSchema,
+  name: z.string().min(1)
+});
+
+export const workspaceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string()
+});
+
+export type WorkspaceInput = z.infer<typeof workspaceInputSchema>;
+export type Workspace = z.infer<typeof workspaceSchema>;
+
+const WORKSPACES_GROUP = 'workspaces';
+
+// Groups every workspace shares: tenancy bookkeeping, the probe fleet, public status page slugs and server startup
+const SHARED_GROUPS = new Set([WORKSPACES_GROUP, 'api-keys', 'probes', 'status-page-slugs', 'startup-tasks']);
+
+const WORKSPACE = Symbol.for('uptime-monitor.workspace');
+const ROOT_STATE = Symbol.for('uptime-monitor.root-state');
+
+// What workspaceContext needs of a step context; event steps' emit types vary with their topics
+type StepContext = Pick<FlowContext<any>, 'logger' | 'state' | 'streams'> & { emit: unknown };
+
+type ScopedState = InternalStateManager & { [WORKSPACE]?: string; [ROOT_STATE]?: InternalStateManager };
+
+// `name` as seen from outside the workspace: stream groups, job ids, slug owners
+export function scopedName(workspaceId: string, name: string): string {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? name : `${workspaceId}/${name}`;
+}
+
+export function unscopedName(scoped: string): { workspaceId: string; name: string } {
+  const i = scoped.indexOf('/');
+  return i > 0 ? { workspaceId: scoped.slice(0, i), name: scoped.slice(i + 1) } : { workspaceId: DEFAULT_WORKSPACE_ID, name: scoped };
+}
+
+export function workspaceOf(state: InternalStateManager): string {
+  return (state as ScopedState)[WORKSPACE] ?? DEFAULT_WORKSPACE_ID;
+}
+
+// The unprefixed state manager behind a workspace's one, for lookups across workspaces
+export function rootState(state: InternalStateManager): InternalStateManager {
+  return (state as ScopedState)[ROOT_STATE] ?? state;
+}
+
+export function workspaceState(state: InternalStateManager, workspaceId: string): InternalStateManager {
+  const root = rootState(state);
+  if (workspaceId === DEFAULT_WORKSPACE_ID) return root;
+  const group = (groupId: string) => (SHARED_GROUPS.has(groupId) ? groupId : `ws:${workspaceId}:${groupId}`);
+  const scoped: ScopedState = {
+    get: (groupId, key) => root.get(group(groupId), key),
+    set: (groupId, key, value) => root.set(group(groupId), key, value),
+    delete: (groupId, key) => root.delete(group(groupId), key),
+    getGroup: groupId => root.getGroup(group(groupId)),
+    clear: groupId => root.clear(group(groupId)),
+    [WORKSPACE]: workspaceId,
+    [ROOT_STATE]: root
+  };
+  return scoped;
+}
+
+function workspaceStreams(streams: FlowContext['streams'], workspaceId: string): FlowContext['streams'] {
+  if (workspaceId === DEFAULT_WORKSPACE_ID || !streams) return streams;
+  const scoped: Record<string, Partial<MotiaStream<unknown>>> = {};
+  for (const [name, stream] of Object.entries(streams as unknown as Record<string, MotiaStream<unknown>>)) {
+    scoped[name] = {
+      get: (groupId, id) => stream.get(scopedName(workspaceId, groupId), id),
+      set: (groupId, id, data) => stream.set(scopedName(workspaceId, groupId), id, data),
+      delete: (groupId, id) => stream.delete(scopedName(workspaceId, groupId), id),
+      getGroup: groupId => stream.getGroup(scopedName(workspaceId, groupId)),
+      send: (channel, event) => stream.send({ ...channel, groupId: scopedName(workspaceId, channel.groupId) }, event)
+    };
+  }
+  return scoped as unknown as FlowContext['streams'];
+}
+
+/**
+ * The step context as one workspace sees it: scoped state and streams, and an emit that tags
+ * every event with the workspace so the steps handling it scope themselves the same way.
+ */
+export function workspaceContext<TContext extends StepContext>(ctx: TContext, workspaceId: string | undefined): TContext {
+  const id = workspaceId ?? DEFAULT_WORKSPACE_ID;
+  const emit = ctx.emit as (event: { topic: string; data: Record<string, unknown> }) => Promise<void>;
+  return {
+    ...ctx,
+    state: workspaceState(ctx.state, id),
+    streams: workspaceStreams(ctx.streams, id),
+    emit: ((event: { topic: string; data: Record<string, unknown> }) =>
+      emit({ ...event, data: { ...event.data, workspaceId: id } })) as TContext['emit']
+  };
+}
+
+export async function getWorkspace(state: InternalStateManager, workspaceId: string): Promise<Workspace | null> {
+  if (workspaceId === DEFAULT_WORKSPACE_ID) {
+    return (await state.get<Workspace>(WORKSPACES_GROUP, workspaceId)) ?? { id: DEFAULT_WORKSPACE_ID, name: 'Default', createdAt: new Date(0).toISOString() };
+  }
+  return (await state.get<Workspace>(WORKSPACES_GROUP, workspaceId)) ?? null;
+}
+
+// The default workspace always exists, whether or not it was ever stored
+export async function listWorkspaces(state: InternalStateManager): Promise<Workspace[]> {
+  const stored = ((await state.getGroup<Workspace>(WORKSPACES_GROUP)) || []).filter(w => !!w?.id && w.id !== DEFAULT_WORKSPACE_ID);
+  const workspaces = [(await getWorkspace(state, DEFAULT_WORKSPACE_ID)) as Workspace, ...stored];
+  return workspaces.sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+}
+
+export async function saveWorkspace(state: InternalStateManager, workspace: Workspace): Promise<void> {
+  await state.set(WORKSPACES_GROUP, workspace.id, workspace);
+}
+
+/**
+ * Runs a cron body once per workspace with the context scoped to it; one workspace failing
+ * doesn't hold up the others.
+ */
+export async function forEachWorkspace<TContext extends StepContext>(
+  ctx: TContext,
+  run: (ctx: TContext, workspaceId: string) => Promise<void>
+): Promise<void> {
+  for (const { id } of await listWorkspaces(ctx.state)) {
+    try {
+      await run(workspaceContext(ctx, id), id);
+    } catch (error) {
+      ctx.logger.error('Workspace run failed', { workspaceId: id, error });
+    }
+  }
+}
@@ -1,15 +1,49 @@
 import { z } from 'zod'
+import { unscopedName } from '../services/workspaces'
 
 export const monitorStatusSchema = z.object({
   monitorId: z.string(),
   timestamp: z.string(),
   latency: z.number().optional(),
   statusCode: z.number().optional(),
-  success: z.boolean().optional()
+  success: z.boolean().optional(),
+  timings: z
+    .object({
+      dns: z.number(),
+      tcp: z.number(),
+      tls: z.number(),
+      ttfb: z.number(),
+      download: z.number()
+    })
+    .optional(),
+  responseSize: z.number().optional(),
+  failedAssertion: z
+    .object({
+      type: z.string(),
+      message: z.string(),
+      expected: z.any().optional(),
+      actual: z.any().optional()
+    })
+    .optional(),
+  probes: z
+    .array(
+      z.object({
+        probeId: z.string(),
+        region: z.string(),
+        latency: z.number(),
+        statusCode: z.number(),
+        success: z.boolean(),
+        failedAssertion: z.any().optional()
+      })
+    )
+    .optional()
 })
 
 export const config = {
   name: 'monitorStatus',
   schema: monitorStatusSchema,
-  baseConfig: { storageType: 'default' }
+  baseConfig: { storageType: 'default' },
+  // groups of workspaces other than the default one are named <workspace>/<group>
+  canAccess: (subscription: { groupId: string }, authContext: { workspaceId: string; root: boolean } | null) =>
+    !!authContext && (authContext.root || unscopedName(subscription.groupId).workspaceId === authContext.workspaceId)
 }
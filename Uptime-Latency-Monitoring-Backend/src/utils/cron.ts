@@ -0,0 +1,105 @@
+// Minimal 5-field cron expressions (minute hour day-of-month month day-of-week), evaluated in UTC
+
+type Field = { min: number; max: number; names?: string[] };
+
+const FIELDS: Field[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  // 7 is accepted as Sunday, like most cron implementations
+  { min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] }
+];
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // standard cron: when both day fields are restricted, a day matching either one counts
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+};
+
+function parseValue(raw: string, field: Field): number {
+  const index = field.names?.indexOf(raw.toUpperCase()) ?? -1;
+  const value = index >= 0 ? index + field.min : Number(raw);
+  if (!/^\d+$/.test(raw) && index < 0) throw new Error(`invalid cron value "${raw}"`);
+  if (value < field.min || value > field.max) throw new Error(`cron value ${raw} out of range ${field.min}-${field.max}`);
+  return value;
+}
+
+function parseField(expr: string, field: Field): Set<number> {
+  const values = new Set<number>();
+  for (const part of expr.split(',')) {
+    const [range, stepRaw] = part.split('/');
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`invalid cron step "${part}"`);
+
+    let lo: number;
+    let hi: number;
+    if (range === '*') {
+      lo = field.min;
+      hi = field.max;
+    } else if (range.includes('-')) {
+      const [a, b] = range.split('-');
+      lo = parseValue(a, field);
+      hi = parseValue(b, field);
+      if (lo > hi) throw new Error(`invalid cron range "${range}"`);
+    } else {
+      lo = parseValue(range, field);
+      hi = stepRaw === undefined ? lo : field.max;
+    }
+    for (let v = lo; v <= hi; v += step) values.add(v);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) throw new Error('cron expression must have 5 fields');
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((p, i) => parseField(p, FIELDS[i]));
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek: parts[4] === '*'
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function cronMatches(schedule: CronSchedule, at: number): boolean {
+  const d = new Date(at);
+  if (!schedule.minutes.has(d.getUTCMinutes()) || !schedule.hours.has(d.getUTCHours())) return false;
+  if (!schedule.months.has(d.getUTCMonth() + 1)) return false;
+
+  const domMatch = schedule.daysOfMonth.has(d.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.has(d.getUTCDay());
+  if (schedule.anyDayOfMonth) return dowMatch;
+  if (schedule.anyDayOfWeek) return domMatch;
+  return domMatch || dowMatch;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Latest minute in (at - lookbackMs, at] at which the schedule fires, or null
+export function lastCronFire(schedule: CronSchedule, at: number, lookbackMs: number): number | null {
+  const latest = Math.floor(at / MINUTE_MS) * MINUTE_MS;
+  for (let t = latest; t > at - lookbackMs; t -= MINUTE_MS) {
+    if (cronMatches(schedule, t)) return t;
+  }
+  return null;
+}
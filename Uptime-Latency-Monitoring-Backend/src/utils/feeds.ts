@@ -0,0 +1,56 @@
+// Minimal RSS 2.0 / Atom 1.0 rendering for status page feeds
+
+export type FeedItem = { id: string; title: string; content: string; updatedAt: string; url: string | null };
+export type FeedMeta = { title: string; description: string | null; url: string | null; updatedAt: string };
+
+function xml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+export function renderRss(meta: FeedMeta, items: FeedItem[]): string {
+  const entries = items.map(item =>
+    [
+      '<item>',
+      `<title>${xml(item.title)}</title>`,
+      `<description>${xml(item.content)}</description>`,
+      `<guid isPermaLink="false">${xml(item.id)}</guid>`,
+      `<pubDate>${new Date(item.updatedAt).toUTCString()}</pubDate>`,
+      item.url ? `<link>${xml(item.url)}</link>` : '',
+      '</item>'
+    ].join('')
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0"><channel>',
+    `<title>${xml(meta.title)}</title>`,
+    `<description>${xml(meta.description ?? meta.title)}</description>`,
+    meta.url ? `<link>${xml(meta.url)}</link>` : '',
+    `<lastBuildDate>${new Date(meta.updatedAt).toUTCString()}</lastBuildDate>`,
+    ...entries,
+    '</channel></rss>'
+  ].join('\n');
+}
+
+export function renderAtom(meta: FeedMeta, items: FeedItem[]): string {
+  const entries = items.map(item =>
+    [
+      '<entry>',
+      `<id>urn:status:${xml(item.id)}</id>`,
+      `<title>${xml(item.title)}</title>`,
+      `<updated>${new Date(item.updatedAt).toISOString()}</updated>`,
+      `<content type="text">${xml(item.content)}</content>`,
+      item.url ? `<link href="${xml(item.url)}"/>` : '',
+      '</entry>'
+    ].join('')
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `<id>${xml(meta.url ?? `urn:status:${meta.title}`)}</id>`,
+    `<title>${xml(meta.title)}</title>`,
+    `<updated>${new Date(meta.updatedAt).toISOString()}</updated>`,
+    meta.url ? `<link href="${xml(meta.url)}"/>` : '',
+    ...entries,
+    '</feed>'
+  ].join('\n');
+}
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+// User-supplied ids end up in paths like /monitors/:id, so they stay URL-safe
+const RESOURCE_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+export function isValidResourceId(id: string): boolean {
+  return RESOURCE_ID_PATTERN.test(id);
+}
+
+export const resourceIdSchema = z
+  .string()
+  .refine(isValidResourceId, 'ids are 1-64 letters, digits, dots, dashes or underscores, starting with a letter or digit');
@@ -0,0 +1,52 @@
+import { lookup } from 'dns';
+import { isIP, type LookupFunction } from 'net';
+
+function ipv4Private(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224 // multicast and reserved
+  );
+}
+
+/**
+ * Loopback, private, link-local and other addresses that aren't on the public internet;
+ * the server must not be talked into posting to those on behalf of anonymous callers.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return ipv4Private(address);
+  if (version !== 6) return false;
+  const lower = address.toLowerCase();
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return ipv4Private(mapped[1]);
+  return (
+    lower === '::' ||
+    lower === '::1' ||
+    /^f[cd][0-9a-f]{2}:/.test(lower) || // unique local fc00::/7
+    /^fe[89ab][0-9a-f]:/.test(lower) || // link-local fe80::/10
+    lower.startsWith('ff') // multicast
+  );
+}
+
+/**
+ * DNS lookup for sockets that must only reach public addresses: it refuses a host resolving
+ * to a private one at connect time, so re-pointing a checked hostname (DNS rebinding) doesn't
+ * get past it. Literal IPs skip the lookup and have to be checked by the caller.
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, options, (err, address, family) => {
+    if (err) return callback(err, address, family);
+    const addresses = Array.isArray(address) ? address.map(a => a.address) : [address];
+    if (addresses.some(isPrivateAddress)) {
+      return callback(Object.assign(new Error(`${hostname} resolves to a private address`), { code: 'EPRIVATE' }), address, family);
+    }
+    callback(null, address, family);
+  });
+};
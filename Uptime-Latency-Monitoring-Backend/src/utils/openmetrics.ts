@@ -0,0 +1,56 @@
+// OpenMetrics 1.0 text exposition (https://openmetrics.io), as scraped by Prometheus
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+export type MetricType = 'gauge' | 'counter' | 'histogram' | 'stateset' | 'info' | 'unknown';
+
+// `suffix` completes the family name, e.g. `_total` for counters or `_bucket` for histograms
+export type MetricPoint = { suffix?: string; labels: Record<string, string>; value: number };
+
+export type MetricFamily = { name: string; type: MetricType; help: string; unit?: string; samples: MetricPoint[] };
+
+export function sanitizeMetricName(name: string): string {
+  const cleaned = name.replace(/[^a-zA-Z0-9_]/g, '_');
+  return /^[a-zA-Z_]/.test(cleaned) ? cleaned : `_${cleaned}`;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+export function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+// Canonical form for histogram `le` bounds: always with a fractional part (1 -> "1.0")
+export function formatBound(value: number): string {
+  const text = formatValue(value);
+  return Number.isInteger(value) ? `${text}.0` : text;
+}
+
+function renderLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+export function renderOpenMetrics(families: MetricFamily[]): string {
+  const lines: string[] = [];
+  for (const family of families) {
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    if (family.unit) lines.push(`# UNIT ${family.name} ${family.unit}`);
+    lines.push(`# HELP ${family.name} ${escapeHelp(family.help)}`);
+    for (const sample of family.samples) {
+      lines.push(`${family.name}${sample.suffix ?? ''}${renderLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+  }
+  lines.push('# EOF');
+  return `${lines.join('\n')}\n`;
+}
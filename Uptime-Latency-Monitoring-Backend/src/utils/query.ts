@@ -0,0 +1,22 @@
+// First value of a query string parameter (repeated params arrive as arrays)
+export function queryParam(params: Record<string, string | string[]> | undefined, name: string): string | undefined {
+  const value = params?.[name];
+  if (Array.isArray(value)) return value[0];
+  return value === '' ? undefined : value;
+}
+
+// Every value of a repeatable parameter, also splitting comma-separated lists (?tag=a,b&tag=c)
+export function queryList(params: Record<string, string | string[]> | undefined, name: string): string[] {
+  const value = params?.[name];
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return values.flatMap(v => v.split(',')).map(v => v.trim()).filter(Boolean);
+}
+
+// Accepts ISO timestamps and epoch milliseconds
+export function parseTimestamp(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const asNumber = Number(value);
+  if (/^\d+$/.test(value) && Number.isFinite(asNumber)) return asNumber;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
@@ -0,0 +1,75 @@
+export function mean(nums: number[]): number {
+  if (nums.length === 0) return 0;
+  return nums.reduce((s, v) => s + v, 0) / nums.length;
+}
+
+// Linear-interpolated percentile (p in 0..100) of an ascending sorted array
+export function percentileSorted(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  if (sorted.length === 1) return sorted[0];
+  const rank = (p / 100) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+export type LatencySummary = {
+  min: number;
+  avg: number;
+  max: number;
+  p50: number;
+  p95: number;
+  p99: number;
+};
+
+export function summarizeLatencies(values: number[]): LatencySummary | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    min: sorted[0],
+    avg: mean(sorted),
+    max: sorted[sorted.length - 1],
+    p50: percentileSorted(sorted, 50),
+    p95: percentileSorted(sorted, 95),
+    p99: percentileSorted(sorted, 99)
+  };
+}
+
+// Population standard deviation
+export function pstdev(nums: number[]): number {
+  if (nums.length === 0) return 0;
+  const mu = mean(nums);
+  return Math.sqrt(nums.reduce((s, v) => s + (v - mu) * (v - mu), 0) / nums.length);
+}
+
+export function median(nums: number[]): number {
+  return percentileSorted([...nums].sort((a, b) => a - b), 50);
+}
+
+// Median absolute deviation from the median (unscaled)
+export function medianAbsoluteDeviation(nums: number[]): number {
+  const m = median(nums);
+  return median(nums.map(v => Math.abs(v - m)));
+}
+
+/**
+ * Estimated share (0..1) of the values summarized by `summary` that are <= threshold,
+ * interpolating linearly between the known percentiles.
+ */
+export function fractionAtOrBelow(summary: LatencySummary, threshold: number): number {
+  const points: [number, number][] = [
+    [summary.min, 0],
+    [summary.p50, 0.5],
+    [summary.p95, 0.95],
+    [summary.p99, 0.99],
+    [summary.max, 1]
+  ];
+  if (threshold < summary.min) return 0;
+  if (threshold >= summary.max) return 1;
+  for (let i = 1; i < points.length; i++) {
+    const [x0, y0] = points[i - 1];
+    const [x1, y1] = points[i];
+    if (threshold < x1) return x1 > x0 ? y0 + ((threshold - x0) / (x1 - x0)) * (y1 - y0) : y0;
+  }
+  return 1;
+}
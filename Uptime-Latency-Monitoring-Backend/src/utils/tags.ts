@@ -0,0 +1,31 @@
+// Tags are free-form, but `key:value` tags (team:payments, env:prod) also name groups by their key
+
+export function tagKey(tag: string): string | null {
+  const i = tag.indexOf(':');
+  return i > 0 ? tag.slice(0, i) : null;
+}
+
+export function tagValue(tag: string): string {
+  const i = tag.indexOf(':');
+  return i > 0 ? tag.slice(i + 1) : tag;
+}
+
+/**
+ * One selector term: `env:prod` (carries exactly that tag), `team:*` (carries any tag with
+ * that key) or a term prefixed with `!` (carries no such tag).
+ */
+function termMatches(tags: string[], term: string): boolean {
+  if (term.startsWith('!')) return !termMatches(tags, term.slice(1));
+  if (term.endsWith(':*')) return tags.some(t => tagKey(t) === term.slice(0, -2));
+  return tags.includes(term);
+}
+
+// A selector is a list of terms that must all match; an empty one matches everything
+export function matchesTagSelector(tags: string[], selector: string[]): boolean {
+  return selector.every(term => termMatches(tags, term));
+}
+
+export function isValidSelectorTerm(term: string): boolean {
+  const bare = term.startsWith('!') ? term.slice(1) : term;
+  return bare.length > 0 && bare !== '*' && !bare.startsWith(':');
+}
@@ -8,17 +8,96 @@ import { EventHandler, ApiRouteHandler, ApiResponse, MotiaStream, CronHandler }
 
 declare module 'motia' {
   interface FlowContextStateStreams {
-    'monitorStatus': MotiaStream<{ monitorId: string; timestamp: string; latency?: number; statusCode?: number; success?: boolean }>
+    'monitorStatus': MotiaStream<{ monitorId: string; timestamp: string; latency?: number; statusCode?: number; success?: boolean; timings?: { dns: number; tcp: number; tls: number; ttfb: number; download: number }; responseSize?: number; failedAssertion?: { type: string; message: string; expected?: unknown; actual?: unknown }; probes?: Array<{ probeId: string; region: string; latency: number; statusCode: number; success: boolean; failedAssertion?: unknown }> }>
   }
 
   interface Handlers {
-    'SendAlert': EventHandler<{ monitorId: string; severity: 'NORMAL' | 'WARNING' | 'CRITICAL'; diagnostic?: unknown }, never>
-    'PingMonitor': EventHandler<{ monitorId: string }, { topic: 'CHECK_ANOMALY'; data: { monitorId: string } } | { topic: 'MONITOR_DOWN'; data: { monitorId: string } }>
-    'MonitorDown': EventHandler<{ monitorId: string }, { topic: 'SEND_ALERT'; data: { monitorId: string; severity: 'NORMAL' | 'WARNING' | 'CRITICAL'; diagnostic?: unknown } }>
-    'CheckAnomaly': EventHandler<{ monitorId: string }, { topic: 'SEND_ALERT'; data: { monitorId: string; severity: 'NORMAL' | 'WARNING' | 'CRITICAL'; diagnostic?: unknown } }>
-    'PingMonitorsCron': CronHandler<{ topic: 'PING_MONITOR'; data: { monitorId: string } }>
+    'SendAlert': EventHandler<{ monitorId: string; severity: 'NORMAL' | 'WARNING' | 'CRITICAL'; diagnostic?: unknown; workspaceId?: string }, { topic: 'DELIVER_NOTIFICATION'; data: { deliveryId: string; workspaceId?: string } } | { topic: 'ESCALATE_INCIDENT'; data: { incidentId: string; level: number; workspaceId?: string } }>
+    'PingMonitor': EventHandler<{ monitorId: string; roundId?: string; dueAt?: number; workspaceId?: string }, { topic: 'CHECK_ANOMALY'; data: { monitorId: string; workspaceId?: string } } | { topic: 'MONITOR_DOWN'; data: { monitorId: string; workspaceId?: string } } | { topic: 'MONITOR_RECOVERED'; data: { monitorId: string; incidentId?: string; durationSeconds?: number; workspaceId?: string } } | { topic: 'SEND_ALERT'; data: { monitorId: string; severity: 'NORMAL' | 'WARNING' | 'CRITICAL'; diagnostic?: unknown; workspaceId?: string } } | { topic: 'CONTENT_CHANGED'; data: { monitorId: string; previousHash?: string; currentHash: string; workspaceId?: string } }>
+    'NotifyStatusSubscribers': EventHandler<{ pageId: string; incidentId?: string; updateId?: string; noticeId?: string; workspaceId?: string }, { topic: 'DELIVER_NOTIFICATION'; data: { deliveryId: string; workspaceId?: string } }>
+    'MonitorDown': EventHandler<{ monitorId: string; workspaceId?: string }, { topic: 'SEND_ALERT'; data: { monitorId: string; severity: 'NORMAL' | 'WARNING' | 'CRITICAL'; diagnostic?: unknown; workspaceId?: string } }>
+    'MonitorRecovered': EventHandler<{ monitorId: string; incidentId?: string; durationSeconds?: number; workspaceId?: string }, { topic: 'SEND_ALERT'; data: { monitorId: string; severity: 'NORMAL' | 'WARNING' | 'CRITICAL'; diagnostic?: unknown; workspaceId?: string } }>
+    'EscalateIncident': EventHandler<{ incidentId: string; level: number; workspaceId?: string }, { topic: 'DELIVER_NOTIFICATION'; data: { deliveryId: string; workspaceId?: string } }>
+    'DeliverNotification': EventHandler<{ deliveryId: string; workspaceId?: string }, never>
+    'ContentChanged': EventHandler<{ monitorId: string; previousHash?: string; currentHash: string; workspaceId?: string }, { topic: 'SEND_ALERT'; data: { monitorId: string; severity: 'NORMAL' | 'WARNING' | 'CRITICAL'; diagnostic?: unknown; workspaceId?: string } }>
+    'CheckAnomaly': EventHandler<{ monitorId: string; workspaceId?: string }, { topic: 'SEND_ALERT'; data: { monitorId: string; severity: 'NORMAL' | 'WARNING' | 'CRITICAL'; diagnostic?: unknown; workspaceId?: string } }>
+    'SloBurnCron': CronHandler<{ topic: 'SEND_ALERT'; data: { monitorId: string; severity: 'NORMAL' | 'WARNING' | 'CRITICAL'; diagnostic?: unknown; workspaceId?: string } }>
+    'RetryDeliveriesCron': CronHandler<{ topic: 'DELIVER_NOTIFICATION'; data: { deliveryId: string; workspaceId?: string } }>
+    'ProbeRoundsCron': CronHandler<{ topic: 'CHECK_ROUND_COMPLETE'; data: { monitorId: string; roundId?: string; dueAt?: number; workspaceId?: string } }>
+    'PingMonitorsCron': CronHandler<{ topic: 'PING_MONITOR'; data: { monitorId: string; roundId?: string; dueAt?: number; workspaceId?: string } }>
+    'MetricsRetentionCron': CronHandler<never>
+    'EscalationCron': CronHandler<{ topic: 'ESCALATE_INCIDENT'; data: { incidentId: string; level: number; workspaceId?: string } }>
+    'AlertDigestCron': CronHandler<{ topic: 'DELIVER_NOTIFICATION'; data: { deliveryId: string; workspaceId?: string } }>
+    'UpdateMonitorAPI': ApiRouteHandler<{ type?: 'http' | 'tcp' | 'dns' | 'tls'; url?: string; tcp?: { host: string; port: unknown }; dns?: { hostname: string; recordType?: 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS'; expected?: Array<string>; resolver?: string }; tls?: { host: string; port?: unknown; warnDays?: unknown; criticalDays?: unknown }; name?: string; failureThreshold?: unknown; timeoutMs?: unknown; intervalSeconds?: unknown; method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS'; headers?: Record<string, string>; body?: string | Record<string, unknown>; assertions?: { expectedStatus?: Array<unknown | string>; bodyContains?: string; bodyRegex?: string; jsonPath?: Array<{ path: string; op?: 'exists' | 'notExists' | 'equals' | 'notEquals' | 'contains' | 'gt' | 'lt'; value?: unknown }>; maxLatencyMs?: unknown }; contentTracking?: { enabled: boolean; ignorePatterns?: Array<string>; severity?: 'WARNING' | 'CRITICAL' }; anomalyDetection?: { detector?: 'zscore' | 'robust' | 'ewma' | 'seasonal'; windowMinutes?: unknown; minSamples?: unknown; warningThreshold?: number; criticalThreshold?: number; consecutive?: unknown; ewmaAlpha?: number; seasonality?: 'hour_of_day' | 'hour_of_week'; seasonalPeriods?: unknown } | unknown; channels?: Array<string>; escalationPolicyId?: string | unknown; tags?: Array<string>; regions?: Array<string>; quorum?: unknown | unknown }, ApiResponse<200, { id: string; type: 'http' | 'tcp' | 'dns' | 'tls'; url: string; tcp: { host: string; port: unknown } | unknown; dns: { hostname: string; recordType?: 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS'; expected?: Array<string>; resolver?: string } | unknown; tls: { host: string; port?: unknown; warnDays?: unknown; criticalDays?: unknown } | unknown; name: unknown; failureThreshold: number; timeoutMs: number; intervalSeconds: number; method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS'; headers: Record<string, string> | unknown; body: string | Record<string, unknown> | unknown; assertions: { expectedStatus?: Array<unknown | string>; bodyContains?: string; bodyRegex?: string; jsonPath?: Array<{ path: string; op?: 'exists' | 'notExists' | 'equals' | 'notEquals' | 'contains' | 'gt' | 'lt'; value?: unknown }>; maxLatencyMs?: unknown } | unknown; contentTracking: { enabled: boolean; ignorePatterns?: Array<string>; severity?: 'WARNING' | 'CRITICAL' } | unknown; anomalyDetection: { detector?: 'zscore' | 'robust' | 'ewma' | 'seasonal'; windowMinutes?: unknown; minSamples?: unknown; warningThreshold?: number; criticalThreshold?: number; consecutive?: unknown; ewmaAlpha?: number; seasonality?: 'hour_of_day' | 'hour_of_week'; seasonalPeriods?: unknown } | unknown; channels: Array<string>; escalationPolicyId: unknown; tags: Array<string>; regions: Array<string>; quorum: unknown; paused: boolean; createdAt: string; updatedAt?: string }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'UnsubscribeStatusPageAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { unsubscribed: boolean }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'TestChannelAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { channelId: string; delivered: boolean }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<502, { error: string; details?: unknown }>, never>
+    'SubscribeStatusPageAPI': ApiRouteHandler<{ email?: string; webhookUrl?: string }, ApiResponse<202, { id: string; type: 'email' | 'webhook'; status: 'pending' | 'confirmed'; createdAt: string }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<409, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, { topic: 'DELIVER_NOTIFICATION'; data: { deliveryId: string; workspaceId?: string } }>
+    'StatusStreamEventsAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { events: Array<{ id: string; monitorId: string; tags: Array<string>; data: { monitorId: string; name: unknown; status: string; timestamp: string; latency?: number; statusCode?: number; success?: boolean; maintenance: boolean; uptimePercent: unknown } }>; snapshot: Array<{ monitorId: string; name: unknown; status: string; timestamp: string; latency?: number; statusCode?: number; success?: boolean; maintenance: boolean; uptimePercent: unknown }> | unknown; lastEventId: unknown }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'StatusPageXmlFeedAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, string> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'StatusPageFeedAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { title: string; url: unknown; items: Array<{ id: string; title: string; content: string; updatedAt: string; url: unknown }> }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
     'MonitorStatusSSE': ApiRouteHandler<Record<string, unknown>, unknown, never>
-    'CreateMonitorAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<201, { monitorId: string }>, never>
+    'ResumeMonitorAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { id: string; type: 'http' | 'tcp' | 'dns' | 'tls'; url: string; tcp: { host: string; port: unknown } | unknown; dns: { hostname: string; recordType?: 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS'; expected?: Array<string>; resolver?: string } | unknown; tls: { host: string; port?: unknown; warnDays?: unknown; criticalDays?: unknown } | unknown; name: unknown; failureThreshold: number; timeoutMs: number; intervalSeconds: number; method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS'; headers: Record<string, string> | unknown; body: string | Record<string, unknown> | unknown; assertions: { expectedStatus?: Array<unknown | string>; bodyContains?: string; bodyRegex?: string; jsonPath?: Array<{ path: string; op?: 'exists' | 'notExists' | 'equals' | 'notEquals' | 'contains' | 'gt' | 'lt'; value?: unknown }>; maxLatencyMs?: unknown } | unknown; contentTracking: { enabled: boolean; ignorePatterns?: Array<string>; severity?: 'WARNING' | 'CRITICAL' } | unknown; anomalyDetection: { detector?: 'zscore' | 'robust' | 'ewma' | 'seasonal'; windowMinutes?: unknown; minSamples?: unknown; warningThreshold?: number; criticalThreshold?: number; consecutive?: unknown; ewmaAlpha?: number; seasonality?: 'hour_of_day' | 'hour_of_week'; seasonalPeriods?: unknown } | unknown; channels: Array<string>; escalationPolicyId: unknown; tags: Array<string>; regions: Array<string>; quorum: unknown; paused: boolean; createdAt: string; updatedAt?: string }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'ReplayAlertAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<202, { id: string; monitorId: string; incidentId: unknown; channelId: string; channelName: string; channelType: string; reason: string; severity: string; kind: string; title: string; status: 'pending' | 'in_flight' | 'retrying' | 'delivered' | 'dead_lettered'; attempts: Array<{ attempt: number; at: string; success: boolean; statusCode: unknown; error: unknown; durationMs: number }>; nextAttemptAt: unknown; deadLetteredAt: unknown; createdAt: string; updatedAt: string }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<409, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, { topic: 'DELIVER_NOTIFICATION'; data: { deliveryId: string; workspaceId?: string } }>
+    'PublicStatusPageAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { page: { name: string; slug: string; description: unknown; url: unknown }; status: 'operational' | 'degraded_performance' | 'partial_outage' | 'major_outage' | 'under_maintenance'; components: Array<{ id: string; name: string; description: unknown; status: 'operational' | 'degraded_performance' | 'partial_outage' | 'major_outage' | 'under_maintenance'; uptimePercent: unknown; uptime: Array<{ date: string; uptimePercent: unknown }> }>; incidents: Array<{ id: string; pageId: string; title: string; status: 'investigating' | 'identified' | 'monitoring' | 'resolved'; impact: 'none' | 'minor' | 'major' | 'critical'; componentIds: Array<string>; updates: Array<{ id: string; status: 'investigating' | 'identified' | 'monitoring' | 'resolved'; message: string; at: string }>; createdAt: string; resolvedAt: unknown }>; maintenance: Array<{ id: string; pageId: string; title: string; message: string; componentIds: Array<string>; scheduledFor: string; scheduledUntil: string; createdAt: string; state: 'scheduled' | 'in_progress' | 'completed' }>; generatedAt: string }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'ProbeResultsAPI': ApiRouteHandler<{ probeId: string; region: string; results: Array<{ jobId: string; result: { latency: number; statusCode: number; success: boolean; timings?: unknown; responseSize?: number; failedAssertion?: unknown; certificate?: unknown; content?: string } }> }, ApiResponse<200, { accepted: number; unknown: Array<string> }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, { topic: 'CHECK_ROUND_COMPLETE'; data: { monitorId: string; roundId?: string; dueAt?: number; workspaceId?: string } }>
+    'ProbeClaimAPI': ApiRouteHandler<{ probeId: string; region: string; max?: unknown }, ApiResponse<200, { jobs: Array<{ jobId: string; roundId: string; monitor: { id: string; type: 'http' | 'tcp' | 'dns' | 'tls'; url: string; tcp: { host: string; port: unknown } | unknown; dns: { hostname: string; recordType?: 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS'; expected?: Array<string>; resolver?: string } | unknown; tls: { host: string; port?: unknown; warnDays?: unknown; criticalDays?: unknown } | unknown; name: unknown; failureThreshold: number; timeoutMs: number; intervalSeconds: number; method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS'; headers: Record<string, string> | unknown; body: string | Record<string, unknown> | unknown; assertions: { expectedStatus?: Array<unknown | string>; bodyContains?: string; bodyRegex?: string; jsonPath?: Array<{ path: string; op?: 'exists' | 'notExists' | 'equals' | 'notEquals' | 'contains' | 'gt' | 'lt'; value?: unknown }>; maxLatencyMs?: unknown } | unknown; contentTracking: { enabled: boolean; ignorePatterns?: Array<string>; severity?: 'WARNING' | 'CRITICAL' } | unknown; anomalyDetection: { detector?: 'zscore' | 'robust' | 'ewma' | 'seasonal'; windowMinutes?: unknown; minSamples?: unknown; warningThreshold?: number; criticalThreshold?: number; consecutive?: unknown; ewmaAlpha?: number; seasonality?: 'hour_of_day' | 'hour_of_week'; seasonalPeriods?: unknown } | unknown; channels: Array<string>; escalationPolicyId: unknown; tags: Array<string>; regions: Array<string>; quorum: unknown; paused: boolean; createdAt: string; updatedAt?: string } }> }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'PauseMonitorAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { id: string; type: 'http' | 'tcp' | 'dns' | 'tls'; url: string; tcp: { host: string; port: unknown } | unknown; dns: { hostname: string; recordType?: 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS'; expected?: Array<string>; resolver?: string } | unknown; tls: { host: string; port?: unknown; warnDays?: unknown; criticalDays?: unknown } | unknown; name: unknown; failureThreshold: number; timeoutMs: number; intervalSeconds: number; method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS'; headers: Record<string, string> | unknown; body: string | Record<string, unknown> | unknown; assertions: { expectedStatus?: Array<unknown | string>; bodyContains?: string; bodyRegex?: string; jsonPath?: Array<{ path: string; op?: 'exists' | 'notExists' | 'equals' | 'notEquals' | 'contains' | 'gt' | 'lt'; value?: unknown }>; maxLatencyMs?: unknown } | unknown; contentTracking: { enabled: boolean; ignorePatterns?: Array<string>; severity?: 'WARNING' | 'CRITICAL' } | unknown; anomalyDetection: { detector?: 'zscore' | 'robust' | 'ewma' | 'seasonal'; windowMinutes?: unknown; minSamples?: unknown; warningThreshold?: number; criticalThreshold?: number; consecutive?: unknown; ewmaAlpha?: number; seasonality?: 'hour_of_day' | 'hour_of_week'; seasonalPeriods?: unknown } | unknown; channels: Array<string>; escalationPolicyId: unknown; tags: Array<string>; regions: Array<string>; quorum: unknown; paused: boolean; createdAt: string; updatedAt?: string }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'CreateMonitorAPI': ApiRouteHandler<{ type?: 'http' | 'tcp' | 'dns' | 'tls'; url?: string; tcp?: { host: string; port: unknown }; dns?: { hostname: string; recordType?: 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS'; expected?: Array<string>; resolver?: string }; tls?: { host: string; port?: unknown; warnDays?: unknown; criticalDays?: unknown }; name?: string; failureThreshold?: unknown; timeoutMs?: unknown; intervalSeconds?: unknown; method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS'; headers?: Record<string, string>; body?: string | Record<string, unknown>; assertions?: { expectedStatus?: Array<unknown | string>; bodyContains?: string; bodyRegex?: string; jsonPath?: Array<{ path: string; op?: 'exists' | 'notExists' | 'equals' | 'notEquals' | 'contains' | 'gt' | 'lt'; value?: unknown }>; maxLatencyMs?: unknown }; contentTracking?: { enabled: boolean; ignorePatterns?: Array<string>; severity?: 'WARNING' | 'CRITICAL' }; anomalyDetection?: { detector?: 'zscore' | 'robust' | 'ewma' | 'seasonal'; windowMinutes?: unknown; minSamples?: unknown; warningThreshold?: number; criticalThreshold?: number; consecutive?: unknown; ewmaAlpha?: number; seasonality?: 'hour_of_day' | 'hour_of_week'; seasonalPeriods?: unknown } | unknown; channels?: Array<string>; escalationPolicyId?: string | unknown; tags?: Array<string>; regions?: Array<string>; quorum?: unknown | unknown; id?: string }, ApiResponse<201, { monitorId: string }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<409, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'MonitorUptimeAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { monitorId: string; window: string; from: string; to: string; checks: number; successfulChecks: number; uptimePercent: unknown; incidents: number; downtimeSeconds: number; mttrSeconds: unknown; mtbfSeconds: unknown; latency: { min: number; avg: number; max: number; p50: number; p95: number; p99: number; approximate: boolean } | unknown; regions: Array<{ region: string; probes: Array<string>; checks: number; successfulChecks: number; uptimePercent: unknown; latency: { min: number; avg: number; max: number; p50: number; p95: number; p99: number } | unknown; latest: { timestamp: string; latency: unknown; success: boolean } | unknown }>; regionsFrom: unknown }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'MonitorStateAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { status: 'UNKNOWN' | 'UP' | 'DEGRADED' | 'DOWN' | 'PAUSED' | 'MAINTENANCE'; since: unknown; reason: unknown; monitorId: string; transitions: Array<{ from: 'UNKNOWN' | 'UP' | 'DEGRADED' | 'DOWN' | 'PAUSED' | 'MAINTENANCE'; to: 'UNKNOWN' | 'UP' | 'DEGRADED' | 'DOWN' | 'PAUSED' | 'MAINTENANCE'; at: string; reason: string }> }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'MonitorMetricsAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { monitorId: string; from: string; to: string; resolution: string; points: Array<Record<string, unknown>> }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'MonitorGroupsAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { groups: Array<{ group: string; name: string; total: number; down: number; statuses: Record<string, number>; summary: string; monitors: Array<{ id: string; name: unknown; status: 'UNKNOWN' | 'UP' | 'DEGRADED' | 'DOWN' | 'PAUSED' | 'MAINTENANCE' }> }> }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'MonitorAlertsAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { monitorId: string; deliveries: Array<{ id: string; monitorId: string; incidentId: unknown; channelId: string; channelName: string; channelType: string; reason: string; severity: string; kind: string; title: string; status: 'pending' | 'in_flight' | 'retrying' | 'delivered' | 'dead_lettered'; attempts: Array<{ attempt: number; at: string; success: boolean; statusCode: unknown; error: unknown; durationMs: number }>; nextAttemptAt: unknown; deadLetteredAt: unknown; createdAt: string; updatedAt: string }> }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'MetricsAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, string> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'ListWorkspacesAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { workspaces: Array<{ id: string; name: string; createdAt: string }> }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'ListStatusPagesAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { statusPages: Array<{ id: string; slug: string; name: string; description: unknown; components: Array<{ id: string; name: string; description: unknown; monitorIds: Array<string>; tags: Array<string> }>; createdAt: string }> }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'ListSlosAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { slos: Array<{ id: string; name: string; monitorId: string; indicator: 'availability' | 'latency'; target: number; latencyThresholdMs: unknown; windowDays: number; burnRateRules: Array<{ name: string; longWindowMinutes: number; shortWindowMinutes: number; burnRate: number; severity: 'WARNING' | 'CRITICAL' }>; createdAt: string }> }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'ListSilencesAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { silences: Array<{ id: string; monitorIds: Array<string>; tags: Array<string>; startsAt: string; endsAt: string; comment: unknown; createdBy: unknown; createdAt: string; active: boolean }> }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'ListRotationsAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { rotations: Array<{ id: string; name: string; type: 'daily' | 'weekly'; startsAt: string; participants: Array<{ name: string; channelId: string }>; overrides: Array<{ id: string; participant: { name: string; channelId: string }; from: string; to: string; createdAt: string }>; createdAt: string; onCall: { participant: { name: string; channelId: string }; source: 'rotation' | 'override'; until: string } }> }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'ListProbesAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { probes: Array<{ id: string; region: string; firstSeenAt: string; lastSeenAt: string; active: boolean }> }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'ListMonitorsAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { monitors: Array<{ id: string; type: 'http' | 'tcp' | 'dns' | 'tls'; url: string; tcp: { host: string; port: unknown } | unknown; dns: { hostname: string; recordType?: 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS'; expected?: Array<string>; resolver?: string } | unknown; tls: { host: string; port?: unknown; warnDays?: unknown; criticalDays?: unknown } | unknown; name: unknown; failureThreshold: number; timeoutMs: number; intervalSeconds: number; method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS'; headers: Record<string, string> | unknown; body: string | Record<string, unknown> | unknown; assertions: { expectedStatus?: Array<unknown | string>; bodyContains?: string; bodyRegex?: string; jsonPath?: Array<{ path: string; op?: 'exists' | 'notExists' | 'equals' | 'notEquals' | 'contains' | 'gt' | 'lt'; value?: unknown }>; maxLatencyMs?: unknown } | unknown; contentTracking: { enabled: boolean; ignorePatterns?: Array<string>; severity?: 'WARNING' | 'CRITICAL' } | unknown; anomalyDetection: { detector?: 'zscore' | 'robust' | 'ewma' | 'seasonal'; windowMinutes?: unknown; minSamples?: unknown; warningThreshold?: number; criticalThreshold?: number; consecutive?: unknown; ewmaAlpha?: number; seasonality?: 'hour_of_day' | 'hour_of_week'; seasonalPeriods?: unknown } | unknown; channels: Array<string>; escalationPolicyId: unknown; tags: Array<string>; regions: Array<string>; quorum: unknown; paused: boolean; createdAt: string; updatedAt?: string }> }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'ListMaintenanceWindowsAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { maintenanceWindows: Array<{ id: string; name: string; monitorIds: Array<string>; tags: Array<string>; startsAt: unknown; endsAt: unknown; cron: unknown; durationMinutes: unknown; createdAt: string; active: boolean; currentOccurrence: { start: string; end: string } | unknown }> }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'ListIncidentsAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { incidents: Array<{ id: string; monitorId: string; status: 'open' | 'resolved'; startedAt: string; resolvedAt: unknown; durationSeconds: unknown; acknowledgedAt: unknown; acknowledgedBy: unknown; acknowledgedByKeyId?: unknown; timeline: Array<{ type: 'first_failure' | 'opened' | 'alert_sent' | 'alert_suppressed' | 'escalated' | 'acknowledged' | 'recovered'; at: string; message: string; details?: unknown }> }> }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'ListEscalationPoliciesAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { policies: Array<{ id: string; name: string; levels: Array<{ targets: Array<{ rotationId?: string; channelId?: string }>; escalateAfterMinutes: number }>; createdAt: string }> }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'ListChannelsAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { channels: Array<{ id: string; name: string; type: 'smtp' | 'email_api' | 'webhook' | 'slack' | 'discord' | 'teams' | 'events_api'; minSeverity: 'WARNING' | 'CRITICAL'; sendRecovery: boolean; rateLimit: { max: unknown; windowMinutes: unknown } | unknown; monitorTags: Array<string>; smtp: { host: string; port?: unknown; secure?: boolean; startTls?: boolean; username?: string; password?: string; from: string; to: Array<string> } | unknown; emailApi: { url: string; apiKey: string; from: string; to: Array<string> } | unknown; webhook: { url: string; headers?: Record<string, string>; publicOnly?: boolean } | unknown; eventsApi: { url?: string; routingKey: string } | unknown; createdAt: string }> }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'ListApiKeysAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { apiKeys: Array<{ id: string; workspaceId: string; name: string; scope: 'read' | 'write' | 'admin'; createdAt: string; lastUsedAt: unknown }> }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'GetStatusPageAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { id: string; slug: string; name: string; description: unknown; components: Array<{ id: string; name: string; description: unknown; monitorIds: Array<string>; tags: Array<string> }>; createdAt: string; subscribers: { email: number; webhook: number; pending: number } }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'GetSloAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { id: string; name: string; monitorId: string; indicator: 'availability' | 'latency'; target: number; latencyThresholdMs: unknown; windowDays: number; burnRateRules: Array<{ name: string; longWindowMinutes: number; shortWindowMinutes: number; burnRate: number; severity: 'WARNING' | 'CRITICAL' }>; createdAt: string; status: { from: string; to: string; validChecks: number; goodChecks: number; attainmentPercent: unknown; errorBudgetChecks: number; errorBudgetRemainingPercent: unknown; approximate: boolean; burnRates: Array<{ rule: string; severity: 'WARNING' | 'CRITICAL'; threshold: number; longWindowBurnRate: unknown; shortWindowBurnRate: unknown; firing: boolean; firingSince: unknown }> } }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'GetRotationAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { id: string; name: string; type: 'daily' | 'weekly'; startsAt: string; participants: Array<{ name: string; channelId: string }>; overrides: Array<{ id: string; participant: { name: string; channelId: string }; from: string; to: string; createdAt: string }>; createdAt: string; onCall: { participant: { name: string; channelId: string }; source: 'rotation' | 'override'; until: string } }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'GetMonitorAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { id: string; type: 'http' | 'tcp' | 'dns' | 'tls'; url: string; tcp: { host: string; port: unknown } | unknown; dns: { hostname: string; recordType?: 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS'; expected?: Array<string>; resolver?: string } | unknown; tls: { host: string; port?: unknown; warnDays?: unknown; criticalDays?: unknown } | unknown; name: unknown; failureThreshold: number; timeoutMs: number; intervalSeconds: number; method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS'; headers: Record<string, string> | unknown; body: string | Record<string, unknown> | unknown; assertions: { expectedStatus?: Array<unknown | string>; bodyContains?: string; bodyRegex?: string; jsonPath?: Array<{ path: string; op?: 'exists' | 'notExists' | 'equals' | 'notEquals' | 'contains' | 'gt' | 'lt'; value?: unknown }>; maxLatencyMs?: unknown } | unknown; contentTracking: { enabled: boolean; ignorePatterns?: Array<string>; severity?: 'WARNING' | 'CRITICAL' } | unknown; anomalyDetection: { detector?: 'zscore' | 'robust' | 'ewma' | 'seasonal'; windowMinutes?: unknown; minSamples?: unknown; warningThreshold?: number; criticalThreshold?: number; consecutive?: unknown; ewmaAlpha?: number; seasonality?: 'hour_of_day' | 'hour_of_week'; seasonalPeriods?: unknown } | unknown; channels: Array<string>; escalationPolicyId: unknown; tags: Array<string>; regions: Array<string>; quorum: unknown; paused: boolean; createdAt: string; updatedAt?: string }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'GetMaintenanceWindowAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { id: string; name: string; monitorIds: Array<string>; tags: Array<string>; startsAt: unknown; endsAt: unknown; cron: unknown; durationMinutes: unknown; createdAt: string; active: boolean; currentOccurrence: { start: string; end: string } | unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'GetIncidentAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { id: string; monitorId: string; status: 'open' | 'resolved'; startedAt: string; resolvedAt: unknown; durationSeconds: unknown; acknowledgedAt: unknown; acknowledgedBy: unknown; acknowledgedByKeyId?: unknown; timeline: Array<{ type: 'first_failure' | 'opened' | 'alert_sent' | 'alert_suppressed' | 'escalated' | 'acknowledged' | 'recovered'; at: string; message: string; details?: unknown }> }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'GetEscalationPolicyAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { id: string; name: string; levels: Array<{ targets: Array<{ rotationId?: string; channelId?: string }>; escalateAfterMinutes: number }>; createdAt: string }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'GetChannelAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { id: string; name: string; type: 'smtp' | 'email_api' | 'webhook' | 'slack' | 'discord' | 'teams' | 'events_api'; minSeverity: 'WARNING' | 'CRITICAL'; sendRecovery: boolean; rateLimit: { max: unknown; windowMinutes: unknown } | unknown; monitorTags: Array<string>; smtp: { host: string; port?: unknown; secure?: boolean; startTls?: boolean; username?: string; password?: string; from: string; to: Array<string> } | unknown; emailApi: { url: string; apiKey: string; from: string; to: Array<string> } | unknown; webhook: { url: string; headers?: Record<string, string>; publicOnly?: boolean } | unknown; eventsApi: { url?: string; routingKey: string } | unknown; createdAt: string }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'ExportConfigYamlAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, string> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'ExportConfigAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { version?: number; channels?: Array<{ name: string; type: 'smtp' | 'email_api' | 'webhook' | 'slack' | 'discord' | 'teams' | 'events_api'; minSeverity?: 'WARNING' | 'CRITICAL'; sendRecovery?: boolean; rateLimit?: { max: unknown; windowMinutes: unknown } | unknown; monitorTags?: Array<string>; smtp?: { host: string; port?: unknown; secure?: boolean; startTls?: boolean; username?: string; password?: string; from: string; to: Array<string> }; emailApi?: { url: string; apiKey: string; from: string; to: Array<string> }; webhook?: { url: string; headers?: Record<string, string>; publicOnly?: boolean }; eventsApi?: { url?: string; routingKey: string }; id: string }>; monitors?: Array<{ type?: 'http' | 'tcp' | 'dns' | 'tls'; url?: string; tcp?: { host: string; port: unknown }; dns?: { hostname: string; recordType?: 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS'; expected?: Array<string>; resolver?: string }; tls?: { host: string; port?: unknown; warnDays?: unknown; criticalDays?: unknown }; name?: string; failureThreshold?: unknown; timeoutMs?: unknown; intervalSeconds?: unknown; method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS'; headers?: Record<string, string>; body?: string | Record<string, unknown>; assertions?: { expectedStatus?: Array<unknown | string>; bodyContains?: string; bodyRegex?: string; jsonPath?: Array<{ path: string; op?: 'exists' | 'notExists' | 'equals' | 'notEquals' | 'contains' | 'gt' | 'lt'; value?: unknown }>; maxLatencyMs?: unknown }; contentTracking?: { enabled: boolean; ignorePatterns?: Array<string>; severity?: 'WARNING' | 'CRITICAL' }; anomalyDetection?: { detector?: 'zscore' | 'robust' | 'ewma' | 'seasonal'; windowMinutes?: unknown; minSamples?: unknown; warningThreshold?: number; criticalThreshold?: number; consecutive?: unknown; ewmaAlpha?: number; seasonality?: 'hour_of_day' | 'hour_of_week'; seasonalPeriods?: unknown } | unknown; channels?: Array<string>; escalationPolicyId?: string | unknown; tags?: Array<string>; regions?: Array<string>; quorum?: unknown | unknown; id: string }> }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'DeleteStatusPageAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { pageId: string; deleted: boolean }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'DeleteSloAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { sloId: string; deleted: boolean }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'DeleteSilenceAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { silenceId: string; deleted: boolean }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'DeleteRotationOverrideAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { id: string; name: string; type: 'daily' | 'weekly'; startsAt: string; participants: Array<{ name: string; channelId: string }>; overrides: Array<{ id: string; participant: { name: string; channelId: string }; from: string; to: string; createdAt: string }>; createdAt: string }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'DeleteRotationAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { rotationId: string; deleted: boolean }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<409, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'DeleteMonitorAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { monitorId: string; deleted: boolean }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'DeleteMaintenanceWindowAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { maintenanceWindowId: string; deleted: boolean }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'DeleteEscalationPolicyAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { policyId: string; deleted: boolean }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<409, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'DeleteChannelAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { channelId: string; deleted: boolean }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<409, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'DeleteApiKeyAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { keyId: string; deleted: boolean }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'CreateWorkspaceAPI': ApiRouteHandler<{ id: string; name: string }, ApiResponse<201, { id: string; name: string; createdAt: string }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<409, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'CreateStatusPageAPI': ApiRouteHandler<{ slug: string; name: string; description?: string; components: Array<{ name: string; description?: string; monitorIds?: Array<string>; tags?: Array<string> }> }, ApiResponse<201, { id: string; slug: string; name: string; description: unknown; components: Array<{ id: string; name: string; description: unknown; monitorIds: Array<string>; tags: Array<string> }>; createdAt: string }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<409, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'CreateStatusMaintenanceAPI': ApiRouteHandler<{ title: string; message: string; componentIds?: Array<string>; scheduledFor: string; scheduledUntil: string }, ApiResponse<201, { id: string; pageId: string; title: string; message: string; componentIds: Array<string>; scheduledFor: string; scheduledUntil: string; createdAt: string }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, { topic: 'STATUS_PAGE_POSTED'; data: { pageId: string; incidentId?: string; updateId?: string; noticeId?: string; workspaceId?: string } }>
+    'CreateStatusIncidentAPI': ApiRouteHandler<{ title: string; message: string; status?: 'investigating' | 'identified' | 'monitoring' | 'resolved'; impact?: 'none' | 'minor' | 'major' | 'critical'; componentIds?: Array<string> }, ApiResponse<201, { id: string; pageId: string; title: string; status: 'investigating' | 'identified' | 'monitoring' | 'resolved'; impact: 'none' | 'minor' | 'major' | 'critical'; componentIds: Array<string>; updates: Array<{ id: string; status: 'investigating' | 'identified' | 'monitoring' | 'resolved'; message: string; at: string }>; createdAt: string; resolvedAt: unknown }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, { topic: 'STATUS_PAGE_POSTED'; data: { pageId: string; incidentId?: string; updateId?: string; noticeId?: string; workspaceId?: string } }>
+    'CreateSloAPI': ApiRouteHandler<{ name: string; monitorId: string; indicator: 'availability' | 'latency'; target: number; latencyThresholdMs?: unknown; windowDays?: unknown; burnRateRules?: Array<{ name: string; longWindowMinutes: unknown; shortWindowMinutes: unknown; burnRate: number; severity: 'WARNING' | 'CRITICAL' }> }, ApiResponse<201, { id: string; name: string; monitorId: string; indicator: 'availability' | 'latency'; target: number; latencyThresholdMs: unknown; windowDays: number; burnRateRules: Array<{ name: string; longWindowMinutes: number; shortWindowMinutes: number; burnRate: number; severity: 'WARNING' | 'CRITICAL' }>; createdAt: string }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'CreateSilenceAPI': ApiRouteHandler<{ monitorIds?: Array<string>; tags?: Array<string>; startsAt?: string; endsAt?: string; durationMinutes?: unknown; comment?: string; createdBy?: string }, ApiResponse<201, { id: string; monitorIds: Array<string>; tags: Array<string>; startsAt: string; endsAt: string; comment: unknown; createdBy: unknown; createdAt: string; active: boolean }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'CreateRotationOverrideAPI': ApiRouteHandler<{ participant: { name: string; channelId: string }; from: string; to: string }, ApiResponse<201, { id: string; name: string; type: 'daily' | 'weekly'; startsAt: string; participants: Array<{ name: string; channelId: string }>; overrides: Array<{ id: string; participant: { name: string; channelId: string }; from: string; to: string; createdAt: string }>; createdAt: string }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'CreateRotationAPI': ApiRouteHandler<{ name: string; type: 'daily' | 'weekly'; startsAt: string; participants: Array<{ name: string; channelId: string }> }, ApiResponse<201, { id: string; name: string; type: 'daily' | 'weekly'; startsAt: string; participants: Array<{ name: string; channelId: string }>; overrides: Array<{ id: string; participant: { name: string; channelId: string }; from: string; to: string; createdAt: string }>; createdAt: string }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'CreateMaintenanceWindowAPI': ApiRouteHandler<{ name: string; monitorIds?: Array<string>; tags?: Array<string>; startsAt?: string; endsAt?: string; cron?: string; durationMinutes?: unknown }, ApiResponse<201, { id: string; name: string; monitorIds: Array<string>; tags: Array<string>; startsAt: unknown; endsAt: unknown; cron: unknown; durationMinutes: unknown; createdAt: string; active: boolean; currentOccurrence: { start: string; end: string } | unknown }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'CreateEscalationPolicyAPI': ApiRouteHandler<{ name: string; levels: Array<{ targets: Array<{ rotationId?: string; channelId?: string }>; escalateAfterMinutes?: unknown }> }, ApiResponse<201, { id: string; name: string; levels: Array<{ targets: Array<{ rotationId?: string; channelId?: string }>; escalateAfterMinutes: number }>; createdAt: string }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'CreateChannelAPI': ApiRouteHandler<{ name: string; type: 'smtp' | 'email_api' | 'webhook' | 'slack' | 'discord' | 'teams' | 'events_api'; minSeverity?: 'WARNING' | 'CRITICAL'; sendRecovery?: boolean; rateLimit?: { max: unknown; windowMinutes: unknown } | unknown; monitorTags?: Array<string>; smtp?: { host: string; port?: unknown; secure?: boolean; startTls?: boolean; username?: string; password?: string; from: string; to: Array<string> }; emailApi?: { url: string; apiKey: string; from: string; to: Array<string> }; webhook?: { url: string; headers?: Record<string, string>; publicOnly?: boolean }; eventsApi?: { url?: string; routingKey: string }; id?: string }, ApiResponse<201, { id: string; name: string; type: 'smtp' | 'email_api' | 'webhook' | 'slack' | 'discord' | 'teams' | 'events_api'; minSeverity: 'WARNING' | 'CRITICAL'; sendRecovery: boolean; rateLimit: { max: unknown; windowMinutes: unknown } | unknown; monitorTags: Array<string>; smtp: { host: string; port?: unknown; secure?: boolean; startTls?: boolean; username?: string; password?: string; from: string; to: Array<string> } | unknown; emailApi: { url: string; apiKey: string; from: string; to: Array<string> } | unknown; webhook: { url: string; headers?: Record<string, string>; publicOnly?: boolean } | unknown; eventsApi: { url?: string; routingKey: string } | unknown; createdAt: string }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<409, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'CreateApiKeyAPI': ApiRouteHandler<{ name: string; scope: 'read' | 'write' | 'admin'; workspaceId?: string }, ApiResponse<201, { id: string; workspaceId: string; name: string; scope: 'read' | 'write' | 'admin'; createdAt: string; lastUsedAt: unknown; key: string }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'ConfirmStatusPageSubscriberAPI': ApiRouteHandler<Record<string, unknown>, ApiResponse<200, { confirmed: boolean }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'BulkMonitorsAPI': ApiRouteHandler<{ action: 'pause' | 'resume' | 'delete'; tags: Array<string>; dryRun?: boolean }, ApiResponse<200, { action: string; dryRun: boolean; count: number; monitorIds: Array<string> }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'ApplyConfigAPI': ApiRouteHandler<{ version?: number; channels?: Array<{ name: string; type: 'smtp' | 'email_api' | 'webhook' | 'slack' | 'discord' | 'teams' | 'events_api'; minSeverity?: 'WARNING' | 'CRITICAL'; sendRecovery?: boolean; rateLimit?: { max: unknown; windowMinutes: unknown } | unknown; monitorTags?: Array<string>; smtp?: { host: string; port?: unknown; secure?: boolean; startTls?: boolean; username?: string; password?: string; from: string; to: Array<string> }; emailApi?: { url: string; apiKey: string; from: string; to: Array<string> }; webhook?: { url: string; headers?: Record<string, string>; publicOnly?: boolean }; eventsApi?: { url?: string; routingKey: string }; id: string }>; monitors?: Array<{ type?: 'http' | 'tcp' | 'dns' | 'tls'; url?: string; tcp?: { host: string; port: unknown }; dns?: { hostname: string; recordType?: 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS'; expected?: Array<string>; resolver?: string }; tls?: { host: string; port?: unknown; warnDays?: unknown; criticalDays?: unknown }; name?: string; failureThreshold?: unknown; timeoutMs?: unknown; intervalSeconds?: unknown; method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS'; headers?: Record<string, string>; body?: string | Record<string, unknown>; assertions?: { expectedStatus?: Array<unknown | string>; bodyContains?: string; bodyRegex?: string; jsonPath?: Array<{ path: string; op?: 'exists' | 'notExists' | 'equals' | 'notEquals' | 'contains' | 'gt' | 'lt'; value?: unknown }>; maxLatencyMs?: unknown }; contentTracking?: { enabled: boolean; ignorePatterns?: Array<string>; severity?: 'WARNING' | 'CRITICAL' }; anomalyDetection?: { detector?: 'zscore' | 'robust' | 'ewma' | 'seasonal'; windowMinutes?: unknown; minSamples?: unknown; warningThreshold?: number; criticalThreshold?: number; consecutive?: unknown; ewmaAlpha?: number; seasonality?: 'hour_of_day' | 'hour_of_week'; seasonalPeriods?: unknown } | unknown; channels?: Array<string>; escalationPolicyId?: string | unknown; tags?: Array<string>; regions?: Array<string>; quorum?: unknown | unknown; id: string }> }, ApiResponse<200, { dryRun: boolean; changes: Array<{ kind: 'channel' | 'monitor'; id: string; action: 'create' | 'update' | 'delete'; fields?: Array<string> }>; unchanged: number }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
+    'AddStatusIncidentUpdateAPI': ApiRouteHandler<{ status: 'investigating' | 'identified' | 'monitoring' | 'resolved'; message: string; impact?: 'none' | 'minor' | 'major' | 'critical' }, ApiResponse<200, { id: string; pageId: string; title: string; status: 'investigating' | 'identified' | 'monitoring' | 'resolved'; impact: 'none' | 'minor' | 'major' | 'critical'; componentIds: Array<string>; updates: Array<{ id: string; status: 'investigating' | 'identified' | 'monitoring' | 'resolved'; message: string; at: string }>; createdAt: string; resolvedAt: unknown }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, { topic: 'STATUS_PAGE_POSTED'; data: { pageId: string; incidentId?: string; updateId?: string; noticeId?: string; workspaceId?: string } }>
+    'AcknowledgeIncidentAPI': ApiRouteHandler<{ by?: string; note?: string }, ApiResponse<200, { id: string; monitorId: string; status: 'open' | 'resolved'; startedAt: string; resolvedAt: unknown; durationSeconds: unknown; acknowledgedAt: unknown; acknowledgedBy: unknown; acknowledgedByKeyId?: unknown; timeline: Array<{ type: 'first_failure' | 'opened' | 'alert_sent' | 'alert_suppressed' | 'escalated' | 'acknowledged' | 'recovered'; at: string; message: string; details?: unknown }> }> | ApiResponse<400, { error: string; details?: unknown }> | ApiResponse<401, { error: string; details?: unknown }> | ApiResponse<403, { error: string; details?: unknown }> | ApiResponse<404, { error: string; details?: unknown }> | ApiResponse<409, { error: string; details?: unknown }> | ApiResponse<500, { error: string; details?: unknown }>, never>
   }
     
 }
\ No newline at end of file
@@ -3,8 +3,15 @@
 const form = document.getElementById('monitor-form');
 const urlInput = document.getElementById('url-input');
 const monitorsRoot = document.getElementById('monitors');
+const apiKeyInput = document.getElementById('api-key-input');
 
-const sseMap = new Map(); // monitorId -> EventSource
+// The API wants a key with write scope; it is kept in localStorage between visits
+apiKeyInput.value = localStorage.getItem('apiKey') || '';
+apiKeyInput.addEventListener('change', () => localStorage.setItem('apiKey', apiKeyInput.value.trim()));
+
+function apiKey(){
+  return apiKeyInput.value.trim();
+}
 
 form.addEventListener('submit', async (ev) => {
   ev.preventDefault();
@@ -28,7 +35,7 @@ form.addEventListener('submit', async (ev) => {
 async function createMonitor(url){
   const res = await fetch('http://localhost:3000/monitors', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey()}` },
     body: JSON.stringify({ url })
   });
   if (!res.ok) throw new Error('Network response not ok');
@@ -65,45 +72,57 @@ function renderMonitorCard(monitorId, url){
   monitorsRoot.prepend(card);
 }
 
-function startSSE(monitorId) {
-  if (sseMap.has(monitorId)) return;
+// One multiplexed stream for every card; reopened with the new id list when a card is added
+const watchedIds = new Set();
+let statusStream = null;
+let lastEventId = null;
 
-  const url = 'http://localhost:3000/status/' + encodeURIComponent(monitorId);
-  console.log('🔌 Opening SSE:', url);
+function startSSE(monitorId) {
+  if (watchedIds.has(monitorId)) return;
+  watchedIds.add(monitorId);
+
+  if (statusStream) statusStream.close();
+  const params = new URLSearchParams({ ids: [...watchedIds].join(',') });
+  // EventSource can't send an Authorization header, so the key goes in the query string
+  params.set('token', apiKey());
+  // a fresh EventSource doesn't send Last-Event-ID itself, so carry it over as a query param
+  if (lastEventId) params.set('lastEventId', lastEventId);
+  const url = 'http://localhost:3000/status/stream?' + params.toString();
+  console.log('🔌 Opening status stream for', watchedIds.size, 'monitors');
 
   const es = new EventSource(url);
 
   es.onopen = () => {
-    console.log('✅ SSE connection OPEN for', monitorId);
+    console.log('✅ Status stream OPEN for', watchedIds.size, 'monitors');
   };
 
-  es.onmessage = (ev) => {
-    console.log('📩 SSE message (default):', ev.data);
-  };
+  es.addEventListener('snapshot', (ev) => {
+    if (ev.lastEventId) lastEventId = ev.lastEventId;
+    try {
+      const { monitors } = JSON.parse(ev.data);
+      monitors.forEach((data) => updateMonitorCard(data.monitorId, data));
+    } catch (err) {
+      console.error('❌ Failed to parse snapshot:', err);
+    }
+  });
 
   es.addEventListener('status', (ev) => {
-    console.log('🔥 SSE STATUS EVENT:', ev.data);
+    lastEventId = ev.lastEventId;
     try {
       const data = JSON.parse(ev.data);
-      console.log('📊 Parsed data:', data);
-      
-      // Log the specific fields we're checking
-      console.log('  - success:', data.success, typeof data.success);
-      console.log('  - latency:', data.latency, typeof data.latency);
-      console.log('  - uptimePercent:', data.uptimePercent, typeof data.uptimePercent);
-      console.log('  - empty flag:', data.empty);
-      
-      updateMonitorCard(monitorId, data);
+      console.log('🔥 Status change:', data.monitorId, data.status);
+      updateMonitorCard(data.monitorId, data);
     } catch (err) {
-      console.error('❌ Failed to parse SSE data:', err);
+      console.error('❌ Failed to parse status event:', err);
     }
   });
 
   es.onerror = (err) => {
-    console.error('❌ SSE error for', monitorId, err, 'readyState=', es.readyState);
+    // EventSource reconnects on its own and resumes with Last-Event-ID
+    console.error('❌ Status stream error', err, 'readyState=', es.readyState);
   };
 
-  sseMap.set(monitorId, es);
+  statusStream = es;
 }
 
 function updateMonitorCard(monitorId, data){